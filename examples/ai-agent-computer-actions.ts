@@ -34,6 +34,7 @@ async function main() {
     console.log("\n📱 Creating LambdaTest cloud session...");
 
     const session = await client.sessions.create({
+        recordEvents: true,
         // LambdaTest Configuration
         lambdatestOptions: {
             build: 'AI Agent Demo',
@@ -38,6 +38,7 @@ async function main() {
 
     // Create LambdaTest cloud session with full options
     const session = await client.sessions.create({
+        recordEvents: true,
         // LambdaTest Configuration
         lambdatestOptions: {
             build: 'Full API Demo',
@@ -55,7 +55,8 @@ async function main() {
             profileId: profileId,
             stealth: true,
             dimensions: { width: 1280, height: 720 },
-            timeout: 300000
+            timeout: 300000,
+            recordEvents: true
         } : {
             // Local Browser Configuration
             local: true,
@@ -63,6 +64,7 @@ async function main() {
             stealth: true,
             dimensions: { width: 1280, height: 720 },
             timeout: 300000,
+            recordEvents: true,
             stealthConfig: {
                 humanizeInteractions: true
             }
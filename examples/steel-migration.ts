@@ -123,6 +123,7 @@ async function main() {
     const session2 = await client.sessions.create({
         profileId: profileId,
         stealth: true,
+        recordEvents: true,
         lambdatestOptions: {
             build: 'Steel Migration Demo',
             name: 'Session 2 - Verification',
@@ -3,5 +3,8 @@ module.exports = {
     testEnvironment: 'node',
     testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
     testPathIgnorePatterns: ['/node_modules/', '/tests/integration/'],
-    verbose: true
+    verbose: true,
+    moduleNameMapper: {
+        '^(\\.\\.?/.*)\\.js$': '$1',
+    },
 };
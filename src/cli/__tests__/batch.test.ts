@@ -0,0 +1,74 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { Command } from 'commander';
+import { addBatchOptions, executeBatch } from '../batch';
+import { parseCount } from '../options';
+
+describe('batch CLI options', () => {
+  function parse(...args: string[]) {
+    const command = addBatchOptions(new Command('screenshot').argument('[url]'), 'Screenshot')
+      .exitOverride()
+      .configureOutput({ writeErr: () => {} });
+    command.parse(args, { from: 'user' });
+    return command.opts();
+  }
+
+  it('parses counts to numbers with defaults', () => {
+    expect(parse('--input', 'urls.txt')).toEqual(expect.objectContaining({ concurrency: 4, retries: 2 }));
+    expect(parse('--concurrency', '8', '--retries', '0')).toEqual(expect.objectContaining({ concurrency: 8, retries: 0 }));
+  });
+
+  it('rejects counts that are not whole numbers in range', () => {
+    expect(() => parse('--concurrency', 'abc')).toThrow('Expected a whole number of at least 1.');
+    expect(() => parse('--concurrency', '0')).toThrow('Expected a whole number of at least 1.');
+    expect(() => parse('--retries', 'abc')).toThrow('Expected a whole number of at least 0.');
+    expect(() => parse('--retries', '1.5')).toThrow('Expected a whole number of at least 0.');
+    expect(() => parseCount(0)('-1')).toThrow('Expected a whole number of at least 0.');
+  });
+});
+
+describe('executeBatch', () => {
+  let dir: string;
+  let stderrSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-batch-'));
+    stderrSpy = jest.spyOn(process.stderr, 'write').mockImplementation();
+  });
+
+  afterEach(async () => {
+    stderrSpy.mockRestore();
+    await fs.remove(dir);
+  });
+
+  it('rejects --output together with --input', async () => {
+    const run = jest.fn();
+    await expect(executeBatch({ input: 'urls.txt', output: 'shot.png', outDir: dir }, run, () => ({ data: '', extension: 'png' })))
+      .rejects.toThrow('--output saves a single URL; use --out-dir with --input');
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('reports a result that cannot be written as failed and keeps going', async () => {
+    const urls = ['https://a.test/', 'https://b.test/'];
+    // A directory where the second result's file should go makes its write fail
+    await fs.ensureDir(path.join(dir, '2-b.test.txt'));
+
+    const summary = await executeBatch(
+      { input: 'urls.txt', outDir: dir, concurrency: 2, retries: 0 },
+      async (_browser, params) => {
+        const results = urls.map((url, index) => ({ url, index, result: `text of ${url}`, attempts: 1, duration: 1 }));
+        results.forEach((item, i) => params.onProgress!({ completed: i + 1, failed: 0, total: urls.length, item }));
+        return { results, succeeded: 2, failed: 0, duration: 2 };
+      },
+      (text: string) => ({ data: text, extension: 'txt' })
+    );
+
+    expect(summary).toEqual(expect.objectContaining({ succeeded: 1, failed: 1 }));
+    expect(summary.results[0]).toEqual(expect.objectContaining({ file: path.join(dir, '1-a.test.txt') }));
+    expect(summary.results[0].error).toBeUndefined();
+    expect(summary.results[1].file).toBeUndefined();
+    expect(summary.results[1].error).toContain('Cannot save result');
+    expect(await fs.readFile(path.join(dir, '1-a.test.txt'), 'utf8')).toBe('text of https://a.test/');
+  });
+});
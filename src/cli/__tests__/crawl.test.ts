@@ -0,0 +1,43 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { executeCrawl } from '../commands/crawl';
+
+const crawl = jest.fn();
+jest.mock('../../testmu-cloud/index', () => ({
+  Browser: jest.fn(() => ({ quick: { crawl } })),
+}));
+jest.mock('../config', () => ({
+  ConfigManager: jest.fn(() => ({ getCredentials: () => ({}) })),
+}));
+
+describe('executeCrawl', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-crawl-'));
+    crawl.mockReset();
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('writes each page as a line of JSON to --output', async () => {
+    crawl.mockImplementation(async function* () {
+      yield { url: 'https://a.com/', depth: 0 };
+      yield { url: 'https://a.com/b', depth: 1, error: 'timeout' };
+    });
+    const output = path.join(dir, 'pages.jsonl');
+
+    await expect(executeCrawl('https://a.com/', { output })).resolves.toEqual({ pages: 2, errors: 1 });
+    const lines = (await fs.readFile(output, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(page => page.url)).toEqual(['https://a.com/', 'https://a.com/b']);
+  });
+
+  it('rejects an output path that cannot be opened before crawling', async () => {
+    const output = path.join(dir, 'missing', 'pages.jsonl');
+    await expect(executeCrawl('https://a.com/', { output })).rejects.toThrow('ENOENT');
+    expect(crawl).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { Browser, BatchParams, BatchResponse } from '../testmu-cloud/index';
+import { ConfigManager } from './config';
+import { parseCount } from './options';
+
+/** `--input` mode of the screenshot, pdf and scrape commands */
+export interface BatchOptions {
+  input?: string;
+  outDir?: string;
+  concurrency?: number;
+  retries?: number;
+  /** The single-URL output file, which `--input` doesn't take */
+  output?: string;
+}
+
+export interface BatchSummary {
+  outDir: string;
+  succeeded: number;
+  failed: number;
+  duration: number;
+  results: { url: string; file?: string; error?: string; attempts: number }[];
+}
+
+/** Add the `--input` options to a quick-action command; `verb` describes the action, e.g. 'Screenshot' */
+export function addBatchOptions(command: any, verb: string): any {
+  return command
+    .option('--input <file>', `${verb} every URL in this file (one per line) instead of <url>`)
+    .option('--out-dir <dir>', 'Directory to write the --input results to', '.')
+    .option('--concurrency <n>', 'Pages loaded at once with --input', parseCount(1), 4)
+    .option('--retries <n>', 'Extra attempts for a failing URL with --input', parseCount(0), 2);
+}
+
+/**
+ * Output file for the `index`th URL: `007-example.com-docs-intro.png`, so
+ * a directory listing keeps input order.
+ */
+export function batchFileName(index: number, total: number, url: string, extension: string): string {
+  let slug: string;
+  try {
+    const parsed = new URL(url);
+    slug = parsed.host + parsed.pathname;
+  } catch {
+    slug = url;
+  }
+  slug = slug.toLowerCase().replace(/[^a-z0-9.]+/g, '-').replace(/^[-.]+|[-.]+$/g, '').slice(0, 80) || 'page';
+  return `${String(index + 1).padStart(String(total).length, '0')}-${slug}.${extension}`;
+}
+
+/**
+ * Run a batch quick action over the URLs in `options.input`, writing each
+ * result to `options.outDir` as it finishes and a progress line to stderr.
+ * A result that can't be written counts as failed.
+ */
+export async function executeBatch<T>(
+  options: BatchOptions,
+  run: (browser: Browser, params: BatchParams) => Promise<BatchResponse<T>>,
+  toFile: (result: T) => { data: Buffer | string; extension: string }
+): Promise<BatchSummary> {
+  if (options.output) throw new Error('--output saves a single URL; use --out-dir with --input');
+  const config = new ConfigManager();
+  const creds = config.getCredentials();
+  if (creds.username) process.env.LT_USERNAME = creds.username;
+  if (creds.accessKey) process.env.LT_ACCESS_KEY = creds.accessKey;
+
+  const outDir = options.outDir || '.';
+  await fs.ensureDir(outDir);
+  const files: string[] = [];
+  const writeErrors: string[] = [];
+
+  const browser = new Browser();
+  try {
+    const batch = await run(browser, {
+      urls: options.input!,
+      concurrency: options.concurrency,
+      retries: options.retries,
+      onProgress: ({ completed, total, item }) => {
+        const counter = `[${completed}/${total}]`;
+        if (item.error !== undefined) {
+          process.stderr.write(`${counter} ${item.url} failed after ${item.attempts} attempt(s): ${item.error}\n`);
+          return;
+        }
+        try {
+          const { data, extension } = toFile(item.result as T);
+          const file = path.join(outDir, batchFileName(item.index, total, item.url, extension));
+          fs.writeFileSync(file, data);
+          files[item.index] = file;
+          process.stderr.write(`${counter} ${item.url} -> ${file}\n`);
+        } catch (err) {
+          writeErrors[item.index] = `Cannot save result: ${err instanceof Error ? err.message : String(err)}`;
+          process.stderr.write(`${counter} ${item.url} failed: ${writeErrors[item.index]}\n`);
+        }
+      },
+    });
+
+    const unsaved = Object.keys(writeErrors).length;
+    return {
+      outDir,
+      succeeded: batch.succeeded - unsaved,
+      failed: batch.failed + unsaved,
+      duration: batch.duration,
+      results: batch.results.map(item => ({
+        url: item.url,
+        file: files[item.index],
+        error: writeErrors[item.index] ?? item.error,
+        attempts: item.attempts,
+      })),
+    };
+  } finally {
+    if (typeof (browser as any).close === 'function') {
+      await (browser as any).close();
+    } else if (typeof (browser as any).disconnect === 'function') {
+      await (browser as any).disconnect();
+    }
+  }
+}
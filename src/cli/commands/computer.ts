@@ -1,7 +1,7 @@
 import { Browser } from '../../testmu-cloud/index';
 import { Output } from '../output';
 import { ConfigManager } from '../config';
-import { ComputerActionType } from '../../testmu-cloud/types';
+import { ComputerActionType, Dimensions } from '../../testmu-cloud/types';
 import { getSessionPage, DEFAULT_CLIENT_ID } from '../page-manager';
 import fs from 'fs-extra';
 
@@ -11,10 +11,14 @@ async function executeComputerAction(
     session: string;
     x?: string;
     y?: string;
+    startX?: string;
+    startY?: string;
     text?: string;
+    duration?: string;
     deltaX?: string;
     deltaY?: string;
     output?: string;
+    display?: string;
   }
 ): Promise<void> {
   const config = new ConfigManager();
@@ -22,6 +26,8 @@ async function executeComputerAction(
   if (creds.username) process.env.LT_USERNAME = creds.username;
   if (creds.accessKey) process.env.LT_ACCESS_KEY = creds.accessKey;
 
+  const displaySize = options.display ? parseDisplaySize(options.display) : undefined;
+
   const browser = new Browser();
   const { page, cleanup } = await getSessionPage(options.session, { clientId: DEFAULT_CLIENT_ID });
 
@@ -35,9 +41,12 @@ async function executeComputerAction(
     result = await browser.sessions.computer(options.session, page, {
       action,
       coordinate: options.x && options.y ? [parseInt(options.x, 10), parseInt(options.y, 10)] : undefined,
+      startCoordinate: options.startX && options.startY ? [parseInt(options.startX, 10), parseInt(options.startY, 10)] : undefined,
       text: options.text,
+      duration: options.duration ? parseInt(options.duration, 10) : undefined,
       deltaX: options.deltaX ? parseInt(options.deltaX, 10) : undefined,
       deltaY: options.deltaY ? parseInt(options.deltaY, 10) : undefined,
+      displaySize,
     });
   } finally {
     await cleanup();
@@ -57,12 +66,26 @@ async function executeComputerAction(
   }
 }
 
+/**
+ * Parse a `--display` value such as "1280x800"
+ */
+function parseDisplaySize(value: string): Dimensions {
+  const match = /^(\d+)x(\d+)$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid --display "${value}". Use WIDTHxHEIGHT, e.g. 1280x800`);
+  }
+  return { width: parseInt(match[1], 10), height: parseInt(match[2], 10) };
+}
+
+const DISPLAY_OPTION_HELP = 'Coordinates are in this WIDTHxHEIGHT display (e.g. 1280x800) and are scaled to the page';
+
 export function registerComputerCommands(program: any): void {
   program
     .command('click <x> <y>')
     .description('Click at coordinates')
     .requiredOption('--session <id>', 'Session ID')
-    .action(async (x: string, y: string, options: { session: string }) => {
+    .option('--display <size>', DISPLAY_OPTION_HELP)
+    .action(async (x: string, y: string, options: { session: string; display?: string }) => {
       try {
         await executeComputerAction('click', { ...options, x, y });
       } catch (err) {
@@ -75,7 +98,8 @@ export function registerComputerCommands(program: any): void {
     .command('double-click <x> <y>')
     .description('Double-click at coordinates')
     .requiredOption('--session <id>', 'Session ID')
-    .action(async (x: string, y: string, options: { session: string }) => {
+    .option('--display <size>', DISPLAY_OPTION_HELP)
+    .action(async (x: string, y: string, options: { session: string; display?: string }) => {
       try {
         await executeComputerAction('double_click', { ...options, x, y });
       } catch (err) {
@@ -84,11 +108,26 @@ export function registerComputerCommands(program: any): void {
       }
     });
 
+  program
+    .command('triple-click <x> <y>')
+    .description('Triple-click at coordinates (selects a paragraph or line)')
+    .requiredOption('--session <id>', 'Session ID')
+    .option('--display <size>', DISPLAY_OPTION_HELP)
+    .action(async (x: string, y: string, options: { session: string; display?: string }) => {
+      try {
+        await executeComputerAction('triple_click', { ...options, x, y });
+      } catch (err) {
+        Output.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+    });
+
   program
     .command('right-click <x> <y>')
     .description('Right-click at coordinates')
     .requiredOption('--session <id>', 'Session ID')
-    .action(async (x: string, y: string, options: { session: string }) => {
+    .option('--display <size>', DISPLAY_OPTION_HELP)
+    .action(async (x: string, y: string, options: { session: string; display?: string }) => {
       try {
         await executeComputerAction('right_click', { ...options, x, y });
       } catch (err) {
@@ -112,7 +151,7 @@ export function registerComputerCommands(program: any): void {
 
   program
     .command('key <key>')
-    .description('Press a keyboard key (e.g., Enter, Escape, Tab)')
+    .description('Press a keyboard key or chord (e.g., Enter, Escape, ctrl+shift+t)')
     .requiredOption('--session <id>', 'Session ID')
     .action(async (key: string, options: { session: string }) => {
       try {
@@ -123,11 +162,26 @@ export function registerComputerCommands(program: any): void {
       }
     });
 
+  program
+    .command('hold-key <key>')
+    .description('Hold a key or chord down (e.g., shift, ctrl+alt)')
+    .requiredOption('--session <id>', 'Session ID')
+    .option('--duration <ms>', 'How long to hold the keys', '1000')
+    .action(async (key: string, options: { session: string; duration: string }) => {
+      try {
+        await executeComputerAction('hold_key', { ...options, text: key });
+      } catch (err) {
+        Output.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+    });
+
   program
     .command('scroll <deltaX> <deltaY>')
     .description('Scroll by delta amounts')
     .requiredOption('--session <id>', 'Session ID')
-    .action(async (deltaX: string, deltaY: string, options: { session: string }) => {
+    .option('--display <size>', 'Deltas are in this WIDTHxHEIGHT display (e.g. 1280x800) and are scaled to the page')
+    .action(async (deltaX: string, deltaY: string, options: { session: string; display?: string }) => {
       try {
         await executeComputerAction('scroll', { ...options, deltaX, deltaY });
       } catch (err) {
@@ -140,7 +194,8 @@ export function registerComputerCommands(program: any): void {
     .command('move <x> <y>')
     .description('Move mouse to coordinates')
     .requiredOption('--session <id>', 'Session ID')
-    .action(async (x: string, y: string, options: { session: string }) => {
+    .option('--display <size>', DISPLAY_OPTION_HELP)
+    .action(async (x: string, y: string, options: { session: string; display?: string }) => {
       try {
         await executeComputerAction('move', { ...options, x, y });
       } catch (err) {
@@ -149,12 +204,55 @@ export function registerComputerCommands(program: any): void {
       }
     });
 
+  program
+    .command('drag <x1> <y1> <x2> <y2>')
+    .description('Drag with the left button from (x1, y1) to (x2, y2); HTML5 drag-and-drop aware')
+    .requiredOption('--session <id>', 'Session ID')
+    .option('--display <size>', DISPLAY_OPTION_HELP)
+    .action(async (x1: string, y1: string, x2: string, y2: string, options: { session: string; display?: string }) => {
+      try {
+        await executeComputerAction('drag', { ...options, startX: x1, startY: y1, x: x2, y: y2 });
+      } catch (err) {
+        Output.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('mouse-down [x] [y]')
+    .description('Press the left mouse button, optionally moving to coordinates first')
+    .requiredOption('--session <id>', 'Session ID')
+    .option('--display <size>', DISPLAY_OPTION_HELP)
+    .action(async (x: string | undefined, y: string | undefined, options: { session: string; display?: string }) => {
+      try {
+        await executeComputerAction('mouse_down', { ...options, x, y });
+      } catch (err) {
+        Output.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('mouse-up [x] [y]')
+    .description('Release the left mouse button, optionally moving to coordinates first')
+    .requiredOption('--session <id>', 'Session ID')
+    .option('--display <size>', DISPLAY_OPTION_HELP)
+    .action(async (x: string | undefined, y: string | undefined, options: { session: string; display?: string }) => {
+      try {
+        await executeComputerAction('mouse_up', { ...options, x, y });
+      } catch (err) {
+        Output.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+    });
+
   program
     .command('computer-screenshot')
     .description('Take a screenshot of the current session')
     .requiredOption('--session <id>', 'Session ID')
     .option('--output <path>', 'Save screenshot to file')
-    .action(async (options: { session: string; output?: string }) => {
+    .option('--display <size>', 'Resize the screenshot to this WIDTHxHEIGHT display (e.g. 1280x800)')
+    .action(async (options: { session: string; output?: string; display?: string }) => {
       try {
         await executeComputerAction('screenshot', options);
       } catch (err) {
@@ -0,0 +1,117 @@
+import { Browser } from '../../testmu-cloud/index';
+import { Output } from '../output';
+import { ConfigManager } from '../config';
+import fs from 'fs-extra';
+import { parseCount } from '../options';
+
+interface CrawlOptions {
+  maxPages?: number;
+  maxDepth?: number;
+  include?: string[];
+  exclude?: string[];
+  allOrigins?: boolean;
+  concurrency?: number;
+  ignoreRobots?: boolean;
+  format?: 'markdown' | 'html' | 'text' | 'readability';
+  waitFor?: string;
+  delay?: number;
+  output?: string;
+}
+
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/** Open `file` for writing, settling once it exists or failed to open */
+function openOutput(file: string): Promise<fs.WriteStream> {
+  return new Promise((resolve, reject) => {
+    const stream = fs.createWriteStream(file);
+    stream.once('open', () => {
+      stream.off('error', reject);
+      resolve(stream);
+    });
+    stream.once('error', reject);
+  });
+}
+
+/**
+ * Crawl from `url` and write one JSON page per line, to `--output` or stdout.
+ */
+export async function executeCrawl(
+  url: string,
+  options: CrawlOptions
+): Promise<{ pages: number; errors: number }> {
+  // Open the file before crawling so a bad path fails fast instead of after the first page
+  const file = options.output ? await openOutput(options.output) : null;
+  let writeError: Error | null = null;
+  file?.on('error', err => { writeError = err; });
+  const out = file || process.stdout;
+
+  const config = new ConfigManager();
+  const creds = config.getCredentials();
+  if (creds.username) process.env.LT_USERNAME = creds.username;
+  if (creds.accessKey) process.env.LT_ACCESS_KEY = creds.accessKey;
+
+  const browser = new Browser();
+  let pages = 0;
+  let errors = 0;
+  try {
+    for await (const page of browser.quick.crawl({
+      startUrl: url,
+      maxPages: options.maxPages,
+      maxDepth: options.maxDepth,
+      includePatterns: options.include,
+      excludePatterns: options.exclude,
+      sameOrigin: !options.allOrigins,
+      concurrency: options.concurrency,
+      respectRobotsTxt: !options.ignoreRobots,
+      format: options.format || 'markdown',
+      waitFor: options.waitFor,
+      delay: options.delay,
+    })) {
+      pages++;
+      if (page.error) errors++;
+      if (writeError) throw writeError;
+      out.write(JSON.stringify(page) + '\n');
+    }
+  } finally {
+    if (file) {
+      await new Promise(resolve => file.end(resolve));
+    }
+    if (typeof (browser as any).close === 'function') {
+      await (browser as any).close();
+    } else if (typeof (browser as any).disconnect === 'function') {
+      await (browser as any).disconnect();
+    }
+  }
+  // The last lines are flushed by end(), so a failed write may only show up now
+  if (writeError) throw writeError;
+  return { pages, errors };
+}
+
+export function registerCrawlCommand(program: any): void {
+  program
+    .command('crawl <url>')
+    .description('Crawl a site from a URL and write each page as a line of JSON (JSONL)')
+    .option('--max-pages <n>', 'Stop after this many pages', parseCount(1), 50)
+    .option('--max-depth <n>', 'Link hops to follow from the start URL', parseCount(0), 2)
+    .option('--include <pattern>', 'Only follow URLs matching this glob or substring (repeatable)', collect)
+    .option('--exclude <pattern>', 'Never follow URLs matching this glob or substring (repeatable)', collect)
+    .option('--all-origins', 'Follow links to other origins too')
+    .option('--concurrency <n>', 'Pages loaded at once', parseCount(1), 2)
+    .option('--ignore-robots', 'Crawl URLs that robots.txt disallows')
+    .option('--format <format>', 'Page content format: markdown, html, text, readability', 'markdown')
+    .option('--wait-for <selector>', 'CSS selector to wait for on each page')
+    .option('--delay <ms>', 'Delay in ms before scraping each page', parseCount(0))
+    .option('--output <path>', 'Write the JSONL to this file instead of stdout')
+    .action(async (url: string, options: CrawlOptions) => {
+      try {
+        const summary = await executeCrawl(url, options);
+        // Stdout is the JSONL itself unless it went to a file
+        if (options.output) Output.success({ ...summary, output: options.output });
+      } catch (err) {
+        Output.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+    });
+}
@@ -1,23 +1,34 @@
 import { Browser } from '../../testmu-cloud/index';
+import fs from 'fs-extra';
 import { Output } from '../output';
 import { ConfigManager } from '../config';
-import { getSessionStore } from '../page-manager';
+import { getSessionStore, SESSIONS_DIR } from '../page-manager';
 
 function getBrowser(): Browser {
   const config = new ConfigManager();
   const creds = config.getCredentials();
   if (creds.username) process.env.LT_USERNAME = creds.username;
   if (creds.accessKey) process.env.LT_ACCESS_KEY = creds.accessKey;
-  return new Browser();
+  return new Browser({ sessionStore: getSessionStore(), eventsDir: SESSIONS_DIR });
 }
 
 export function registerEventsCommand(program: any): void {
   program
     .command('events <sessionId>')
     .description('Get recorded events for a session')
-    .action((sessionId: string) => {
+    .option('--replay <path>', 'Write a self-contained HTML replay of the recording to this path')
+    .action(async (sessionId: string, options: { replay?: string }) => {
       try {
         const browser = getBrowser();
+        if (options.replay) {
+          const html = browser.sessions.exportReplay(sessionId);
+          await fs.writeFile(options.replay, html);
+          Output.success({
+            message: `Replay saved to ${options.replay}`,
+            eventCount: browser.sessions.events(sessionId).length,
+          });
+          return;
+        }
         const events = browser.sessions.events(sessionId);
         Output.success(events);
       } catch (err) {
@@ -32,39 +43,8 @@ export function registerEventsCommand(program: any): void {
     .action(async (sessionId: string) => {
       try {
         const browser = getBrowser();
-        let details = await browser.sessions.liveDetails(sessionId);
-
-        // Bug #9 fix: cross-process fallback — if SDK returns null (session
-        // not in this process's memory), build structured details from disk.
-        if (!details) {
-          const store = getSessionStore();
-          const session = await store.get(sessionId);
-          if (session) {
-            // Strip credentials from WebSocket URL
-            let safeWsUrl = session.websocketUrl;
-            try {
-              const parsed = new URL(session.websocketUrl);
-              parsed.username = '';
-              parsed.password = '';
-              safeWsUrl = parsed.toString();
-            } catch { /* not a valid URL — return as-is */ }
-
-            details = {
-              pages: [{
-                id: 'page_0',
-                url: 'about:blank',
-                title: 'Browser Tab',
-                favicon: null,
-                sessionViewerUrl: (session as any).sessionViewerUrl || (session as any).debugUrl || '',
-                sessionViewerFullscreenUrl: (session as any).sessionViewerUrl || (session as any).debugUrl || '',
-              }],
-              wsUrl: safeWsUrl,
-              sessionViewerUrl: (session as any).sessionViewerUrl || (session as any).debugUrl || '',
-              sessionViewerFullscreenUrl: (session as any).sessionViewerUrl || (session as any).debugUrl || '',
-            };
-          }
-        }
-
+        // Disk-backed session store resolves sessions created by other CLI processes (bug #9 fix)
+        const details = await browser.sessions.liveDetails(sessionId);
         Output.success(details);
       } catch (err) {
         Output.error(err instanceof Error ? err.message : String(err));
@@ -0,0 +1,70 @@
+import { Browser } from '../../testmu-cloud/index';
+import { Output } from '../output';
+import { ConfigManager } from '../config';
+import fs from 'fs-extra';
+
+interface ExtractOptions {
+  schema: string;
+  waitFor?: string;
+  delay?: string;
+  strict?: boolean;
+}
+
+/** `--schema` is inline JSON or the path of a JSON file */
+async function loadSchema(value: string): Promise<any> {
+  const text = value.trim().startsWith('{') ? value : await fs.readFile(value, 'utf8');
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid --schema JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+export async function executeExtract(
+  url: string,
+  options: ExtractOptions
+): Promise<{ success: boolean; data: any }> {
+  const config = new ConfigManager();
+  const creds = config.getCredentials();
+  if (creds.username) process.env.LT_USERNAME = creds.username;
+  if (creds.accessKey) process.env.LT_ACCESS_KEY = creds.accessKey;
+
+  const schema = await loadSchema(options.schema);
+  const browser = new Browser();
+  try {
+    const result = await browser.quick.extract({
+      url,
+      schema,
+      waitFor: options.waitFor,
+      delay: options.delay ? parseInt(options.delay, 10) : undefined,
+    });
+
+    return { success: true, data: result };
+  } finally {
+    if (typeof (browser as any).close === 'function') {
+      await (browser as any).close();
+    } else if (typeof (browser as any).disconnect === 'function') {
+      await (browser as any).disconnect();
+    }
+  }
+}
+
+export function registerExtractCommand(program: any): void {
+  program
+    .command('extract <url>')
+    .description('Extract structured data from a webpage using a JSON Schema or field→selector rules')
+    .requiredOption('--schema <json|file>', 'JSON Schema or {"field": "selector"} map, inline or as a file path')
+    .option('--wait-for <selector>', 'CSS selector to wait for before extracting')
+    .option('--delay <ms>', 'Delay in ms before extracting')
+    .option('--strict', 'Exit with code 1 when any field has an error')
+    .action(async (url: string, options: ExtractOptions) => {
+      try {
+        const result = await executeExtract(url, options);
+        Output.success(result.data);
+        if (options.strict && !result.data.valid) process.exitCode = 1;
+      } catch (err) {
+        Output.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+    });
+}
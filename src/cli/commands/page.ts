@@ -1,15 +1,28 @@
 import { Command } from 'commander';
 import { Output } from '../output';
-import { getSessionPage, createPageService, resolveSessionId, savePreviousSnapshot, loadPreviousSnapshot, savePageState, DEFAULT_CLIENT_ID } from '../page-manager';
-import { NetworkService } from '../../testmu-cloud/services/network-service';
+import { getSessionPage, createPageService, resolveSessionId, savePreviousSnapshot, loadPreviousSnapshot, savePageState, DEFAULT_CLIENT_ID, saveHarState, loadHarState, loadHarEntries, saveNetworkConditions, getNetworkService, loadRoutes, saveRoutes, saveWebSocketCapture, isWebSocketCaptureEnabled, saveActiveTab, saveDialogPolicy, loadDialogPolicy, loadDialogLog, clearDialogLog, answerDialog } from '../page-manager';
+import { NetworkConditions, NetworkConditionsPreset, isUnthrottled, RouteSpec, WebSocketLogFilter } from '../../testmu-cloud/services/network-service';
+import { ConsoleService, ConsoleEntryKind } from '../../testmu-cloud/services/console-service';
+import { ComputerService } from '../../testmu-cloud/services/computer-service';
+import { DialogAction } from '../../testmu-cloud/types';
+import { createHar } from '../../testmu-cloud/utils/har';
+import { TabInfo } from '../../testmu-cloud/utils/tabs';
+import { WaitTimeoutError } from '../../testmu-cloud/utils/wait';
+import { AssertionSpec, runAssertion } from '../../testmu-cloud/services/page-assertions';
+import fs from 'fs-extra';
+import path from 'path';
 
 async function withSession(options: any, fn: (pageService: any, browserPage: any) => Promise<any>) {
     const sessionId = await resolveSessionId(options.session);
     const clientId: string | undefined = options.clientId ?? DEFAULT_CLIENT_ID;
-    const { page: browserPage, cleanup } = await getSessionPage(sessionId, {
+    const { page: browserPage, dialogQueued, cleanup } = await getSessionPage(sessionId, {
         noAutoNavigate: options.noAutoNavigate,
         clientId,
     });
+    // The command can't finish until the queued dialog is answered from another shell
+    dialogQueued.then(entry => {
+        process.stderr.write(`Dialog ${entry.id} waiting: ${entry.type} "${entry.message}". Answer with 'page dialog accept|dismiss'.\n`);
+    });
     const { pageService } = createPageService();
     pageService.bind(browserPage, sessionId);
     pageService.setClientId(clientId!);
@@ -31,6 +44,10 @@ export function registerPageCommand(program: Command): void {
         .option('--session <id>', 'Session ID')
         .option('--compact', 'Token-efficient text output')
         .option('--max-elements <n>', 'Max refs to assign (default: 500)')
+        .option('--scope <scope>', 'viewport (elements on screen only) or full (default: full)')
+        .option('--interactive-only', 'Only buttons, links, form fields and other interactive elements')
+        .option('--root <selector>', 'Snapshot only the element matching this CSS selector (e.g. a dialog)')
+        .option('--max-tokens <n>', 'Approximate token budget; visible, interactive elements are kept first')
         .option('--diff', 'Show changes since last snapshot')
         .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
         .action(async (options: any) => {
@@ -38,9 +55,16 @@ export function registerPageCommand(program: Command): void {
             try {
                 await withSession(options, async (pageService, browserPage) => {
                     const sessionId = await resolveSessionId(options.session);
+                    if (options.scope && options.scope !== 'viewport' && options.scope !== 'full') {
+                        throw new Error(`Invalid --scope "${options.scope}". Use viewport or full.`);
+                    }
                     const snapshotOpts = {
                         compact: options.compact,
                         maxElements: options.maxElements ? parseInt(options.maxElements) : undefined,
+                        scope: options.scope,
+                        interactiveOnly: options.interactiveOnly,
+                        rootSelector: options.root,
+                        maxTokens: options.maxTokens ? parseInt(options.maxTokens) : undefined,
                     };
                     if (options.diff) {
                         // Load previous snapshot from disk for cross-process diff support
@@ -72,6 +96,41 @@ export function registerPageCommand(program: Command): void {
             }
         });
 
+    // =================== Screenshot ===================
+    page
+        .command('screenshot')
+        .description('Screenshot the current page; --annotate labels each element with its @ref')
+        .option('--session <id>', 'Session ID')
+        .option('--annotate', 'Draw a numbered box over each @ref (takes a fresh snapshot) and print the ref → box legend')
+        .option('--full-page', 'Capture the whole page instead of the viewport')
+        .option('--interactive-only', 'With --annotate: only mark buttons, links, form fields and other interactive elements')
+        .option('--max-elements <n>', 'With --annotate: max refs to mark (default: 500)')
+        .option('--output <path>', 'Save the PNG to this file instead of printing it base64-encoded')
+        .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
+        .action(async (options: any) => {
+            try {
+                await withSession(options, async (ps, bp) => {
+                    let result: any;
+                    if (options.annotate) {
+                        // Refs are saved like a snapshot's, so later commands resolve the marked @refs
+                        result = await ps.screenshotAnnotated(bp, {
+                            fullPage: options.fullPage,
+                            interactiveOnly: options.interactiveOnly,
+                            maxElements: options.maxElements ? parseInt(options.maxElements) : undefined,
+                        });
+                    } else {
+                        result = { base64Image: await new ComputerService().screenshot(bp, options.fullPage || false) };
+                    }
+                    if (options.output) {
+                        await fs.writeFile(options.output, Buffer.from(result.base64Image, 'base64'));
+                        Output.success({ message: `Screenshot saved to ${options.output}`, ...result, base64Image: undefined });
+                    } else {
+                        Output.success(result);
+                    }
+                });
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
     // =================== Navigation ===================
     async function navigateAction(url: string, options: any): Promise<void> {
         try {
@@ -123,12 +182,178 @@ export function registerPageCommand(program: Command): void {
             } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
         });
 
-    page.command('wait <selectorOrMs>').description('Wait for element or milliseconds').option('--session <id>', 'Session ID')
+    page.command('wait [selectorOrMs]').description('Wait for an element, text, URL, network idle, a JS predicate or a stable page (or sleep for ms)')
+        .option('--session <id>', 'Session ID')
+        .option('--state <state>', 'Element state: attached, visible, hidden, detached or enabled (default: visible)')
+        .option('--text <text>', 'Wait for text to appear in the page')
+        .option('--text-gone <text>', 'Wait for text to disappear from the page')
+        .option('--url <pattern>', 'Wait for the URL to match a glob (e.g. "**/checkout/**") or substring')
+        .option('--network-idle', 'Wait until no requests are in flight for --idle-time ms')
+        .option('--idle-time <ms>', 'Quiet period for --network-idle (default: 500)')
+        .option('--fn <expression>', 'JS expression polled until truthy (requires --allow-unsafe)')
+        .option('--allow-unsafe', 'Allow the --fn predicate to run arbitrary JS')
+        .option('--stable', 'Wait until the snapshot is unchanged for --stable-polls polls')
+        .option('--stable-polls <n>', 'Unchanged polls that count as stable (default: 3)')
+        .option('--timeout <ms>', 'Max wait time (default: 30000)')
+        .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
+        .action(async (selectorOrMs: string | undefined, options: any) => {
+            try {
+                // A bare number is a fixed sleep, as before conditions existed
+                if (selectorOrMs && /^\d+$/.test(selectorOrMs)) {
+                    await withSession(options, async (ps, bp) => { await ps.wait(bp, parseInt(selectorOrMs)); Output.success({ waited: selectorOrMs }); });
+                    return;
+                }
+                await withSession(options, async (ps, bp) => {
+                    Output.success(await ps.waitFor(bp, {
+                        selector: selectorOrMs,
+                        state: options.state,
+                        text: options.text,
+                        textGone: options.textGone,
+                        url: options.url,
+                        networkIdle: options.networkIdle,
+                        idleTime: options.idleTime ? parseInt(options.idleTime) : undefined,
+                        fn: options.fn,
+                        allowUnsafe: options.allowUnsafe,
+                        stable: options.stable,
+                        stablePolls: options.stablePolls ? parseInt(options.stablePolls) : undefined,
+                        timeout: options.timeout ? parseInt(options.timeout) : undefined,
+                    }));
+                });
+            } catch (err) {
+                if (err instanceof WaitTimeoutError) Output.error(err.message, { condition: err.condition, timeout: err.timeout, elapsed: err.elapsed, lastState: err.lastState });
+                else Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err));
+                process.exit(1);
+            }
+        });
+
+    // =================== Tabs ===================
+    const tab = page.command('tab').description('List, open, switch and close tabs');
+
+    // The tab a command leaves active is where this client's later commands run
+    async function rememberTab(options: any, active: TabInfo | null): Promise<void> {
+        const sessionId = await resolveSessionId(options.session);
+        const clientId: string = options.clientId ?? DEFAULT_CLIENT_ID;
+        await saveActiveTab(sessionId, active?.id ?? null, clientId, active?.url);
+        if (active) await savePageState(sessionId, active.url, clientId);
+    }
+
+    tab.command('list').description('List open tabs; the active one is where page commands run').option('--session <id>', 'Session ID')
+        .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
+        .action(async (options: any) => {
+            try {
+                await withSession(options, async (ps, bp) => Output.success(await ps.listTabs(bp)));
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    tab.command('new [url]').description('Open a tab (optionally at a URL) and make it active').option('--session <id>', 'Session ID')
         .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
-        .action(async (selectorOrMs: string, options: any) => {
+        .action(async (url: string | undefined, options: any) => {
             try {
-                const value = /^\d+$/.test(selectorOrMs) ? parseInt(selectorOrMs) : selectorOrMs;
-                await withSession(options, async (ps, bp) => { await ps.wait(bp, value); Output.success({ waited: selectorOrMs }); });
+                await withSession(options, async (ps, bp) => {
+                    const { tab: opened } = await ps.newTab(bp, url);
+                    await rememberTab(options, opened);
+                    Output.success(opened);
+                });
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    tab.command('switch <id>').description('Make a tab active (ID from tab list)').option('--session <id>', 'Session ID')
+        .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
+        .action(async (id: string, options: any) => {
+            try {
+                await withSession(options, async (ps, bp) => {
+                    const { tab: active } = await ps.switchTab(bp, id);
+                    await rememberTab(options, active);
+                    Output.success(active);
+                });
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    tab.command('close [id]').description('Close a tab (default: the active one)').option('--session <id>', 'Session ID')
+        .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
+        .action(async (id: string | undefined, options: any) => {
+            try {
+                await withSession(options, async (ps, bp) => {
+                    const { closed, tab: active } = await ps.closeTab(bp, id);
+                    await rememberTab(options, active);
+                    Output.success({ closed, active });
+                });
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    tab.command('popup').description('Wait for a popup opened by the active tab and make it active').option('--session <id>', 'Session ID')
+        .option('--click <selector>', 'Click this @ref or CSS selector to open the popup')
+        .option('--timeout <ms>', 'How long to wait for the popup', '30000')
+        .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
+        .action(async (options: any) => {
+            try {
+                await withSession(options, async (ps, bp) => {
+                    const { tab: popup } = await ps.waitForPopup(bp, { click: options.click, timeout: parseInt(options.timeout) });
+                    await rememberTab(options, popup);
+                    Output.success(popup);
+                });
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    // =================== Dialogs ===================
+    const dialog = page.command('dialog').description('Answer alert/confirm/prompt dialogs and view the dialog log');
+
+    dialog.command('policy [action]').description('Show or set how dialogs are answered: accept, dismiss (default) or queue')
+        .option('--session <id>', 'Session ID')
+        .option('--prompt-text <text>', 'Text entered into prompt() dialogs when accepting')
+        .option('--timeout <ms>', 'Queue only: how long a dialog waits for an answer before it is dismissed', '30000')
+        .action(async (action: string | undefined, options: any) => {
+            try {
+                const sessionId = await resolveSessionId(options.session);
+                if (!action) {
+                    Output.success(await loadDialogPolicy(sessionId) ?? { action: 'dismiss' });
+                    return;
+                }
+                if (!['accept', 'dismiss', 'queue'].includes(action)) {
+                    throw new Error(`Invalid dialog action "${action}". Use accept, dismiss or queue.`);
+                }
+                const policy = {
+                    action: action as DialogAction,
+                    ...(options.promptText !== undefined ? { promptText: options.promptText } : {}),
+                    ...(action === 'queue' ? { timeout: parseInt(options.timeout) } : {}),
+                };
+                await saveDialogPolicy(sessionId, action === 'dismiss' && !options.promptText ? null : policy);
+                Output.success(policy);
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    dialog.command('accept').description('Accept the oldest queued dialog').option('--session <id>', 'Session ID')
+        .option('--prompt-text <text>', 'Text for a prompt() dialog (default: its default value)')
+        .option('--id <id>', 'Dialog ID from dialog log (default: the oldest waiting)')
+        .action(async (options: any) => {
+            try {
+                const sessionId = await resolveSessionId(options.session);
+                Output.success(await answerDialog(sessionId, { accept: true, promptText: options.promptText, id: options.id }));
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    dialog.command('dismiss').description('Dismiss the oldest queued dialog').option('--session <id>', 'Session ID')
+        .option('--id <id>', 'Dialog ID from dialog log (default: the oldest waiting)')
+        .action(async (options: any) => {
+            try {
+                const sessionId = await resolveSessionId(options.session);
+                Output.success(await answerDialog(sessionId, { accept: false, id: options.id }));
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    dialog.command('log').description('Show dialogs opened in this session, oldest first').option('--session <id>', 'Session ID')
+        .option('--pending', 'Only dialogs waiting for an answer')
+        .option('--clear', 'Clear the log')
+        .action(async (options: any) => {
+            try {
+                const sessionId = await resolveSessionId(options.session);
+                if (options.clear) {
+                    await clearDialogLog(sessionId);
+                    Output.success({ cleared: true });
+                    return;
+                }
+                const entries = await loadDialogLog(sessionId);
+                Output.success(options.pending ? entries.filter(entry => entry.status === 'pending') : entries);
             } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
         });
 
@@ -181,7 +406,15 @@ export function registerPageCommand(program: Command): void {
             } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
         });
 
-    page.command('press <key>').description('Press keyboard key').option('--session <id>', 'Session ID')
+    page.command('drag <source> <target>').description('Drag an element onto another by @ref or CSS selector (HTML5 drag-and-drop aware)').option('--session <id>', 'Session ID')
+        .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
+        .action(async (source: string, target: string, options: any) => {
+            try {
+                await withSession(options, async (ps, bp) => { await ps.drag(bp, source, target); Output.success({ dragged: source, to: target }); });
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    page.command('press <key>').description('Press keyboard key or chord (e.g. Enter, Control+A, ctrl+shift+t)').option('--session <id>', 'Session ID')
         .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
         .action(async (key: string, options: any) => {
             try {
@@ -267,6 +500,59 @@ export function registerPageCommand(program: Command): void {
             } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
         });
 
+    // =================== Assertions ===================
+    const assert = page.command('assert').description('Assert element or page state, retrying until it holds or --timeout runs out (exits 1 on failure)');
+
+    function assertCommand(spec: string, description: string): Command {
+        return assert.command(spec).description(description)
+            .option('--session <id>', 'Session ID')
+            .option('--not', 'Pass when the assertion does not hold')
+            .option('--timeout <ms>', 'How long to retry before failing (default: 5000)')
+            .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)');
+    }
+
+    async function runAssert(options: any, selector: string | undefined, spec: Omit<AssertionSpec, 'not' | 'timeout'>): Promise<void> {
+        try {
+            await withSession(options, async (ps, bp) => {
+                const result = await runAssertion(ps.expect(bp, selector), {
+                    ...spec,
+                    not: options.not,
+                    timeout: options.timeout ? parseInt(options.timeout) : undefined,
+                });
+                if (!result.pass) {
+                    Output.error(result.message, result);
+                    process.exitCode = 1;
+                    return;
+                }
+                Output.success(result);
+            });
+        } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+    }
+
+    assertCommand('text <selector> <expected>', 'Assert an element\'s text (whitespace-collapsed) equals expected')
+        .option('--contains', 'Pass when the text contains expected')
+        .option('--regex', 'Treat expected as a regular expression')
+        .action((selector: string, expected: string, options: any) =>
+            runAssert(options, selector, { assertion: 'text', expected, contains: options.contains, regex: options.regex }));
+
+    assertCommand('value <selector> <expected>', 'Assert a form field\'s value equals expected')
+        .option('--regex', 'Treat expected as a regular expression')
+        .action((selector: string, expected: string, options: any) =>
+            runAssert(options, selector, { assertion: 'value', expected, regex: options.regex }));
+
+    assertCommand('visible <selector>', 'Assert an element is visible')
+        .action((selector: string, options: any) => runAssert(options, selector, { assertion: 'visible' }));
+
+    assertCommand('checked <selector>', 'Assert a checkbox or radio button is checked')
+        .action((selector: string, options: any) => runAssert(options, selector, { assertion: 'checked' }));
+
+    assertCommand('count <selector> <n>', 'Assert how many elements match selector')
+        .action((selector: string, n: string, options: any) => runAssert(options, selector, { assertion: 'count', expected: n }));
+
+    assertCommand('url <expected>', 'Assert the page URL matches a glob (e.g. "**/checkout/**") or contains expected')
+        .option('--regex', 'Treat expected as a regular expression')
+        .action((expected: string, options: any) => runAssert(options, undefined, { assertion: 'url', expected, regex: options.regex }));
+
     // =================== Find ===================
     const find = page.command('find').description('Find elements by role, text, or label');
 
@@ -307,32 +593,106 @@ export function registerPageCommand(program: Command): void {
             } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
         });
 
+    // =================== Console ===================
+    page.command('console').description('Get console messages, uncaught page errors and failed requests').option('--session <id>', 'Session ID')
+        .option('--level <levels>', 'Comma-separated console levels (log, info, warn, error, debug)')
+        .option('--kind <kinds>', 'Comma-separated: console, pageerror, requestfailed')
+        .option('--text <text>', 'Only entries whose text contains this')
+        .option('--since <ms>', 'Only entries at or after this timestamp (ms since epoch)')
+        .option('--wait <ms>', 'Keep listening this long for new entries (failed requests are only seen while listening)', '0')
+        .option('--clear', 'Discard the browser-side console buffer after reading')
+        .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
+        .action(async (options: any) => {
+            try {
+                const sessionId = await resolveSessionId(options.session);
+                const { page: bp, cleanup } = await getSessionPage(sessionId);
+                try {
+                    // Fresh service per command: attaching replays what the browser kept since page load
+                    const consoleService = new ConsoleService();
+                    await consoleService.attach(bp, sessionId);
+                    const waitMs = parseInt(options.wait);
+                    if (waitMs > 0) await new Promise(resolve => setTimeout(resolve, waitMs));
+                    const logs = consoleService.getLogs(sessionId, {
+                        ...(options.level ? { level: options.level.split(',') } : {}),
+                        ...(options.kind ? { kind: options.kind.split(',') as ConsoleEntryKind[] } : {}),
+                        ...(options.text !== undefined ? { text: options.text } : {}),
+                        ...(options.since ? { since: parseInt(options.since) } : {}),
+                    });
+                    if (options.clear) await consoleService.clear(sessionId, bp);
+                    consoleService.clearSession(sessionId);
+                    Output.success(logs);
+                } finally { await cleanup(); }
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
     // =================== Network ===================
     const network = page.command('network').description('Network request control');
-    const networkService = new NetworkService();
+    // Shared with page-manager so per-session network state (throttling, routes, HAR, WebSocket logs) uses the same clients and log directory
+    const networkService = getNetworkService();
 
-    network.command('block <pattern>').description('Block requests matching URL pattern').option('--session <id>', 'Session ID')
+    network.command('block <pattern>').description('Block requests matching URL (substring or glob like **.ads.com/**)').option('--session <id>', 'Session ID')
         .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
         .action(async (pattern: string, options: any) => {
             try {
                 const sessionId = await resolveSessionId(options.session);
                 const { page: bp, cleanup } = await getSessionPage(sessionId);
                 try {
-                    await networkService.block(bp, sessionId, pattern);
-                    Output.success({ blocked: pattern });
+                    const id = await networkService.block(bp, sessionId, pattern);
+                    await saveRoutes(sessionId, [...await loadRoutes(sessionId), { id, kind: 'block', spec: { url: pattern } }]);
+                    Output.success({ id, blocked: pattern });
                 } finally { await cleanup(); }
             } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
         });
 
-    network.command('mock <url> <responseBody>').description('Mock URL with custom response').option('--session <id>', 'Session ID').option('--status <code>', 'HTTP status code', '200')
+    network.command('mock <url> <responseBody>').description('Mock URL (substring or glob like **/api/*) with custom response').option('--session <id>', 'Session ID').option('--status <code>', 'HTTP status code', '200')
+        .option('--content-type <type>', 'Response Content-Type', 'application/json')
+        .option('--method <methods>', 'Only match these HTTP methods (comma-separated)')
+        .option('--resource-type <types>', 'Only match these resource types (comma-separated, e.g. xhr,fetch)')
+        .option('--priority <n>', 'Higher priority routes are tried first', '0')
         .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
         .action(async (url: string, responseBody: string, options: any) => {
             try {
                 const sessionId = await resolveSessionId(options.session);
                 const { page: bp, cleanup } = await getSessionPage(sessionId);
                 try {
-                    await networkService.mock(bp, sessionId, url, { status: parseInt(options.status), body: responseBody });
-                    Output.success({ mocked: url, status: parseInt(options.status) });
+                    const spec: RouteSpec & { url: string } = {
+                        url,
+                        ...(options.method ? { method: options.method.split(',') } : {}),
+                        ...(options.resourceType ? { resourceType: options.resourceType.split(',') } : {}),
+                        priority: parseInt(options.priority),
+                    };
+                    const response = { status: parseInt(options.status), body: responseBody, contentType: options.contentType };
+                    const id = await networkService.mock(bp, sessionId, spec, response);
+                    await saveRoutes(sessionId, [...await loadRoutes(sessionId), { id, kind: 'mock', spec, response }]);
+                    Output.success({ id, mocked: url, status: response.status });
+                } finally { await cleanup(); }
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    network.command('routes').description('List active block/mock routes in the order they are tried').option('--session <id>', 'Session ID')
+        .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
+        .action(async (options: any) => {
+            try {
+                const sessionId = await resolveSessionId(options.session);
+                const { cleanup } = await getSessionPage(sessionId);
+                try {
+                    Output.success({ routes: networkService.listRoutes(sessionId) });
+                } finally { await cleanup(); }
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    network.command('unroute <idOrPattern>').description('Remove a route by ID, or all routes with this URL pattern').option('--session <id>', 'Session ID')
+        .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
+        .action(async (idOrPattern: string, options: any) => {
+            try {
+                const sessionId = await resolveSessionId(options.session);
+                const { page: bp, cleanup } = await getSessionPage(sessionId);
+                try {
+                    const removed = await networkService.unroute(bp, sessionId, idOrPattern);
+                    const routes = await loadRoutes(sessionId);
+                    await saveRoutes(sessionId, routes.filter(r => r.id !== idOrPattern && r.spec.url !== idOrPattern));
+                    if (removed === 0) throw new Error(`No route matches "${idOrPattern}"`);
+                    Output.success({ removed });
                 } finally { await cleanup(); }
             } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
         });
@@ -363,4 +723,154 @@ export function registerPageCommand(program: Command): void {
                 Output.success(logs);
             } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
         });
+
+    network.command('throttle [preset]').description('Emulate network conditions: slow-3g, fast-3g, offline, no-throttling, or custom values').option('--session <id>', 'Session ID')
+        .option('--download <kbps>', 'Download throughput in kbps')
+        .option('--upload <kbps>', 'Upload throughput in kbps')
+        .option('--latency <ms>', 'Added latency in ms')
+        .option('--offline', 'Go offline')
+        .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
+        .action(async (preset: string | undefined, options: any) => {
+            try {
+                const custom: NetworkConditions = {
+                    ...(options.download !== undefined ? { downloadKbps: parseFloat(options.download) } : {}),
+                    ...(options.upload !== undefined ? { uploadKbps: parseFloat(options.upload) } : {}),
+                    ...(options.latency !== undefined ? { latencyMs: parseFloat(options.latency) } : {}),
+                    ...(options.offline ? { offline: true } : {}),
+                };
+                if (!preset && Object.keys(custom).length === 0) {
+                    throw new Error('Pass a preset (slow-3g, fast-3g, offline, no-throttling) or --download/--upload/--latency/--offline.');
+                }
+                const sessionId = await resolveSessionId(options.session);
+                const { page: bp, cleanup } = await getSessionPage(sessionId);
+                try {
+                    const conditions = await networkService.emulateConditions(bp, sessionId, (preset as NetworkConditionsPreset) || custom);
+                    // Persisted so the following commands on this session stay throttled
+                    await saveNetworkConditions(sessionId, isUnthrottled(conditions) ? null : conditions);
+                    Output.success({ conditions });
+                } finally { await cleanup(); }
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    // HAR state lives in the session directory, so recording and replay span the page commands run in between
+    const har = network.command('har').description('Record traffic to a HAR file or replay responses from one');
+
+    har.command('start <path>').description('Record traffic of subsequent page commands; written to <path> on stop').option('--session <id>', 'Session ID')
+        .action(async (harPath: string, options: any) => {
+            try {
+                const sessionId = await resolveSessionId(options.session);
+                const current = await loadHarState(sessionId);
+                if (current) throw new Error(`HAR ${current.mode} already active for session ${sessionId} (${current.path}). Run 'page network har stop' first.`);
+                const outputPath = path.resolve(harPath);
+                await saveHarState(sessionId, { mode: 'record', path: outputPath, startedAt: new Date().toISOString() });
+                Output.success({ recording: outputPath });
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    har.command('stop').description('Stop HAR recording (writes the file) or HAR replay').option('--session <id>', 'Session ID')
+        .action(async (options: any) => {
+            try {
+                const sessionId = await resolveSessionId(options.session);
+                const current = await loadHarState(sessionId);
+                if (!current) throw new Error(`No HAR recording or replay active for session ${sessionId}.`);
+                if (current.mode === 'record') {
+                    const entries = await loadHarEntries(sessionId);
+                    await fs.writeJson(current.path, createHar(entries), { spaces: 2 });
+                    await saveHarState(sessionId, null);
+                    Output.success({ saved: current.path, entries: entries.length });
+                } else {
+                    await saveHarState(sessionId, null);
+                    Output.success({ replayStopped: current.path });
+                }
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    har.command('replay <path>').description('Serve responses of subsequent page commands from a HAR file').option('--session <id>', 'Session ID')
+        .option('--not-found <mode>', 'Requests missing from the HAR: abort or fallback (go to network)', 'abort')
+        .action(async (harPath: string, options: any) => {
+            try {
+                if (options.notFound !== 'abort' && options.notFound !== 'fallback') {
+                    throw new Error(`Invalid --not-found "${options.notFound}". Use abort or fallback.`);
+                }
+                const sessionId = await resolveSessionId(options.session);
+                const current = await loadHarState(sessionId);
+                if (current?.mode === 'record') throw new Error(`HAR recording active for session ${sessionId}. Run 'page network har stop' first.`);
+                const sourcePath = path.resolve(harPath);
+                const data = await fs.readJson(sourcePath).catch(() => null);
+                if (!data?.log?.entries) throw new Error(`Not a HAR file: ${sourcePath}`);
+                await saveHarState(sessionId, { mode: 'replay', path: sourcePath, notFound: options.notFound, startedAt: new Date().toISOString() });
+                Output.success({ replaying: sourcePath, entries: data.log.entries.length, notFound: options.notFound });
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    // Frames are captured while a command is connected to the session; use `ws logs --wait` to listen for more
+    const ws = network.command('ws').description('Capture WebSocket frames and Server-Sent Events');
+
+    ws.command('start').description('Capture WebSocket/SSE traffic from now on').option('--session <id>', 'Session ID')
+        .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
+        .action(async (options: any) => {
+            try {
+                const sessionId = await resolveSessionId(options.session);
+                await saveWebSocketCapture(sessionId, true);
+                // Connect once so an unreachable session fails here rather than on the next command
+                const { cleanup } = await getSessionPage(sessionId);
+                await cleanup();
+                Output.success({ capturing: true });
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    ws.command('stop').description('Stop capturing for subsequent commands (captured logs are kept)').option('--session <id>', 'Session ID')
+        .action(async (options: any) => {
+            try {
+                const sessionId = await resolveSessionId(options.session);
+                await saveWebSocketCapture(sessionId, false);
+                Output.success({ capturing: false });
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    ws.command('logs').description('Get captured WebSocket frames and SSE messages').option('--session <id>', 'Session ID')
+        .option('--url <pattern>', 'Filter by connection URL (substring or glob)')
+        .option('--transport <transport>', 'websocket or eventsource')
+        .option('--type <types>', 'Comma-separated: connecting, open, sent, received, error, close')
+        .option('--contains <text>', 'Only frames whose payload contains text')
+        .option('--connection <id>', 'Only entries of one connection')
+        .option('--since <ms>', 'Only entries at or after this timestamp (ms since epoch)')
+        .option('--wait <ms>', 'Stay connected this long to capture more traffic first', '0')
+        .option('--client-id <id>', 'Client ID for session isolation (default: auto-generated from PID)')
+        .action(async (options: any) => {
+            try {
+                if (options.transport && options.transport !== 'websocket' && options.transport !== 'eventsource') {
+                    throw new Error(`Invalid --transport "${options.transport}". Use websocket or eventsource.`);
+                }
+                const sessionId = await resolveSessionId(options.session);
+                if (!await isWebSocketCaptureEnabled(sessionId)) {
+                    throw new Error(`WebSocket capture is not active for session ${sessionId}. Run 'page network ws start' first.`);
+                }
+                const waitMs = parseInt(options.wait);
+                if (waitMs > 0) {
+                    const { cleanup } = await getSessionPage(sessionId);
+                    try {
+                        await new Promise(resolve => setTimeout(resolve, waitMs));
+                    } finally { await cleanup(); }
+                }
+                const filter: WebSocketLogFilter = {
+                    ...(options.url ? { url: options.url } : {}),
+                    ...(options.transport ? { transport: options.transport } : {}),
+                    ...(options.type ? { type: options.type.split(',') } : {}),
+                    ...(options.contains !== undefined ? { contains: options.contains } : {}),
+                    ...(options.connection ? { connectionId: options.connection } : {}),
+                    ...(options.since ? { since: parseInt(options.since) } : {}),
+                };
+                Output.success(networkService.getWebSocketLogs(sessionId, filter));
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
+
+    ws.command('clear').description('Delete captured WebSocket/SSE logs').option('--session <id>', 'Session ID')
+        .action(async (options: any) => {
+            try {
+                const sessionId = await resolveSessionId(options.session);
+                networkService.clearWebSocketLogs(sessionId);
+                Output.success({ cleared: true });
+            } catch (err) { Output.error(err instanceof Error ? err.message : (err as any)?.message || JSON.stringify(err)); process.exit(1); }
+        });
 }
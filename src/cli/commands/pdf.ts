@@ -1,9 +1,10 @@
 import { Browser } from '../../testmu-cloud/index';
 import { Output } from '../output';
 import { ConfigManager } from '../config';
+import { addBatchOptions, BatchOptions, BatchSummary, executeBatch } from '../batch';
 import fs from 'fs-extra';
 
-interface PdfOptions {
+interface PdfOptions extends BatchOptions {
   format?: 'A4' | 'Letter' | 'Legal';
   landscape?: boolean;
   output?: string;
@@ -41,16 +42,40 @@ export async function executePdf(url: string, options: PdfOptions): Promise<void
   }
 }
 
+/**
+ * Print every URL in `options.input` to a PDF in `options.outDir`
+ */
+export async function executePdfMany(options: PdfOptions): Promise<BatchSummary> {
+  return executeBatch(
+    options,
+    (browser, params) => browser.quick.pdfMany({
+      ...params,
+      format: options.format || 'A4',
+      landscape: options.landscape,
+    }),
+    result => ({ data: result.data, extension: 'pdf' })
+  );
+}
+
 export function registerPdfCommand(program: any): void {
-  program
-    .command('pdf <url>')
-    .description('Generate PDF of a webpage')
+  const command = program
+    .command('pdf [url]')
+    .description('Generate PDF of a webpage, or of every URL in a file with --input')
     .option('--format <format>', 'Page format: A4, Letter, Legal', 'A4')
     .option('--landscape', 'Use landscape orientation')
-    .option('--output <path>', 'Save to file path')
-    .action(async (url: string, options: PdfOptions) => {
+    .option('--output <path>', 'Save to file path');
+  addBatchOptions(command, 'Print')
+    .action(async (url: string | undefined, options: PdfOptions) => {
       try {
-        await executePdf(url, options);
+        if (options.input) {
+          const summary = await executePdfMany(options);
+          Output.success(summary);
+          if (summary.failed > 0) process.exitCode = 1;
+        } else if (url) {
+          await executePdf(url, options);
+        } else {
+          throw new Error('Pass a URL, or --input with a file of URLs');
+        }
       } catch (err) {
         Output.error(err instanceof Error ? err.message : String(err));
         process.exit(1);
@@ -1,8 +1,9 @@
 import { Browser } from '../../testmu-cloud/index';
 import { Output } from '../output';
 import { ConfigManager } from '../config';
+import { addBatchOptions, BatchOptions, BatchSummary, executeBatch } from '../batch';
 
-interface ScrapeOptions {
+interface ScrapeOptions extends BatchOptions {
   format?: 'markdown' | 'html' | 'text' | 'readability';
   waitFor?: string;
   delay?: string;
@@ -36,17 +37,46 @@ export async function executeScrape(
   }
 }
 
+const SCRAPE_EXTENSIONS = { markdown: 'md', readability: 'md', text: 'txt', html: 'html' };
+
+/**
+ * Scrape every URL in `options.input` into a file per page in
+ * `options.outDir`, Markdown for the markdown and readability formats
+ */
+export async function executeScrapeMany(options: ScrapeOptions): Promise<BatchSummary> {
+  const format = options.format || 'markdown';
+  return executeBatch(
+    options,
+    (browser, params) => browser.quick.scrapeMany({
+      ...params,
+      format,
+      waitFor: options.waitFor,
+      delay: options.delay ? parseInt(options.delay, 10) : undefined,
+    }),
+    result => ({ data: result.markdown ?? result.html ?? result.content, extension: SCRAPE_EXTENSIONS[format] })
+  );
+}
+
 export function registerScrapeCommand(program: any): void {
-  program
-    .command('scrape <url>')
-    .description('Scrape a webpage and return its content')
+  const command = program
+    .command('scrape [url]')
+    .description('Scrape a webpage and return its content, or save every URL in a file with --input')
     .option('--format <format>', 'Output format: markdown, html, text, readability', 'markdown')
     .option('--wait-for <selector>', 'CSS selector to wait for before scraping')
-    .option('--delay <ms>', 'Delay in ms before scraping')
-    .action(async (url: string, options: ScrapeOptions) => {
+    .option('--delay <ms>', 'Delay in ms before scraping');
+  addBatchOptions(command, 'Scrape')
+    .action(async (url: string | undefined, options: ScrapeOptions) => {
       try {
-        const result = await executeScrape(url, options);
-        Output.success(result.data);
+        if (options.input) {
+          const summary = await executeScrapeMany(options);
+          Output.success(summary);
+          if (summary.failed > 0) process.exitCode = 1;
+        } else if (url) {
+          const result = await executeScrape(url, options);
+          Output.success(result.data);
+        } else {
+          throw new Error('Pass a URL, or --input with a file of URLs');
+        }
       } catch (err) {
         Output.error(err instanceof Error ? err.message : String(err));
         process.exit(1);
@@ -1,9 +1,10 @@
 import { Browser } from '../../testmu-cloud/index';
 import { Output } from '../output';
 import { ConfigManager } from '../config';
+import { addBatchOptions, BatchOptions, BatchSummary, executeBatch } from '../batch';
 import fs from 'fs-extra';
 
-interface ScreenshotOptions {
+interface ScreenshotOptions extends BatchOptions {
   fullPage?: boolean;
   format?: 'png' | 'jpeg' | 'webp';
   output?: string;
@@ -50,17 +51,43 @@ export async function executeScreenshot(
   }
 }
 
+/**
+ * Screenshot every URL in `options.input` into `options.outDir`
+ */
+export async function executeScreenshotMany(options: ScreenshotOptions): Promise<BatchSummary> {
+  const format = options.format || 'png';
+  return executeBatch(
+    options,
+    (browser, params) => browser.quick.screenshotMany({
+      ...params,
+      fullPage: options.fullPage ?? false,
+      format,
+      quality: options.quality ? parseInt(options.quality, 10) : undefined,
+    }),
+    result => ({ data: result.data, extension: format === 'jpeg' ? 'jpg' : format })
+  );
+}
+
 export function registerScreenshotCommand(program: any): void {
-  program
-    .command('screenshot <url>')
-    .description('Take a screenshot of a webpage')
+  const command = program
+    .command('screenshot [url]')
+    .description('Take a screenshot of a webpage, or of every URL in a file with --input')
     .option('--full-page', 'Capture full page')
     .option('--format <format>', 'Image format: png, jpeg, webp', 'png')
     .option('--output <path>', 'Save to file path')
-    .option('--quality <quality>', 'JPEG quality (0-100)')
-    .action(async (url: string, options: ScreenshotOptions) => {
+    .option('--quality <quality>', 'JPEG quality (0-100)');
+  addBatchOptions(command, 'Screenshot')
+    .action(async (url: string | undefined, options: ScreenshotOptions) => {
       try {
-        await executeScreenshot(url, options);
+        if (options.input) {
+          const summary = await executeScreenshotMany(options);
+          Output.success(summary);
+          if (summary.failed > 0) process.exitCode = 1;
+        } else if (url) {
+          await executeScreenshot(url, options);
+        } else {
+          throw new Error('Pass a URL, or --input with a file of URLs');
+        }
       } catch (err) {
         Output.error(err instanceof Error ? err.message : String(err));
         process.exit(1);
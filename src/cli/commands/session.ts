@@ -3,7 +3,7 @@ import { Output } from '../output';
 import { ConfigManager } from '../config';
 import { BrowserAdapter, Session, ReleaseResponse } from '../../testmu-cloud/types';
 import fs from 'fs-extra';
-import { getSessionStore } from '../page-manager';
+import { getSessionStore, SESSIONS_DIR } from '../page-manager';
 
 let browserInstance: Browser | null = null;
 
@@ -13,7 +13,8 @@ function getBrowser(): Browser {
     const creds = config.getCredentials();
     if (creds.username) process.env.LT_USERNAME = creds.username;
     if (creds.accessKey) process.env.LT_ACCESS_KEY = creds.accessKey;
-    browserInstance = new Browser();
+    // Disk-backed store so sessions are visible and releasable across CLI processes
+    browserInstance = new Browser({ sessionStore: getSessionStore(), eventsDir: SESSIONS_DIR });
   }
   return browserInstance;
 }
@@ -39,6 +40,7 @@ interface SessionCreateOptions {
   build?: string;
   name?: string;
   local?: boolean;
+  record?: boolean;
 }
 
 export async function executeSessionCreate(options: SessionCreateOptions): Promise<Session> {
@@ -92,40 +94,33 @@ export async function executeSessionCreate(options: SessionCreateOptions): Promi
     sessionContext,
     credentials: options.credentials ? {} : undefined,
     lambdatestOptions: Object.keys(lambdatestOptions).length > 0 ? lambdatestOptions : undefined,
+    recordEvents: options.record || undefined,
   });
 
-  // Persist session to disk for cross-process CLI usage (page commands)
-  const store = getSessionStore();
-  await store.save(session);
-
+  // Session is persisted to disk by the SDK's session store (cross-process page commands)
   return session;
 }
 
 export async function executeSessionList(): Promise<Session[]> {
-  // Read from disk store for cross-process visibility (bug #1 fix)
-  const store = getSessionStore();
-  return store.list();
+  // Backed by the disk store for cross-process visibility (bug #1 fix)
+  return getBrowser().sessions.listAsync();
 }
 
 export async function executeSessionInfo(id: string): Promise<Session | null> {
-  // Read from disk store for cross-process visibility (bug #2 fix)
-  const store = getSessionStore();
-  return store.get(id);
+  // Backed by the disk store for cross-process visibility (bug #2 fix)
+  return (await getBrowser().sessions.retrieveAsync(id)) || null;
 }
 
 export async function executeSessionRelease(id: string): Promise<ReleaseResponse> {
   const store = getSessionStore();
   const diskSession = await store.get(id);
 
-  // Try in-memory SDK release first (same-process case)
+  // SDK release re-attaches to sessions created by another CLI process,
+  // kills local Chrome via its PID file and removes the disk entry.
   const browser = getBrowser();
   const result = await browser.sessions.release(id);
 
-  // Kill local Chrome process BEFORE deleting disk session (cross-process cleanup)
-  const { LocalBrowserService } = await import('../../testmu-cloud/services/local-browser-service');
-  await LocalBrowserService.killFromPidFile(id);
-
-  // Now clean up disk persistence
+  // Remove stale entries (e.g. non-live sessions the SDK refuses to attach to)
   await store.delete(id);
 
   // Bug #6 fix: normalize response — if SDK says success but nested payload
@@ -143,14 +138,8 @@ export async function executeSessionReleaseAll(): Promise<ReleaseResponse> {
   const browser = getBrowser();
   const result = await browser.sessions.releaseAll();
 
-  // Kill all local Chrome processes BEFORE deleting disk sessions
+  // Sweep anything left behind (released/failed entries are not listed by the store)
   const store = getSessionStore();
-  const { LocalBrowserService } = await import('../../testmu-cloud/services/local-browser-service');
-  const sessions = await store.list();
-  for (const session of sessions) {
-    await LocalBrowserService.killFromPidFile(session.id);
-  }
-
   await store.deleteAll();
   return result;
 }
@@ -181,6 +170,7 @@ export function registerSessionCommand(program: any): void {
     .option('--build <name>', 'Build name for LambdaTest dashboard')
     .option('--name <name>', 'Session name for LambdaTest dashboard')
     .option('--local', 'Launch local Chrome instead of cloud')
+    .option('--record', 'Record pages with rrweb for `events` and replay export')
     .action(async (options: SessionCreateOptions) => {
       try {
         const session = await executeSessionCreate(options);
@@ -4,6 +4,8 @@ import { Command } from 'commander';
 import { Output } from './output';
 import { executeSetup } from './commands/setup';
 import { registerScrapeCommand } from './commands/scrape';
+import { registerCrawlCommand } from './commands/crawl';
+import { registerExtractCommand } from './commands/extract';
 import { registerScreenshotCommand } from './commands/screenshot';
 import { registerPdfCommand } from './commands/pdf';
 import { registerSessionCommand } from './commands/session';
@@ -50,6 +52,8 @@ program
 
 // Quick Actions
 registerScrapeCommand(program);
+registerCrawlCommand(program);
+registerExtractCommand(program);
 registerScreenshotCommand(program);
 registerPdfCommand(program);
 
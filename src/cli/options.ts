@@ -0,0 +1,15 @@
+import { InvalidArgumentError } from 'commander';
+
+/**
+ * Commander argument parser for a whole-number option of at least `min`,
+ * so `--concurrency abc` fails up front instead of running as NaN.
+ */
+export function parseCount(min: number): (value: string) => number {
+  return (value: string) => {
+    const count = Number(value);
+    if (!/^\d+$/.test(value.trim()) || count < min) {
+      throw new InvalidArgumentError(`Expected a whole number of at least ${min}.`);
+    }
+    return count;
+  };
+}
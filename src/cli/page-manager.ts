@@ -1,8 +1,14 @@
-import puppeteer from 'puppeteer-core';
+import puppeteer, { Page } from 'puppeteer-core';
 import { DiskSessionStore } from '../testmu-cloud/stores/disk-session-store';
 import { DiskRefStore } from '../testmu-cloud/stores/disk-ref-store';
 import { PageService } from '../testmu-cloud/services/page-service';
 import { SnapshotService } from '../testmu-cloud/services/snapshot-service';
+import { EventsService } from '../testmu-cloud/services/events-service';
+import { NetworkService, NetworkConditions, RouteSpec } from '../testmu-cloud/services/network-service';
+import { DialogService, DialogEntry, DialogResponse } from '../testmu-cloud/services/dialog-service';
+import { DialogPolicy } from '../testmu-cloud/types';
+import { HarEntry } from '../testmu-cloud/utils/har';
+import { findPageByTabId } from '../testmu-cloud/utils/tabs';
 import { ConfigManager } from './config';
 import path from 'path';
 import os from 'os';
@@ -18,7 +24,7 @@ function sanitizeId(id: string): string {
     return id.replace(/[^a-zA-Z0-9_.-]/g, '_');
 }
 
-const SESSIONS_DIR = path.join(os.homedir(), '.testmuai', 'sessions');
+export const SESSIONS_DIR = path.join(os.homedir(), '.testmuai', 'sessions');
 
 // Stable client ID for CLI — scopes ref and snapshot files to avoid cross-agent interference
 export const DEFAULT_CLIENT_ID = 'cli';
@@ -27,6 +33,9 @@ export const DEFAULT_CLIENT_ID = 'cli';
 let sessionStoreInstance: DiskSessionStore | null = null;
 let refStoreInstance: DiskRefStore | null = null;
 let pageServiceInstance: { pageService: PageService, snapshotService: SnapshotService } | null = null;
+let eventsServiceInstance: EventsService | null = null;
+let networkServiceInstance: NetworkService | null = null;
+let dialogServiceInstance: DialogService | null = null;
 
 export function getSessionStore(): DiskSessionStore {
     if (!sessionStoreInstance) {
@@ -42,6 +51,30 @@ export function getRefStore(): DiskRefStore {
     return refStoreInstance;
 }
 
+/** Disk-backed recordings — events streamed by one command are read by `events` in another. */
+export function getEventsService(): EventsService {
+    if (!eventsServiceInstance) {
+        eventsServiceInstance = new EventsService({ dir: SESSIONS_DIR });
+    }
+    return eventsServiceInstance;
+}
+
+/** NetworkService used for HAR recording/replay that spans CLI commands. */
+export function getNetworkService(): NetworkService {
+    if (!networkServiceInstance) {
+        networkServiceInstance = new NetworkService({ dir: SESSIONS_DIR });
+    }
+    return networkServiceInstance;
+}
+
+/** DialogService answering the dialogs of this process's connections with the persisted policy. */
+export function getDialogService(): DialogService {
+    if (!dialogServiceInstance) {
+        dialogServiceInstance = new DialogService();
+    }
+    return dialogServiceInstance;
+}
+
 export function createPageService(): { pageService: PageService, snapshotService: SnapshotService } {
     if (!pageServiceInstance) {
         const refStore = getRefStore();
@@ -112,6 +145,397 @@ async function loadPageState(sessionId: string, clientId?: string): Promise<stri
     }
 }
 
+function activeTabFileName(clientId?: string): string {
+    return clientId ? `active-tab.${sanitizeClientId(clientId)}.json` : 'active-tab.json';
+}
+
+/**
+ * Remember the tab this client works in (set by `page tab new/switch/close/popup`),
+ * so the next CLI process reconnects to that tab. Pass null to forget it. `url`
+ * finds the tab again when its positional id (non-Chromium) has shifted.
+ */
+export async function saveActiveTab(sessionId: string, tabId: string | null, clientId?: string, url?: string): Promise<void> {
+    const dir = path.join(SESSIONS_DIR, sanitizeId(sessionId));
+    const filePath = path.join(dir, activeTabFileName(clientId));
+    if (!tabId) {
+        await fs.remove(filePath);
+        return;
+    }
+    await fs.ensureDir(dir);
+    await fs.writeFile(filePath, JSON.stringify({ tabId, url, timestamp: Date.now() }), { mode: 0o600 });
+}
+
+async function loadActiveTab(sessionId: string, clientId?: string): Promise<{ tabId: string, url?: string } | null> {
+    const filePath = path.join(SESSIONS_DIR, sanitizeId(sessionId), activeTabFileName(clientId));
+    if (!await fs.pathExists(filePath)) return null;
+    try {
+        const data = await fs.readJson(filePath);
+        return data.tabId ? { tabId: data.tabId, url: data.url } : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * HAR mode for a session, persisted so it spans CLI commands. While recording,
+ * every command captures its connection's traffic into har-entries.jsonl;
+ * while replaying, every command serves responses from the HAR file.
+ */
+export interface HarState {
+    mode: 'record' | 'replay';
+    /** Output path (record) or source HAR file (replay) */
+    path: string;
+    notFound?: 'abort' | 'fallback';
+    startedAt: string;
+}
+
+export async function saveHarState(sessionId: string, state: HarState | null): Promise<void> {
+    const dir = path.join(SESSIONS_DIR, sanitizeId(sessionId));
+    const filePath = path.join(dir, 'har-state.json');
+    if (!state) {
+        await fs.remove(filePath);
+        await fs.remove(path.join(dir, 'har-entries.jsonl'));
+        return;
+    }
+    await fs.ensureDir(dir);
+    const tmpPath = path.join(dir, `har-state.${process.pid}.tmp`);
+    await fs.writeFile(tmpPath, JSON.stringify(state), { mode: 0o600 });
+    await fs.move(tmpPath, filePath, { overwrite: true });
+}
+
+export async function loadHarState(sessionId: string): Promise<HarState | null> {
+    const filePath = path.join(SESSIONS_DIR, sanitizeId(sessionId), 'har-state.json');
+    if (!await fs.pathExists(filePath)) return null;
+    try {
+        return await fs.readJson(filePath);
+    } catch {
+        return null;
+    }
+}
+
+/** HAR entries captured so far by the commands run since `har start`. */
+export async function loadHarEntries(sessionId: string): Promise<HarEntry[]> {
+    const filePath = path.join(SESSIONS_DIR, sanitizeId(sessionId), 'har-entries.jsonl');
+    if (!await fs.pathExists(filePath)) return [];
+    const content = await fs.readFile(filePath, 'utf-8');
+    return content.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+async function appendHarEntries(sessionId: string, entries: HarEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const dir = path.join(SESSIONS_DIR, sanitizeId(sessionId));
+    await fs.ensureDir(dir);
+    await fs.appendFile(path.join(dir, 'har-entries.jsonl'), entries.map(e => JSON.stringify(e)).join('\n') + '\n', { mode: 0o600 });
+}
+
+/**
+ * Persist emulated network conditions so every later command on the session is throttled too.
+ * Pass null to go back to an unthrottled network.
+ */
+export async function saveNetworkConditions(sessionId: string, conditions: NetworkConditions | null): Promise<void> {
+    const dir = path.join(SESSIONS_DIR, sanitizeId(sessionId));
+    const filePath = path.join(dir, 'network-conditions.json');
+    if (!conditions) {
+        await fs.remove(filePath);
+        return;
+    }
+    await fs.ensureDir(dir);
+    await fs.writeFile(filePath, JSON.stringify(conditions), { mode: 0o600 });
+}
+
+export async function loadNetworkConditions(sessionId: string): Promise<NetworkConditions | null> {
+    const filePath = path.join(SESSIONS_DIR, sanitizeId(sessionId), 'network-conditions.json');
+    if (!await fs.pathExists(filePath)) return null;
+    try {
+        return await fs.readJson(filePath);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Turn WebSocket/SSE capture on or off for every later command on the session.
+ * Turning it off keeps the logs captured so far.
+ */
+export async function saveWebSocketCapture(sessionId: string, enabled: boolean): Promise<void> {
+    const dir = path.join(SESSIONS_DIR, sanitizeId(sessionId));
+    const filePath = path.join(dir, 'websocket-capture.json');
+    if (!enabled) {
+        await fs.remove(filePath);
+        return;
+    }
+    await fs.ensureDir(dir);
+    await fs.writeFile(filePath, JSON.stringify({ startedAt: new Date().toISOString() }), { mode: 0o600 });
+}
+
+export async function isWebSocketCaptureEnabled(sessionId: string): Promise<boolean> {
+    return fs.pathExists(path.join(SESSIONS_DIR, sanitizeId(sessionId), 'websocket-capture.json'));
+}
+
+/** A block or mock route kept across CLI invocations */
+export interface PersistedRoute {
+    id: string;
+    kind: 'block' | 'mock';
+    spec: RouteSpec & { url: string };
+    response?: { status?: number, body?: string, contentType?: string };
+}
+
+function routesFile(sessionId: string): string {
+    return path.join(SESSIONS_DIR, sanitizeId(sessionId), 'routes.json');
+}
+
+export async function loadRoutes(sessionId: string): Promise<PersistedRoute[]> {
+    const filePath = routesFile(sessionId);
+    if (!await fs.pathExists(filePath)) return [];
+    try {
+        return await fs.readJson(filePath);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Persist the session's block/mock routes so every later command re-applies them.
+ * An empty list removes the file.
+ */
+export async function saveRoutes(sessionId: string, routes: PersistedRoute[]): Promise<void> {
+    const filePath = routesFile(sessionId);
+    if (routes.length === 0) {
+        await fs.remove(filePath);
+        return;
+    }
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeFile(filePath, JSON.stringify(routes, null, 2), { mode: 0o600 });
+}
+
+/** Pages with the session's network state applied, so a page reused by a long-lived process isn't wired twice */
+const networkAttachedPages = new WeakSet<object>();
+
+/**
+ * Apply the session's persisted network state (throttling, routes, WebSocket capture, HAR mode)
+ * to a freshly connected page. Returns a finisher that saves captured traffic and releases the
+ * page's CDP clients before disconnecting.
+ */
+async function attachNetworkState(sessionId: string, page: any): Promise<() => Promise<void>> {
+    const network = getNetworkService();
+    if (networkAttachedPages.has(page)) return async () => {};
+    networkAttachedPages.add(page);
+    const release = async () => {
+        networkAttachedPages.delete(page);
+        await network.detachPage(page);
+    };
+
+    let finishHar = async () => {};
+    try {
+        const conditions = await loadNetworkConditions(sessionId);
+        if (conditions) {
+            await network.emulateConditions(page, sessionId, conditions);
+        }
+
+        // Same IDs as when the routes were added, so `network unroute <id>` keeps working
+        for (const route of await loadRoutes(sessionId)) {
+            if (route.kind === 'block') {
+                await network.block(page, sessionId, route.spec.url, { id: route.id });
+            } else {
+                await network.mock(page, sessionId, route.spec, route.response || {}, { id: route.id });
+            }
+        }
+
+        if (await isWebSocketCaptureEnabled(sessionId)) {
+            await network.captureWebSockets(page, sessionId);
+        }
+
+        const state = await loadHarState(sessionId);
+        if (state?.mode === 'replay') {
+            await network.replayFromHar(page, state.path, { notFound: state.notFound });
+        } else if (state?.mode === 'record' && !network.isRecordingHar(sessionId)) {
+            await network.startHar(page, sessionId);
+            finishHar = async () => {
+                const har = await network.stopHar(sessionId);
+                await appendHarEntries(sessionId, har.log.entries);
+            };
+        }
+    } catch (err) {
+        await release().catch(() => {});
+        throw err;
+    }
+    return async () => {
+        try {
+            await finishHar();
+        } finally {
+            await release();
+        }
+    };
+}
+
+/** Dialogs kept in dialogs.json per session */
+const MAX_DIALOG_LOG = 100;
+
+/** How often a connection holding a queued dialog checks for a response */
+const DIALOG_RESPONSE_POLL_MS = 200;
+
+/**
+ * Persist the session's dialog policy so every later command answers dialogs the same way.
+ * Pass null to go back to dismissing them.
+ */
+export async function saveDialogPolicy(sessionId: string, policy: DialogPolicy | null): Promise<void> {
+    const dir = path.join(SESSIONS_DIR, sanitizeId(sessionId));
+    const filePath = path.join(dir, 'dialog-policy.json');
+    if (!policy) {
+        await fs.remove(filePath);
+        return;
+    }
+    await fs.ensureDir(dir);
+    await fs.writeFile(filePath, JSON.stringify(policy), { mode: 0o600 });
+}
+
+export async function loadDialogPolicy(sessionId: string): Promise<DialogPolicy | null> {
+    const filePath = path.join(SESSIONS_DIR, sanitizeId(sessionId), 'dialog-policy.json');
+    if (!await fs.pathExists(filePath)) return null;
+    try {
+        return await fs.readJson(filePath);
+    } catch {
+        return null;
+    }
+}
+
+function dialogLogFile(sessionId: string): string {
+    return path.join(SESSIONS_DIR, sanitizeId(sessionId), 'dialogs.json');
+}
+
+/** Dialogs seen by every command on the session, oldest first. Pending ones are still open. */
+export async function loadDialogLog(sessionId: string): Promise<DialogEntry[]> {
+    const filePath = dialogLogFile(sessionId);
+    if (!await fs.pathExists(filePath)) return [];
+    try {
+        return await fs.readJson(filePath);
+    } catch {
+        return [];
+    }
+}
+
+export async function clearDialogLog(sessionId: string): Promise<void> {
+    await fs.remove(dialogLogFile(sessionId));
+}
+
+/** Add a dialog to the session log, or update it once it has been answered */
+async function saveDialogEntry(sessionId: string, entry: DialogEntry): Promise<void> {
+    const entries = (await loadDialogLog(sessionId)).filter(e => e.id !== entry.id);
+    entries.push(entry);
+    entries.sort((a, b) => a.openedAt - b.openedAt);
+    const filePath = dialogLogFile(sessionId);
+    await fs.ensureDir(path.dirname(filePath));
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(entries.slice(-MAX_DIALOG_LOG), null, 2), { mode: 0o600 });
+    await fs.move(tmpPath, filePath, { overwrite: true });
+}
+
+/** Leave a response for the command holding a queued dialog open */
+async function saveDialogResponse(sessionId: string, response: DialogResponse): Promise<void> {
+    const dir = path.join(SESSIONS_DIR, sanitizeId(sessionId));
+    await fs.ensureDir(dir);
+    await fs.writeFile(path.join(dir, 'dialog-response.json'), JSON.stringify(response), { mode: 0o600 });
+}
+
+/**
+ * Answer a queued dialog, whichever command holds it open: directly when it is
+ * this process, else through a response file the holding command picks up.
+ */
+export async function answerDialog(sessionId: string, response: DialogResponse): Promise<DialogEntry> {
+    const dialogs = getDialogService();
+    if (dialogs.getPending(sessionId).some(d => !response.id || d.id === response.id)) {
+        return dialogs.respond(sessionId, response);
+    }
+    const pending = (await loadDialogLog(sessionId)).filter(entry => entry.status === 'pending');
+    const target = response.id ? pending.find(entry => entry.id === response.id) : pending[0];
+    if (!target) {
+        throw new Error(response.id
+            ? `Dialog "${response.id}" is not waiting for a response.`
+            : 'No dialog is waiting for a response. Set the dialog policy to queue to hold dialogs for an answer.');
+    }
+    await saveDialogResponse(sessionId, { ...response, id: target.id });
+    const deadline = Date.now() + 5000;
+    while (Date.now() < deadline) {
+        const entry = (await loadDialogLog(sessionId)).find(e => e.id === target.id);
+        if (entry && entry.status !== 'pending') return entry;
+        await new Promise(resolve => setTimeout(resolve, DIALOG_RESPONSE_POLL_MS));
+    }
+    throw new Error(`Dialog "${target.id}" was not answered: the command that opened it has exited, so the browser dismissed it.`);
+}
+
+/** Remove and return the pending response if `accepts` it, else leave it for another command */
+async function takeDialogResponse(sessionId: string, accepts: (response: DialogResponse) => boolean): Promise<DialogResponse | null> {
+    const filePath = path.join(SESSIONS_DIR, sanitizeId(sessionId), 'dialog-response.json');
+    if (!await fs.pathExists(filePath)) return null;
+    let response: DialogResponse;
+    try {
+        response = await fs.readJson(filePath);
+    } catch {
+        return null;
+    }
+    if (!accepts(response)) return null;
+    await fs.remove(filePath);
+    return response;
+}
+
+/**
+ * Answer the page's dialogs with the session's persisted policy and log them to dialogs.json.
+ *
+ * A dialog only stays open while the connection that saw it is alive — the browser
+ * dismisses it when that connection closes — so a queued dialog is held by the
+ * command that opened it, which polls for a response written by `saveDialogResponse`.
+ * `queued` resolves once a queued dialog is in the log; the finisher waits for queued dialogs
+ * to be answered (or to time out) before the connection may close.
+ */
+async function attachDialogState(sessionId: string, page: any): Promise<{
+    queued: Promise<DialogEntry>,
+    finish: () => Promise<void>,
+}> {
+    const dialogs = getDialogService();
+    dialogs.setPolicy(sessionId, await loadDialogPolicy(sessionId));
+    await dialogs.attach(page, sessionId);
+
+    let onQueued: (entry: DialogEntry) => void = () => {};
+    const queued = new Promise<DialogEntry>(resolve => { onQueued = resolve; });
+    // Serialized, so an answered dialog can't be overwritten by its pending entry
+    let writes = Promise.resolve();
+    let poll: ReturnType<typeof setInterval> | null = null;
+    const stopPolling = () => {
+        if (poll) clearInterval(poll);
+        poll = null;
+    };
+
+    const unsubscribe = dialogs.onDialog((sid, entry) => {
+        if (sid !== sessionId) return;
+        writes = writes.then(() => saveDialogEntry(sessionId, entry)).catch(() => {});
+        if (entry.status !== 'pending') {
+            if (dialogs.getPending(sessionId).length === 0) stopPolling();
+            return;
+        }
+        // Reported once it is in the log, where other commands look for it
+        writes.then(() => onQueued(entry));
+        poll = poll ?? setInterval(() => {
+            const holds = (response: DialogResponse) =>
+                dialogs.getPending(sessionId).some(d => !response.id || d.id === response.id);
+            takeDialogResponse(sessionId, holds).then(async response => {
+                if (response) await dialogs.respond(sessionId, response);
+            }).catch(() => { /* answered by the timeout in the meantime */ });
+        }, DIALOG_RESPONSE_POLL_MS);
+    });
+
+    return {
+        queued,
+        finish: async () => {
+            while (dialogs.getPending(sessionId).length > 0) {
+                await new Promise(resolve => setTimeout(resolve, DIALOG_RESPONSE_POLL_MS));
+            }
+            stopPolling();
+            unsubscribe();
+            await writes;
+        },
+    };
+}
+
 function isRealUrl(url: string): boolean {
     return !!url && !url.startsWith('chrome://') && !url.startsWith('about:') && url !== '';
 }
@@ -126,6 +550,8 @@ export interface GetSessionPageOptions {
 export async function getSessionPage(sessionId: string, options?: GetSessionPageOptions): Promise<{
     page: any,
     framework: 'puppeteer' | 'playwright',
+    /** Resolves when a dialog opened by this connection is queued for a response */
+    dialogQueued: Promise<DialogEntry>,
     cleanup: () => Promise<void>,
 }> {
     const store = getSessionStore();
@@ -136,6 +562,8 @@ export async function getSessionPage(sessionId: string, options?: GetSessionPage
     const adapter = (session as any).config?.adapter || 'puppeteer';
     const clientId = options?.clientId;
     const lastUrl = options?.noAutoNavigate ? null : await loadPageState(sessionId, clientId);
+    const activeTab = await loadActiveTab(sessionId, clientId);
+    const recordEvents = (session as any).config?.recordEvents === true;
 
     if (adapter === 'playwright') {
         const { chromium } = await import('playwright-core');
@@ -155,21 +583,42 @@ export async function getSessionPage(sessionId: string, options?: GetSessionPage
         const browser = isLocal
             ? await chromium.connectOverCDP(wsUrl)
             : await chromium.connect(wsUrl);
-        const contexts = browser.contexts();
-        const context = contexts[0] || await browser.newContext();
-        const pages = context.pages();
-
-        // 1. Try to find the page matching the last navigated URL
-        let page = lastUrl ? pages.find((p: any) => p.url() === lastUrl) : undefined;
-        // 2. Fall back to any page with a real URL
-        if (!page) page = pages.find((p: any) => isRealUrl(p.url()));
-        // 3. Fall back to last page or create new (safe: check length first)
-        if (!page && pages.length > 0) page = pages[pages.length - 1];
-        if (!page) page = await context.newPage();
+        let page: any;
+        let onActiveTab: boolean;
+        let finishNetwork: () => Promise<void>;
+        let dialogState: Awaited<ReturnType<typeof attachDialogState>>;
+        try {
+            const contexts = browser.contexts();
+            const context = contexts[0] || await browser.newContext();
+            if (recordEvents) await getEventsService().recordContext(context, sessionId);
+            const pages = context.pages();
+
+            // 1. The tab this client switched to, which is used as-is
+            page = activeTab ? await findPageByTabId(pages, activeTab.tabId, activeTab.url) : undefined;
+            onActiveTab = !!page;
+            // 2. Try to find the page matching the last navigated URL
+            if (!page && lastUrl) page = pages.find((p: any) => p.url() === lastUrl);
+            // 3. Fall back to any page with a real URL
+            if (!page) page = pages.find((p: any) => isRealUrl(p.url()));
+            // 4. Fall back to last page or create new (safe: check length first)
+            if (!page && pages.length > 0) page = pages[pages.length - 1];
+            if (!page) page = await context.newPage();
+            finishNetwork = await attachNetworkState(sessionId, page);
+            try {
+                dialogState = await attachDialogState(sessionId, page);
+            } catch (err) {
+                await finishNetwork().catch(() => {});
+                throw err;
+            }
+        } catch (err) {
+            // Nothing will call cleanup(), so drop the connection here
+            await browser.close().catch(() => {});
+            throw err;
+        }
 
         // If we have a last known URL and the page isn't on it, navigate there
         const pwUrl = page.url();
-        if (lastUrl && (!isRealUrl(pwUrl) || !pwUrl.startsWith(lastUrl.replace(/\/$/, '')))) {
+        if (lastUrl && !onActiveTab && (!isRealUrl(pwUrl) || !pwUrl.startsWith(lastUrl.replace(/\/$/, '')))) {
             await page.goto(lastUrl, { waitUntil: 'domcontentloaded', timeout: 30000 }).catch(() => {});
         }
         // Ensure DOM is ready (parity with Puppeteer path)
@@ -178,7 +627,11 @@ export async function getSessionPage(sessionId: string, options?: GetSessionPage
         return {
             page,
             framework: 'playwright',
+            dialogQueued: dialogState.queued,
             cleanup: async () => {
+                await dialogState.finish();
+                if (recordEvents) await getEventsService().flushRecording(page);
+                await finishNetwork().catch(() => {});
                 // For both local and cloud: browser.close() is safe.
                 // Playwright's connect() sets _shouldCloseConnectionOnClose = true,
                 // so close() severs the local WebSocket transport without killing
@@ -200,20 +653,41 @@ export async function getSessionPage(sessionId: string, options?: GetSessionPage
             }
         }
         const browser = await puppeteer.connect({ browserWSEndpoint: wsUrl });
-        const pages = await browser.pages();
+        let page: Page | undefined;
+        let onActiveTab: boolean;
+        let finishNetwork: () => Promise<void>;
+        let dialogState: Awaited<ReturnType<typeof attachDialogState>>;
+        try {
+            if (recordEvents) await getEventsService().recordBrowser(browser, sessionId);
+            const pages = await browser.pages();
 
-        // 1. Try to find the page matching the last navigated URL
-        let page = lastUrl ? pages.find(p => p.url() === lastUrl) : undefined;
-        // 2. Fall back to any page with a real URL
-        if (!page) page = pages.find(p => isRealUrl(p.url()));
-        // 3. Fall back to last page or create new (safe: check length first)
-        if (!page && pages.length > 0) page = pages[pages.length - 1];
-        if (!page) page = await browser.newPage();
+            // 1. The tab this client switched to, which is used as-is
+            page = activeTab ? await findPageByTabId(pages, activeTab.tabId, activeTab.url) : undefined;
+            onActiveTab = !!page;
+            // 2. Try to find the page matching the last navigated URL
+            if (!page && lastUrl) page = pages.find(p => p.url() === lastUrl);
+            // 3. Fall back to any page with a real URL
+            if (!page) page = pages.find(p => isRealUrl(p.url()));
+            // 4. Fall back to last page or create new (safe: check length first)
+            if (!page && pages.length > 0) page = pages[pages.length - 1];
+            if (!page) page = await browser.newPage();
+            finishNetwork = await attachNetworkState(sessionId, page);
+            try {
+                dialogState = await attachDialogState(sessionId, page);
+            } catch (err) {
+                await finishNetwork().catch(() => {});
+                throw err;
+            }
+        } catch (err) {
+            // Nothing will call cleanup(), so drop the connection here
+            await browser.disconnect().catch(() => {});
+            throw err;
+        }
 
         // Puppeteer CDP reconnection may leave the page on a different tab.
         // Only navigate if the page isn't already on the expected URL.
         const currentUrl = page.url();
-        if (lastUrl && !currentUrl.startsWith(lastUrl.replace(/\/$/, ''))) {
+        if (lastUrl && !onActiveTab && !currentUrl.startsWith(lastUrl.replace(/\/$/, ''))) {
             await page.goto(lastUrl, { waitUntil: 'domcontentloaded', timeout: 30000 }).catch(() => {});
         }
         // Ensure DOM is ready
@@ -222,7 +696,13 @@ export async function getSessionPage(sessionId: string, options?: GetSessionPage
         return {
             page,
             framework: 'puppeteer',
-            cleanup: async () => { browser.disconnect(); },
+            dialogQueued: dialogState.queued,
+            cleanup: async () => {
+                await dialogState.finish();
+                if (recordEvents) await getEventsService().flushRecording(page);
+                await finishNetwork().catch(() => {});
+                browser.disconnect();
+            },
         };
     }
 }
@@ -4,17 +4,22 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
 import pkg from '../../package.json';
-import { getSessionPage, getRefStore, resolveSessionId, getSessionStore } from '../cli/page-manager';
+import { getSessionPage, getRefStore, resolveSessionId, getSessionStore, saveNetworkConditions, getNetworkService, loadRoutes, saveRoutes, saveWebSocketCapture, isWebSocketCaptureEnabled, saveActiveTab, saveDialogPolicy, loadDialogPolicy, loadDialogLog, answerDialog } from '../cli/page-manager';
 import { PageService } from '../testmu-cloud/services/page-service';
 import { SnapshotService } from '../testmu-cloud/services/snapshot-service';
-import { NetworkService } from '../testmu-cloud/services/network-service';
+import { isUnthrottled } from '../testmu-cloud/services/network-service';
+import { ConsoleService } from '../testmu-cloud/services/console-service';
+import { WaitTimeoutError } from '../testmu-cloud/utils/wait';
+import { runAssertion } from '../testmu-cloud/services/page-assertions';
+import { QuickActionsService } from '../testmu-cloud/services/quick-actions';
 
 const server = new McpServer({
     name: 'browser-cloud',
     version: pkg.version,
 });
 
-const networkService = new NetworkService();
+const networkService = getNetworkService();
+const quickActions = new QuickActionsService();
 
 /** Strip credentials from any websocket URLs in session objects (defense-in-depth) */
 function redactSessionUrls<T>(sessions: T): T {
@@ -26,16 +31,20 @@ function redactSessionUrls<T>(sessions: T): T {
     return JSON.parse(redacted);
 }
 
+type ToolContent = { type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string };
+
 // FIX 3: Wrap tool handlers with error handling — returns structured MCP error instead of raw stack traces
 function safeHandler<TArgs>(
-    handler: (args: TArgs) => Promise<{ content: { type: 'text'; text: string }[] }>
-): (args: TArgs) => Promise<{ content: { type: 'text'; text: string }[]; isError?: true }> {
+    handler: (args: TArgs) => Promise<{ content: ToolContent[] }>
+): (args: TArgs) => Promise<{ content: ToolContent[]; isError?: true }> {
     return async (args: TArgs) => {
         try {
             return await handler(args);
         } catch (err: unknown) {
             const message = err instanceof Error ? err.message : String(err);
-            return { content: [{ type: 'text' as const, text: JSON.stringify({ error: message }) }], isError: true as const };
+            // Timeouts say what was awaited and what was last seen, so agents can decide what to do next
+            const body = err instanceof WaitTimeoutError ? err.toJSON() : { error: message };
+            return { content: [{ type: 'text' as const, text: JSON.stringify(body) }], isError: true as const };
         }
     };
 }
@@ -44,7 +53,7 @@ function safeHandler<TArgs>(
 // FIX 1: Creates a fresh PageService per call to avoid singleton race conditions with clientId
 async function withPage<T>(sessionId: string | undefined, fn: (ps: PageService, page: any, sid: string) => Promise<T>, clientId?: string): Promise<T> {
     const sid = await resolveSessionId(sessionId);
-    const { page, cleanup } = await getSessionPage(sid);
+    const { page, dialogQueued, cleanup } = await getSessionPage(sid, { clientId });
     // Create a fresh PageService per call to avoid race conditions with clientId
     const refStore = getRefStore();
     const snapshotService = new SnapshotService(refStore);
@@ -53,8 +62,17 @@ async function withPage<T>(sessionId: string | undefined, fn: (ps: PageService,
     if (clientId) {
         pageService.setClientId(clientId);
     }
+    const run = fn(pageService, page, sid);
+    // A queued dialog blocks the action until it is answered, so report it instead of waiting.
+    // The connection stays open — closing it would dismiss the dialog — until the action finishes.
+    const done = run.then(() => null, () => null);
+    const dialog = await Promise.race([done, dialogQueued]);
+    if (dialog) {
+        done.then(cleanup).catch(() => {});
+        throw new Error(`Dialog ${dialog.id} is waiting: ${dialog.type} "${dialog.message}". Answer it with browser_dialog_respond; the action finishes once it is answered.`);
+    }
     try {
-        return await fn(pageService, page, sid);
+        return await run;
     } finally {
         await cleanup();
     }
@@ -85,11 +103,15 @@ server.tool(
         sessionId: z.string().optional().describe('Session ID (auto-detects if only one active)'),
         compact: z.boolean().optional().describe('Token-efficient text output; omits verbose structural data'),
         maxElements: z.number().optional().describe('Max refs to assign (default: 500)'),
+        scope: z.enum(['viewport', 'full']).optional().describe('viewport: only elements currently on screen, with markers for what is above/below (default: full)'),
+        interactiveOnly: z.boolean().optional().describe('Only buttons, links, form fields and other interactive elements'),
+        rootSelector: z.string().optional().describe('Snapshot only the element matching this CSS selector, e.g. a dialog'),
+        maxTokens: z.number().optional().describe('Approximate token budget; visible, interactive elements are kept first'),
         clientId: z.string().optional().describe('Client ID for parallel isolation; scopes @ref state to this client'),
     },
-    safeHandler(async ({ sessionId, compact, maxElements, clientId }) => {
+    safeHandler(async ({ sessionId, compact, maxElements, scope, interactiveOnly, rootSelector, maxTokens, clientId }) => {
         const result = await withPage(sessionId, async (ps, page) => {
-            return ps.snapshot(page, { compact: compact || false, maxElements });
+            return ps.snapshot(page, { compact: compact || false, maxElements, scope, interactiveOnly, rootSelector, maxTokens });
         }, clientId);
         if (compact && result.compactText) {
             return { content: [{ type: 'text' as const, text: result.compactText }] };
@@ -117,6 +139,29 @@ server.tool(
     })
 );
 
+server.tool(
+    'browser_screenshot_annotated',
+    'Screenshot with a numbered box over each element, labelled with the same @ref IDs as browser_snapshot ("set of marks"), plus a ref → bounding box legend. Takes a fresh snapshot, so pick an element visually and act on it with e.g. browser_click @e12.',
+    {
+        sessionId: z.string().optional().describe('Session ID (auto-detects if only one active)'),
+        fullPage: z.boolean().optional().describe('Capture the whole page instead of the viewport'),
+        interactiveOnly: z.boolean().optional().describe('Only mark buttons, links, form fields and other interactive elements'),
+        maxElements: z.number().optional().describe('Max refs to mark (default: 500)'),
+        clientId: z.string().optional().describe('Client ID for parallel isolation; scopes @ref state to this client'),
+    },
+    safeHandler(async ({ sessionId, fullPage, interactiveOnly, maxElements, clientId }) => {
+        const result = await withPage(sessionId, async (ps, page) => {
+            return ps.screenshotAnnotated(page, { fullPage, interactiveOnly, maxElements });
+        }, clientId);
+        return {
+            content: [
+                { type: 'image' as const, data: result.base64Image, mimeType: 'image/png' },
+                { type: 'text' as const, text: `[${result.title}] ${result.url}\n${result.legendText}` },
+            ],
+        };
+    })
+);
+
 // =================== Navigation Tools ===================
 
 server.tool(
@@ -162,6 +207,153 @@ server.tool(
     })
 );
 
+// =================== Tab Tools ===================
+// The tab a tool leaves active is where later tools with the same clientId run
+
+server.tool(
+    'browser_tabs_list',
+    'List open tabs with id, url and title; the active tab is where page tools run',
+    {
+        sessionId: z.string().optional().describe('Session ID'),
+        clientId: z.string().optional().describe('Client ID; each client has its own active tab'),
+    },
+    safeHandler(async ({ sessionId, clientId }) => {
+        const tabs = await withPage(sessionId, async (ps, page) => ps.listTabs(page), clientId);
+        return { content: [{ type: 'text' as const, text: JSON.stringify(tabs, null, 2) }] };
+    })
+);
+
+server.tool(
+    'browser_tabs_new',
+    'Open a new tab, optionally at a URL, and make it the active tab',
+    {
+        url: z.string().optional().describe('URL to open'),
+        sessionId: z.string().optional().describe('Session ID'),
+        clientId: z.string().optional().describe('Client ID; each client has its own active tab'),
+    },
+    safeHandler(async ({ url, sessionId, clientId }) => {
+        const tab = await withPage(sessionId, async (ps, page, sid) => {
+            const { tab: opened } = await ps.newTab(page, url);
+            await saveActiveTab(sid, opened.id, clientId, opened.url);
+            return opened;
+        }, clientId);
+        return { content: [{ type: 'text' as const, text: JSON.stringify(tab) }] };
+    })
+);
+
+server.tool(
+    'browser_tabs_switch',
+    'Make a tab the active tab (id from browser_tabs_list)',
+    {
+        tabId: z.string().describe('Tab ID'),
+        sessionId: z.string().optional().describe('Session ID'),
+        clientId: z.string().optional().describe('Client ID; each client has its own active tab'),
+    },
+    safeHandler(async ({ tabId, sessionId, clientId }) => {
+        const tab = await withPage(sessionId, async (ps, page, sid) => {
+            const { tab: active } = await ps.switchTab(page, tabId);
+            await saveActiveTab(sid, active.id, clientId, active.url);
+            return active;
+        }, clientId);
+        return { content: [{ type: 'text' as const, text: JSON.stringify(tab) }] };
+    })
+);
+
+server.tool(
+    'browser_tabs_close',
+    'Close a tab (default: the active one). Closing the active tab makes the last remaining tab active.',
+    {
+        tabId: z.string().optional().describe('Tab ID (default: active tab)'),
+        sessionId: z.string().optional().describe('Session ID'),
+        clientId: z.string().optional().describe('Client ID; each client has its own active tab'),
+    },
+    safeHandler(async ({ tabId, sessionId, clientId }) => {
+        const result = await withPage(sessionId, async (ps, page, sid) => {
+            const { closed, tab: active } = await ps.closeTab(page, tabId);
+            await saveActiveTab(sid, active?.id ?? null, clientId, active?.url);
+            return { closed, active };
+        }, clientId);
+        return { content: [{ type: 'text' as const, text: JSON.stringify(result) }] };
+    })
+);
+
+server.tool(
+    'browser_tabs_wait_popup',
+    'Wait for a popup (window.open, target=_blank link) from the active tab, optionally clicking an element to open it, and make the popup the active tab',
+    {
+        click: z.string().optional().describe('@ref or CSS selector to click to open the popup'),
+        timeout: z.number().optional().describe('Max wait in ms (default: 30000)'),
+        sessionId: z.string().optional().describe('Session ID'),
+        clientId: z.string().optional().describe('Client ID; each client has its own active tab'),
+    },
+    safeHandler(async ({ click, timeout, sessionId, clientId }) => {
+        const tab = await withPage(sessionId, async (ps, page, sid) => {
+            const { tab: popup } = await ps.waitForPopup(page, { click, timeout });
+            await saveActiveTab(sid, popup.id, clientId, popup.url);
+            return popup;
+        }, clientId);
+        return { content: [{ type: 'text' as const, text: JSON.stringify(tab) }] };
+    })
+);
+
+// =================== Dialog Tools ===================
+
+server.tool(
+    'browser_dialog_policy',
+    'Set how alert/confirm/prompt dialogs are answered for the session: accept, dismiss (default) or queue (held open until browser_dialog_respond). Omit action to read the current policy.',
+    {
+        action: z.enum(['accept', 'dismiss', 'queue']).optional().describe('accept, dismiss or queue'),
+        promptText: z.string().optional().describe('Text entered into prompt() dialogs when accepting'),
+        timeout: z.number().optional().describe('Queue only: ms a dialog waits for an answer before it is dismissed (default: 30000)'),
+        sessionId: z.string().optional().describe('Session ID'),
+    },
+    safeHandler(async ({ action, promptText, timeout, sessionId }) => {
+        const sid = await resolveSessionId(sessionId);
+        if (!action) {
+            const policy = await loadDialogPolicy(sid) ?? { action: 'dismiss' };
+            return { content: [{ type: 'text' as const, text: JSON.stringify(policy) }] };
+        }
+        const policy = {
+            action,
+            ...(promptText !== undefined ? { promptText } : {}),
+            ...(action === 'queue' ? { timeout: timeout ?? 30000 } : {}),
+        };
+        await saveDialogPolicy(sid, action === 'dismiss' && promptText === undefined ? null : policy);
+        return { content: [{ type: 'text' as const, text: JSON.stringify(policy) }] };
+    })
+);
+
+server.tool(
+    'browser_dialog_respond',
+    'Accept or dismiss a dialog queued by the queue dialog policy (the oldest one unless id is given)',
+    {
+        accept: z.boolean().describe('true clicks OK, false clicks Cancel'),
+        promptText: z.string().optional().describe('Text for a prompt() dialog (default: its default value)'),
+        id: z.string().optional().describe('Dialog ID from browser_dialog_log'),
+        sessionId: z.string().optional().describe('Session ID'),
+    },
+    safeHandler(async ({ accept, promptText, id, sessionId }) => {
+        const sid = await resolveSessionId(sessionId);
+        const entry = await answerDialog(sid, { accept, promptText, id });
+        return { content: [{ type: 'text' as const, text: JSON.stringify(entry) }] };
+    })
+);
+
+server.tool(
+    'browser_dialog_log',
+    'List dialogs opened in the session (type, message, how and by what they were answered), oldest first',
+    {
+        pending: z.boolean().optional().describe('Only dialogs waiting for an answer'),
+        sessionId: z.string().optional().describe('Session ID'),
+    },
+    safeHandler(async ({ pending, sessionId }) => {
+        const sid = await resolveSessionId(sessionId);
+        const entries = await loadDialogLog(sid);
+        const result = pending ? entries.filter(entry => entry.status === 'pending') : entries;
+        return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+    })
+);
+
 // =================== Interaction Tools ===================
 
 server.tool(
@@ -249,11 +441,26 @@ server.tool(
     })
 );
 
+server.tool(
+    'browser_drag',
+    'Drag an element onto another (kanban cards, sortable lists, file drop zones). Works with HTML5 drag-and-drop and mouse-event drags.',
+    {
+        source: z.string().describe('@ref or CSS selector of the element to drag'),
+        target: z.string().describe('@ref or CSS selector of the element to drop on'),
+        sessionId: z.string().optional().describe('Session ID'),
+        clientId: z.string().optional().describe('Client ID for parallel isolation'),
+    },
+    safeHandler(async ({ source, target, sessionId, clientId }) => {
+        await withPage(sessionId, async (ps, page) => ps.drag(page, source, target), clientId);
+        return { content: [{ type: 'text' as const, text: JSON.stringify({ dragged: source, to: target }) }] };
+    })
+);
+
 server.tool(
     'browser_press_key',
-    'Press a keyboard key (e.g. Enter, Tab, Escape)',
+    'Press a keyboard key or chord (e.g. Enter, Tab, Escape, ctrl+shift+t)',
     {
-        key: z.string().describe('Key name (e.g. Enter, Tab, Escape, ArrowDown)'),
+        key: z.string().describe('Key name or chord (e.g. Enter, ArrowDown, Control+A, ctrl+shift+t)'),
         sessionId: z.string().optional().describe('Session ID'),
     },
     safeHandler(async ({ key, sessionId }) => {
@@ -354,6 +561,48 @@ server.tool(
     })
 );
 
+// =================== Assertion Tool ===================
+
+server.tool(
+    'browser_assert',
+    'Verify an action worked: assert element text, value, visibility, checked state or count, or the page URL. Retries until the assertion holds or timeout runs out, then returns { pass, expected, actual, message, diff }.',
+    {
+        assertion: z.enum(['text', 'value', 'visible', 'checked', 'count', 'url']).describe('What to assert'),
+        selector: z.string().optional().describe('@ref ID or CSS selector (not needed for url)'),
+        expected: z.union([z.string(), z.number()]).optional().describe('Expected text, value, URL (glob or substring) or count'),
+        contains: z.boolean().optional().describe('text: pass when the text contains expected'),
+        regex: z.boolean().optional().describe('Treat expected as a regular expression (text, value, url)'),
+        not: z.boolean().optional().describe('Pass when the assertion does not hold'),
+        timeout: z.number().optional().describe('How long to retry in ms (default: 5000)'),
+        sessionId: z.string().optional().describe('Session ID'),
+        clientId: z.string().optional().describe('Client ID for parallel isolation'),
+    },
+    safeHandler(async ({ selector, sessionId, clientId, ...spec }) => {
+        const result = await withPage(sessionId, async (ps, page) => runAssertion(ps.expect(page, selector), spec), clientId);
+        return { content: [{ type: 'text' as const, text: JSON.stringify(result) }] };
+    })
+);
+
+// =================== Extraction Tool ===================
+
+server.tool(
+    'browser_extract',
+    'Extract a typed record from the page, e.g. product name, price and rating. schema is a JSON Schema (locate properties with "x-selector"; properties without one are looked up in JSON-LD, microdata and meta tags) or a map of field names to rules: a CSS/XPath selector string, or { selector, attribute, list, transform, required, fields }. Returns { data, errors, valid } with one error per failing field.',
+    {
+        schema: z.record(z.string(), z.any()).describe('JSON Schema, or {"field": "selector" | { selector, attribute, list, transform, required, fields }}'),
+        url: z.string().optional().describe('Navigate here first (default: extract from the current page)'),
+        sessionId: z.string().optional().describe('Session ID'),
+        clientId: z.string().optional().describe('Client ID for parallel isolation'),
+    },
+    safeHandler(async ({ schema, url, sessionId, clientId }) => {
+        const result = await withPage(sessionId, async (ps, page) => {
+            if (url) await ps.navigate(page, url);
+            return quickActions.extract({ page, schema });
+        }, clientId);
+        return { content: [{ type: 'text' as const, text: JSON.stringify(result) }] };
+    })
+);
+
 // =================== Find Tools ===================
 
 server.tool(
@@ -389,27 +638,31 @@ server.tool(
 
 server.tool(
     'browser_wait',
-    'Wait for an element to appear, or wait a fixed number of milliseconds. Use @ref IDs from snapshot or CSS selectors for element waits.',
+    'Wait for a condition instead of sleeping: an element state, text appearing or disappearing, a URL, network idle, a JS predicate or a stable page. Give exactly one condition, or ms for a fixed sleep. On timeout the error names the condition and the last state seen.',
     {
-        selector: z.string().optional().describe('@ref ID (e.g. @e5) or CSS selector to wait for. Mutually exclusive with ms.'),
-        ms: z.number().optional().describe('Milliseconds to wait (e.g. 500). Mutually exclusive with selector.'),
-        timeout: z.number().optional().describe('Max wait time in ms for element selector (default: 30000)'),
+        selector: z.string().optional().describe('@ref ID (e.g. @e5) or CSS selector to wait for, in `state`'),
+        state: z.enum(['attached', 'visible', 'hidden', 'detached', 'enabled']).optional().describe('Element state to wait for (default: visible). hidden is also met when the element is gone'),
+        text: z.string().optional().describe('Wait for this text to appear in the page'),
+        textGone: z.string().optional().describe('Wait for this text to disappear from the page'),
+        url: z.string().optional().describe('Wait for the URL to match: a glob (e.g. "**/checkout/**") or a substring'),
+        networkIdle: z.boolean().optional().describe('Wait until no requests are in flight for idleTime ms'),
+        idleTime: z.number().optional().describe('Quiet period for networkIdle in ms (default: 500)'),
+        fn: z.string().optional().describe('JS expression polled until truthy. BLOCKED by default — requires allowUnsafe: true, like browser_evaluate'),
+        allowUnsafe: z.boolean().optional().describe('Set to true to allow the fn predicate (default: false)'),
+        stable: z.boolean().optional().describe('Wait until the accessibility snapshot is unchanged for stablePolls polls'),
+        stablePolls: z.number().optional().describe('Unchanged polls that count as stable (default: 3)'),
+        ms: z.number().optional().describe('Milliseconds to sleep (e.g. 500). Prefer a condition'),
+        timeout: z.number().optional().describe('Max wait time in ms (default: 30000)'),
         sessionId: z.string().optional().describe('Session ID'),
         clientId: z.string().optional().describe('Client ID for parallel isolation'),
     },
-    safeHandler(async ({ selector, ms, timeout, sessionId, clientId }) => {
+    safeHandler(async ({ ms, sessionId, clientId, ...options }) => {
         if (ms !== undefined) {
             await new Promise(resolve => setTimeout(resolve, ms));
             return { content: [{ type: 'text' as const, text: JSON.stringify({ waited: ms }) }] };
         }
-        if (!selector) {
-            return { content: [{ type: 'text' as const, text: JSON.stringify({ error: 'Provide selector or ms' }) }] };
-        }
-        // FIX 2: Use pageService.wait() to resolve @ref selectors instead of raw page.waitForSelector()
-        await withPage(sessionId, async (ps, page) => {
-            await ps.wait(page, selector);
-        }, clientId);
-        return { content: [{ type: 'text' as const, text: JSON.stringify({ found: selector }) }] };
+        const result = await withPage(sessionId, async (ps, page) => ps.waitFor(page, options), clientId);
+        return { content: [{ type: 'text' as const, text: JSON.stringify(result) }] };
     })
 );
 
@@ -429,6 +682,35 @@ server.tool(
     })
 );
 
+// =================== Console Tools ===================
+
+server.tool(
+    'browser_console_logs',
+    'Get browser console messages, uncaught page errors and failed requests (network errors and HTTP >= 400) of the current page. On Chromium, console messages and errors from before the call are included; failed requests, and everything on Firefox or WebKit, are only seen during waitMs',
+    {
+        level: z.array(z.string()).optional().describe('Console levels to include (log, info, warn, error, debug)'),
+        kind: z.array(z.enum(['console', 'pageerror', 'requestfailed'])).optional().describe('Entry kinds to include'),
+        text: z.string().optional().describe('Only entries whose text contains this'),
+        since: z.number().optional().describe('Only entries at or after this timestamp (ms since epoch)'),
+        waitMs: z.number().nonnegative().optional().describe('Keep listening this long for new entries (default: 0)'),
+        clear: z.boolean().optional().describe('Discard the browser-side console buffer after reading'),
+        sessionId: z.string().optional().describe('Session ID'),
+    },
+    safeHandler(async ({ level, kind, text, since, waitMs, clear, sessionId }) => {
+        const logs = await withPage(sessionId, async (_ps, page, sid) => {
+            // Fresh service per call: on Chromium, attaching replays what the browser kept since page load
+            const consoleService = new ConsoleService();
+            await consoleService.attach(page, sid);
+            if (waitMs) await new Promise(resolve => setTimeout(resolve, waitMs));
+            const entries = consoleService.getLogs(sid, { level, kind, text, since });
+            if (clear) await consoleService.clear(sid, page);
+            consoleService.clearSession(sid);
+            return entries;
+        });
+        return { content: [{ type: 'text' as const, text: JSON.stringify({ logs }) }] };
+    })
+);
+
 // =================== Network Tools ===================
 // FIX 5: Refactored to use withPage for consistency and error handling
 
@@ -436,31 +718,76 @@ server.tool(
     'browser_network_block',
     'Block network requests matching a URL pattern',
     {
-        pattern: z.string().describe('URL pattern to block (e.g. *.ads.com/*)'),
+        pattern: z.string().describe('URL substring, or a glob when it contains * or { (e.g. **.ads.com/**)'),
         sessionId: z.string().optional().describe('Session ID'),
     },
     safeHandler(async ({ pattern, sessionId }) => {
-        await withPage(sessionId, async (_ps, page, sid) => {
-            await networkService.block(page, sid, pattern);
+        const id = await withPage(sessionId, async (_ps, page, sid) => {
+            const routeId = await networkService.block(page, sid, pattern);
+            await saveRoutes(sid, [...await loadRoutes(sid), { id: routeId, kind: 'block', spec: { url: pattern } }]);
+            return routeId;
         });
-        return { content: [{ type: 'text' as const, text: JSON.stringify({ blocked: pattern }) }] };
+        return { content: [{ type: 'text' as const, text: JSON.stringify({ id, blocked: pattern }) }] };
     })
 );
 
 server.tool(
     'browser_network_mock',
-    'Mock a URL with a custom response',
+    'Mock matching requests with a custom response. The URL is a substring, or a glob when it contains * or { (e.g. **/api/users*)',
     {
-        url: z.string().describe('URL to mock'),
+        url: z.string().describe('URL substring or glob to mock'),
         body: z.string().describe('Response body'),
         status: z.number().optional().describe('HTTP status code (default: 200)'),
+        contentType: z.string().optional().describe('Response Content-Type (default: application/json)'),
+        method: z.array(z.string()).optional().describe('Only match these HTTP methods'),
+        resourceType: z.array(z.string()).optional().describe('Only match these resource types (e.g. xhr, fetch, document)'),
+        priority: z.number().optional().describe('Higher priority routes are tried first (default: 0)'),
         sessionId: z.string().optional().describe('Session ID'),
     },
-    safeHandler(async ({ url, body, status, sessionId }) => {
-        await withPage(sessionId, async (_ps, page, sid) => {
-            await networkService.mock(page, sid, url, { status: status || 200, body });
+    safeHandler(async ({ url, body, status, contentType, method, resourceType, priority, sessionId }) => {
+        const id = await withPage(sessionId, async (_ps, page, sid) => {
+            const spec = {
+                url,
+                ...(method ? { method } : {}),
+                ...(resourceType ? { resourceType } : {}),
+                ...(priority !== undefined ? { priority } : {}),
+            };
+            const response = { status: status || 200, body, ...(contentType ? { contentType } : {}) };
+            const routeId = await networkService.mock(page, sid, spec, response);
+            await saveRoutes(sid, [...await loadRoutes(sid), { id: routeId, kind: 'mock', spec, response }]);
+            return routeId;
         });
-        return { content: [{ type: 'text' as const, text: JSON.stringify({ mocked: url }) }] };
+        return { content: [{ type: 'text' as const, text: JSON.stringify({ id, mocked: url }) }] };
+    })
+);
+
+server.tool(
+    'browser_network_routes',
+    'List active block/mock routes in the order they are tried',
+    {
+        sessionId: z.string().optional().describe('Session ID'),
+    },
+    safeHandler(async ({ sessionId }) => {
+        const routes = await withPage(sessionId, async (_ps, _page, sid) => networkService.listRoutes(sid));
+        return { content: [{ type: 'text' as const, text: JSON.stringify({ routes }) }] };
+    })
+);
+
+server.tool(
+    'browser_network_unroute',
+    'Remove a route by ID, or all routes with the given URL pattern',
+    {
+        idOrPattern: z.string().describe('Route ID (from browser_network_routes) or URL pattern'),
+        sessionId: z.string().optional().describe('Session ID'),
+    },
+    safeHandler(async ({ idOrPattern, sessionId }) => {
+        const removed = await withPage(sessionId, async (_ps, page, sid) => {
+            const count = await networkService.unroute(page, sid, idOrPattern);
+            const routes = await loadRoutes(sid);
+            await saveRoutes(sid, routes.filter(r => r.id !== idOrPattern && r.spec.url !== idOrPattern));
+            return count;
+        });
+        return { content: [{ type: 'text' as const, text: JSON.stringify({ removed }) }] };
     })
 );
 
@@ -479,6 +806,52 @@ server.tool(
     })
 );
 
+server.tool(
+    'browser_network_throttle',
+    'Emulate degraded network conditions for the session: a preset (slow-3g, fast-3g, offline, no-throttling) or custom throughput/latency. Stays in effect for later tools until changed; use no-throttling to reset.',
+    {
+        preset: z.enum(['slow-3g', 'fast-3g', 'offline', 'no-throttling']).optional().describe('Predefined network profile'),
+        downloadKbps: z.number().nonnegative().optional().describe('Download throughput in kbps (ignored when preset is set)'),
+        uploadKbps: z.number().nonnegative().optional().describe('Upload throughput in kbps (ignored when preset is set)'),
+        latencyMs: z.number().nonnegative().optional().describe('Added latency in ms (ignored when preset is set)'),
+        offline: z.boolean().optional().describe('Go offline (ignored when preset is set)'),
+        sessionId: z.string().optional().describe('Session ID'),
+    },
+    safeHandler(async ({ preset, downloadKbps, uploadKbps, latencyMs, offline, sessionId }) => {
+        const conditions = await withPage(sessionId, async (_ps, page, sid) => {
+            const applied = await networkService.emulateConditions(page, sid, preset || { downloadKbps, uploadKbps, latencyMs, offline });
+            await saveNetworkConditions(sid, isUnthrottled(applied) ? null : applied);
+            return applied;
+        });
+        return { content: [{ type: 'text' as const, text: JSON.stringify({ conditions }) }] };
+    })
+);
+
+server.tool(
+    'browser_websocket_logs',
+    'Get WebSocket frames (sent/received, text or base64 binary) and Server-Sent Events of the session. The first call starts capturing; from then on traffic is recorded while a tool call is connected to the session. Use waitMs to listen for a streamed reply before reading the page.',
+    {
+        url: z.string().optional().describe('Connection URL filter (substring or glob)'),
+        transport: z.enum(['websocket', 'eventsource']).optional().describe('Only WebSocket or only SSE traffic'),
+        type: z.array(z.enum(['connecting', 'open', 'sent', 'received', 'error', 'close'])).optional().describe('Entry types to include'),
+        contains: z.string().optional().describe('Only frames whose payload contains this text'),
+        since: z.number().optional().describe('Only entries at or after this timestamp (ms since epoch)'),
+        waitMs: z.number().nonnegative().optional().describe('Keep listening this long for new traffic (default: 0)'),
+        sessionId: z.string().optional().describe('Session ID'),
+    },
+    safeHandler(async ({ url, transport, type, contains, since, waitMs, sessionId }) => {
+        const sid = await resolveSessionId(sessionId);
+        const started = !await isWebSocketCaptureEnabled(sid);
+        if (started) await saveWebSocketCapture(sid, true);
+        // Connecting starts the capture on the current page
+        await withPage(sid, async () => {
+            if (waitMs) await new Promise(resolve => setTimeout(resolve, waitMs));
+        });
+        const logs = networkService.getWebSocketLogs(sid, { url, transport, type, contains, since });
+        return { content: [{ type: 'text' as const, text: JSON.stringify({ capturing: true, ...(started ? { started: true } : {}), logs }) }] };
+    })
+);
+
 // =================== Start Server ===================
 
 async function main() {
@@ -0,0 +1,125 @@
+import { SessionLifecycleEmitter, classifyDisconnect } from '../session-lifecycle';
+import { SessionManager } from '../session-manager';
+import { Browser } from '../index';
+import { Session } from '../types';
+
+function makeSession(config: Session['config'] = {}): Session {
+    return {
+        id: 's1',
+        websocketUrl: 'wss://cdp.lambdatest.com/puppeteer',
+        debugUrl: 'about:blank',
+        config,
+        status: 'live',
+    };
+}
+
+describe('SessionLifecycleEmitter', () => {
+    it('delivers typed payloads with a timestamp', () => {
+        const emitter = new SessionLifecycleEmitter();
+        const listener = jest.fn();
+        emitter.on('session.crashed', listener);
+
+        const session = makeSession();
+        emitter.emit('session.crashed', { session, reason: 'disconnected' });
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener.mock.calls[0][0]).toMatchObject({ session, reason: 'disconnected' });
+        expect(typeof listener.mock.calls[0][0].timestamp).toBe('number');
+    });
+
+    it('supports once and off', () => {
+        const emitter = new SessionLifecycleEmitter();
+        const onceListener = jest.fn();
+        const offListener = jest.fn();
+        emitter.once('session.created', onceListener);
+        emitter.on('session.created', offListener);
+        emitter.off('session.created', offListener);
+
+        emitter.emit('session.created', { session: makeSession(), reason: 'local' });
+        emitter.emit('session.created', { session: makeSession(), reason: 'local' });
+
+        expect(onceListener).toHaveBeenCalledTimes(1);
+        expect(offListener).not.toHaveBeenCalled();
+    });
+
+    it('isolates throwing listeners', () => {
+        const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+        const emitter = new SessionLifecycleEmitter();
+        const second = jest.fn();
+        emitter.on('session.released', () => { throw new Error('boom'); });
+        emitter.on('session.released', second);
+
+        expect(() => emitter.emit('session.released', { session: makeSession(), reason: 'client-release' })).not.toThrow();
+        expect(second).toHaveBeenCalled();
+        errorSpy.mockRestore();
+    });
+});
+
+describe('classifyDisconnect', () => {
+    it('reports idle timeout for cloud sessions without heartbeat past idleTimeout', () => {
+        const session = makeSession({ heartbeatInterval: 0, idleTimeout: 60 });
+        expect(classifyDisconnect(session, 0, 60_000)).toBe('session.idleTimeout');
+    });
+
+    it('reports crash when the heartbeat was running', () => {
+        const session = makeSession({ idleTimeout: 60 });
+        expect(classifyDisconnect(session, 0, 120_000)).toBe('session.crashed');
+    });
+
+    it('reports crash for local sessions', () => {
+        const session = makeSession({ local: true, heartbeatInterval: 0, idleTimeout: 60 });
+        expect(classifyDisconnect(session, 0, 120_000)).toBe('session.crashed');
+    });
+});
+
+describe('lifecycle wiring', () => {
+    let errorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        errorSpy.mockRestore();
+    });
+
+    it('SessionManager emits created and released with reasons', async () => {
+        const emitter = new SessionLifecycleEmitter();
+        const events: string[] = [];
+        emitter.on('session.created', e => events.push(`created:${e.reason}`));
+        emitter.on('session.released', e => events.push(`released:${e.reason}`));
+
+        const manager = new SessionManager();
+        manager.setLifecycleEmitter(emitter);
+        const session = await manager.createSession({ customWebSocketUrl: 'ws://localhost:9222/devtools/browser/abc' });
+        await manager.releaseSession(session.id);
+
+        expect(events).toEqual(['created:byob', 'released:client-release']);
+    });
+
+    it('Browser reports heartbeat failures and the final crash', async () => {
+        jest.useFakeTimers();
+        const browser = new Browser();
+        try {
+            const session = await browser.sessions.create({ customWebSocketUrl: 'ws://localhost:9222/devtools/browser/abc' });
+            const failed = jest.fn();
+            const crashed = jest.fn();
+            browser.on('session.heartbeatFailed', failed);
+            browser.on('session.crashed', crashed);
+
+            browser.heartbeat.start(session.id, async () => { throw new Error('gone'); }, 1000);
+            for (let i = 0; i < 3; i++) {
+                jest.advanceTimersByTime(1000);
+                // Flush the ping rejection and the async session lookup
+                for (let j = 0; j < 5; j++) await Promise.resolve();
+            }
+
+            expect(failed).toHaveBeenCalledTimes(3);
+            expect(failed.mock.calls[2][0]).toMatchObject({ failures: 3, maxFailures: 3, error: 'gone' });
+            expect(crashed).toHaveBeenCalledWith(expect.objectContaining({ reason: 'heartbeat-failed' }));
+        } finally {
+            browser.heartbeat.stopAll();
+            jest.useRealTimers();
+        }
+    });
+});
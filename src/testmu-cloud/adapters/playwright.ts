@@ -2,6 +2,11 @@
 import { chromium, Browser, BrowserContext, Page } from 'playwright-core';
 import { ProfileService } from '../profile-service.js';
 import { HeartbeatService } from '../services/heartbeat-service.js';
+import { EventsService } from '../services/events-service.js';
+import { ConsoleService } from '../services/console-service.js';
+import { DialogService } from '../services/dialog-service.js';
+import { SessionManager } from '../session-manager.js';
+import { SessionLifecycleEmitter, classifyDisconnect } from '../session-lifecycle.js';
 import { Session, StealthConfig } from '../types.js';
 import { getRandomUserAgent, getRandomizedViewport } from '../stealth-utils.js';
 import { fetchDashboardUrl } from '../utils/lambdatest-api.js';
@@ -9,6 +14,11 @@ import { fetchDashboardUrl } from '../utils/lambdatest-api.js';
 export class PlaywrightAdapter {
     private profileService: ProfileService;
     private heartbeatService: HeartbeatService | null = null;
+    private lifecycle: SessionLifecycleEmitter | null = null;
+    private eventsService: EventsService | null = null;
+    private consoleService: ConsoleService | null = null;
+    private dialogService: DialogService | null = null;
+    private sessionManager: SessionManager | null = null;
 
     constructor() {
         this.profileService = new ProfileService();
@@ -18,6 +28,26 @@ export class PlaywrightAdapter {
         this.heartbeatService = service;
     }
 
+    setLifecycleEmitter(emitter: SessionLifecycleEmitter): void {
+        this.lifecycle = emitter;
+    }
+
+    setEventsService(service: EventsService): void {
+        this.eventsService = service;
+    }
+
+    setConsoleService(service: ConsoleService): void {
+        this.consoleService = service;
+    }
+
+    setDialogService(service: DialogService): void {
+        this.dialogService = service;
+    }
+
+    setSessionManager(manager: SessionManager): void {
+        this.sessionManager = manager;
+    }
+
     async connect(session: Session): Promise<{ browser: Browser, context: BrowserContext, page: Page }> {
         console.error(`Playwright Adapter: Connecting to session ${session.id}...`);
         try {
@@ -150,6 +180,28 @@ export class PlaywrightAdapter {
             };
         }
 
+        // Inject the rrweb recorder into current and future pages
+        if (this.eventsService && session.config.recordEvents) {
+            await this.eventsService.recordContext(context, session.id).catch(err => {
+                console.error('Playwright Adapter: Failed to start session recording', err);
+            });
+        }
+
+        // Capture console output, page errors and failed requests of current and future pages
+        if (this.consoleService && session.config.captureConsole !== false) {
+            await this.consoleService.attachContext(context, session.id).catch(err => {
+                console.error('Playwright Adapter: Failed to start console capture', err);
+            });
+        }
+
+        // Answer JavaScript dialogs of current and future pages with the session's policy (default: dismiss)
+        if (this.dialogService) {
+            this.dialogService.setPolicy(session.id, session.config.dialogPolicy ?? null);
+            await this.dialogService.attachContext(context, session.id).catch(err => {
+                console.error('Playwright Adapter: Failed to attach dialog handling', err);
+            });
+        }
+
         // Start heartbeat for cloud sessions to prevent idle-timeout
         if (this.heartbeatService && !session.config.local && !session.config.customWebSocketUrl) {
             const heartbeatInterval = session.config.heartbeatInterval;
@@ -164,9 +216,38 @@ export class PlaywrightAdapter {
             }
         }
 
+        // Live details list this connection's tabs
+        this.sessionManager?.trackConnection(session.id, context);
+
+        this.watchDisconnect(browser, session);
+        this.lifecycle?.emit('session.connected', { session, reason: 'playwright' });
+
         return { browser, context, page };
     }
 
+    /**
+     * Report connections dropped by the remote end (crash, grid idle reap) as lifecycle events.
+     * Client-initiated close() and released sessions are not reported.
+     */
+    private watchDisconnect(browser: Browser, session: Session): void {
+        const lifecycle = this.lifecycle;
+        if (!lifecycle) return;
+
+        const connectedAt = Date.now();
+        let closedByClient = false;
+
+        const originalClose = browser.close.bind(browser);
+        browser.close = async (options?: { reason?: string }) => {
+            closedByClient = true;
+            return originalClose(options);
+        };
+
+        browser.once('disconnected', () => {
+            if (closedByClient || session.status !== 'live') return;
+            lifecycle.emit(classifyDisconnect(session, connectedAt), { session, reason: 'disconnected' });
+        });
+    }
+
     /**
      * Inject stealth evasion scripts into a Playwright page via addInitScript.
      * These scripts patch common bot-detection fingerprints.
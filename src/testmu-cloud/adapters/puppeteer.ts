@@ -3,6 +3,11 @@ import puppeteer, { Browser, Page } from 'puppeteer-core';
 import puppeteerExtra from '../utils/puppeteer-extra.js';
 import { ProfileService } from '../profile-service.js';
 import { HeartbeatService } from '../services/heartbeat-service.js';
+import { EventsService } from '../services/events-service.js';
+import { ConsoleService } from '../services/console-service.js';
+import { DialogService } from '../services/dialog-service.js';
+import { SessionManager } from '../session-manager.js';
+import { SessionLifecycleEmitter, classifyDisconnect } from '../session-lifecycle.js';
 import { Session } from '../types.js';
 import { getRandomUserAgent, getRandomizedViewport } from '../stealth-utils.js';
 import { fetchDashboardUrl } from '../utils/lambdatest-api.js';
@@ -10,6 +15,11 @@ import { fetchDashboardUrl } from '../utils/lambdatest-api.js';
 export class PuppeteerAdapter {
     private profileService: ProfileService;
     private heartbeatService: HeartbeatService | null = null;
+    private lifecycle: SessionLifecycleEmitter | null = null;
+    private eventsService: EventsService | null = null;
+    private consoleService: ConsoleService | null = null;
+    private dialogService: DialogService | null = null;
+    private sessionManager: SessionManager | null = null;
 
     constructor() {
         this.profileService = new ProfileService();
@@ -19,6 +29,26 @@ export class PuppeteerAdapter {
         this.heartbeatService = service;
     }
 
+    setLifecycleEmitter(emitter: SessionLifecycleEmitter): void {
+        this.lifecycle = emitter;
+    }
+
+    setEventsService(service: EventsService): void {
+        this.eventsService = service;
+    }
+
+    setConsoleService(service: ConsoleService): void {
+        this.consoleService = service;
+    }
+
+    setDialogService(service: DialogService): void {
+        this.dialogService = service;
+    }
+
+    setSessionManager(manager: SessionManager): void {
+        this.sessionManager = manager;
+    }
+
     async connect(session: Session): Promise<Browser> {
         console.error(`Adapter: Connecting to session ${session.id} via Puppeteer...`);
 
@@ -128,6 +158,28 @@ export class PuppeteerAdapter {
             };
         }
 
+        // Inject the rrweb recorder into current and future pages
+        if (this.eventsService && session.config.recordEvents) {
+            await this.eventsService.recordBrowser(browser, session.id).catch(err => {
+                console.error('Adapter: Failed to start session recording', err);
+            });
+        }
+
+        // Capture console output, page errors and failed requests of current and future pages
+        if (this.consoleService && session.config.captureConsole !== false) {
+            await this.consoleService.attachBrowser(browser, session.id).catch(err => {
+                console.error('Adapter: Failed to start console capture', err);
+            });
+        }
+
+        // Answer JavaScript dialogs of current and future pages with the session's policy (default: dismiss)
+        if (this.dialogService) {
+            this.dialogService.setPolicy(session.id, session.config.dialogPolicy ?? null);
+            await this.dialogService.attachBrowser(browser, session.id).catch(err => {
+                console.error('Adapter: Failed to attach dialog handling', err);
+            });
+        }
+
         // Start heartbeat for cloud sessions to prevent idle-timeout
         if (this.heartbeatService && !session.config.local && !session.config.customWebSocketUrl) {
             const heartbeatInterval = session.config.heartbeatInterval;
@@ -142,9 +194,43 @@ export class PuppeteerAdapter {
             }
         }
 
+        // Live details list this connection's tabs
+        this.sessionManager?.trackConnection(session.id, browser);
+
+        this.watchDisconnect(browser, session);
+        this.lifecycle?.emit('session.connected', { session, reason: 'puppeteer' });
+
         return browser;
     }
 
+    /**
+     * Report connections dropped by the remote end (crash, grid idle reap) as lifecycle events.
+     * Client-initiated close()/disconnect() and released sessions are not reported.
+     */
+    private watchDisconnect(browser: Browser, session: Session): void {
+        const lifecycle = this.lifecycle;
+        if (!lifecycle) return;
+
+        const connectedAt = Date.now();
+        let closedByClient = false;
+
+        const originalClose = browser.close.bind(browser);
+        browser.close = async () => {
+            closedByClient = true;
+            return originalClose();
+        };
+        const originalDisconnect = browser.disconnect.bind(browser);
+        browser.disconnect = async () => {
+            closedByClient = true;
+            return originalDisconnect();
+        };
+
+        browser.once('disconnected', () => {
+            if (closedByClient || session.status !== 'live') return;
+            lifecycle.emit(classifyDisconnect(session, connectedAt), { session, reason: 'disconnected' });
+        });
+    }
+
     /**
      * Monkey-patch page.click() and page.type() to add random human-like delays.
      */
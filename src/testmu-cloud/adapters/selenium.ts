@@ -2,17 +2,23 @@
 import { Builder, WebDriver, Capabilities } from 'selenium-webdriver';
 import { Session } from '../types.js';
 import { HeartbeatService } from '../services/heartbeat-service.js';
+import { SessionLifecycleEmitter } from '../session-lifecycle.js';
 import { fetchDashboardUrl } from '../utils/lambdatest-api.js';
 
 const LT_HUB_URL = 'https://hub.lambdatest.com/wd/hub';
 
 export class SeleniumAdapter {
     private heartbeatService: HeartbeatService | null = null;
+    private lifecycle: SessionLifecycleEmitter | null = null;
 
     setHeartbeatService(service: HeartbeatService): void {
         this.heartbeatService = service;
     }
 
+    setLifecycleEmitter(emitter: SessionLifecycleEmitter): void {
+        this.lifecycle = emitter;
+    }
+
     async connect(session: Session): Promise<WebDriver> {
         console.log(`Selenium Adapter: Connecting to session ${session.id}...`);
 
@@ -125,6 +131,9 @@ export class SeleniumAdapter {
             }
         }
 
+        // WebDriver has no disconnect event — dead sessions surface via heartbeat failures
+        this.lifecycle?.emit('session.connected', { session, reason: 'selenium' });
+
         return driver;
     }
 
@@ -1,8 +1,11 @@
 
 import { SessionManager } from './session-manager.js';
+import { SessionPool, SessionPoolOptions } from './session-pool.js';
+import { SessionLifecycleEmitter, SessionLifecycleEventName, SessionLifecycleListener } from './session-lifecycle.js';
 import {
     SessionConfig,
     Session,
+    AttachOptions,
     ComputerActionParams,
     ComputerActionResponse,
     SessionContext,
@@ -33,13 +36,32 @@ import { TunnelService } from './services/tunnel-service.js';
 import { ComputerService } from './services/computer-service.js';
 import { ContextService } from './services/context-service.js';
 import { EventsService } from './services/events-service.js';
+import { ReplayHtmlOptions } from './utils/replay-html.js';
 import { HeartbeatService } from './services/heartbeat-service.js';
 
 // Page Tools (agent-browser parity)
 import { PageService } from './services/page-service.js';
 import { SnapshotService } from './services/snapshot-service.js';
 import { NetworkService } from './services/network-service.js';
+import { ConsoleService } from './services/console-service.js';
+import { DialogService } from './services/dialog-service.js';
 import { InMemoryRefStore } from './stores/memory-ref-store.js';
+import { SessionStore } from './stores/session-store.js';
+
+export interface BrowserOptions {
+    /**
+     * Session registry used by `sessions.*`. Defaults to in-memory (current process only);
+     * pass a DiskSessionStore to list, retrieve and release sessions across processes.
+     */
+    sessionStore?: SessionStore;
+    /** Sizing and eviction for `browser.pool` (warm, reusable sessions). */
+    pool?: SessionPoolOptions;
+    /**
+     * Directory for session recordings (`<dir>/<sessionId>/events.jsonl`). Defaults to
+     * in-memory; set it to read recordings made by other processes.
+     */
+    eventsDir?: string;
+}
 
 /**
  * 
@@ -92,12 +114,20 @@ export class Browser {
     public page: PageService;
     public snapshotService: SnapshotService;
     public network: NetworkService;
+    public console: ConsoleService;
+    public dialogs: DialogService;
 
     // Heartbeat (keeps cloud sessions alive)
     public heartbeat: HeartbeatService;
 
-    constructor() {
-        this.sessionManager = new SessionManager();
+    // Warm session pool (reuses pre-launched sessions across short tasks)
+    public pool: SessionPool;
+
+    // Typed session lifecycle events (created, connected, heartbeatFailed, idleTimeout, released, crashed)
+    public lifecycle: SessionLifecycleEmitter;
+
+    constructor(options: BrowserOptions = {}) {
+        this.sessionManager = new SessionManager(options.sessionStore);
 
         // Adapters
         this.puppeteer = new PuppeteerAdapter();
@@ -116,13 +146,17 @@ export class Browser {
         // New TestMu AI Browser Cloud Parity Services
         this.computer = new ComputerService();
         this.context = new ContextService();
-        this.events = new EventsService();
+        this.events = new EventsService({ dir: options.eventsDir });
 
         // Page Tools (agent-browser parity)
         const refStore = new InMemoryRefStore();
         this.snapshotService = new SnapshotService(refStore);
         this.page = new PageService(this.snapshotService, refStore);
+        // Computer drags by @ref resolve refs the same way page actions do
+        this.computer.setPageService(this.page);
         this.network = new NetworkService();
+        this.console = new ConsoleService();
+        this.dialogs = new DialogService();
 
         // Heartbeat — keeps cloud sessions alive during agent idle periods
         this.heartbeat = new HeartbeatService();
@@ -134,14 +168,87 @@ export class Browser {
         this.sessionManager.setTunnelService(this.tunnel);
         this.sessionManager.setExtensionService(this.extensions);
 
+        // Session recording — adapters inject rrweb and stream events into the shared EventsService
+        this.sessionManager.setEventsService(this.events);
+        this.puppeteer.setEventsService(this.events);
+        this.playwright.setEventsService(this.events);
+
+        // Console capture — adapters attach every page of a session to the shared ConsoleService
+        this.puppeteer.setConsoleService(this.console);
+        this.playwright.setConsoleService(this.console);
+
+        // Dialog handling — adapters attach every page of a session to the shared DialogService, which dismisses dialogs unless the session's dialogPolicy says otherwise
+        this.puppeteer.setDialogService(this.dialogs);
+        this.playwright.setDialogService(this.dialogs);
+
+        // Live session details — adapters report their connections so tabs can be listed
+        this.puppeteer.setSessionManager(this.sessionManager);
+        this.playwright.setSessionManager(this.sessionManager);
+
+        // Session lifecycle events — emitted by SessionManager, the adapters and heartbeat failures
+        this.lifecycle = new SessionLifecycleEmitter();
+        this.sessionManager.setLifecycleEmitter(this.lifecycle);
+        this.puppeteer.setLifecycleEmitter(this.lifecycle);
+        this.playwright.setLifecycleEmitter(this.lifecycle);
+        this.selenium.setLifecycleEmitter(this.lifecycle);
+        this.heartbeat.onFailure(async (sessionId, failures, maxFailures, stopped, error) => {
+            const session = await this.sessionManager.getSessionAsync(sessionId);
+            if (!session || session.status !== 'live') return;
+            this.lifecycle.emit('session.heartbeatFailed', {
+                session,
+                reason: 'ping-failed',
+                failures,
+                maxFailures,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            if (stopped) {
+                this.lifecycle.emit('session.crashed', { session, reason: 'heartbeat-failed' });
+            }
+        });
+
         // Wire service cleanup on session release to prevent memory leaks
         this.sessionManager.onRelease((sessionId: string) => {
             this.heartbeat.stop(sessionId);
             this.network.clearSession(sessionId);
+            this.console.clearSession(sessionId);
+            this.dialogs.clearSession(sessionId);
             this.snapshotService.clearSession(sessionId);
             this.captcha.clearSession(sessionId);
             refStore.clear(sessionId);
         });
+
+        this.pool = new SessionPool(this.sessionManager, this.context, options.pool);
+    }
+
+    // ================== Lifecycle Events ==================
+
+    /**
+     * Subscribe to a session lifecycle event - shorthand for lifecycle.on()
+     *
+     * @example
+     * ```typescript
+     * browser.on('session.crashed', ({ session, reason }) => restartTask(session.id, reason));
+     * ```
+     */
+    public on<E extends SessionLifecycleEventName>(event: E, listener: SessionLifecycleListener<E>): this {
+        this.lifecycle.on(event, listener);
+        return this;
+    }
+
+    /**
+     * Subscribe to a single occurrence of a session lifecycle event
+     */
+    public once<E extends SessionLifecycleEventName>(event: E, listener: SessionLifecycleListener<E>): this {
+        this.lifecycle.once(event, listener);
+        return this;
+    }
+
+    /**
+     * Unsubscribe from a session lifecycle event
+     */
+    public off<E extends SessionLifecycleEventName>(event: E, listener: SessionLifecycleListener<E>): this {
+        this.lifecycle.off(event, listener);
+        return this;
     }
 
     // ================== Quick Action Aliases (TestMu AI Browser Cloud SDK style) ==================
@@ -178,19 +285,43 @@ export class Browser {
         },
 
         /**
-         * List all active sessions
+         * List the active sessions of this process. Use listAsync() to include
+         * sessions other processes saved to the session store.
          */
         list: (): Session[] => {
             return this.sessionManager.listSessions();
         },
 
         /**
-         * Retrieve a specific session by ID
+         * Retrieve a session of this process by ID. Use retrieveAsync() to
+         * look it up in the session store as well.
          */
         retrieve: (sessionId: string): Session | undefined => {
             return this.sessionManager.getSession(sessionId);
         },
 
+        /**
+         * List all active sessions, including those in the shared session store
+         */
+        listAsync: async (): Promise<Session[]> => {
+            return await this.sessionManager.listSessionsAsync();
+        },
+
+        /**
+         * Retrieve a specific session by ID, from this process or the session store
+         */
+        retrieveAsync: async (sessionId: string): Promise<Session | undefined> => {
+            return await this.sessionManager.getSessionAsync(sessionId);
+        },
+
+        /**
+         * Re-attach to a session created by another process so it can be released
+         * from here. Cloud credentials come from `options`, else LT_USERNAME/LT_ACCESS_KEY.
+         */
+        attach: async (sessionId: string, options?: AttachOptions): Promise<Session | undefined> => {
+            return await this.sessionManager.attachSession(sessionId, options);
+        },
+
         /**
          * Release a specific session
          */
@@ -214,6 +345,7 @@ export class Browser {
             page: any,
             params: ComputerActionParams
         ): Promise<ComputerActionResponse> => {
+            this.page.bind(page, sessionId);
             return await this.computer.execute(page, params);
         },
 
@@ -231,6 +363,13 @@ export class Browser {
             return this.sessionManager.getSessionEvents(sessionId);
         },
 
+        /**
+         * Export recorded events as a single offline HTML file with an rrweb player
+         */
+        exportReplay: (sessionId: string, options?: ReplayHtmlOptions): string => {
+            return this.events.exportReplay(sessionId, options);
+        },
+
         /**
          * Get live session details (pages, tabs, state)
          */
@@ -277,6 +416,15 @@ export * from './types.js';
 
 // ================== Export Services ==================
 export { SessionManager } from './session-manager.js';
+export { SessionPool, SessionPoolOptions, SessionPoolStats, poolKey } from './session-pool.js';
+export {
+    SessionLifecycleEmitter,
+    SessionLifecycleEvents,
+    SessionLifecycleEventName,
+    SessionLifecycleListener,
+    SessionLifecyclePayload,
+    SessionHeartbeatFailedPayload,
+} from './session-lifecycle.js';
 export { PuppeteerAdapter } from './adapters/puppeteer.js';
 export { PlaywrightAdapter } from './adapters/playwright.js';
 export { SeleniumAdapter } from './adapters/selenium.js';
@@ -287,15 +435,72 @@ export { CredentialService } from './services/credential-service.js';
 export { ProfileService } from './profile-service.js';
 export { CaptchaService } from './services/captcha-service.js';
 export { TunnelService } from './services/tunnel-service.js';
-export { ComputerService } from './services/computer-service.js';
+export { ComputerService, ComputerServiceOptions } from './services/computer-service.js';
 export { ContextService } from './services/context-service.js';
-export { EventsService } from './services/events-service.js';
+export { EventsService, EventsServiceOptions } from './services/events-service.js';
+export { buildReplayHtml, ReplayHtmlOptions } from './utils/replay-html.js';
 export { HeartbeatService } from './services/heartbeat-service.js';
 
 // Page Tools
-export { PageService } from './services/page-service.js';
-export { NetworkService } from './services/network-service.js';
-export { SnapshotService, SnapshotOptions, SnapshotNode, SnapshotResult } from './services/snapshot-service.js';
+export {
+    PageService,
+    AnnotatedScreenshotOptions,
+    AnnotatedScreenshot,
+    AnnotatedRef,
+    ElementWaitState,
+    WaitForOptions,
+    WaitForResult,
+} from './services/page-service.js';
+export { WaitTimeoutError } from './utils/wait.js';
+export {
+    PageAssertions,
+    AssertionOptions,
+    TextAssertionOptions,
+    AssertionResult,
+    AssertionValue,
+    AssertionKind,
+    AssertionSpec,
+    runAssertion,
+} from './services/page-assertions.js';
+export { TabInfo } from './utils/tabs.js';
+export {
+    NetworkService,
+    NetworkConditions,
+    NetworkConditionsPreset,
+    NETWORK_CONDITION_PRESETS,
+    HarCaptureOptions,
+    HarReplayOptions,
+    RouteSpec,
+    RouteRequest,
+    RouteAction,
+    RouteAbortCode,
+    RouteHandler,
+    RouteInfo,
+    RequestOverrides,
+    ResponseOverrides,
+    NetworkServiceOptions,
+    WebSocketLogEntry,
+    WebSocketLogFilter,
+    WebSocketLogType,
+} from './services/network-service.js';
+export { Har, HarEntry } from './utils/har.js';
+export {
+    ConsoleService,
+    ConsoleServiceOptions,
+    ConsoleEntry,
+    ConsoleEntryKind,
+    ConsoleFilter,
+    ConsoleSourceLocation,
+} from './services/console-service.js';
+export {
+    DialogService,
+    DialogServiceOptions,
+    DialogEntry,
+    DialogStatus,
+    DialogResponse,
+    DialogListener,
+} from './services/dialog-service.js';
+export { SnapshotService, SnapshotOptions, SnapshotScope, SnapshotOmissionReason, SnapshotNode, SnapshotResult } from './services/snapshot-service.js';
 export { detectFramework } from './utils/framework-detect.js';
 
 // Stores
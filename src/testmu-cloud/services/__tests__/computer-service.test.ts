@@ -0,0 +1,206 @@
+import { ComputerService } from '../computer-service';
+import { pngSize, readViewportSize, toViewportPoint } from '../../utils/display-scale';
+import { decodePng, encodePng } from '../../utils/png';
+
+/** Base64 PNG header (signature + IHDR) of a `width`x`height` image */
+function pngHeader(width: number, height: number): string {
+    const buf = Buffer.alloc(33);
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(buf, 0);
+    buf.writeUInt32BE(13, 8);
+    buf.write('IHDR', 12, 'ascii');
+    buf.writeUInt32BE(width, 16);
+    buf.writeUInt32BE(height, 20);
+    return buf.toString('base64');
+}
+
+/** Base64 PNG of a `width`x`height` image in one color */
+function solidPng(width: number, height: number, [r, g, b]: number[]): string {
+    const data = new Uint8Array(width * height * 4);
+    for (let i = 0; i < data.length; i += 4) data.set([r, g, b, 255], i);
+    return encodePng({ width, height, data }).toString('base64');
+}
+
+function pixel(image: { width: number, data: Uint8Array }, x: number, y: number): number[] {
+    const i = (y * image.width + x) * 4;
+    return Array.from(image.data.subarray(i, i + 4));
+}
+
+/**
+ * Puppeteer-like page with a 1440x900 CSS viewport at devicePixelRatio 2,
+ * so its screenshots are 2880x1800
+ */
+function createMockPage() {
+    return {
+        mouse: {
+            move: jest.fn(async () => {}),
+            click: jest.fn(async () => {}),
+            down: jest.fn(async () => {}),
+            up: jest.fn(async () => {}),
+        },
+        keyboard: {
+            type: jest.fn(async () => {}),
+            down: jest.fn(async (_key: string) => {}),
+            up: jest.fn(async (_key: string) => {}),
+        },
+        screenshot: jest.fn(async () => pngHeader(2880, 1800)),
+        evaluate: jest.fn(async (fn: (...args: any[]) => any, ..._args: any[]): Promise<any> => {
+            if (fn === readViewportSize) return { width: 1440, height: 900 };
+            // window.scrollBy
+            return undefined;
+        }),
+    };
+}
+
+describe('ComputerService display scaling', () => {
+    it('maps display coordinates to viewport CSS pixels', async () => {
+        const page = createMockPage();
+        const service = new ComputerService({ displaySize: { width: 1280, height: 800 } });
+
+        const result = await service.execute(page as any, { action: 'click', coordinate: [640, 400] });
+        expect(page.mouse.click).toHaveBeenCalledWith(720, 450);
+        expect(result.output).toBe('Clicked at (640, 400)');
+    });
+
+    it('maps both ends of a drag', async () => {
+        const page = createMockPage();
+        const service = new ComputerService();
+        service.setDisplaySize({ width: 720, height: 450 });
+
+        await service.execute(page as any, { action: 'drag', startCoordinate: [10, 20], coordinate: [100, 200] });
+        expect(page.mouse.move).toHaveBeenNthCalledWith(1, 20, 40);
+        expect(page.mouse.move).toHaveBeenNthCalledWith(2, 200, 400, { steps: 10 });
+    });
+
+    it('resizes screenshots from device pixels to the display size', async () => {
+        const page = createMockPage();
+        page.screenshot.mockResolvedValue(solidPng(288, 180, [200, 40, 40]));
+        const service = new ComputerService();
+
+        const result = await service.execute(page as any, { action: 'screenshot', displaySize: { width: 128, height: 80 } });
+        const image = decodePng(Buffer.from(result.base64_image!, 'base64'));
+        expect([image.width, image.height]).toEqual([128, 80]);
+        expect(pixel(image, 64, 40)).toEqual([200, 40, 40, 255]);
+        expect(page.evaluate).not.toHaveBeenCalled();
+    });
+
+    it('letterboxes a display with another aspect ratio', async () => {
+        const page = createMockPage();
+        page.screenshot.mockResolvedValue(solidPng(144, 90, [255, 255, 255]));
+        const service = new ComputerService({ displaySize: { width: 100, height: 100 } });
+
+        const result = await service.execute(page as any, { action: 'screenshot' });
+        const image = decodePng(Buffer.from(result.base64_image!, 'base64'));
+        // 144x90 scales to 100x63, centered between black bars
+        expect(pixel(image, 50, 5)).toEqual([0, 0, 0, 255]);
+        expect(pixel(image, 50, 50)).toEqual([255, 255, 255, 255]);
+        expect(pixel(image, 50, 95)).toEqual([0, 0, 0, 255]);
+    });
+
+    it('maps letterboxed coordinates without distorting them', async () => {
+        const page = createMockPage();
+        const service = new ComputerService({ displaySize: { width: 1440, height: 1440 } });
+
+        await service.execute(page as any, { action: 'click', coordinate: [720, 720] });
+        expect(page.mouse.click).toHaveBeenLastCalledWith(720, 450);
+        // The bar above the page maps to its top edge
+        await service.execute(page as any, { action: 'click', coordinate: [100, 100] });
+        expect(page.mouse.click).toHaveBeenLastCalledWith(100, 0);
+    });
+
+    it('scales scroll distances like coordinates', async () => {
+        const page = createMockPage();
+        const service = new ComputerService({ displaySize: { width: 720, height: 450 } });
+
+        const result = await service.execute(page as any, { action: 'scroll', deltaY: 100 });
+        expect(page.evaluate).toHaveBeenLastCalledWith(expect.any(Function), 0, 200);
+        expect(result.output).toBe('Scrolled by (0, 100)');
+    });
+
+    it('leaves coordinates and screenshots alone without a display size', async () => {
+        const page = createMockPage();
+        const service = new ComputerService();
+
+        await service.execute(page as any, { action: 'click', coordinate: [640, 400], screenshot: true });
+        expect(page.mouse.click).toHaveBeenCalledWith(640, 400);
+        expect(page.evaluate).not.toHaveBeenCalled();
+    });
+
+    it('skips the resize when the screenshot already has the display size', async () => {
+        const page = createMockPage();
+        const service = new ComputerService({ displaySize: { width: 2880, height: 1800 } });
+
+        const result = await service.execute(page as any, { action: 'screenshot' });
+        expect(result.base64_image).toBe(pngHeader(2880, 1800));
+        expect(page.evaluate).not.toHaveBeenCalled();
+    });
+
+    it('rejects invalid display sizes', async () => {
+        const service = new ComputerService();
+        expect(() => service.setDisplaySize({ width: 0, height: 800 })).toThrow('Invalid display size 0x800');
+
+        const result = await service.execute(createMockPage() as any, { action: 'click', coordinate: [1, 1], displaySize: { width: 12.5, height: 10 } });
+        expect(result.error).toBe('Invalid display size 12.5x10: width and height must be positive integers');
+    });
+
+    it('reads PNG sizes and keeps the aspect ratio when mapping points', () => {
+        expect(pngSize(pngHeader(1024, 768))).toEqual({ width: 1024, height: 768 });
+        expect(pngSize(Buffer.from('not a png at all, really').toString('base64'))).toBeNull();
+        // 1920x1080 fits 1024x768 as 1024x576, 96px below the top
+        expect(toViewportPoint([512, 384], { width: 1024, height: 768 }, { width: 1920, height: 1080 })).toEqual([960, 540]);
+        expect(toViewportPoint([256, 96], { width: 1024, height: 768 }, { width: 1920, height: 1080 })).toEqual([480, 0]);
+    });
+});
+
+describe('ComputerService mouse and key actions', () => {
+    it('presses and releases the button at coordinates', async () => {
+        const page = createMockPage();
+        const service = new ComputerService();
+
+        const down = await service.execute(page as any, { action: 'mouse_down', coordinate: [10, 20] });
+        const up = await service.execute(page as any, { action: 'mouse_up', coordinate: [30, 40] });
+        expect(page.mouse.move.mock.calls).toEqual([[10, 20], [30, 40]]);
+        expect(page.mouse.down).toHaveBeenCalledTimes(1);
+        expect(page.mouse.up).toHaveBeenCalledTimes(1);
+        expect([down.output, up.output]).toEqual(['Pressed mouse button at (10, 20)', 'Released mouse button at (30, 40)']);
+    });
+
+    it('drags between coordinates and releases the button when the drag fails', async () => {
+        const page = createMockPage();
+        const service = new ComputerService();
+
+        const result = await service.execute(page as any, { action: 'drag', startCoordinate: [0, 0], coordinate: [50, 60] });
+        expect(result.output).toBe('Dragged from (0, 0) to (50, 60)');
+
+        page.mouse.move.mockImplementation(async (...args: any[]) => {
+            if (args[0] === 50) throw new Error('Target closed');
+        });
+        const failed = await service.execute(page as any, { action: 'drag', startCoordinate: [0, 0], coordinate: [50, 60] });
+        expect(failed.error).toBe('Target closed');
+        expect(page.mouse.up).toHaveBeenCalledTimes(2);
+
+        const missing = await service.execute(page as any, { action: 'drag', coordinate: [50, 60] });
+        expect(missing.error).toBe('drag needs startCoordinate and coordinate, or source and target');
+    });
+
+    it('holds keys for the duration before releasing them', async () => {
+        jest.useFakeTimers();
+        try {
+            const page = createMockPage();
+            const service = new ComputerService();
+
+            const done = service.execute(page as any, { action: 'hold_key', text: 'shift', duration: 300 });
+            await jest.advanceTimersByTimeAsync(299);
+            expect(page.keyboard.down).toHaveBeenCalledWith('Shift');
+            expect(page.keyboard.up).not.toHaveBeenCalled();
+            await jest.advanceTimersByTimeAsync(1);
+            expect((await done).output).toBe('Held key: shift for 300ms');
+            expect(page.keyboard.up).toHaveBeenCalledWith('Shift');
+
+            const held = service.execute(page as any, { action: 'hold_key', text: 'a' });
+            await jest.advanceTimersByTimeAsync(1000);
+            expect((await held).output).toBe('Held key: a for 1000ms');
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+});
@@ -0,0 +1,178 @@
+import { ConsoleService } from '../console-service';
+
+/** Minimal event emitter standing in for a page or CDP session */
+function createEmitter() {
+    const handlers: Record<string, ((...args: any[]) => void)[]> = {};
+    return {
+        on: (event: string, handler: (...args: any[]) => void) => {
+            (handlers[event] ||= []).push(handler);
+        },
+        _emit: (event: string, ...args: any[]) => (handlers[event] || []).forEach(h => h(...args)),
+    };
+}
+
+function createMockCdpPage() {
+    const client = {
+        ...createEmitter(),
+        send: jest.fn(async (_method: string) => undefined),
+        detach: jest.fn(async () => {}),
+    };
+    return { ...createEmitter(), createCDPSession: jest.fn(async () => client), _client: client };
+}
+
+function createMockRequest(url: string, failure: string | null = null, method = 'GET') {
+    return { url: () => url, method: () => method, resourceType: () => 'fetch', failure: () => (failure ? { errorText: failure } : null) };
+}
+
+describe('ConsoleService', () => {
+    let service: ConsoleService;
+
+    beforeEach(() => {
+        service = new ConsoleService();
+    });
+
+    describe('Puppeteer (CDP)', () => {
+        it('records console calls with args and source location', async () => {
+            const page = createMockCdpPage();
+            await service.attach(page, 's1');
+            expect(page._client.send).toHaveBeenCalledWith('Runtime.enable');
+
+            page._client._emit('Runtime.consoleAPICalled', {
+                type: 'warning',
+                args: [{ type: 'string', value: 'count' }, { type: 'number', value: 3 }, { type: 'object', subtype: 'node', description: 'div#app' }],
+                stackTrace: { callFrames: [{ url: 'https://a.com/app.js', lineNumber: 9, columnNumber: 4 }] },
+                timestamp: 1700000000000.5,
+            });
+
+            expect(service.getLogs('s1')).toEqual([{
+                kind: 'console',
+                level: 'warn',
+                text: 'count 3 div#app',
+                args: ['count', 3, 'div#app'],
+                location: { url: 'https://a.com/app.js', lineNumber: 9, columnNumber: 4 },
+                timestamp: 1700000000001,
+            }]);
+        });
+
+        it('records uncaught exceptions with their stack', async () => {
+            const page = createMockCdpPage();
+            await service.attach(page, 's1');
+            page._client._emit('Runtime.exceptionThrown', {
+                timestamp: 1000,
+                exceptionDetails: {
+                    text: 'Uncaught',
+                    url: 'https://a.com/app.js',
+                    lineNumber: 1,
+                    columnNumber: 2,
+                    exception: { description: 'TypeError: x is undefined\n    at f (app.js:2:3)' },
+                },
+            });
+            const [entry] = service.getLogs('s1', { kind: 'pageerror' });
+            expect(entry.text).toBe('TypeError: x is undefined');
+            expect(entry.stack).toContain('at f (app.js:2:3)');
+            expect(entry.location).toEqual({ url: 'https://a.com/app.js', lineNumber: 1, columnNumber: 2 });
+        });
+
+        it('attaches a page only once', async () => {
+            const page = createMockCdpPage();
+            await service.attach(page, 's1');
+            await service.attach(page, 's1');
+            expect(page.createCDPSession).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    it('records network failures and HTTP errors as failed requests', async () => {
+        const page = createMockCdpPage();
+        await service.attach(page, 's1');
+        page._emit('requestfailed', createMockRequest('https://a.com/api', 'net::ERR_CONNECTION_REFUSED', 'POST'));
+        page._emit('response', { status: () => 200, url: () => 'https://a.com/', request: () => createMockRequest('https://a.com/') });
+        page._emit('response', { status: () => 404, url: () => 'https://a.com/missing.js', request: () => createMockRequest('https://a.com/missing.js') });
+
+        const failed = service.getLogs('s1', { kind: 'requestfailed' });
+        expect(failed.map(e => e.text)).toEqual([
+            'POST https://a.com/api net::ERR_CONNECTION_REFUSED',
+            'GET https://a.com/missing.js 404',
+        ]);
+        expect(failed[1].request).toEqual({ url: 'https://a.com/missing.js', method: 'GET', resourceType: 'fetch', status: 404 });
+    });
+
+    it('records Playwright console messages and page errors', async () => {
+        const page = { ...createEmitter(), locator: () => ({}), context: () => ({}) };
+        await service.attach(page, 's1');
+        page._emit('console', {
+            type: () => 'error',
+            text: () => 'boom {"a":1}',
+            location: () => ({ url: 'https://a.com/', lineNumber: 0, columnNumber: 0 }),
+            args: () => [{ jsonValue: async () => 'boom' }, { jsonValue: async () => ({ a: 1 }) }],
+        });
+        page._emit('pageerror', new Error('kaput'));
+        await new Promise(r => setImmediate(r));
+
+        const [message, error] = service.getLogs('s1');
+        expect(message).toMatchObject({ kind: 'console', level: 'error', text: 'boom {"a":1}', args: ['boom', { a: 1 }] });
+        expect(error).toMatchObject({ kind: 'pageerror', level: 'error', text: 'kaput' });
+    });
+
+    it('reads Playwright chromium consoles over CDP so earlier messages are replayed', async () => {
+        const { _client: client } = createMockCdpPage();
+        const newCDPSession = jest.fn(async () => client);
+        const page = { ...createEmitter(), locator: () => ({}), context: () => ({ newCDPSession }) };
+        await service.attach(page, 's1');
+        expect(newCDPSession).toHaveBeenCalledWith(page);
+        expect(client.send).toHaveBeenCalledWith('Runtime.enable');
+
+        client._emit('Runtime.consoleAPICalled', { type: 'log', args: [{ type: 'string', value: 'before attach' }], timestamp: 1 });
+        expect(service.getLogs('s1').map(e => e.text)).toEqual(['before attach']);
+    });
+
+    it('filters by level, text and time, and caps the log size', async () => {
+        service = new ConsoleService({ maxEntries: 3 });
+        const page = createMockCdpPage();
+        await service.attach(page, 's1');
+        const log = (type: string, text: string, timestamp: number) =>
+            page._client._emit('Runtime.consoleAPICalled', { type, args: [{ type: 'string', value: text }], timestamp });
+        log('log', 'dropped', 1);
+        log('log', 'ready', 2);
+        log('warning', 'slow request', 3);
+        log('error', 'Request failed', 4);
+
+        expect(service.getLogs('s1').map(e => e.text)).toEqual(['ready', 'slow request', 'Request failed']);
+        expect(service.getLogs('s1', { level: ['warning', 'error'] })).toHaveLength(2);
+        expect(service.getLogs('s1', { text: /request/i })).toHaveLength(2);
+        expect(service.getLogs('s1', { since: 4 })[0].text).toBe('Request failed');
+    });
+
+    it('clear discards the browser-side buffer when given a page', async () => {
+        const page = createMockCdpPage();
+        await service.attach(page, 's1');
+        page._client._emit('Runtime.consoleAPICalled', { type: 'log', args: [], timestamp: 1 });
+        await service.clear('s1', page);
+        expect(service.getLogs('s1')).toEqual([]);
+        expect(page._client.send).toHaveBeenCalledWith('Runtime.discardConsoleEntries');
+    });
+
+    it('clearSession drops entries and detaches CDP sessions', async () => {
+        const page = createMockCdpPage();
+        await service.attach(page, 's1');
+        page._client._emit('Runtime.consoleAPICalled', { type: 'log', args: [], timestamp: 1 });
+        service.clearSession('s1');
+        expect(service.getLogs('s1')).toEqual([]);
+        expect(page._client.detach).toHaveBeenCalled();
+    });
+
+    it('clearSession ignores CDP sessions that fail to detach', async () => {
+        const page = createMockCdpPage();
+        await service.attach(page, 's1');
+        page._client.detach.mockRejectedValue(new Error('Target closed'));
+        const unhandled = jest.fn();
+        process.on('unhandledRejection', unhandled);
+        try {
+            service.clearSession('s1');
+            await new Promise(r => setImmediate(r));
+            expect(page._client.detach).toHaveBeenCalled();
+            expect(unhandled).not.toHaveBeenCalled();
+        } finally {
+            process.off('unhandledRejection', unhandled);
+        }
+    });
+});
@@ -0,0 +1,141 @@
+import { DialogService, DialogEntry } from '../dialog-service';
+
+/** Minimal event emitter standing in for a page */
+function createMockPage(url = 'https://a.com/') {
+    const handlers: Record<string, ((...args: any[]) => void)[]> = {};
+    return {
+        url: () => url,
+        on: (event: string, handler: (...args: any[]) => void) => {
+            (handlers[event] ||= []).push(handler);
+        },
+        _emit: (event: string, ...args: any[]) => (handlers[event] || []).forEach(h => h(...args)),
+    };
+}
+
+function createMockDialog(type: string, message: string, defaultValue = '') {
+    return {
+        type: () => type,
+        message: () => message,
+        defaultValue: () => defaultValue,
+        accept: jest.fn(async (_text?: string) => {}),
+        dismiss: jest.fn(async () => {}),
+    };
+}
+
+/** Let the async dialog handler run */
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('DialogService', () => {
+    let service: DialogService;
+
+    beforeEach(() => {
+        service = new DialogService();
+    });
+
+    it('dismisses dialogs by default and logs them', async () => {
+        const page = createMockPage();
+        await service.attach(page, 's1');
+        const dialog = createMockDialog('confirm', 'Sure?');
+        page._emit('dialog', dialog);
+        await flush();
+
+        expect(dialog.dismiss).toHaveBeenCalled();
+        expect(dialog.accept).not.toHaveBeenCalled();
+        expect(service.getLog('s1')).toEqual([expect.objectContaining({
+            type: 'confirm',
+            message: 'Sure?',
+            url: 'https://a.com/',
+            status: 'dismissed',
+            handledBy: 'policy',
+        })]);
+    });
+
+    it('accepts prompts with the policy text, or their default value', async () => {
+        const page = createMockPage();
+        await service.attach(page, 's1');
+        service.setPolicy('s1', { action: 'accept', promptText: 'alice' });
+        const named = createMockDialog('prompt', 'Name?', 'bob');
+        page._emit('dialog', named);
+        await flush();
+        expect(named.accept).toHaveBeenCalledWith('alice');
+
+        service.setPolicy('s1', { action: 'accept' });
+        const unnamed = createMockDialog('prompt', 'Name?', 'bob');
+        page._emit('dialog', unnamed);
+        await flush();
+        expect(unnamed.accept).toHaveBeenCalledWith('bob');
+
+        const alert = createMockDialog('alert', 'Hi');
+        page._emit('dialog', alert);
+        await flush();
+        expect(alert.accept).toHaveBeenCalledWith(undefined);
+        expect(service.getLog('s1').map(e => e.promptText)).toEqual(['alice', 'bob', undefined]);
+    });
+
+    it('queues dialogs until respond() answers them', async () => {
+        const page = createMockPage();
+        await service.attach(page, 's1');
+        service.setPolicy('s1', { action: 'queue' });
+        const seen: DialogEntry[] = [];
+        service.onDialog((_sid, entry) => seen.push(entry));
+
+        const dialog = createMockDialog('prompt', 'Name?', 'bob');
+        page._emit('dialog', dialog);
+        await flush();
+        const [pending] = service.getPending('s1');
+        expect(pending.status).toBe('pending');
+        expect(dialog.accept).not.toHaveBeenCalled();
+
+        const answered = await service.respond('s1', { accept: true, promptText: 'zed' });
+        expect(dialog.accept).toHaveBeenCalledWith('zed');
+        expect(answered).toEqual(expect.objectContaining({ id: pending.id, status: 'accepted', handledBy: 'agent', promptText: 'zed' }));
+        expect(service.getPending('s1')).toEqual([]);
+        expect(seen.map(e => e.status)).toEqual(['pending', 'accepted']);
+    });
+
+    it('dismisses queued dialogs after the policy timeout', async () => {
+        jest.useFakeTimers();
+        try {
+            const page = createMockPage();
+            await service.attach(page, 's1');
+            service.setPolicy('s1', { action: 'queue', timeout: 1000 });
+            const dialog = createMockDialog('confirm', 'Sure?');
+            page._emit('dialog', dialog);
+            await Promise.resolve();
+            expect(service.getPending('s1')).toHaveLength(1);
+
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(dialog.dismiss).toHaveBeenCalled();
+            expect(service.getLog('s1')[0]).toEqual(expect.objectContaining({ status: 'dismissed', handledBy: 'timeout' }));
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    it('throws when no dialog is waiting', async () => {
+        await expect(service.respond('s1', { accept: true })).rejects.toThrow('No dialog is waiting for a response in session "s1".');
+        await expect(service.respond('s1', { accept: true, id: 'dialog_x' })).rejects.toThrow('Dialog "dialog_x" is not waiting for a response.');
+    });
+
+    it('rejects unknown actions and resets to dismiss with null', () => {
+        expect(() => service.setPolicy('s1', { action: 'ignore' as any })).toThrow('Invalid dialog action "ignore"');
+        service.setPolicy('s1', { action: 'accept' });
+        service.setPolicy('s1', null);
+        expect(service.getPolicy('s1')).toEqual({ action: 'dismiss' });
+    });
+
+    it('clearSession dismisses queued dialogs and drops the log', async () => {
+        const page = createMockPage();
+        await service.attach(page, 's1');
+        service.setPolicy('s1', { action: 'queue' });
+        const dialog = createMockDialog('confirm', 'Sure?');
+        page._emit('dialog', dialog);
+        await flush();
+
+        service.clearSession('s1');
+        expect(dialog.dismiss).toHaveBeenCalled();
+        expect(service.getLog('s1')).toEqual([]);
+        expect(service.getPending('s1')).toEqual([]);
+        expect(service.getPolicy('s1')).toEqual({ action: 'dismiss' });
+    });
+});
@@ -0,0 +1,195 @@
+import { EventsService } from '../events-service';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+
+function createMockPuppeteerPage() {
+    const bindings: Record<string, (...args: any[]) => unknown> = {};
+    const initScripts: string[] = [];
+    const evaluated: string[] = [];
+
+    return {
+        exposeFunction: async (name: string, fn: (...args: any[]) => unknown) => { bindings[name] = fn; },
+        evaluateOnNewDocument: async (script: string) => { initScripts.push(script); },
+        evaluate: async (script: string) => { evaluated.push(script); },
+        _bindings: bindings,
+        _initScripts: initScripts,
+        _evaluated: evaluated,
+    };
+}
+
+function createMockPlaywrightContext() {
+    const bindings: Record<string, (...args: any[]) => unknown> = {};
+    const initScripts: string[] = [];
+    const page: any = {
+        locator: () => ({}),
+        evaluate: async () => {},
+    };
+    const context = {
+        exposeBinding: async (name: string, fn: (...args: any[]) => unknown) => { bindings[name] = fn; },
+        addInitScript: async (script: { content: string }) => { initScripts.push(script.content); },
+        pages: () => [page],
+        _bindings: bindings,
+        _initScripts: initScripts,
+    };
+    page.context = () => context;
+    return { context, page };
+}
+
+const fullSnapshot = { type: 2, data: { node: {}, initialOffset: { top: 0, left: 0 } }, timestamp: 2 };
+const incremental = { type: 3, data: { source: 2 }, timestamp: 3 };
+
+describe('EventsService', () => {
+    let errorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        errorSpy.mockRestore();
+    });
+
+    describe('recordPage (Puppeteer)', () => {
+        it('injects rrweb for the current and future documents', async () => {
+            const service = new EventsService();
+            const page = createMockPuppeteerPage();
+            await service.recordPage(page, 's1');
+
+            expect(Object.keys(page._bindings)).toEqual(['__testmuRecordEvents']);
+            expect(page._initScripts).toHaveLength(1);
+            expect(page._initScripts[0]).toContain('rrwebRecord');
+            expect(page._evaluated).toEqual(page._initScripts);
+        });
+
+        it('streams batches from the binding into the session recording', async () => {
+            const service = new EventsService();
+            const page = createMockPuppeteerPage();
+            service.startRecording('s1');
+            await service.recordPage(page, 's1');
+
+            page._bindings.__testmuRecordEvents(JSON.stringify([fullSnapshot, incremental]));
+
+            const events = service.getEvents('s1');
+            expect(events.map(e => e.type)).toEqual([0, 2, 3]);
+        });
+
+        it('injects once per page', async () => {
+            const service = new EventsService();
+            const page = createMockPuppeteerPage();
+            const exposeSpy = jest.spyOn(page, 'exposeFunction');
+            await service.recordPage(page, 's1');
+            await service.recordPage(page, 's1');
+            expect(exposeSpy).toHaveBeenCalledTimes(1);
+        });
+
+        it('drops malformed batches', async () => {
+            const service = new EventsService();
+            const page = createMockPuppeteerPage();
+            await service.recordPage(page, 's1');
+            page._bindings.__testmuRecordEvents('not json');
+            expect(service.getEventCount('s1')).toBe(0);
+        });
+    });
+
+    describe('recordBrowser', () => {
+        it('records existing pages and pages opened later', async () => {
+            const service = new EventsService();
+            const existing = createMockPuppeteerPage();
+            const opened = createMockPuppeteerPage();
+            const handlers: Record<string, (...args: any[]) => unknown> = {};
+            const browser = {
+                pages: async () => [existing],
+                on: (event: string, handler: (...args: any[]) => unknown) => { handlers[event] = handler; },
+                once: jest.fn(),
+                off: jest.fn(),
+            };
+
+            await service.recordBrowser(browser, 's1');
+            await handlers.targetcreated({ type: () => 'page', page: async () => opened });
+
+            existing._bindings.__testmuRecordEvents(JSON.stringify([fullSnapshot]));
+            opened._bindings.__testmuRecordEvents(JSON.stringify([incremental]));
+            expect(service.getEvents('s1').map(e => e.type)).toEqual([2, 3]);
+        });
+    });
+
+    describe('recordContext (Playwright)', () => {
+        it('registers the binding and init script on the context', async () => {
+            const service = new EventsService();
+            const { context, page } = createMockPlaywrightContext();
+            await service.recordPage(page, 's1');
+            await service.recordContext(context, 's1');
+
+            expect(context._initScripts).toHaveLength(1);
+            context._bindings.__testmuRecordEvents({}, JSON.stringify([fullSnapshot]));
+            expect(service.getEventCount('s1')).toBe(1);
+        });
+    });
+
+    describe('with a directory', () => {
+        let tmpDir: string;
+
+        beforeEach(async () => {
+            tmpDir = path.join(os.tmpdir(), `browser-cloud-events-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+            await fs.ensureDir(tmpDir);
+        });
+
+        afterEach(async () => {
+            await fs.remove(tmpDir);
+        });
+
+        it('shares recordings across instances', async () => {
+            const recorder = new EventsService({ dir: tmpDir });
+            const page = createMockPuppeteerPage();
+            recorder.startRecording('s1');
+            await recorder.recordPage(page, 's1');
+            page._bindings.__testmuRecordEvents(JSON.stringify([fullSnapshot, incremental]));
+            // Not written yet, but already part of the recorder's own view
+            expect(recorder.getEvents('s1').map(e => e.type)).toEqual([0, 2, 3]);
+            await recorder.flushRecording(page);
+
+            const reader = new EventsService({ dir: tmpDir });
+            expect(reader.getEvents('s1').map(e => e.type)).toEqual([0, 2, 3]);
+        });
+
+        it('batches events that arrive during a write into one append', async () => {
+            const service = new EventsService({ dir: tmpDir });
+            const page = createMockPuppeteerPage();
+            service.startRecording('s1');
+            await service.recordPage(page, 's1');
+            await service.flushRecording(page);
+            const appendSpy = jest.spyOn(fs.promises, 'appendFile');
+            try {
+                page._bindings.__testmuRecordEvents(JSON.stringify([fullSnapshot]));
+                page._bindings.__testmuRecordEvents(JSON.stringify([incremental]));
+                await service.flushRecording(page);
+
+                expect(appendSpy).toHaveBeenCalledTimes(1);
+                const lines = (await fs.readFile(path.join(tmpDir, 's1', 'events.jsonl'), 'utf-8')).trim().split('\n');
+                expect(lines.map(line => JSON.parse(line).type)).toEqual([0, 2, 3]);
+            } finally {
+                appendSpy.mockRestore();
+            }
+        });
+
+        it('keeps the recording on stop and removes it on clear', async () => {
+            const service = new EventsService({ dir: tmpDir });
+            service.startRecording('s1');
+            expect(service.stopRecording('s1')).toHaveLength(1);
+            await service.flushRecording(createMockPuppeteerPage());
+            expect(new EventsService({ dir: tmpDir }).getEvents('s1')).toHaveLength(1);
+
+            service.clearEvents('s1');
+            expect(service.getEvents('s1')).toEqual([]);
+            expect(await fs.pathExists(path.join(tmpDir, 's1', 'events.jsonl'))).toBe(false);
+        });
+
+        it('replaces events on import', () => {
+            const service = new EventsService({ dir: tmpDir });
+            service.startRecording('s1');
+            service.importEvents('s1', JSON.stringify([fullSnapshot]));
+            expect(service.getEvents('s1')).toEqual([fullSnapshot]);
+        });
+    });
+});
@@ -152,6 +152,45 @@ describe('HeartbeatService', () => {
         });
     });
 
+    describe('onFailure', () => {
+        it('notifies listeners on each failure and flags the final one as stopped', async () => {
+            const listener = jest.fn();
+            service.onFailure(listener);
+            service.start('s1', jest.fn().mockRejectedValue(new Error('dead')), 1000);
+
+            for (let i = 0; i < 3; i++) {
+                jest.advanceTimersByTime(1000);
+                await Promise.resolve();
+            }
+
+            expect(listener).toHaveBeenCalledTimes(3);
+            expect(listener.mock.calls[0].slice(0, 4)).toEqual(['s1', 1, 3, false]);
+            expect(listener.mock.calls[2].slice(0, 4)).toEqual(['s1', 3, 3, true]);
+        });
+
+        it('keeps heartbeating when a listener throws', async () => {
+            service.onFailure(() => { throw new Error('listener bug'); });
+            service.start('s1', jest.fn().mockRejectedValue(new Error('dead')), 1000);
+
+            jest.advanceTimersByTime(1000);
+            await Promise.resolve();
+            expect(service.isActive('s1')).toBe(true);
+        });
+
+        it('logs a rejection from an async listener instead of leaving it unhandled', async () => {
+            const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            const listenerError = new Error('store unavailable');
+            service.onFailure(async () => { throw listenerError; });
+            service.start('s1', jest.fn().mockRejectedValue(new Error('dead')), 1000);
+
+            jest.advanceTimersByTime(1000);
+            for (let i = 0; i < 5; i++) await Promise.resolve();
+            expect(errorSpy).toHaveBeenCalledWith('Heartbeat: failure listener threw for session s1:', listenerError);
+            expect(service.isActive('s1')).toBe(true);
+            errorSpy.mockRestore();
+        });
+    });
+
     describe('stopAll', () => {
         it('stops all active heartbeats', () => {
             service.start('s1', jest.fn().mockResolvedValue(undefined), 1000);
@@ -1,4 +1,7 @@
-import { NetworkService } from '../network-service';
+import { NetworkService, resolveNetworkConditions } from '../network-service';
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
 
 function createMockPuppeteerPage() {
     const blockedUrls: string[] = [];
@@ -25,6 +28,24 @@ function createMockPuppeteerPage() {
     };
 }
 
+/** CDP session mock that records commands and lets tests fire protocol events */
+function createMockCdpClient(responses: Record<string, any> = {}) {
+    const handlers: Record<string, ((event: any) => void)[]> = {};
+    const sent: { method: string, params: any }[] = [];
+    return {
+        on: (event: string, handler: (event: any) => void) => {
+            (handlers[event] ||= []).push(handler);
+        },
+        send: async (method: string, params?: any) => {
+            sent.push({ method, params });
+            return responses[method];
+        },
+        detach: jest.fn(async () => {}),
+        _emit: (event: string, payload: any) => (handlers[event] || []).forEach(h => h(payload)),
+        _sent: sent,
+    };
+}
+
 describe('NetworkService', () => {
     let service: NetworkService;
     let page: any;
@@ -35,9 +56,262 @@ describe('NetworkService', () => {
     });
 
     describe('block', () => {
-        it('blocks URLs via CDP for Puppeteer', async () => {
-            await service.block(page, 's1', '*.ads.com/*');
-            expect(page._blockedUrls).toContain('*.ads.com/*');
+        const paused = (client: ReturnType<typeof createMockCdpClient>, requestId: string, url: string) => client._emit('Fetch.requestPaused', {
+            requestId, resourceType: 'Image', request: { url, method: 'GET', headers: {} },
+        });
+        const flush = () => new Promise(r => setImmediate(r));
+
+        it('blocks URLs through the route dispatcher with glob matching', async () => {
+            const client = createMockCdpClient();
+            const cdpPage = { createCDPSession: jest.fn(async () => client) };
+            await service.block(cdpPage, 's1', '**.ads.com/**');
+            paused(client, 'r1', 'https://cdn.ads.com/banner.png');
+            paused(client, 'r2', 'https://a.com/ads.com.png');
+            await flush();
+            expect(client._sent.find(c => c.params?.requestId === 'r1')).toEqual({
+                method: 'Fetch.failRequest', params: { requestId: 'r1', errorReason: 'BlockedByClient' },
+            });
+            expect(client._sent.find(c => c.params?.requestId === 'r2')!.method).toBe('Fetch.continueRequest');
+            expect(client._sent.some(c => c.method === 'Network.setBlockedURLs')).toBe(false);
+        });
+
+        it('removes the interceptor once the last route is gone', async () => {
+            const client = createMockCdpClient();
+            const cdpPage = { createCDPSession: jest.fn(async () => client) };
+            const ads = await service.block(cdpPage, 's1', '**.ads.com/**');
+            const tracker = await service.block(cdpPage, 's1', '**.tracker.io/**');
+            expect(await service.unroute(cdpPage, 's1', ads)).toBe(1);
+            expect(client._sent.some(c => c.method === 'Fetch.disable')).toBe(false);
+
+            expect(await service.unroute(cdpPage, 's1', tracker)).toBe(1);
+            expect(client._sent[client._sent.length - 1].method).toBe('Fetch.disable');
+            expect(client.detach).toHaveBeenCalled();
+
+            // A new route installs a fresh interceptor
+            await service.block(cdpPage, 's1', '**.ads.com/**');
+            expect(cdpPage.createCDPSession).toHaveBeenCalledTimes(2);
+        });
+
+        it('unroutes the Playwright dispatcher handler only', async () => {
+            const pwPage = { locator: () => ({}), context: () => ({}), route: jest.fn(async (_url: string, _fn: any) => {}), unroute: jest.fn(async () => {}) };
+            const id = await service.block(pwPage, 's1', '**/*.png');
+            await service.unroute(pwPage, 's1', id);
+            expect(pwPage.unroute).toHaveBeenCalledWith('**/*', pwPage.route.mock.calls[0][1]);
+        });
+    });
+
+    describe('route', () => {
+        let client: ReturnType<typeof createMockCdpClient>;
+        let cdpPage: any;
+
+        const paused = (requestId: string, url: string, extra: any = {}) => client._emit('Fetch.requestPaused', {
+            requestId,
+            resourceType: 'XHR',
+            request: { url, method: 'GET', headers: { Accept: '*/*' } },
+            ...extra,
+        });
+        const flush = () => new Promise(r => setImmediate(r));
+        const sentFor = (requestId: string) => client._sent.filter(c => c.params?.requestId === requestId);
+
+        beforeEach(() => {
+            client = createMockCdpClient({ 'Fetch.getResponseBody': { body: Buffer.from('{"n":1}').toString('base64'), base64Encoded: true } });
+            cdpPage = { createCDPSession: jest.fn(async () => client) };
+        });
+
+        it('installs one Fetch interceptor per page', async () => {
+            await service.mock(cdpPage, 's1', '**/api/*', { body: '[]' });
+            await service.route(cdpPage, 's1', /\.png$/, { action: 'abort' });
+            expect(cdpPage.createCDPSession).toHaveBeenCalledTimes(1);
+            expect(client._sent.filter(c => c.method === 'Fetch.enable')).toHaveLength(1);
+        });
+
+        it('fulfills mocks matched by glob and continues everything else', async () => {
+            await service.mock(cdpPage, 's1', 'https://a.com/api/*', { status: 201, body: '[]' });
+            paused('r1', 'https://a.com/api/users');
+            paused('r2', 'https://a.com/api/users/1');
+            await flush();
+
+            const [fulfill] = sentFor('r1');
+            expect(fulfill.method).toBe('Fetch.fulfillRequest');
+            expect(fulfill.params.responseCode).toBe(201);
+            expect(fulfill.params.responseHeaders).toEqual([{ name: 'Content-Type', value: 'application/json' }]);
+            expect(Buffer.from(fulfill.params.body, 'base64').toString()).toBe('[]');
+            expect(sentFor('r2')[0]).toEqual({ method: 'Fetch.continueRequest', params: { requestId: 'r2' } });
+        });
+
+        it('filters by method and resource type', async () => {
+            await service.route(cdpPage, 's1', { url: '/api/', method: 'post', resourceType: ['xhr', 'fetch'] }, { action: 'abort', errorCode: 'timedout' });
+            paused('r1', 'https://a.com/api/x');
+            paused('r2', 'https://a.com/api/x', { request: { url: 'https://a.com/api/x', method: 'POST', headers: {} } });
+            await flush();
+            expect(sentFor('r1')[0].method).toBe('Fetch.continueRequest');
+            expect(sentFor('r2')[0]).toEqual({ method: 'Fetch.failRequest', params: { requestId: 'r2', errorReason: 'TimedOut' } });
+        });
+
+        it('tries higher priority first and newer routes on ties', async () => {
+            await service.mock(cdpPage, 's1', '/api/', { body: 'low' }, { id: 'low' });
+            await service.mock(cdpPage, 's1', '/api/', { body: 'high' }, { id: 'high' });
+            await service.mock(cdpPage, 's1', { url: '/api/', priority: -1 }, { body: 'last' }, { id: 'last' });
+            expect(service.listRoutes('s1').map(r => r.id)).toEqual(['high', 'low', 'last']);
+
+            paused('r1', 'https://a.com/api/x');
+            await flush();
+            expect(Buffer.from(sentFor('r1')[0].params.body, 'base64').toString()).toBe('high');
+        });
+
+        it('falls through when a handler returns nothing', async () => {
+            const seen: string[] = [];
+            await service.mock(cdpPage, 's1', '/api/', { body: 'mocked' });
+            await service.route(cdpPage, 's1', '/api/', (req) => { seen.push(req.resourceType); });
+            paused('r1', 'https://a.com/api/x');
+            await flush();
+            expect(seen).toEqual(['xhr']);
+            expect(sentFor('r1')[0].method).toBe('Fetch.fulfillRequest');
+        });
+
+        it('continues with modified request headers, body and URL', async () => {
+            await service.route(cdpPage, 's1', '/api/', {
+                action: 'continue',
+                url: 'https://b.com/api/x',
+                postData: 'a=1',
+                headers: { accept: null, 'X-Test': '1' },
+            });
+            paused('r1', 'https://a.com/api/x');
+            await flush();
+            expect(sentFor('r1')[0].params).toEqual({
+                requestId: 'r1',
+                url: 'https://b.com/api/x',
+                postData: Buffer.from('a=1').toString('base64'),
+                headers: [{ name: 'X-Test', value: '1' }],
+            });
+        });
+
+        it('modifies the response at the response stage', async () => {
+            await service.route(cdpPage, 's1', '/api/', {
+                action: 'modify',
+                response: { status: 299, headers: { 'X-Patched': 'yes' }, body: (body) => body.replace('1', '2') },
+            });
+            paused('r1', 'https://a.com/api/x');
+            await flush();
+            expect(sentFor('r1')[0].params).toEqual({ requestId: 'r1', interceptResponse: true });
+
+            paused('r1', 'https://a.com/api/x', {
+                responseStatusCode: 200,
+                responseHeaders: [{ name: 'Content-Type', value: 'application/json' }, { name: 'Content-Length', value: '7' }],
+            });
+            await flush();
+            const fulfill = sentFor('r1').find(c => c.method === 'Fetch.fulfillRequest')!;
+            expect(fulfill.params.responseCode).toBe(299);
+            expect(fulfill.params.responseHeaders).toEqual([
+                { name: 'Content-Type', value: 'application/json' },
+                { name: 'X-Patched', value: 'yes' },
+            ]);
+            expect(Buffer.from(fulfill.params.body, 'base64').toString()).toBe('{"n":2}');
+        });
+
+        it('continues the request when a handler throws', async () => {
+            const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            await service.route(cdpPage, 's1', '**', () => { throw new Error('boom'); });
+            paused('r1', 'https://a.com/');
+            await flush();
+            expect(sentFor('r1')[0].method).toBe('Fetch.continueRequest');
+            spy.mockRestore();
+        });
+
+        it('continues a request whose route cannot be applied, instead of leaving it paused', async () => {
+            const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            client = createMockCdpClient();
+            client.send = jest.fn(async (method: string, params?: any) => {
+                client._sent.push({ method, params });
+                if (method === 'Fetch.getResponseBody') throw new Error('Protocol error (Fetch.getResponseBody): Can only get response body on requests captured after headers received.');
+                return undefined;
+            }) as any;
+            cdpPage = { createCDPSession: jest.fn(async () => client) };
+            await service.route(cdpPage, 's1', '/api/', { action: 'modify', response: { body: (body) => body + '!' } });
+            paused('r1', 'https://a.com/api/x');
+            await flush();
+            paused('r1', 'https://a.com/api/x', { responseStatusCode: 302, responseHeaders: [] });
+            await flush();
+            expect(sentFor('r1').map(c => c.method)).toEqual(['Fetch.continueRequest', 'Fetch.getResponseBody', 'Fetch.continueRequest']);
+            spy.mockRestore();
+        });
+
+        it('fails the request when it cannot be continued either, and ignores closed targets', async () => {
+            const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            let failure = 'Invalid http status code or phrase';
+            client = createMockCdpClient();
+            client.send = jest.fn(async (method: string, params?: any) => {
+                client._sent.push({ method, params });
+                if (method === 'Fetch.fulfillRequest' || method === 'Fetch.continueRequest') throw new Error(failure);
+                return undefined;
+            }) as any;
+            cdpPage = { createCDPSession: jest.fn(async () => client) };
+            await service.mock(cdpPage, 's1', '/api/', { status: 999, body: '' });
+            paused('r1', 'https://a.com/api/x');
+            await flush();
+            expect(sentFor('r1').map(c => c.method)).toEqual(['Fetch.fulfillRequest', 'Fetch.continueRequest', 'Fetch.failRequest']);
+
+            failure = 'Protocol error (Fetch.fulfillRequest): Target closed';
+            paused('r2', 'https://a.com/api/x');
+            await flush();
+            expect(sentFor('r2').map(c => c.method)).toEqual(['Fetch.fulfillRequest']);
+            spy.mockRestore();
+        });
+
+        it('unroutes by ID or pattern and lists what is left', async () => {
+            const id = await service.mock(cdpPage, 's1', '/api/', { body: '' });
+            await service.route(cdpPage, 's1', /\.png$/, { action: 'abort' });
+            await service.route(cdpPage, 's1', /\.png$/, { action: 'abort' });
+            expect(await service.unroute(cdpPage, 's1', '/\\.png$/')).toBe(2);
+            expect(service.listRoutes('s1')).toEqual([
+                { id, kind: 'mock', url: '/api/', priority: 0, action: 'fulfill' },
+            ]);
+            expect(await service.unroute(cdpPage, 's1', id)).toBe(1);
+            expect(service.listRoutes('s1')).toEqual([]);
+        });
+
+        it('dispatches Playwright requests through a single page.route handler', async () => {
+            let dispatch: (route: any, request: any) => Promise<void> = async () => {};
+            const pwPage = { locator: () => ({}), context: () => ({}), route: jest.fn(async (_url: string, fn: any) => { dispatch = fn; }) };
+            await service.mock(pwPage, 's1', { url: '**/api/*', method: 'GET' }, { body: '[]' });
+            await service.route(pwPage, 's1', '**/*.css', { action: 'modify', request: { headers: { 'X-A': '1' } } });
+            expect(pwPage.route).toHaveBeenCalledTimes(1);
+            expect(pwPage.route.mock.calls[0][0]).toBe('**/*');
+
+            const pwRoute = () => ({ fulfill: jest.fn(), fallback: jest.fn(), abort: jest.fn() });
+            const pwRequest = (url: string) => ({ url: () => url, method: () => 'GET', headers: () => ({}), postData: () => null, resourceType: () => 'fetch' });
+
+            const api = pwRoute();
+            await dispatch(api, pwRequest('https://a.com/api/users'));
+            expect(api.fulfill).toHaveBeenCalledWith({ status: 200, headers: undefined, contentType: 'application/json', body: '[]' });
+
+            const css = pwRoute();
+            await dispatch(css, pwRequest('https://a.com/site.css'));
+            expect(css.fallback).toHaveBeenCalledWith({ headers: { 'X-A': '1' } });
+
+            const other = pwRoute();
+            await dispatch(other, pwRequest('https://a.com/'));
+            expect(other.fallback).toHaveBeenCalledWith();
+        });
+
+        it('continues a Playwright request whose route cannot be applied', async () => {
+            const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            let dispatch: (route: any, request: any) => Promise<void> = async () => {};
+            const pwPage = { locator: () => ({}), context: () => ({}), route: jest.fn(async (_url: string, fn: any) => { dispatch = fn; }) };
+            await service.route(pwPage, 's1', '**/api/*', { action: 'modify', response: { body: () => { throw new Error('bad transform'); } } });
+
+            const request = { url: () => 'https://a.com/api/x', method: () => 'GET', headers: () => ({}), postData: () => null, resourceType: () => 'fetch' };
+            const route = {
+                request: () => request,
+                fetch: jest.fn(async () => ({ body: async () => Buffer.from('{}'), status: () => 200, headers: () => ({}) })),
+                fulfill: jest.fn(),
+                continue: jest.fn(async () => { throw new Error('Request context disposed'); }),
+                abort: jest.fn(async () => {}),
+            };
+            await dispatch(route, request);
+            expect(route.continue).toHaveBeenCalled();
+            expect(route.abort).toHaveBeenCalled();
+            spy.mockRestore();
         });
     });
 
@@ -122,4 +396,368 @@ describe('NetworkService', () => {
             expect(service.getLogs('nonexistent')).toHaveLength(0);
         });
     });
+
+    describe('HAR', () => {
+        const timing = {
+            requestTime: 100, dnsStart: 1, dnsEnd: 5, connectStart: 5, connectEnd: 20, sslStart: 10, sslEnd: 20,
+            sendStart: 21, sendEnd: 22, receiveHeadersEnd: 50,
+        };
+
+        it('records CDP traffic with headers, timings and bodies', async () => {
+            const client = createMockCdpClient({ 'Network.getResponseBody': { body: '{"ok":true}', base64Encoded: false } });
+            const cdpPage = { createCDPSession: async () => client };
+
+            await service.startHar(cdpPage, 's1');
+            expect(client._sent.map(c => c.method)).toContain('Network.enable');
+
+            client._emit('Network.requestWillBeSent', {
+                requestId: '1', wallTime: 1700000000, timestamp: 100, type: 'Fetch',
+                request: { url: 'https://api.example.com/data?x=1', method: 'POST', headers: { 'Content-Type': 'application/json' }, postData: '{"q":1}' },
+            });
+            client._emit('Network.responseReceived', {
+                requestId: '1',
+                response: { status: 200, statusText: 'OK', headers: { 'content-type': 'application/json', 'set-cookie': 'a=1\nb=2' }, mimeType: 'application/json', protocol: 'h2', remoteIPAddress: '1.2.3.4', timing },
+            });
+            client._emit('Network.loadingFinished', { requestId: '1', timestamp: 100.06 });
+
+            const har = await service.stopHar('s1');
+            expect(har.log.version).toBe('1.2');
+            expect(har.log.entries).toHaveLength(1);
+            const [entry] = har.log.entries;
+            expect(entry.request.method).toBe('POST');
+            expect(entry.request.queryString).toEqual([{ name: 'x', value: '1' }]);
+            expect(entry.request.postData).toEqual({ mimeType: 'application/json', text: '{"q":1}' });
+            expect(entry.response.httpVersion).toBe('HTTP/2.0');
+            expect(entry.response.headers.filter(h => h.name === 'set-cookie')).toHaveLength(2);
+            expect(entry.response.content).toMatchObject({ mimeType: 'application/json', text: '{"ok":true}' });
+            expect(entry.timings).toMatchObject({ dns: 4, connect: 15, ssl: 10, send: 1, wait: 28 });
+            expect(entry.timings.receive).toBeCloseTo(10);
+            expect(entry.serverIPAddress).toBe('1.2.3.4');
+            expect(client.detach).toHaveBeenCalled();
+        });
+
+        it('records redirect hops and failed requests', async () => {
+            const client = createMockCdpClient();
+            await service.startHar({ createCDPSession: async () => client }, 's1', { content: 'omit' });
+
+            client._emit('Network.requestWillBeSent', { requestId: '1', wallTime: 1, timestamp: 1, request: { url: 'http://a.com/', method: 'GET', headers: {} } });
+            client._emit('Network.requestWillBeSent', {
+                requestId: '1', wallTime: 2, timestamp: 2, request: { url: 'https://a.com/', method: 'GET', headers: {} },
+                redirectResponse: { status: 301, statusText: 'Moved', headers: { Location: 'https://a.com/' }, mimeType: '' },
+            });
+            client._emit('Network.loadingFailed', { requestId: '1', timestamp: 3, errorText: 'net::ERR_FAILED' });
+
+            const har = await service.stopHar('s1');
+            expect(har.log.entries.map(e => e.response.status)).toEqual([301, 0]);
+            expect(har.log.entries[0].response.redirectURL).toBe('https://a.com/');
+            expect(har.log.entries[1]._failureText).toBe('net::ERR_FAILED');
+            expect(client._sent.map(c => c.method)).not.toContain('Network.getResponseBody');
+        });
+
+        it('rejects a second recording and stop without start', async () => {
+            await service.startHar({ createCDPSession: async () => createMockCdpClient() }, 's1');
+            await expect(service.startHar({ createCDPSession: async () => createMockCdpClient() }, 's1')).rejects.toThrow('already running');
+            await expect(service.stopHar('other')).rejects.toThrow('No HAR recording');
+        });
+
+        it('records Playwright requests', async () => {
+            const handlers: Record<string, (r: any) => void> = {};
+            const pwPage = {
+                locator: () => ({}), context: () => ({}),
+                on: (event: string, handler: (r: any) => void) => { handlers[event] = handler; },
+                off: jest.fn(),
+            };
+            await service.startHar(pwPage, 's1');
+
+            handlers.requestfinished({
+                url: () => 'https://example.com/', method: () => 'GET', postData: () => null, resourceType: () => 'document',
+                timing: () => ({ startTime: 1700000000000, domainLookupStart: -1, domainLookupEnd: -1, connectStart: -1, secureConnectionStart: -1, connectEnd: -1, requestStart: 2, responseStart: 10, responseEnd: 15 }),
+                headersArray: async () => [{ name: 'accept', value: '*/*' }],
+                response: async () => ({
+                    status: () => 200, statusText: () => 'OK',
+                    headersArray: async () => [{ name: 'content-type', value: 'text/html' }],
+                    body: async () => Buffer.from('<h1>hi</h1>'),
+                    serverAddr: async () => ({ ipAddress: '5.6.7.8', port: 443 }),
+                }),
+            });
+
+            const har = await service.stopHar('s1');
+            expect(har.log.entries[0]).toMatchObject({
+                request: { method: 'GET', url: 'https://example.com/' },
+                response: { status: 200, content: { mimeType: 'text/html', text: '<h1>hi</h1>' } },
+                timings: { wait: 8, receive: 5 },
+                serverIPAddress: '5.6.7.8',
+                _resourceType: 'document',
+            });
+            expect(pwPage.off).toHaveBeenCalledTimes(2);
+        });
+
+        describe('replayFromHar', () => {
+            let tmpDir: string;
+            let harPath: string;
+
+            beforeEach(async () => {
+                tmpDir = path.join(os.tmpdir(), `browser-cloud-har-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+                await fs.ensureDir(tmpDir);
+                harPath = path.join(tmpDir, 'run.har');
+                const client = createMockCdpClient({ 'Network.getResponseBody': { body: 'hello', base64Encoded: false } });
+                await service.startHar({ createCDPSession: async () => client }, 'rec');
+                client._emit('Network.requestWillBeSent', { requestId: '1', wallTime: 1, timestamp: 1, request: { url: 'https://a.com/x', method: 'GET', headers: {} } });
+                client._emit('Network.responseReceived', { requestId: '1', response: { status: 200, statusText: 'OK', headers: { 'Content-Type': 'text/plain', 'Content-Encoding': 'gzip' }, mimeType: 'text/plain' } });
+                client._emit('Network.loadingFinished', { requestId: '1', timestamp: 2 });
+                await service.stopHar('rec', harPath);
+            });
+
+            afterEach(async () => {
+                await fs.remove(tmpDir);
+            });
+
+            it('fulfills recorded requests and aborts unknown ones via CDP Fetch', async () => {
+                const client = createMockCdpClient();
+                await service.replayFromHar({ createCDPSession: async () => client }, harPath);
+                expect(client._sent[0]).toMatchObject({ method: 'Fetch.enable' });
+
+                client._emit('Fetch.requestPaused', { requestId: 'r1', request: { url: 'https://a.com/x', method: 'GET' } });
+                client._emit('Fetch.requestPaused', { requestId: 'r2', request: { url: 'https://a.com/missing', method: 'GET' } });
+                await new Promise(r => setImmediate(r));
+
+                const fulfill = client._sent.find(c => c.method === 'Fetch.fulfillRequest')!;
+                expect(fulfill.params).toMatchObject({ requestId: 'r1', responseCode: 200 });
+                expect(Buffer.from(fulfill.params.body, 'base64').toString()).toBe('hello');
+                expect(fulfill.params.responseHeaders).toEqual([{ name: 'Content-Type', value: 'text/plain' }]);
+                expect(client._sent.find(c => c.method === 'Fetch.failRequest')?.params.requestId).toBe('r2');
+            });
+
+            it('lets unknown requests through with notFound: fallback', async () => {
+                const client = createMockCdpClient();
+                await service.replayFromHar({ createCDPSession: async () => client }, harPath, { notFound: 'fallback' });
+                client._emit('Fetch.requestPaused', { requestId: 'r2', request: { url: 'https://a.com/missing', method: 'GET' } });
+                await new Promise(r => setImmediate(r));
+                expect(client._sent.find(c => c.method === 'Fetch.continueRequest')?.params.requestId).toBe('r2');
+            });
+
+            it('delegates to routeFromHAR on Playwright', async () => {
+                const pwPage = { locator: () => ({}), context: () => ({}), routeFromHAR: jest.fn(async () => {}), unroute: jest.fn(async () => {}) };
+                await service.replayFromHar(pwPage, harPath, { notFound: 'fallback' });
+                expect(pwPage.routeFromHAR).toHaveBeenCalledWith(harPath, { notFound: 'fallback' });
+                await service.stopHarReplay(pwPage);
+                expect(pwPage.unroute).toHaveBeenCalledWith('**/*');
+            });
+
+            it('rejects a missing HAR file', async () => {
+                await expect(service.replayFromHar({}, path.join(tmpDir, 'nope.har'))).rejects.toThrow('HAR file not found');
+            });
+        });
+    });
+
+    describe('WebSocket logs', () => {
+        function createCapturePage() {
+            const client = createMockCdpClient();
+            return { createCDPSession: jest.fn(async () => client), _client: client };
+        }
+
+        /** A WebSocket opening on the mock client, returning a function that sends frames on it */
+        function openSocket(client: ReturnType<typeof createMockCdpClient>, requestId: string, url: string) {
+            client._emit('Network.webSocketCreated', { requestId, url });
+            client._emit('Network.webSocketHandshakeResponseReceived', { requestId, response: { headers: { 'Sec-WebSocket-Protocol': 'chat' } } });
+            return (direction: 'Sent' | 'Received', opcode: number, payloadData: string) =>
+                client._emit(`Network.webSocketFrame${direction}`, { requestId, response: { opcode, payloadData } });
+        }
+
+        it('records WebSocket traffic from CDP network events, once per page', async () => {
+            const capturePage = createCapturePage();
+            await service.captureWebSockets(capturePage, 's1');
+            await service.captureWebSockets(capturePage, 's1');
+            expect(capturePage.createCDPSession).toHaveBeenCalledTimes(1);
+            expect(capturePage._client._sent.map(c => c.method)).toEqual(['Network.enable']);
+
+            const frame = openSocket(capturePage._client, 'r1', 'wss://chat.example.com/socket');
+            frame('Sent', 1, 'hi');
+            frame('Received', 2, Buffer.from([0, 1, 2]).toString('base64'));
+            frame('Received', 9, '');
+            capturePage._client._emit('Network.webSocketClosed', { requestId: 'r1' });
+            // Frames of a socket opened before the capture have no known URL
+            capturePage._client._emit('Network.webSocketFrameReceived', { requestId: 'r0', response: { opcode: 1, payloadData: 'early' } });
+
+            const logs = service.getWebSocketLogs('s1');
+            expect(logs.map(e => e.type)).toEqual(['connecting', 'open', 'sent', 'received', 'close']);
+            expect(logs[1]).toMatchObject({ connectionId: 'r1', url: 'wss://chat.example.com/socket', protocol: 'chat' });
+            expect(logs[2]).toMatchObject({ data: 'hi', binary: false, size: 2 });
+            expect(logs[3]).toMatchObject({ data: 'AAEC', binary: true, size: 3 });
+        });
+
+        it('records EventSource messages and truncates long payloads', async () => {
+            service = new NetworkService({ maxSocketPayloadBytes: 4 });
+            const capturePage = createCapturePage();
+            await service.captureWebSockets(capturePage, 's1');
+            const client = capturePage._client;
+            client._emit('Network.requestWillBeSent', { requestId: 'r2', type: 'Fetch', request: { url: 'https://a.com/api' } });
+            client._emit('Network.requestWillBeSent', { requestId: 'r3', type: 'EventSource', request: { url: 'https://a.com/stream' } });
+            client._emit('Network.responseReceived', { requestId: 'r3' });
+            client._emit('Network.eventSourceMessageReceived', { requestId: 'r3', eventName: 'delta', eventId: '7', data: 'hello' });
+            client._emit('Network.loadingFailed', { requestId: 'r3', canceled: true });
+
+            const logs = service.getWebSocketLogs('s1');
+            expect(logs.map(e => [e.transport, e.type])).toEqual([
+                ['eventsource', 'connecting'], ['eventsource', 'open'], ['eventsource', 'received'], ['eventsource', 'close'],
+            ]);
+            expect(logs[2]).toMatchObject({ data: 'hell', size: 5, truncated: true, event: 'delta', lastEventId: '7' });
+        });
+
+        it('listens for websockets on Playwright and stops on detachPage', async () => {
+            const handlers: Record<string, (...args: any[]) => void> = {};
+            const pwPage = {
+                locator: () => ({}),
+                context: () => ({}),
+                on: jest.fn((event: string, handler: any) => { handlers[event] = handler; }),
+                off: jest.fn(),
+            };
+            await service.captureWebSockets(pwPage, 's1');
+
+            const wsHandlers: Record<string, (...args: any[]) => void> = {};
+            handlers.websocket({ url: () => 'wss://a.com/ws', on: (event: string, handler: any) => { wsHandlers[event] = handler; } });
+            wsHandlers.framereceived({ payload: 'pong' });
+            wsHandlers.framesent({ payload: Buffer.from([255]) });
+            wsHandlers.close();
+
+            const logs = service.getWebSocketLogs('s1');
+            expect(logs.map(e => [e.type, e.data])).toEqual([['connecting', undefined], ['received', 'pong'], ['sent', '/w=='], ['close', undefined]]);
+            expect(new Set(logs.map(e => e.connectionId)).size).toBe(1);
+
+            await service.detachPage(pwPage);
+            expect(pwPage.off).toHaveBeenCalledWith('websocket', handlers.websocket);
+        });
+
+        it('filters by url, transport, type, payload and time', async () => {
+            const capturePage = createCapturePage();
+            await service.captureWebSockets(capturePage, 's1');
+            const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+            try {
+                const frame = openSocket(capturePage._client, 'c1', 'wss://chat.example.com/socket');
+                frame('Sent', 1, '{"q":"hi"}');
+                now.mockReturnValue(2000);
+                frame('Received', 1, '{"answer":"done"}');
+                frame('Received', 2, 'AAEC');
+                now.mockReturnValue(3000);
+                capturePage._client._emit('Network.requestWillBeSent', { requestId: 'c2', type: 'EventSource', request: { url: 'https://a.com/stream' } });
+                capturePage._client._emit('Network.eventSourceMessageReceived', { requestId: 'c2', eventName: 'delta', data: 'done' });
+            } finally {
+                now.mockRestore();
+            }
+
+            expect(service.getWebSocketLogs('s1', { type: 'received', contains: 'done' })).toHaveLength(2);
+            expect(service.getWebSocketLogs('s1', { transport: 'eventsource', type: 'received' })[0].event).toBe('delta');
+            expect(service.getWebSocketLogs('s1', { url: 'wss://chat.example.com/*', type: ['sent', 'received'] })).toHaveLength(3);
+            expect(service.getWebSocketLogs('s1', { since: 2000, type: ['received'], transport: 'websocket' })).toHaveLength(2);
+            expect(service.getWebSocketLogs('s1', { connectionId: 'c2' })).toHaveLength(2);
+
+            service.clearWebSocketLogs('s1');
+            expect(service.getWebSocketLogs('s1')).toEqual([]);
+        });
+
+        it('persists logs to disk when a dir is configured', async () => {
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ws-logs-'));
+            try {
+                const writer = new NetworkService({ dir });
+                const capturePage = createCapturePage();
+                await writer.captureWebSockets(capturePage, 's/1');
+                openSocket(capturePage._client, 'r1', 'wss://a.com/ws');
+                capturePage._client._emit('Network.webSocketClosed', { requestId: 'r1' });
+
+                // Appends are batched in the background; the writer already sees what it queued
+                const reader = new NetworkService({ dir });
+                expect(writer.getWebSocketLogs('s/1').map(e => e.type)).toEqual(['connecting', 'open', 'close']);
+                await writer.flushWebSocketLogs();
+                expect(reader.getWebSocketLogs('s/1').map(e => e.type)).toEqual(['connecting', 'open', 'close']);
+                expect(await fs.pathExists(path.join(dir, 's_1', 'websocket.jsonl'))).toBe(true);
+                reader.clearWebSocketLogs('s/1');
+                expect(writer.getWebSocketLogs('s/1')).toEqual([]);
+            } finally {
+                await fs.remove(dir);
+            }
+        });
+
+        it('batches frames into few appends and writes them before detachPage returns', async () => {
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ws-logs-'));
+            const append = jest.spyOn(fs.promises, 'appendFile');
+            try {
+                const writer = new NetworkService({ dir });
+                const capturePage = createCapturePage();
+                await writer.captureWebSockets(capturePage, 's1');
+                const frame = openSocket(capturePage._client, 'r1', 'wss://a.com/ws');
+                for (let i = 0; i < 50; i++) frame('Received', 1, `m${i}`);
+                await writer.detachPage(capturePage);
+
+                expect(append).toHaveBeenCalled();
+                expect(append.mock.calls.length).toBeLessThanOrEqual(2);
+                expect(new NetworkService({ dir }).getWebSocketLogs('s1', { type: 'received' })).toHaveLength(50);
+            } finally {
+                append.mockRestore();
+                await fs.remove(dir);
+            }
+        });
+    });
+
+    describe('detachPage', () => {
+        it('releases the clients wired into each connection so reconnects do not pile them up', async () => {
+            const clients: ReturnType<typeof createMockCdpClient>[] = [];
+            for (let i = 0; i < 3; i++) {
+                const cdpPage = { createCDPSession: jest.fn(async () => { const c = createMockCdpClient(); clients.push(c); return c; }) };
+                await service.block(cdpPage, 's1', '**.ads.com/**', { id: 'ads' });
+                await service.emulateConditions(cdpPage, 's1', 'slow-3g');
+                await service.detachPage(cdpPage);
+            }
+            expect(clients).toHaveLength(6);
+            expect(clients.every(c => c.detach.mock.calls.length === 1)).toBe(true);
+
+            // Nothing is left for clearSession to detach, and the routes survive for the next connection
+            expect(service.listRoutes('s1').map(r => r.id)).toEqual(['ads']);
+            service.clearSession('s1');
+            await new Promise(r => setImmediate(r));
+            expect(clients.every(c => c.detach.mock.calls.length === 1)).toBe(true);
+        });
+    });
+
+    describe('emulateConditions', () => {
+        it('applies presets through CDP in bytes per second', async () => {
+            const client = createMockCdpClient();
+            const cdpPage = { createCDPSession: jest.fn(async () => client) };
+
+            const conditions = await service.emulateConditions(cdpPage, 's1', 'slow-3g');
+            expect(conditions).toEqual({ downloadKbps: 400, uploadKbps: 400, latencyMs: 2000, offline: false });
+            expect(client._sent.find(c => c.method === 'Network.emulateNetworkConditions')?.params).toEqual({
+                offline: false, latency: 2000, downloadThroughput: 50000, uploadThroughput: 50000,
+            });
+            expect(service.getConditions('s1')).toEqual(conditions);
+        });
+
+        it('reuses the CDP session and resets with no-throttling', async () => {
+            const client = createMockCdpClient();
+            const cdpPage = { createCDPSession: jest.fn(async () => client) };
+
+            await service.emulateConditions(cdpPage, 's1', { latencyMs: 300, offline: true });
+            await service.emulateConditions(cdpPage, 's1', 'no-throttling');
+
+            expect(cdpPage.createCDPSession).toHaveBeenCalledTimes(1);
+            const calls = client._sent.filter(c => c.method === 'Network.emulateNetworkConditions');
+            expect(calls[0].params).toEqual({ offline: true, latency: 300, downloadThroughput: -1, uploadThroughput: -1 });
+            expect(calls[1].params).toEqual({ offline: false, latency: 0, downloadThroughput: -1, uploadThroughput: -1 });
+            expect(service.getConditions('s1')).toBeUndefined();
+        });
+
+        it('uses a context CDP session on Playwright', async () => {
+            const client = createMockCdpClient();
+            const newCDPSession = jest.fn(async () => client);
+            const pwPage: any = { locator: () => ({}), context: () => ({ newCDPSession }) };
+
+            await service.emulateConditions(pwPage, 's1', 'offline');
+            expect(newCDPSession).toHaveBeenCalledWith(pwPage);
+            expect(client._sent.find(c => c.method === 'Network.emulateNetworkConditions')?.params.offline).toBe(true);
+        });
+
+        it('rejects unknown presets and negative values', () => {
+            expect(() => resolveNetworkConditions('dialup' as any)).toThrow('Unknown network preset');
+            expect(() => resolveNetworkConditions({ latencyMs: -5 })).toThrow('Invalid latencyMs');
+        });
+    });
 });
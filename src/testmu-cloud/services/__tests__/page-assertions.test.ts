@@ -0,0 +1,97 @@
+import { PageAssertions, AssertionTarget, runAssertion } from '../page-assertions';
+
+/** Target whose element properties and URL are read from `state` */
+function createTarget(state: { text?: string | null, value?: string, visible?: boolean | null, count?: number, url?: string }, selector = '#msg'): AssertionTarget {
+    return {
+        selector,
+        validate: async () => {},
+        url: async () => state.url ?? 'https://a.com/',
+        count: async () => state.count ?? 0,
+        read: async what => {
+            if (state.text === null) return null;
+            if (what === 'text') return state.text ?? '';
+            if (what === 'value') return state.value ?? '';
+            if (what === 'visible') return state.visible ?? false;
+            return false;
+        },
+    };
+}
+
+const fast = { timeout: 50, interval: 5 };
+
+describe('PageAssertions', () => {
+    it('passes once the text matches, collapsing whitespace', async () => {
+        const state = { text: 'Saving...' };
+        setTimeout(() => { state.text = '  Order\n   saved '; }, 20);
+
+        const result = await new PageAssertions(createTarget(state)).toHaveText('Order saved', { timeout: 1000, interval: 5 });
+        expect(result).toEqual(expect.objectContaining({
+            pass: true,
+            assertion: '"#msg" to have text "Order saved"',
+            expected: 'Order saved',
+            actual: 'Order saved',
+        }));
+    });
+
+    it('fails with the last value and an expected-vs-received diff', async () => {
+        const result = await new PageAssertions(createTarget({ text: 'Order pending' })).toHaveText('Order saved', fast);
+        expect(result.pass).toBe(false);
+        expect(result.actual).toBe('Order pending');
+        expect(result.message).toBe('Expected "#msg" to have text "Order saved", received "Order pending" after 50ms');
+        expect(result.diff).toBe('- Expected: "Order saved"\n+ Received: "Order pending"');
+    });
+
+    it('diffs multi-line values line by line', async () => {
+        const result = await new PageAssertions(createTarget({ value: 'a\nb\nc' })).toHaveValue('a\nB\nc', fast);
+        expect(result.diff).toBe('  a\n- B\n+ b\n  c');
+    });
+
+    it('compares multi-line values exactly', async () => {
+        const assertions = new PageAssertions(createTarget({ value: 'line one\n  line two' }));
+        expect((await assertions.toHaveValue('line one\n  line two', fast)).pass).toBe(true);
+        expect((await assertions.toHaveValue('line one line two', fast)).pass).toBe(false);
+    });
+
+    it('reports a missing element', async () => {
+        const result = await new PageAssertions(createTarget({ text: null })).toBeVisible(fast);
+        expect(result).toEqual(expect.objectContaining({ pass: false, actual: null }));
+        expect(result.message).toContain('received element not found');
+        expect(result.diff).toBe('- Expected: true\n+ Received: <element not found>');
+    });
+
+    it('negates with not', async () => {
+        const assertions = new PageAssertions(createTarget({ text: null }));
+        await expect(assertions.not.toBeVisible(fast)).resolves.toEqual(expect.objectContaining({ pass: true, assertion: '"#msg" not to be visible' }));
+        const visible = new PageAssertions(createTarget({ visible: true }));
+        expect((await visible.not.toBeVisible(fast)).diff).toBe('- Expected: not true\n+ Received: true');
+    });
+
+    it('matches URLs by glob and counts elements', async () => {
+        const assertions = new PageAssertions(createTarget({ url: 'https://shop.com/checkout/pay', count: 3 }));
+        expect((await assertions.toHaveURL('**/checkout/**', fast)).pass).toBe(true);
+        expect((await assertions.toHaveCount(3, fast)).pass).toBe(true);
+        expect((await assertions.toHaveCount(2, fast)).actual).toBe(3);
+    });
+
+    it('needs a selector for element assertions', async () => {
+        const target = { ...createTarget({}), selector: undefined };
+        await expect(new PageAssertions(target).toBeVisible()).rejects.toThrow('needs an element: expect(page, selector)');
+        await expect(new PageAssertions(target).toHaveURL('a.com', fast)).resolves.toEqual(expect.objectContaining({ pass: true }));
+    });
+
+    describe('runAssertion', () => {
+        it('runs an assertion described as data', async () => {
+            const assertions = new PageAssertions(createTarget({ text: 'Total: 42 items' }));
+            await expect(runAssertion(assertions, { assertion: 'text', expected: '\\d+ items', regex: true, ...fast }))
+                .resolves.toEqual(expect.objectContaining({ pass: true, expected: '/\\d+ items/' }));
+            await expect(runAssertion(assertions, { assertion: 'text', expected: '42', contains: true, ...fast }))
+                .resolves.toEqual(expect.objectContaining({ pass: true }));
+        });
+
+        it('rejects missing or invalid expected values', async () => {
+            const assertions = new PageAssertions(createTarget({}));
+            await expect(runAssertion(assertions, { assertion: 'text' })).rejects.toThrow('The text assertion needs an expected value');
+            await expect(runAssertion(assertions, { assertion: 'count', expected: 'many' })).rejects.toThrow('needs a whole number');
+        });
+    });
+});
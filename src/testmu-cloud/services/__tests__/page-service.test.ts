@@ -2,6 +2,7 @@ import { PageService } from '../page-service';
 import { SnapshotService } from '../snapshot-service';
 import { InMemoryRefStore } from '../../stores/memory-ref-store';
 import { RefMapping } from '../../stores/ref-store';
+import { listPages, findPageByTabId } from '../../utils/tabs';
 
 function createMockPuppeteerPage() {
     const clickedSelectors: string[] = [];
@@ -100,6 +101,132 @@ describe('PageService', () => {
         it('throws for unknown @ref', async () => {
             await expect(service.click(page, '@e99')).rejects.toThrow('Unknown ref');
         });
+
+        it('routes @ref actions into the ref\'s iframe', async () => {
+            const frameClicks: string[] = [];
+            const paymentFrame = {
+                waitForSelector: async (selector: string) => ({ click: async () => { frameClicks.push(selector); } }),
+            };
+            const outerFrame = { waitForSelector: async () => ({ contentFrame: async () => paymentFrame }) };
+            const topFrameLookups: string[] = [];
+            page.mainFrame = () => ({
+                waitForSelector: async (selector: string) => {
+                    topFrameLookups.push(selector);
+                    return { contentFrame: async () => outerFrame };
+                },
+            });
+            const refs = new Map<string, RefMapping>([
+                ['@e1', { xpath: '', css: '#pay', role: 'button', name: 'Pay', frameId: 'F2', framePath: ['#checkout', 'iframe'] }],
+            ]);
+            await refStore.save('test-session', refs, 'https://example.com');
+
+            await service.click(page, '@e1');
+            expect(topFrameLookups).toEqual(['#checkout']);
+            expect(frameClicks).toEqual(['#pay']);
+            expect(page._clickedSelectors).toEqual([]);
+        });
+
+        it('chains frame locators for @refs in iframes on Playwright', async () => {
+            const click = jest.fn(async () => {});
+            const locator = { count: async () => 1, click };
+            const inner = { locator: jest.fn(() => locator) };
+            const outer = { frameLocator: jest.fn(() => inner) };
+            const pwPage = { locator: () => ({}), context: () => ({}), frameLocator: jest.fn(() => outer) };
+            service.bind(pwPage, 'test-session');
+            const refs = new Map<string, RefMapping>([
+                ['@e1', { xpath: '', css: '#pay', role: 'button', name: 'Pay', frameId: 'F2', framePath: ['#checkout', 'iframe'] }],
+            ]);
+            await refStore.save('test-session', refs, 'https://example.com');
+
+            await service.click(pwPage, '@e1');
+            expect(pwPage.frameLocator).toHaveBeenCalledWith('#checkout');
+            expect(outer.frameLocator).toHaveBeenCalledWith('iframe');
+            expect(inner.locator).toHaveBeenCalledWith('#pay');
+            expect(click).toHaveBeenCalled();
+        });
+
+        it('falls back to a role/name query on Puppeteer', async () => {
+            const queries: string[] = [];
+            page.waitForSelector = async () => { throw new Error('timeout'); };
+            page.$ = async (selector: string) => {
+                queries.push(selector);
+                return { click: async () => {} };
+            };
+            const refs = new Map<string, RefMapping>([
+                ['@e1', { xpath: '', css: '#buy', role: 'button', name: 'Buy "now" ' }],
+            ]);
+            await refStore.save('test-session', refs, 'https://example.com');
+
+            await service.click(page, '@e1');
+            expect(queries).toEqual(['::-p-aria([name="Buy \\"now\\""][role="button"])']);
+        });
+
+        describe('DOM-backed refs', () => {
+            /** CDP session reporting backend node 7 as a `role`/`name` element now at `css` */
+            function createMockSession(role: string, name: string, css: string) {
+                return {
+                    send: jest.fn(async (method: string) => {
+                        if (method === 'Accessibility.getPartialAXTree') return { nodes: [{ role: { value: role }, name: { value: name } }] };
+                        if (method === 'DOM.resolveNode') return { object: { objectId: 'obj-7' } };
+                        if (method === 'Runtime.callFunctionOn') return { result: { value: { css, xpath: '' } } };
+                        return {};
+                    }),
+                    detach: jest.fn(async () => {}),
+                };
+            }
+            const mapping: RefMapping = {
+                xpath: '/html/body/ul/li[1]/button', css: 'ul > li:nth-of-type(1) > button', role: 'button', name: 'Buy', backendNodeId: 7,
+            };
+
+            it('re-locates the ref\'s DOM node by backend node id', async () => {
+                const session = createMockSession('button', 'Buy', 'ul > li:nth-of-type(2) > button');
+                page.createCDPSession = async () => session;
+                page.$ = async (selector: string) => ({ click: async () => { page._clickedSelectors.push(selector); } });
+                await refStore.save('test-session', new Map([['@e1', mapping]]), 'https://example.com');
+
+                await service.click(page, '@e1');
+                expect(page._clickedSelectors).toEqual(['ul > li:nth-of-type(2) > button']);
+                expect(session.detach).toHaveBeenCalled();
+            });
+
+            it('ignores a backend node id that now belongs to a different element', async () => {
+                page.createCDPSession = async () => createMockSession('link', 'Home', 'a');
+                page.$ = async () => { throw new Error('should not query'); };
+                await refStore.save('test-session', new Map([['@e1', mapping]]), 'https://example.com');
+
+                await service.click(page, '@e1');
+                expect(page._clickedSelectors).toEqual(['ul > li:nth-of-type(1) > button']);
+            });
+
+            it('scopes shadow-root paths to their host on Playwright', async () => {
+                const locator = jest.fn(() => ({ count: async () => 1, click: async () => {} }));
+                const pwPage = { locator, context: () => ({}) };
+                service.bind(pwPage, 'test-session');
+                const refs = new Map<string, RefMapping>([
+                    ['@e1', { xpath: '', css: 'html > body > my-cart >>>> div > button', role: 'button', name: 'Buy' }],
+                ]);
+                await refStore.save('test-session', refs, 'https://example.com');
+
+                await service.click(pwPage, '@e1');
+                expect(locator).toHaveBeenCalledWith('html > body > my-cart >> div > button');
+            });
+
+            it('does not take the first of several matches of a shadow-root path on Playwright', async () => {
+                const ambiguous = { count: async () => 2, click: jest.fn() };
+                const byRole = { count: async () => 1, first: () => byRole, click: jest.fn(async () => {}) };
+                const pwPage = { locator: () => ambiguous, getByRole: jest.fn(() => byRole), context: () => ({}) };
+                service.bind(pwPage, 'test-session');
+                const refs = new Map<string, RefMapping>([
+                    ['@e1', { xpath: '', css: 'html > body > my-cart >>>> div > button', role: 'button', name: 'Buy' }],
+                ]);
+                await refStore.save('test-session', refs, 'https://example.com');
+
+                await service.click(pwPage, '@e1');
+                expect(ambiguous.click).not.toHaveBeenCalled();
+                expect(pwPage.getByRole).toHaveBeenCalledWith('button', { name: 'Buy' });
+                expect(byRole.click).toHaveBeenCalled();
+            });
+        });
     });
 
     describe('queries', () => {
@@ -127,6 +254,247 @@ describe('PageService', () => {
         });
     });
 
+    describe('screenshotAnnotated', () => {
+        function createMockSession() {
+            const ax = (nodeId: string, role: string, name: string, extra: any = {}) =>
+                ({ nodeId, ignored: false, role: { value: role }, name: { value: name }, childIds: [], ...extra });
+            return {
+                send: jest.fn(async (method: string, params: any = {}) => {
+                    if (method === 'Accessibility.getFullAXTree') {
+                        return { nodes: [
+                            { ...ax('1', 'RootWebArea', 'Shop'), childIds: ['2', '3', '4'] },
+                            ax('2', 'button', 'Buy', { backendDOMNodeId: 2 }),
+                            ax('3', 'link', 'Help', { backendDOMNodeId: 3 }),
+                            ax('4', 'button', 'Hidden', { backendDOMNodeId: 4 }),
+                        ] };
+                    }
+                    if (method === 'DOM.getBoxModel') {
+                        if (params.backendNodeId === 2) return { model: { border: [10.4, 20, 90.4, 20, 90.4, 50, 10.4, 50] } };
+                        throw new Error('Could not compute box model.');
+                    }
+                    return {};
+                }),
+                detach: jest.fn(async () => {}),
+            };
+        }
+
+        it('marks refs, returns a legend and removes the overlay', async () => {
+            const session = createMockSession();
+            const evaluated: any[] = [];
+            page.createCDPSession = async () => session;
+            page.screenshot = jest.fn(async () => 'BASE64');
+            page.evaluate = jest.fn(async (fn: any, arg?: any) => {
+                evaluated.push([fn.name, arg]);
+                return { width: 800, height: 600 };
+            });
+            // The link has no box model and is measured through its element; the hidden button has no box at all
+            const queried: string[] = [];
+            page.$ = async (selector: string) => {
+                queried.push(selector);
+                // The hidden button's own path is gone
+                if (selector.includes('aria-label="Hidden"')) return null;
+                return { boundingBox: async () => (selector.includes('Help') ? { x: 100, y: 20, width: 40, height: 20 } : null) };
+            };
+            page.waitForSelector = jest.fn();
+
+            const result = await service.screenshotAnnotated(page);
+
+            expect(result.base64Image).toBe('BASE64');
+            expect(page.screenshot).toHaveBeenCalledWith({ encoding: 'base64', fullPage: false });
+            expect(result.legend).toEqual([
+                { ref: '@e1', role: 'button', name: 'Buy', box: { x: 10, y: 20, width: 80, height: 30 } },
+                { ref: '@e2', role: 'link', name: 'Help', box: { x: 100, y: 20, width: 40, height: 20 } },
+            ]);
+            expect(result.legendText).toBe('@e1 button "Buy" [10, 20, 80, 30]\n@e2 link "Help" [100, 20, 40, 20]');
+            const [draw] = evaluated.filter(([name]) => name === 'drawMarks');
+            expect(draw[1].marks.map((m: any) => m.label)).toEqual(['@e1', '@e2']);
+            expect(evaluated[evaluated.length - 1][0]).toBe('removeMarks');
+            expect(session.detach).toHaveBeenCalled();
+            expect(page.waitForSelector).not.toHaveBeenCalled();
+            // Never a look-alike found by role and name
+            expect(queried.some(selector => selector.startsWith('::-p-aria'))).toBe(false);
+            // Labels are the refs actions resolve
+            expect((await refStore.get('test-session', '@e2'))!.name).toBe('Help');
+        });
+    });
+
+    describe('tabs', () => {
+        /** Puppeteer-style tab whose CDP target id is `id` */
+        function createTab(id: string, url: string, extra: any = {}) {
+            const listeners: Record<string, ((arg: any) => void)[]> = {};
+            return {
+                url: () => url,
+                title: async () => `Title ${id}`,
+                createCDPSession: async () => ({ send: async () => ({ targetInfo: { targetId: id } }), detach: async () => {} }),
+                bringToFront: jest.fn(async () => {}),
+                close: jest.fn(async () => {}),
+                on: (event: string, fn: (arg: any) => void) => { (listeners[event] ||= []).push(fn); },
+                off: (event: string, fn: (arg: any) => void) => { listeners[event] = (listeners[event] || []).filter(l => l !== fn); },
+                _emit: (event: string, arg: any) => (listeners[event] || []).forEach(l => l(arg)),
+                ...extra,
+            };
+        }
+
+        function createBrowser(...tabs: any[]) {
+            const browser = { pages: async () => tabs.filter(t => !t.close.mock.calls.length) };
+            tabs.forEach(t => { t.browser = () => browser; });
+            return browser;
+        }
+
+        it('lists tabs and marks the one in use as active', async () => {
+            const a = createTab('T1', 'https://a.com/');
+            const b = createTab('T2', 'https://b.com/');
+            createBrowser(a, b);
+            service.bind(b, 'test-session');
+
+            expect(await service.listTabs(b)).toEqual([
+                { id: 'T1', url: 'https://a.com/', title: 'Title T1', active: false },
+                { id: 'T2', url: 'https://b.com/', title: 'Title T2', active: true },
+            ]);
+        });
+
+        it('switches to a tab and binds it to the session', async () => {
+            const a = createTab('T1', 'https://a.com/');
+            const b = createTab('T2', 'https://b.com/');
+            createBrowser(a, b);
+            service.bind(a, 'test-session');
+
+            const { page: active, tab } = await service.switchTab(a, 'T2');
+            expect(active).toBe(b);
+            expect(tab).toMatchObject({ id: 'T2', active: true });
+            expect(b.bringToFront).toHaveBeenCalled();
+            expect(await service.getUrl(b)).toBe('https://b.com/');
+            await expect(service.switchTab(a, 'T9')).rejects.toThrow('Tab "T9" not found');
+        });
+
+        it('closing the active tab continues in the last remaining one', async () => {
+            const a = createTab('T1', 'https://a.com/');
+            const b = createTab('T2', 'https://b.com/');
+            const c = createTab('T3', 'https://c.com/');
+            createBrowser(a, b, c);
+            service.bind(c, 'test-session');
+
+            const result = await service.closeTab(c);
+            expect(c.close).toHaveBeenCalled();
+            expect(result).toMatchObject({ closed: 'T3', page: b, tab: { id: 'T2' } });
+
+            const other = await service.closeTab(b, 'T1');
+            expect(other).toMatchObject({ closed: 'T1', page: b });
+        });
+
+        it('ids tabs by position without CDP and finds a shifted tab by its url', async () => {
+            const noCdp = { createCDPSession: async () => { throw new Error('not supported'); } };
+            const a = createTab('T1', 'https://a.com/', noCdp);
+            const b = createTab('T2', 'https://b.com/', noCdp);
+            const c = createTab('T3', 'https://c.com/', noCdp);
+            createBrowser(a, b, c);
+            service.bind(a, 'test-session');
+
+            expect((await service.listTabs(a)).map(t => t.id)).toEqual(['tab_1', 'tab_2', 'tab_3']);
+            expect((await service.switchTab(a, 'tab_3')).tab).toMatchObject({ id: 'tab_3', url: 'https://c.com/' });
+
+            await service.closeTab(c, 'tab_1');
+            const pages = await listPages(b);
+            // c is now tab_2; the saved url still finds it
+            expect(await findPageByTabId(pages, 'tab_3', 'https://c.com/')).toBe(c);
+            expect(await findPageByTabId(pages, 'tab_2', 'https://c.com/')).toBe(c);
+            expect(await findPageByTabId(pages, 'tab_2')).toBe(c);
+        });
+
+        it('waits for a popup opened by a click', async () => {
+            const popup = createTab('T2', 'https://a.com/help', { waitForFunction: jest.fn(async () => {}) });
+            const opener = createTab('T1', 'https://a.com/', {
+                waitForSelector: async () => ({ click: async () => opener._emit('popup', popup) }),
+            });
+            createBrowser(opener, popup);
+            service.bind(opener, 'test-session');
+
+            const { page: opened, tab } = await service.waitForPopup(opener, { click: '#help' });
+            expect(opened).toBe(popup);
+            expect(tab).toMatchObject({ id: 'T2', url: 'https://a.com/help' });
+            await expect(service.waitForPopup(opener, { timeout: 10 })).rejects.toThrow('No popup opened within 10ms');
+        });
+    });
+
+    describe('waitFor', () => {
+        /** Puppeteer-style page whose body text and #spinner presence change over time */
+        function createChangingPage() {
+            const state = { text: 'Loading...', spinner: true as boolean, url: 'https://a.com/cart' };
+            return {
+                state,
+                url: () => state.url,
+                evaluate: jest.fn(async (fn: any, arg?: any) => {
+                    if (typeof fn === 'string') return fn === 'window.ready' ? state.text === 'Done' : undefined;
+                    return fn.toString().includes('innerText') ? state.text.includes(arg) : undefined;
+                }),
+                $: jest.fn(async (selector: string) => selector === '#spinner' && state.spinner
+                    ? { evaluate: async () => true }
+                    : null),
+            };
+        }
+
+        it('waits for text to appear', async () => {
+            const changing = createChangingPage();
+            service.bind(changing, 'test-session');
+            setTimeout(() => { changing.state.text = 'Done'; }, 30);
+
+            const result = await service.waitFor(changing, { text: 'Done', interval: 5 });
+            expect(result.condition).toBe('text "Done" to appear');
+            expect(result.elapsed).toBeGreaterThanOrEqual(20);
+        });
+
+        it('waits for an element to be detached', async () => {
+            const changing = createChangingPage();
+            service.bind(changing, 'test-session');
+            setTimeout(() => { changing.state.spinner = false; }, 30);
+
+            await expect(service.waitFor(changing, { selector: '#spinner', state: 'detached', interval: 5 }))
+                .resolves.toEqual(expect.objectContaining({ condition: '"#spinner" to be detached' }));
+            // Missing elements count as hidden straight away
+            await expect(service.waitFor(changing, { selector: '#gone', state: 'hidden', timeout: 50 })).resolves.toBeDefined();
+        });
+
+        it('does not count a look-alike by role and name as the ref still being attached', async () => {
+            const changing = createChangingPage();
+            // The ref's own path is gone; another "Close" button is on the page
+            changing.$ = jest.fn(async (selector: string) => selector.startsWith('::-p-aria') ? { evaluate: async () => true } : null);
+            service.bind(changing, 'test-session');
+            await refStore.save('test-session', new Map<string, RefMapping>([
+                ['@e1', { xpath: '', css: '#dialog > button', role: 'button', name: 'Close' }],
+            ]), 'https://a.com/cart');
+
+            await expect(service.waitFor(changing, { selector: '@e1', state: 'detached', timeout: 50 })).resolves.toBeDefined();
+            await expect(service.waitFor(changing, { selector: '@e1', state: 'attached', timeout: 50 })).resolves.toBeDefined();
+        });
+
+        it('times out with the last URL seen', async () => {
+            const changing = createChangingPage();
+            service.bind(changing, 'test-session');
+
+            await expect(service.waitFor(changing, { url: '**/done', timeout: 50, interval: 10 })).rejects.toMatchObject({
+                name: 'WaitTimeoutError',
+                condition: 'URL to match "**/done"',
+                timeout: 50,
+                lastState: 'https://a.com/cart',
+            });
+        });
+
+        it('needs allowUnsafe for JS predicates', async () => {
+            const changing = createChangingPage();
+            service.bind(changing, 'test-session');
+            await expect(service.waitFor(changing, { fn: 'window.ready' })).rejects.toThrow('restricted by default');
+
+            changing.state.text = 'Done';
+            await expect(service.waitFor(changing, { fn: 'window.ready', allowUnsafe: true })).resolves.toBeDefined();
+        });
+
+        it('needs exactly one condition', async () => {
+            await expect(service.waitFor(page, {})).rejects.toThrow('waitFor() needs exactly one condition');
+            await expect(service.waitFor(page, { text: 'a', url: 'b' })).rejects.toThrow('(got text, url)');
+            await expect(service.waitFor(page, { selector: '@e99' })).rejects.toThrow('Unknown ref "@e99"');
+        });
+    });
+
     describe('find', () => {
         it('findByRole returns matching refs', async () => {
             const refs = new Map<string, RefMapping>([
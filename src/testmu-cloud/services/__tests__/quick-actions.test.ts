@@ -0,0 +1,322 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { QuickActionsService } from '../quick-actions';
+import { BatchProgress, CrawlResponse } from '../../types';
+import { DomNode, serializeDom } from '../../utils/dom-tree';
+
+/** Pages of a fake site by path, with the links each one contains */
+const SITE: Record<string, string[]> = {
+    '/': ['/guide', '/guide/#install', '/api?utm_source=nav', 'https://other.com/', 'mailto:team@docs.test'],
+    '/guide': ['/guide/install', '/'],
+    '/guide/install': ['/guide/deep'],
+    '/api': ['/broken'],
+    '/broken': [],
+    '/guide/deep': [],
+};
+
+/** Where pages outside `SITE` redirect to */
+const REDIRECTS: Record<string, string> = {};
+
+/** Puppeteer-like tab whose pages come from `SITE`; `/broken` fails to load */
+function createTab(browser: { newPage: () => Promise<any> }, closed: string[]) {
+    let current = 'about:blank';
+    let isClosed = false;
+    const tab = {
+        goto: jest.fn(async (url: string) => {
+            url = REDIRECTS[url] ?? url;
+            const path = new URL(url).pathname;
+            if (!(path in SITE) || path === '/broken') throw new Error(`net::ERR_FAILED at ${url}`);
+            current = url;
+        }),
+        url: () => current,
+        title: async () => `Title of ${new URL(current).pathname}`,
+        content: async () => '<html></html>',
+        evaluate: jest.fn(async (fn: () => unknown) => {
+            const source = fn.toString();
+            if (source.includes('userAgent')) return 'Mozilla/5.0 TestBrowser/1.0';
+            if (source.includes('a[href]')) return SITE[new URL(current).pathname].map(link => new URL(link, current).href);
+            if (source.includes('meta')) return {};
+            return `text of ${new URL(current).pathname}`;
+        }),
+        screenshot: jest.fn(async () => Buffer.from(`png of ${new URL(current).pathname}`)),
+        pdf: jest.fn(async () => Buffer.from(`pdf of ${new URL(current).pathname}`)),
+        viewport: () => ({ width: 1280, height: 720 }),
+        browser: () => browser,
+        isClosed: () => isClosed,
+        close: jest.fn(async () => { isClosed = true; closed.push('tab'); }),
+    };
+    return tab;
+}
+
+function createSessionPage() {
+    const closed: string[] = [];
+    const browser = { newPage: jest.fn(async (): Promise<any> => createTab(browser, closed)) };
+    return { page: createTab(browser, closed), browser, closed };
+}
+
+async function collect(iterator: AsyncIterable<CrawlResponse>): Promise<CrawlResponse[]> {
+    const results: CrawlResponse[] = [];
+    for await (const result of iterator) results.push(result);
+    return results;
+}
+
+/** Element node; strings become text nodes */
+function h(tag: string, attrs: Record<string, string> = {}, ...children: (DomNode | string)[]): DomNode {
+    return { tag, attrs, children: children.map(child => typeof child === 'string' ? { tag: '#text', text: child } : child) };
+}
+
+describe('QuickActionsService.scrape', () => {
+    const paragraphs = [
+        'Install the package with npm and set your credentials in the environment before creating a session.',
+        'Sessions run in the cloud by default; pass local: true to launch Chrome on your own machine instead.',
+        'Every session can be attached to from another process, so a CLI command can pick up where a script left off.',
+    ];
+    const body = h('body', {},
+        h('nav', {}, h('a', { href: 'https://docs.test/' }, 'Home'), h('a', { href: 'https://docs.test/api' }, 'API')),
+        h('article', {},
+            h('h1', {}, 'Getting started'),
+            ...paragraphs.map(text => h('p', {}, text)),
+            h('p', {}, 'See the ', h('a', { href: 'https://docs.test/guide' }, 'guide'), '.'),
+        ),
+        h('footer', {}, 'Copyright 2026 Docs Inc.'),
+    );
+
+    /** Quick actions on a session whose page renders `body` */
+    function createArticleScraper() {
+        const { page } = createSessionPage();
+        page.evaluate.mockImplementation(async (fn: () => unknown) => {
+            if (fn === serializeDom) return body;
+            if (fn.toString().includes('meta')) return { author: 'Ada' };
+            return 'text';
+        });
+        const quick = new QuickActionsService();
+        quick.registerSessionPage('s1', page as any);
+        return quick;
+    }
+
+    it('converts the rendered page to Markdown', async () => {
+        const quick = createArticleScraper();
+
+        const result = await quick.scrape({ url: 'https://docs.test/guide', sessionId: 's1', format: 'markdown' });
+
+        expect(result.markdown).toContain('# Getting started');
+        expect(result.markdown).toContain(`${paragraphs[0]}\n\n${paragraphs[1]}`);
+        expect(result.markdown).toContain('See the [guide](https://docs.test/guide).');
+        expect(result.content).toBe(result.markdown);
+        expect(result.html).toBeUndefined();
+        expect(result.article).toBeUndefined();
+    });
+
+    it('extracts the main article without the site chrome', async () => {
+        const quick = createArticleScraper();
+
+        const result = await quick.scrape({ url: 'https://docs.test/guide', sessionId: 's1', format: 'readability' });
+
+        expect(result.article).toEqual(expect.objectContaining({ title: 'Title of /guide', byline: 'Ada' }));
+        expect(result.content).toBe(result.article!.textContent);
+        expect(result.content).toContain(paragraphs[2]);
+        expect(result.content).not.toMatch(/Home|Copyright/);
+        expect(result.markdown).toBe(result.article!.markdown);
+        expect(result.metadata).toEqual({ author: 'Ada' });
+    });
+});
+
+describe('QuickActionsService.crawl', () => {
+    it('follows same-origin links breadth-first, deduping normalized URLs', async () => {
+        const { page, closed } = createSessionPage();
+        const quick = new QuickActionsService();
+        quick.registerSessionPage('s1', page as any);
+
+        const results = await collect(quick.crawl({ startUrl: 'https://docs.test/', sessionId: 's1', format: 'text', concurrency: 1, respectRobotsTxt: false }));
+
+        expect(results.map(r => [r.url, r.depth])).toEqual([
+            ['https://docs.test/', 0],
+            ['https://docs.test/guide', 1],
+            ['https://docs.test/api', 1],
+            ['https://docs.test/guide/install', 2],
+            ['https://docs.test/broken', 2],
+        ]);
+        expect(results[1]).toEqual(expect.objectContaining({ title: 'Title of /guide', content: 'text of /guide' }));
+        expect(results[4].error).toContain('net::ERR_FAILED');
+        // The session's own page stays where it was
+        expect(page.goto).not.toHaveBeenCalled();
+        expect(closed).toEqual(['tab']);
+    });
+
+    it('filters links with include and exclude patterns and stops at maxPages', async () => {
+        const { page } = createSessionPage();
+        const quick = new QuickActionsService();
+        quick.registerSessionPage('s1', page as any);
+
+        const guide = await collect(quick.crawl({
+            startUrl: 'https://docs.test/', sessionId: 's1', format: 'text', respectRobotsTxt: false, maxDepth: 5,
+            includePatterns: ['**/guide**'], excludePatterns: [/deep/],
+        }));
+        expect(guide.map(r => r.url)).toEqual(['https://docs.test/', 'https://docs.test/guide', 'https://docs.test/guide/install']);
+
+        const limited = await collect(quick.crawl({ startUrl: 'https://docs.test/', sessionId: 's1', format: 'text', respectRobotsTxt: false, maxPages: 2 }));
+        expect(limited).toHaveLength(2);
+    });
+
+    it('crawls in extra tabs of the session browser and closes them afterwards', async () => {
+        const { page, browser, closed } = createSessionPage();
+        const quick = new QuickActionsService();
+        quick.registerSessionPage('s1', page as any);
+
+        const results = await collect(quick.crawl({ startUrl: 'https://docs.test/', sessionId: 's1', format: 'text', respectRobotsTxt: false, concurrency: 3 }));
+        expect(results).toHaveLength(5);
+        // Tabs open as links are found: the start page alone needs only one
+        expect(browser.newPage).toHaveBeenCalledTimes(2);
+        expect(closed).toEqual(['tab', 'tab']);
+    });
+
+    it('does not keep redirects that leave the crawl', async () => {
+        SITE['/'].push('/moved', '/old-docs');
+        REDIRECTS['https://docs.test/moved'] = 'https://docs.test/guide/install';
+        REDIRECTS['https://docs.test/old-docs'] = 'https://other.test/guide';
+        try {
+            const { page } = createSessionPage();
+            const quick = new QuickActionsService();
+            quick.registerSessionPage('s1', page as any);
+
+            const results = await collect(quick.crawl({ startUrl: 'https://docs.test/', sessionId: 's1', format: 'text', respectRobotsTxt: false, maxDepth: 1 }));
+            const byUrl = new Map(results.map(r => [r.url, r]));
+            expect(byUrl.get('https://docs.test/guide/install')?.content).toBe('text of /guide/install');
+            expect(byUrl.get('https://docs.test/old-docs')).toEqual(expect.objectContaining({
+                content: '',
+                error: 'Redirected to https://other.test/guide, which is outside the crawl',
+            }));
+            expect(results.some(r => r.url.startsWith('https://other.test/'))).toBe(false);
+        } finally {
+            SITE['/'].splice(-2);
+            delete REDIRECTS['https://docs.test/moved'];
+            delete REDIRECTS['https://docs.test/old-docs'];
+        }
+    });
+
+    it('skips URLs disallowed by robots.txt', async () => {
+        // The Mozilla group is for other crawlers; ours falls back to *
+        const robotsTxt = 'User-agent: Mozilla\nDisallow: /\n\nUser-agent: *\nDisallow: /api';
+        const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(robotsTxt, { status: 200 }));
+        try {
+            const { page } = createSessionPage();
+            const quick = new QuickActionsService();
+            quick.registerSessionPage('s1', page as any);
+
+            const results = await collect(quick.crawl({ startUrl: 'https://docs.test/', sessionId: 's1', format: 'text', maxDepth: 1 }));
+            expect(results.map(r => r.url)).toEqual(['https://docs.test/', 'https://docs.test/guide']);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            expect(fetchMock.mock.calls[0][0]).toBe('https://docs.test/robots.txt');
+            // Sent with the user agent the pages load with, matched by the crawler's own token
+            expect((fetchMock.mock.calls[0][1] as RequestInit).headers).toEqual({ 'User-Agent': 'Mozilla/5.0 TestBrowser/1.0' });
+        } finally {
+            fetchMock.mockRestore();
+        }
+    });
+});
+
+describe('QuickActionsService batch actions', () => {
+    const urls = ['/', '/guide', '/api', '/guide/install', '/guide/deep'].map(p => `https://docs.test${p}`);
+
+    it('runs the URLs through a fixed set of tabs and reports progress', async () => {
+        const { page, browser, closed } = createSessionPage();
+        const quick = new QuickActionsService();
+        quick.registerSessionPage('s1', page as any);
+        const progress: BatchProgress[] = [];
+
+        const batch = await quick.screenshotMany({ urls, sessionId: 's1', concurrency: 2, onProgress: p => progress.push(p) });
+
+        expect(batch.results.map(r => [r.index, r.url, r.result?.data.toString()])).toEqual(
+            urls.map((url, i) => [i, url, `png of ${new URL(url).pathname}`]),
+        );
+        expect(batch).toEqual(expect.objectContaining({ succeeded: 5, failed: 0 }));
+        expect(batch.results[0]).toEqual(expect.objectContaining({ attempts: 1, result: expect.objectContaining({ width: 1280, height: 720 }) }));
+        expect(browser.newPage).toHaveBeenCalledTimes(2);
+        expect(closed).toEqual(['tab', 'tab']);
+        // The session's own page stays where it was
+        expect(page.goto).not.toHaveBeenCalled();
+        expect(page.url()).toBe('about:blank');
+        expect(progress.map(p => [p.completed, p.total])).toEqual([[1, 5], [2, 5], [3, 5], [4, 5], [5, 5]]);
+    });
+
+    it('retries failing URLs and reports the ones that never succeed', async () => {
+        const { page, browser, closed } = createSessionPage();
+        const quick = new QuickActionsService();
+        quick.registerSessionPage('s1', page as any);
+        browser.newPage.mockImplementationOnce(async () => {
+            const tab = createTab(browser, closed);
+            tab.goto.mockRejectedValueOnce(new Error('Navigation timeout of 30000 ms exceeded'));
+            return tab;
+        });
+
+        const batch = await quick.pdfMany({
+            urls: ['https://docs.test/', 'https://docs.test/broken'], sessionId: 's1', concurrency: 1, retries: 1, retryDelay: 0,
+        });
+
+        expect(batch.results[0].attempts).toBe(2);
+        expect(batch.results[0].result?.data.toString()).toBe('pdf of /');
+        expect(batch.results[0].error).toBeUndefined();
+        expect(batch.results[1].attempts).toBe(2);
+        expect(batch.results[1].result).toBeUndefined();
+        expect(batch.results[1].error).toContain('net::ERR_FAILED');
+        expect(batch).toEqual(expect.objectContaining({ succeeded: 1, failed: 1 }));
+    });
+
+    it('rejects counts that are not whole numbers in range', async () => {
+        const quick = new QuickActionsService();
+
+        await expect(quick.screenshotMany({ urls, concurrency: NaN })).rejects.toThrow('Invalid concurrency NaN: expected a whole number of at least 1');
+        await expect(quick.pdfMany({ urls, retries: -1 })).rejects.toThrow('Invalid retries -1: expected a whole number of at least 0');
+        await expect(quick.scrapeMany({ urls, concurrency: 1.5 })).rejects.toThrow('Invalid concurrency 1.5: expected a whole number of at least 1');
+        await expect(collect(quick.crawl({ startUrl: 'https://docs.test/', maxDepth: NaN }))).rejects.toThrow('Invalid maxDepth NaN');
+        await expect(collect(quick.crawl({ startUrl: 'https://docs.test/', maxPages: 2.5 }))).rejects.toThrow('Invalid maxPages 2.5');
+    });
+
+    it('stops starting URLs when onProgress throws and rejects once the rest finish', async () => {
+        const { page, closed } = createSessionPage();
+        const quick = new QuickActionsService();
+        quick.registerSessionPage('s1', page as any);
+        const done: string[] = [];
+
+        await expect(quick.screenshotMany({
+            urls, sessionId: 's1', concurrency: 2,
+            onProgress: ({ item }) => {
+                done.push(item.url);
+                if (done.length === 1) throw new Error('disk full');
+            },
+        })).rejects.toThrow('disk full');
+        // The other tab's URL finished; none started after the failure
+        expect(done).toHaveLength(2);
+        expect(closed).toEqual(['tab', 'tab']);
+    });
+
+    it('reads the URLs from a list file and replaces a tab that closes', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'batch-'));
+        const file = path.join(dir, 'urls.txt');
+        await fs.writeFile(file, '# docs\nhttps://docs.test/\n\nhttps://docs.test/guide  # start here\n');
+        try {
+            const { page, browser, closed } = createSessionPage();
+            const quick = new QuickActionsService();
+            quick.registerSessionPage('s1', page as any);
+            browser.newPage.mockImplementationOnce(async () => {
+                const tab = createTab(browser, closed);
+                tab.goto.mockImplementationOnce(async () => {
+                    await tab.close();
+                    throw new Error('Target closed');
+                });
+                return tab;
+            });
+
+            const batch = await quick.scrapeMany({ urls: file, sessionId: 's1', concurrency: 1, retryDelay: 0, format: 'text' });
+
+            expect(batch.results.map(r => [r.url, r.result?.content, r.attempts])).toEqual([
+                ['https://docs.test/', 'text of /', 2],
+                ['https://docs.test/guide', 'text of /guide', 1],
+            ]);
+            expect(browser.newPage).toHaveBeenCalledTimes(2);
+        } finally {
+            await fs.remove(dir);
+        }
+    });
+});
@@ -16,6 +16,62 @@ function createMockPage(accessibilityTree: any, url: string = 'https://example.c
     };
 }
 
+/** CDP AX node as returned by Accessibility.getFullAXTree */
+function axNode(nodeId: string, role: string, name: string, childIds: string[] = [], extra: any = {}) {
+    return { nodeId, ignored: false, role: { value: role }, name: { value: name }, childIds, ...extra };
+}
+
+/** CDP layout handlers for an 800x600 viewport scrolled to `scrollY`, with page-absolute boxes by backend node id */
+function layoutHandlers(scrollY: number, rects: Record<number, number[]>) {
+    const ids = Object.keys(rects).map(Number);
+    return {
+        'Page.getLayoutMetrics': () => ({ cssVisualViewport: { pageX: 0, pageY: scrollY, clientWidth: 800, clientHeight: 600 } }),
+        'DOMSnapshot.captureSnapshot': () => ({
+            documents: [{
+                nodes: { backendNodeId: ids },
+                layout: { nodeIndex: ids.map((_, i) => i), bounds: ids.map(id => rects[id]) },
+            }],
+        }),
+    };
+}
+
+/** DOM node behind a backend node id: its element path, and the content frame for iframes */
+interface MockDomNode { css: string; xpath: string; frameId?: string }
+
+/** CDP session answering a11y/DOM calls from per-frame AX trees ('' is the session's own top frame) */
+function createMockCdpSession(
+    frames: Record<string, any[]>,
+    dom: Record<number, MockDomNode> = {},
+    handlers: Record<string, (params: any) => any> = {},
+) {
+    return {
+        send: jest.fn(async (method: string, params: any = {}) => {
+            if (handlers[method]) return handlers[method](params);
+            switch (method) {
+                case 'Accessibility.getFullAXTree': {
+                    const nodes = frames[params.frameId || ''];
+                    if (!nodes) throw new Error('Frame with the given frameId is not found.');
+                    return { nodes };
+                }
+                case 'DOM.describeNode':
+                    return { node: { backendNodeId: params.backendNodeId, frameId: dom[params.backendNodeId]?.frameId } };
+                case 'DOM.resolveNode':
+                    if (!dom[params.backendNodeId]) throw new Error('No node with given id found');
+                    return { object: { objectId: `obj-${params.backendNodeId}` } };
+                case 'Runtime.callFunctionOn': {
+                    const node = dom[Number(params.objectId.slice(4))];
+                    return { result: { value: { css: node.css, xpath: node.xpath } } };
+                }
+                case 'Page.getFrameTree':
+                    return { frameTree: { frame: { id: Object.keys(frames).find(id => id) } } };
+                default:
+                    return {};
+            }
+        }),
+        detach: jest.fn(async () => {}),
+    };
+}
+
 describe('SnapshotService', () => {
     let service: SnapshotService;
     let refStore: InMemoryRefStore;
@@ -256,4 +312,212 @@ describe('SnapshotService', () => {
         expect(prev).not.toBeNull();
         expect(prev!.refCount).toBe(1);
     });
+
+    describe('iframes (CDP)', () => {
+        const topFrame = [
+            axNode('1', 'RootWebArea', 'Checkout', ['2']),
+            { nodeId: '2', ignored: true, role: { value: 'none' }, childIds: ['3', '4', '5'] },
+            axNode('3', 'button', 'Top'),
+            axNode('4', 'Iframe', '', [], { backendDOMNodeId: 40 }),
+            axNode('5', 'button', 'Help'),
+        ];
+        const paymentFrame = [
+            axNode('1', 'RootWebArea', 'Payment', ['2']),
+            axNode('2', 'textbox', 'Card number', ['3'], { properties: [{ name: 'required', value: { value: true } }] }),
+            axNode('3', 'InlineTextBox', 'Card number'),
+        ];
+        const owners = { 40: { css: 'iframe[name="pay"]', xpath: '/html/body/iframe', frameId: 'F-PAY' } };
+
+        it('descends into same-process iframes and tags their refs with the frame', async () => {
+            const client = createMockCdpSession({ '': topFrame, 'F-PAY': paymentFrame }, owners);
+            const page = { ...createMockPage(null), createCDPSession: async () => client };
+            const result = await service.capture(page, 's1', { compact: true });
+
+            expect(result.compactText).toContain('@e1 button "Top"\n@e2 textbox "Card number"\n@e3 button "Help"');
+            const iframe = result.tree.children![1];
+            expect(iframe.role).toBe('Iframe');
+            expect(iframe.children![0]).toMatchObject({ role: 'RootWebArea', name: 'Payment', frameId: 'F-PAY' });
+            expect(iframe.children![0].children![0]).toMatchObject({ ref: '@e2', frameId: 'F-PAY', state: { required: true } });
+
+            const stored = await refStore.load('s1');
+            expect(stored!.refs.get('@e1')!.frameId).toBeUndefined();
+            expect(stored!.refs.get('@e2')).toMatchObject({ frameId: 'F-PAY', framePath: ['iframe[name="pay"]'] });
+            expect(client.detach).toHaveBeenCalled();
+        });
+
+        it('reads out-of-process iframes through their own target session', async () => {
+            const client = createMockCdpSession({ '': topFrame }, owners);
+            const frameClient = createMockCdpSession({ 'F-PAY': paymentFrame });
+            const page = {
+                ...createMockPage(null),
+                createCDPSession: async () => client,
+                browserContext: () => ({
+                    targets: () => [
+                        { type: () => 'page', createCDPSession: async () => client },
+                        { type: () => 'other', createCDPSession: async () => frameClient },
+                    ],
+                }),
+            };
+            await service.capture(page, 's1');
+
+            expect((await refStore.get('s1', '@e2'))).toMatchObject({ name: 'Card number', frameId: 'F-PAY' });
+            expect(frameClient.send).toHaveBeenCalledWith('Accessibility.getFullAXTree', { frameId: 'F-PAY' });
+            expect(frameClient.detach).toHaveBeenCalled();
+        });
+
+        it('uses a context CDP session on Playwright', async () => {
+            const client = createMockCdpSession({ '': topFrame, 'F-PAY': paymentFrame }, owners);
+            const newCDPSession = jest.fn(async () => client);
+            const page = { ...createMockPage(null), locator: () => ({}), context: () => ({ newCDPSession }) };
+            const result = await service.capture(page, 's1');
+
+            expect(newCDPSession).toHaveBeenCalledWith(page);
+            expect(result.refCount).toBe(3);
+        });
+    });
+
+    describe('DOM-backed refs (CDP)', () => {
+        it('points refs at their DOM node\'s CSS path, XPath and backend node id', async () => {
+            const client = createMockCdpSession({
+                '': [
+                    axNode('1', 'RootWebArea', 'Shop', ['2', '3', '4']),
+                    axNode('2', 'button', 'Add to cart', [], { backendDOMNodeId: 12 }),
+                    axNode('3', 'button', 'Buy', [], { backendDOMNodeId: 13 }),
+                    axNode('4', 'link', 'Help', [], { backendDOMNodeId: 14 }),
+                ],
+            }, {
+                12: { css: '#products > li:nth-of-type(2) > button', xpath: '//*[@id="products"]/li[2]/button' },
+                13: { css: 'html > body > my-cart >>>> button', xpath: '' },
+            });
+            const page = { ...createMockPage(null), createCDPSession: async () => client };
+            await service.capture(page, 's1');
+
+            const stored = await refStore.load('s1');
+            expect(stored!.refs.get('@e1')).toEqual({
+                css: '#products > li:nth-of-type(2) > button',
+                xpath: '//*[@id="products"]/li[2]/button',
+                role: 'button',
+                name: 'Add to cart',
+                backendNodeId: 12,
+            });
+            expect(stored!.refs.get('@e2')).toMatchObject({ css: 'html > body > my-cart >>>> button', xpath: '', backendNodeId: 13 });
+            // Node gone before its path was read: the synthetic selector is kept
+            expect(stored!.refs.get('@e3')).toMatchObject({ css: '[role="link"][aria-label="Help"]', backendNodeId: 14 });
+            expect(client.detach).toHaveBeenCalled();
+        });
+
+        it('looks up the DOM paths of many refs in parallel chunks', async () => {
+            const ids = Array.from({ length: 120 }, (_, i) => i + 10);
+            const dom: Record<number, MockDomNode> = {};
+            for (const id of ids) dom[id] = { css: `#b${id}`, xpath: `//*[@id="b${id}"]` };
+            let inFlight = 0;
+            let maxInFlight = 0;
+            const client = createMockCdpSession({
+                '': [
+                    axNode('1', 'RootWebArea', 'Grid', ids.map(String)),
+                    ...ids.map(id => axNode(String(id), 'button', `Cell ${id}`, [], { backendDOMNodeId: id })),
+                ],
+            }, dom, {
+                'DOM.resolveNode': async ({ backendNodeId }) => {
+                    maxInFlight = Math.max(maxInFlight, ++inFlight);
+                    await new Promise(resolve => setTimeout(resolve, 1));
+                    inFlight--;
+                    return { object: { objectId: `obj-${backendNodeId}` } };
+                },
+            });
+            const page = { ...createMockPage(null), createCDPSession: async () => client };
+            await service.capture(page, 's1');
+
+            expect(maxInFlight).toBe(50);
+            expect((await refStore.get('s1', '@e120'))!.css).toBe('#b129');
+        });
+    });
+
+    describe('scope, interactiveOnly, rootSelector and maxTokens', () => {
+        // Scrolled to y=1000: a link above the viewport, a heading and a button in it, a button below it
+        const longPage = [
+            axNode('1', 'RootWebArea', 'Docs', ['2', '3', '4', '5', '6']),
+            axNode('2', 'link', 'Home', [], { backendDOMNodeId: 2 }),
+            axNode('3', 'heading', 'Install', ['7'], { backendDOMNodeId: 3 }),
+            axNode('7', 'StaticText', 'Install', [], { backendDOMNodeId: 7 }),
+            axNode('4', 'button', 'Copy', [], { backendDOMNodeId: 4 }),
+            axNode('5', 'button', 'Next page', [], { backendDOMNodeId: 5 }),
+            axNode('6', 'contentinfo', '', [], { backendDOMNodeId: 6 }),
+        ];
+        const rects = { 2: [8, 8, 40, 20], 3: [8, 1100, 300, 30], 7: [8, 1100, 60, 30], 4: [8, 1200, 60, 20], 5: [8, 2400, 80, 20], 6: [0, 2500, 800, 100] };
+        const createLongPage = () => {
+            const client = createMockCdpSession({ '': longPage }, {}, layoutHandlers(1000, rects));
+            return { ...createMockPage(null, 'https://docs.example.com', 'Docs'), createCDPSession: async () => client };
+        };
+
+        it('viewport scope keeps on-screen elements and marks what is above and below', async () => {
+            const result = await service.capture(createLongPage(), 's1', { scope: 'viewport', compact: true });
+
+            expect(result.compactText).toBe([
+                '[Docs] https://docs.example.com',
+                '(… 1 element above the viewport — scroll up to see them)',
+                '@e1 heading "Install"',
+                '@e2 button "Copy"',
+                '(… 2 elements below the viewport — scroll down to see them)',
+            ].join('\n'));
+            expect(result.truncated).toBe(false);
+            expect((await refStore.get('s1', '@e2'))!.name).toBe('Copy');
+        });
+
+        it('interactiveOnly keeps only interactive elements', async () => {
+            const result = await service.capture(createLongPage(), 's1', { interactiveOnly: true });
+
+            expect(result.tree.children!.map(n => `${n.ref} ${n.name}`)).toEqual(['@e1 Home', '@e2 Copy', '@e3 Next page']);
+        });
+
+        it('maxTokens keeps visible, interactive elements first', async () => {
+            const result = await service.capture(createLongPage(), 's1', { maxTokens: 21, compact: true });
+
+            expect(result.compactText).toBe([
+                '[Docs] https://docs.example.com',
+                '(… 1 element above the viewport — scroll up to see them)',
+                '@e1 heading "Install"',
+                '@e2 button "Copy"',
+                '(… 2 elements below the viewport — scroll down to see them)',
+                '(truncated: showing 2 of 7 elements)',
+            ].join('\n'));
+            expect(result.truncated).toBe(true);
+        });
+
+        it('marks elements dropped by maxElements without layout information', async () => {
+            const children = Array.from({ length: 4 }, (_, i) => ({ role: 'button', name: `Button ${i}`, children: [] }));
+            const result = await service.capture(createMockPage({ role: 'WebArea', name: 'Test', children }), 's1', { maxElements: 2, compact: true });
+
+            expect(result.compactText).toContain('@e2 button "Button 1"\n(… 2 elements omitted — snapshot limit reached)');
+        });
+
+        it('rootSelector snapshots only the matching element', async () => {
+            const client = createMockCdpSession({ '': [
+                axNode('1', 'RootWebArea', 'Docs', ['2', '3']),
+                axNode('2', 'button', 'Behind dialog', [], { backendDOMNodeId: 2 }),
+                axNode('3', 'generic', '', ['4'], { backendDOMNodeId: 3 }),
+                axNode('4', 'button', 'Confirm', [], { backendDOMNodeId: 4 }),
+            ] }, {}, {
+                'Runtime.evaluate': ({ expression }) => ({
+                    result: expression === 'document.querySelector("#modal")' ? { objectId: 'modal' } : { subtype: 'null' },
+                }),
+                'DOM.describeNode': () => ({ node: { backendNodeId: 3, children: [{ backendNodeId: 4 }] } }),
+            });
+            const page = { ...createMockPage(null), createCDPSession: async () => client };
+
+            const result = await service.capture(page, 's1', { rootSelector: '#modal', compact: true });
+            expect(result.compactText).toBe('[Test Page] https://example.com\n@e1 button "Confirm"');
+            await expect(service.capture(page, 's1', { rootSelector: '#missing' })).rejects.toThrow('Snapshot root "#missing" not found');
+        });
+
+        it('rootSelector uses the snapshot root option without CDP', async () => {
+            const root = { id: 'dialog' };
+            const snapshot = jest.fn(async (_opts: any) => ({ role: 'dialog', name: 'Confirm', children: [] }));
+            const page = { ...createMockPage(null), $: async () => root, accessibility: { snapshot } };
+
+            const result = await service.capture(page, 's1', { rootSelector: '#modal' });
+            expect(snapshot).toHaveBeenCalledWith({ interestingOnly: false, root });
+            expect(result.tree).toMatchObject({ ref: '@e1', role: 'dialog' });
+        });
+    });
 });
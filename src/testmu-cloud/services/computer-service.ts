@@ -3,8 +3,20 @@ import { Page } from 'puppeteer-core';
 import {
     ComputerActionParams,
     ComputerActionResponse,
+    Dimensions,
 } from '../types.js';
 import { detectFramework } from '../utils/framework-detect.js';
+import { dragAndDrop, pressKeyChord } from '../utils/input.js';
+import { pngSize, readViewportSize, resizePng, toViewportDelta, toViewportPoint, validateDisplaySize } from '../utils/display-scale.js';
+import { PageService } from './page-service.js';
+
+/** How long hold_key keeps the keys down when no duration is given */
+const DEFAULT_HOLD_MS = 1000;
+
+export interface ComputerServiceOptions {
+    /** Display size screenshots are resized to and coordinates are given in (default: the page's own pixels) */
+    displaySize?: Dimensions;
+}
 
 /**
  * ComputerService - AI Agent Mouse/Keyboard Control
@@ -15,6 +27,33 @@ import { detectFramework } from '../utils/framework-detect.js';
  * This is a critical feature for AI agent use cases (like Claude computer use).
  */
 export class ComputerService {
+    private pageService: PageService | null = null;
+    private displaySize: Dimensions | null = null;
+
+    constructor(options: ComputerServiceOptions = {}) {
+        if (options.displaySize) this.setDisplaySize(options.displaySize);
+    }
+
+    /**
+     * Work in a `width`x`height` display, the size a vision model is told the screen has:
+     * screenshots are resized to it and coordinates are mapped from it to CSS pixels,
+     * whatever the viewport size and devicePixelRatio. Pass null to use the page's own pixels.
+     */
+    setDisplaySize(size: Dimensions | null): void {
+        if (size) validateDisplaySize(size);
+        this.displaySize = size ? { width: size.width, height: size.height } : null;
+    }
+
+    getDisplaySize(): Dimensions | null {
+        return this.displaySize ? { ...this.displaySize } : null;
+    }
+
+    /**
+     * Resolve drag `source`/`target` @refs and selectors with this PageService.
+     */
+    setPageService(service: PageService): void {
+        this.pageService = service;
+    }
 
     /**
      * Execute a computer action on a page
@@ -24,31 +63,75 @@ export class ComputerService {
             let output = '';
             let base64_image: string | undefined;
 
+            if (params.displaySize) validateDisplaySize(params.displaySize);
+            const display = params.displaySize ?? this.displaySize;
+            // Coordinates and scroll distances come in display space; mouse events take viewport CSS pixels
+            const viewport = display && (params.coordinate || params.startCoordinate || params.deltaX || params.deltaY)
+                ? await page.evaluate(readViewportSize)
+                : null;
+            const toPage = (point: [number, number]): [number, number] => display && viewport
+                ? toViewportPoint(point, display, viewport)
+                : point;
+            const toPageDelta = (delta: number): number => display && viewport
+                ? toViewportDelta(delta, display, viewport)
+                : delta;
+
             switch (params.action) {
                 case 'move':
                     if (params.coordinate) {
-                        await page.mouse.move(params.coordinate[0], params.coordinate[1]);
+                        await page.mouse.move(...toPage(params.coordinate));
                         output = `Moved mouse to (${params.coordinate[0]}, ${params.coordinate[1]})`;
                     }
                     break;
 
                 case 'click':
                     if (params.coordinate) {
-                        await page.mouse.click(params.coordinate[0], params.coordinate[1]);
+                        await page.mouse.click(...toPage(params.coordinate));
                         output = `Clicked at (${params.coordinate[0]}, ${params.coordinate[1]})`;
                     }
                     break;
 
                 case 'double_click':
                     if (params.coordinate) {
-                        await page.mouse.click(params.coordinate[0], params.coordinate[1], { clickCount: 2 });
+                        await page.mouse.click(...toPage(params.coordinate), { clickCount: 2 });
                         output = `Double-clicked at (${params.coordinate[0]}, ${params.coordinate[1]})`;
                     }
                     break;
 
+                case 'triple_click':
+                    if (params.coordinate) {
+                        await page.mouse.click(...toPage(params.coordinate), { clickCount: 3 });
+                        output = `Triple-clicked at (${params.coordinate[0]}, ${params.coordinate[1]})`;
+                    }
+                    break;
+
+                case 'mouse_down':
+                    if (params.coordinate) {
+                        await page.mouse.move(...toPage(params.coordinate));
+                    }
+                    await page.mouse.down();
+                    output = params.coordinate
+                        ? `Pressed mouse button at (${params.coordinate[0]}, ${params.coordinate[1]})`
+                        : 'Pressed mouse button';
+                    break;
+
+                case 'mouse_up':
+                    if (params.coordinate) {
+                        await page.mouse.move(...toPage(params.coordinate));
+                    }
+                    await page.mouse.up();
+                    output = params.coordinate
+                        ? `Released mouse button at (${params.coordinate[0]}, ${params.coordinate[1]})`
+                        : 'Released mouse button';
+                    break;
+
+                case 'drag':
+                    output = await this.executeDrag(page, params, toPage);
+                    break;
+
                 case 'right_click':
                     if (params.coordinate) {
-                        await page.mouse.click(params.coordinate[0], params.coordinate[1], { button: 'right' });
+                        await page.mouse.click(...toPage(params.coordinate), { button: 'right' });
                         output = `Right-clicked at (${params.coordinate[0]}, ${params.coordinate[1]})`;
                     }
                     break;
@@ -59,10 +142,10 @@ export class ComputerService {
 
                     // Move to coordinate first if provided
                     if (params.coordinate) {
-                        await page.mouse.move(params.coordinate[0], params.coordinate[1]);
+                        await page.mouse.move(...toPage(params.coordinate));
                     }
 
-                    await this.scroll(page, deltaX, deltaY);
+                    await this.scroll(page, toPageDelta(deltaX), toPageDelta(deltaY));
                     output = `Scrolled by (${deltaX}, ${deltaY})`;
                     break;
                 }
@@ -76,14 +159,22 @@ export class ComputerService {
 
                 case 'key':
                     if (params.text) {
-                        // Handle special keys like "Enter", "Escape", "Tab", etc.
-                        await page.keyboard.press(params.text as any);
+                        // Special keys like "Enter" and "Escape", or chords like "ctrl+shift+t"
+                        await pressKeyChord(page, params.text);
                         output = `Pressed key: ${params.text}`;
                     }
                     break;
 
+                case 'hold_key':
+                    if (params.text) {
+                        const duration = params.duration ?? DEFAULT_HOLD_MS;
+                        await pressKeyChord(page, params.text, duration);
+                        output = `Held key: ${params.text} for ${duration}ms`;
+                    }
+                    break;
+
                 case 'screenshot': {
-                    base64_image = await this.captureScreenshot(page, false);
+                    base64_image = await this.captureDisplayScreenshot(page, display);
                     output = 'Screenshot captured';
                     break;
                 }
@@ -97,7 +188,7 @@ export class ComputerService {
 
             // Take screenshot if requested with the action
             if (params.screenshot && params.action !== 'screenshot') {
-                base64_image = await this.captureScreenshot(page, false);
+                base64_image = await this.captureDisplayScreenshot(page, display);
             }
 
             return {
@@ -114,6 +205,43 @@ export class ComputerService {
         }
     }
 
+    /**
+     * Drag between coordinates, or from a `source` @ref/selector to a `target` through PageService.
+     */
+    private async executeDrag(page: any, params: ComputerActionParams, toPage: (point: [number, number]) => [number, number]): Promise<string> {
+        if (params.source || params.target) {
+            if (!params.source || !params.target) {
+                throw new Error('drag needs both source and target');
+            }
+            if (!this.pageService) {
+                throw new Error('Dragging by @ref or selector needs a PageService. Use browser.computer or call setPageService().');
+            }
+            await this.pageService.drag(page, params.source, params.target);
+            return `Dragged ${params.source} to ${params.target}`;
+        }
+        if (!params.startCoordinate || !params.coordinate) {
+            throw new Error('drag needs startCoordinate and coordinate, or source and target');
+        }
+        const [fromX, fromY] = params.startCoordinate;
+        const [toX, toY] = params.coordinate;
+        const from = toPage(params.startCoordinate);
+        const to = toPage(params.coordinate);
+        await dragAndDrop(page, { x: from[0], y: from[1] }, { x: to[0], y: to[1] });
+        return `Dragged from (${fromX}, ${fromY}) to (${toX}, ${toY})`;
+    }
+
+    /**
+     * Viewport screenshot, resized to `display` when one is set. The resize starts from
+     * the image's own size, which is the viewport times devicePixelRatio.
+     */
+    private async captureDisplayScreenshot(page: any, display: Dimensions | null): Promise<string> {
+        const data = await this.captureScreenshot(page, false);
+        if (!display) return data;
+        const size = pngSize(data);
+        if (size && size.width === display.width && size.height === display.height) return data;
+        return resizePng(data, display);
+    }
+
     /**
      * Capture screenshot with CDP fallback for cloud Playwright sessions.
      * Remote grids may return blank PNGs from page.screenshot(); CDP is more reliable.
@@ -184,10 +312,17 @@ export class ComputerService {
     }
 
     /**
-     * Press a key
+     * Press a key or chord (e.g. "ctrl+shift+t")
      */
     async press(page: Page, key: string): Promise<void> {
-        await page.keyboard.press(key as any);
+        await pressKeyChord(page, key);
+    }
+
+    /**
+     * Drag with the left button between coordinates (HTML5 drag-and-drop aware)
+     */
+    async drag(page: Page, from: [number, number], to: [number, number]): Promise<void> {
+        await dragAndDrop(page, { x: from[0], y: from[1] }, { x: to[0], y: to[1] });
     }
 
     /**
@@ -0,0 +1,323 @@
+import { detectFramework } from '../utils/framework-detect.js';
+
+/** Entries kept per session; the oldest are dropped first */
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/** Longest text kept for a console message or error */
+const MAX_TEXT_LENGTH = 10000;
+
+export type ConsoleEntryKind = 'console' | 'pageerror' | 'requestfailed';
+
+export interface ConsoleSourceLocation {
+    url?: string;
+    /** 0-based, as reported by the browser */
+    lineNumber?: number;
+    columnNumber?: number;
+}
+
+export interface ConsoleEntry {
+    kind: ConsoleEntryKind;
+    /**
+     * Console API level: log, debug, info, warn, error, trace, ... ("warning" is reported as "warn").
+     * Always "error" for page errors and failed requests.
+     */
+    level: string;
+    text: string;
+    /** JSON values of the console arguments (non-serializable values as their description) */
+    args?: unknown[];
+    location?: ConsoleSourceLocation;
+    /** Stack trace of an uncaught exception */
+    stack?: string;
+    /** Failed request details */
+    request?: {
+        url: string;
+        method: string;
+        resourceType?: string;
+        /** HTTP status for responses >= 400 */
+        status?: number;
+        /** Network error for requests that never got a response */
+        failure?: string;
+    };
+    timestamp: number;
+}
+
+export interface ConsoleFilter {
+    kind?: ConsoleEntryKind | ConsoleEntryKind[];
+    level?: string | string[];
+    /** Substring or RegExp matched against the text */
+    text?: string | RegExp;
+    /** Only entries at or after this timestamp (ms since epoch) */
+    since?: number;
+}
+
+export interface ConsoleServiceOptions {
+    /** Entries kept per session (default: 1000) */
+    maxEntries?: number;
+}
+
+function truncate(text: string): string {
+    return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+}
+
+function normalizeLevel(type: string): string {
+    return type === 'warning' ? 'warn' : type;
+}
+
+/** JSON value of a CDP RemoteObject, falling back to its description */
+function remoteObjectValue(obj: any): unknown {
+    if (!obj) return undefined;
+    if ('value' in obj) return obj.value;
+    if (obj.unserializableValue !== undefined) return obj.unserializableValue;
+    if (obj.type === 'undefined') return undefined;
+    return obj.description ?? obj.type;
+}
+
+function remoteObjectText(obj: any): string {
+    if (!obj) return '';
+    if (obj.type === 'string') return obj.value;
+    if ('value' in obj) return JSON.stringify(obj.value);
+    if (obj.unserializableValue !== undefined) return obj.unserializableValue;
+    if (obj.type === 'undefined') return 'undefined';
+    return obj.description ?? obj.type;
+}
+
+/**
+ * ConsoleService - Browser console, uncaught exceptions and failed requests
+ *
+ * Records console messages (level, text, args, source location), `pageerror`
+ * exceptions and failed requests per session, for Puppeteer and Playwright.
+ *
+ * On Chromium (Puppeteer, or Playwright's chromium) the console is read through
+ * a dedicated CDP session, so messages logged before attaching (kept by the
+ * browser, up to 1000 per page) are delivered too. Playwright's Firefox and
+ * WebKit pages only report what is logged after attaching.
+ */
+export class ConsoleService {
+    private entries = new Map<string, ConsoleEntry[]>();
+    private attachedPages = new WeakSet<object>();
+    private cdpSessions = new Map<string, any[]>();
+    private maxEntries: number;
+
+    constructor(options: ConsoleServiceOptions = {}) {
+        this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    }
+
+    /**
+     * Start capturing console output, page errors and failed requests of a page.
+     */
+    async attach(page: any, sessionId: string): Promise<void> {
+        if (this.attachedPages.has(page)) return;
+        this.attachedPages.add(page);
+
+        const onRequestFailed = (request: any) => {
+            const failure = request.failure()?.errorText || 'failed';
+            this.add(sessionId, {
+                kind: 'requestfailed',
+                level: 'error',
+                text: `${request.method()} ${request.url()} ${failure}`,
+                request: { url: request.url(), method: request.method(), resourceType: request.resourceType(), failure },
+                timestamp: Date.now(),
+            });
+        };
+        const onResponse = (response: any) => {
+            const status = response.status();
+            if (status < 400) return;
+            const request = response.request();
+            this.add(sessionId, {
+                kind: 'requestfailed',
+                level: 'error',
+                text: `${request.method()} ${response.url()} ${status}`,
+                request: { url: response.url(), method: request.method(), resourceType: request.resourceType(), status },
+                timestamp: Date.now(),
+            });
+        };
+        page.on('requestfailed', onRequestFailed);
+        page.on('response', onResponse);
+
+        if (detectFramework(page) === 'playwright') {
+            let client: any;
+            try {
+                client = await page.context().newCDPSession(page);
+            } catch {
+                // Firefox and WebKit have no CDP; only messages logged from now on are seen
+                this.attachPlaywrightConsole(page, sessionId);
+                return;
+            }
+            await this.attachCdpConsole(client, sessionId);
+            return;
+        }
+        await this.attachCdpConsole(await page.createCDPSession(), sessionId);
+    }
+
+    /**
+     * Capture every current and future page of a Puppeteer browser.
+     */
+    async attachBrowser(browser: any, sessionId: string): Promise<void> {
+        const onTargetCreated = async (target: any) => {
+            if (target.type() !== 'page') return;
+            try {
+                const page = await target.page();
+                if (page) await this.attach(page, sessionId);
+            } catch (err) {
+                console.error(`[ConsoleService] Failed to capture new page for session ${sessionId}:`, err);
+            }
+        };
+        browser.on('targetcreated', onTargetCreated);
+        browser.once('disconnected', () => browser.off('targetcreated', onTargetCreated));
+
+        for (const page of await browser.pages()) {
+            await this.attach(page, sessionId);
+        }
+    }
+
+    /**
+     * Capture every current and future page of a Playwright context.
+     */
+    async attachContext(context: any, sessionId: string): Promise<void> {
+        context.on('page', (page: any) => {
+            this.attach(page, sessionId).catch(err => {
+                console.error(`[ConsoleService] Failed to capture new page for session ${sessionId}:`, err);
+            });
+        });
+        for (const page of context.pages()) {
+            await this.attach(page, sessionId);
+        }
+    }
+
+    /**
+     * Get captured entries for a session, oldest first, optionally filtered.
+     */
+    getLogs(sessionId: string, filter: ConsoleFilter = {}): ConsoleEntry[] {
+        const entries = this.entries.get(sessionId) || [];
+        const kinds = filter.kind === undefined ? null : (Array.isArray(filter.kind) ? filter.kind : [filter.kind]);
+        const levels = filter.level === undefined ? null : (Array.isArray(filter.level) ? filter.level : [filter.level]).map(normalizeLevel);
+        return entries.filter(entry => {
+            if (kinds && !kinds.includes(entry.kind)) return false;
+            if (levels && !levels.includes(entry.level)) return false;
+            if (filter.since !== undefined && entry.timestamp < filter.since) return false;
+            if (filter.text instanceof RegExp) {
+                filter.text.lastIndex = 0;
+                if (!filter.text.test(entry.text)) return false;
+            } else if (filter.text !== undefined && !entry.text.includes(filter.text)) {
+                return false;
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Clear captured entries for a session. With a page, the console messages the
+     * browser keeps for it are discarded too, so they aren't delivered again on
+     * the next attach.
+     */
+    async clear(sessionId: string, page?: any): Promise<void> {
+        this.entries.delete(sessionId);
+        if (!page) return;
+        let client: any;
+        try {
+            client = detectFramework(page) === 'playwright'
+                ? await page.context().newCDPSession(page)
+                : await page.createCDPSession();
+        } catch {
+            // Not a Chromium browser — there is no browser-side buffer to discard
+            return;
+        }
+        try {
+            await client.send('Runtime.discardConsoleEntries');
+        } finally {
+            try { await client.detach(); } catch { /* already detached */ }
+        }
+    }
+
+    /**
+     * Drop all captured entries and CDP sessions of a session. Call this when a session is released.
+     */
+    clearSession(sessionId: string): void {
+        this.entries.delete(sessionId);
+        const clients = this.cdpSessions.get(sessionId);
+        if (clients) {
+            for (const client of clients) {
+                try {
+                    Promise.resolve(client.detach()).catch(() => { /* already detached */ });
+                } catch { /* already detached */ }
+            }
+            this.cdpSessions.delete(sessionId);
+        }
+    }
+
+    // =================== Private ===================
+
+    private add(sessionId: string, entry: ConsoleEntry): void {
+        if (!this.entries.has(sessionId)) {
+            this.entries.set(sessionId, []);
+        }
+        const entries = this.entries.get(sessionId)!;
+        entries.push(entry);
+        if (entries.length > this.maxEntries) {
+            entries.splice(0, entries.length - this.maxEntries);
+        }
+    }
+
+    /**
+     * Runtime.enable on a fresh CDP session replays the messages and exceptions
+     * the browser already holds for the page, then streams new ones.
+     */
+    private async attachCdpConsole(client: any, sessionId: string): Promise<void> {
+        if (!this.cdpSessions.has(sessionId)) {
+            this.cdpSessions.set(sessionId, []);
+        }
+        this.cdpSessions.get(sessionId)!.push(client);
+
+        client.on('Runtime.consoleAPICalled', (event: any) => {
+            const frame = event.stackTrace?.callFrames?.[0];
+            this.add(sessionId, {
+                kind: 'console',
+                level: normalizeLevel(event.type),
+                text: truncate((event.args || []).map(remoteObjectText).join(' ')),
+                args: (event.args || []).map(remoteObjectValue),
+                ...(frame ? { location: { url: frame.url, lineNumber: frame.lineNumber, columnNumber: frame.columnNumber } } : {}),
+                timestamp: Math.round(event.timestamp || Date.now()),
+            });
+        });
+        client.on('Runtime.exceptionThrown', (event: any) => {
+            const details = event.exceptionDetails || {};
+            const description: string = details.exception?.description || details.text || 'Uncaught exception';
+            const [message] = description.split('\n');
+            this.add(sessionId, {
+                kind: 'pageerror',
+                level: 'error',
+                text: truncate(message),
+                ...(description.includes('\n') ? { stack: truncate(description) } : {}),
+                location: { url: details.url, lineNumber: details.lineNumber, columnNumber: details.columnNumber },
+                timestamp: Math.round(event.timestamp || Date.now()),
+            });
+        });
+        await client.send('Runtime.enable');
+    }
+
+    private attachPlaywrightConsole(page: any, sessionId: string): void {
+        page.on('console', (msg: any) => {
+            const entry: ConsoleEntry = {
+                kind: 'console',
+                level: normalizeLevel(msg.type()),
+                text: truncate(msg.text()),
+                location: msg.location(),
+                timestamp: Date.now(),
+            };
+            this.add(sessionId, entry);
+            // Argument values resolve asynchronously; the entry keeps its place in the log
+            Promise.all(msg.args().map((arg: any) => arg.jsonValue().catch(() => arg.toString())))
+                .then(args => { entry.args = args; })
+                .catch(() => { /* page closed */ });
+        });
+        page.on('pageerror', (error: Error) => {
+            this.add(sessionId, {
+                kind: 'pageerror',
+                level: 'error',
+                text: truncate(error.message),
+                ...(error.stack ? { stack: truncate(error.stack) } : {}),
+                timestamp: Date.now(),
+            });
+        });
+    }
+}
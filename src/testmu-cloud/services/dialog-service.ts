@@ -0,0 +1,274 @@
+import crypto from 'crypto';
+import { DialogPolicy } from '../types.js';
+
+/** Dialogs kept in the log per session; the oldest are dropped first */
+const DEFAULT_MAX_ENTRIES = 100;
+
+/** How long a queued dialog waits for `respond()` before it is dismissed */
+const DEFAULT_QUEUE_TIMEOUT = 30000;
+
+/** Policy of sessions that have none: an attached page never blocks on a dialog */
+const DEFAULT_POLICY: DialogPolicy = { action: 'dismiss' };
+
+export type DialogStatus = 'pending' | 'accepted' | 'dismissed';
+
+export interface DialogEntry {
+    id: string;
+    /** alert, confirm, prompt or beforeunload */
+    type: string;
+    message: string;
+    /** Default value of a prompt() */
+    defaultValue?: string;
+    /** URL of the page that opened the dialog */
+    url: string;
+    status: DialogStatus;
+    /** What answered it: the session policy, a `respond()` call, or the queue timeout */
+    handledBy?: 'policy' | 'agent' | 'timeout';
+    /** Text entered into an accepted prompt() */
+    promptText?: string;
+    openedAt: number;
+    handledAt?: number;
+}
+
+export interface DialogResponse {
+    accept: boolean;
+    /** Text for a prompt() dialog (default: its default value) */
+    promptText?: string;
+    /** Dialog to answer (default: the oldest pending one) */
+    id?: string;
+}
+
+export interface DialogServiceOptions {
+    /** Dialogs kept in the log per session (default: 100) */
+    maxEntries?: number;
+}
+
+/** Called when a dialog opens (status "pending") and again when it is answered */
+export type DialogListener = (sessionId: string, entry: DialogEntry) => void;
+
+interface PendingDialog {
+    entry: DialogEntry;
+    dialog: any;
+    /** Queue timeout, for queued dialogs */
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * DialogService - Answers JavaScript dialogs according to a per-session policy
+ *
+ * An unanswered alert(), confirm() or prompt() blocks the page, so clicks and
+ * evaluations that open one never return. Attached pages have every dialog
+ * accepted, dismissed, or queued for `respond()`, and logged either way.
+ * Sessions without a policy have their dialogs dismissed.
+ * The Dialog API is the same on Puppeteer and Playwright.
+ */
+export class DialogService {
+    private policies = new Map<string, DialogPolicy>();
+    private entries = new Map<string, DialogEntry[]>();
+    private pending = new Map<string, PendingDialog[]>();
+    private attachedPages = new WeakSet<object>();
+    private listeners = new Set<DialogListener>();
+    private maxEntries: number;
+
+    constructor(options: DialogServiceOptions = {}) {
+        this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    }
+
+    /**
+     * Set how dialogs of a session's attached pages are answered. Pass null to go
+     * back to the default, dismissing them.
+     */
+    setPolicy(sessionId: string, policy: DialogPolicy | null): void {
+        if (!policy) {
+            this.policies.delete(sessionId);
+            return;
+        }
+        if (!['accept', 'dismiss', 'queue'].includes(policy.action)) {
+            throw new Error(`Invalid dialog action "${policy.action}". Use accept, dismiss or queue.`);
+        }
+        this.policies.set(sessionId, { ...policy });
+    }
+
+    getPolicy(sessionId: string): DialogPolicy {
+        return { ...(this.policies.get(sessionId) ?? DEFAULT_POLICY) };
+    }
+
+    /**
+     * Answer the dialogs of a page according to the session policy.
+     */
+    async attach(page: any, sessionId: string): Promise<void> {
+        if (this.attachedPages.has(page)) return;
+        this.attachedPages.add(page);
+        page.on('dialog', (dialog: any) => {
+            this.handle(dialog, page, sessionId).catch(err => {
+                console.error(`[DialogService] Failed to handle dialog for session ${sessionId}:`, err);
+            });
+        });
+    }
+
+    /**
+     * Answer the dialogs of every current and future page of a Puppeteer browser.
+     */
+    async attachBrowser(browser: any, sessionId: string): Promise<void> {
+        const onTargetCreated = async (target: any) => {
+            if (target.type() !== 'page') return;
+            try {
+                const page = await target.page();
+                if (page) await this.attach(page, sessionId);
+            } catch (err) {
+                console.error(`[DialogService] Failed to attach to new page for session ${sessionId}:`, err);
+            }
+        };
+        browser.on('targetcreated', onTargetCreated);
+        browser.once('disconnected', () => browser.off('targetcreated', onTargetCreated));
+
+        for (const page of await browser.pages()) {
+            await this.attach(page, sessionId);
+        }
+    }
+
+    /**
+     * Answer the dialogs of every current and future page of a Playwright context.
+     */
+    async attachContext(context: any, sessionId: string): Promise<void> {
+        context.on('page', (page: any) => {
+            this.attach(page, sessionId).catch(err => {
+                console.error(`[DialogService] Failed to attach to new page for session ${sessionId}:`, err);
+            });
+        });
+        for (const page of context.pages()) {
+            await this.attach(page, sessionId);
+        }
+    }
+
+    /**
+     * Answer a queued dialog. Throws if no dialog is waiting.
+     */
+    async respond(sessionId: string, response: DialogResponse): Promise<DialogEntry> {
+        const queue = this.pending.get(sessionId) || [];
+        const item = response.id ? queue.find(p => p.entry.id === response.id) : queue[0];
+        if (!item) {
+            throw new Error(response.id
+                ? `Dialog "${response.id}" is not waiting for a response.`
+                : `No dialog is waiting for a response in session "${sessionId}".`);
+        }
+        await this.answer(sessionId, item, response.accept, response.promptText, 'agent');
+        return { ...item.entry };
+    }
+
+    /** Queued dialogs waiting for `respond()`, oldest first */
+    getPending(sessionId: string): DialogEntry[] {
+        return (this.pending.get(sessionId) || []).map(p => ({ ...p.entry }));
+    }
+
+    /** Dialogs seen in a session, oldest first */
+    getLog(sessionId: string): DialogEntry[] {
+        return (this.entries.get(sessionId) || []).map(entry => ({ ...entry }));
+    }
+
+    /**
+     * Subscribe to dialogs opening and being answered. Returns an unsubscribe function.
+     */
+    onDialog(listener: DialogListener): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    /**
+     * Dismiss queued dialogs and drop the policy and log of a session. Call this when a session is released.
+     */
+    clearSession(sessionId: string): void {
+        for (const item of this.pending.get(sessionId) || []) {
+            clearTimeout(item.timer);
+            Promise.resolve(item.dialog.dismiss()).catch(() => { /* page already gone */ });
+        }
+        this.pending.delete(sessionId);
+        this.entries.delete(sessionId);
+        this.policies.delete(sessionId);
+    }
+
+    // =================== Private ===================
+
+    private async handle(dialog: any, page: any, sessionId: string): Promise<void> {
+        const policy = this.getPolicy(sessionId);
+        const defaultValue = dialog.defaultValue();
+        const entry: DialogEntry = {
+            id: `dialog_${crypto.randomUUID().slice(0, 8)}`,
+            type: dialog.type(),
+            message: dialog.message(),
+            ...(defaultValue ? { defaultValue } : {}),
+            url: page.url(),
+            status: 'pending',
+            openedAt: Date.now(),
+        };
+        this.add(sessionId, entry);
+
+        if (policy.action === 'queue') {
+            const item: PendingDialog = { entry, dialog };
+            item.timer = setTimeout(() => {
+                this.answer(sessionId, item, false, undefined, 'timeout').catch(() => { /* page already gone */ });
+            }, policy.timeout ?? DEFAULT_QUEUE_TIMEOUT);
+            if (!this.pending.has(sessionId)) {
+                this.pending.set(sessionId, []);
+            }
+            this.pending.get(sessionId)!.push(item);
+            this.notify(sessionId, entry);
+            return;
+        }
+        await this.answer(sessionId, { entry, dialog }, policy.action === 'accept', policy.promptText, 'policy');
+    }
+
+    private async answer(
+        sessionId: string,
+        item: PendingDialog,
+        accept: boolean,
+        promptText: string | undefined,
+        handledBy: DialogEntry['handledBy'],
+    ): Promise<void> {
+        clearTimeout(item.timer);
+        const queue = this.pending.get(sessionId);
+        if (queue) {
+            const index = queue.indexOf(item);
+            if (index !== -1) queue.splice(index, 1);
+            if (queue.length === 0) this.pending.delete(sessionId);
+        }
+
+        const { entry, dialog } = item;
+        const text = entry.type === 'prompt' ? (promptText ?? entry.defaultValue ?? '') : undefined;
+        try {
+            if (accept) {
+                await dialog.accept(text);
+            } else {
+                await dialog.dismiss();
+            }
+        } catch {
+            // Answered by another handler, or the page closed — the dialog is gone either way
+        }
+        entry.status = accept ? 'accepted' : 'dismissed';
+        entry.handledBy = handledBy;
+        if (accept && text !== undefined) entry.promptText = text;
+        entry.handledAt = Date.now();
+        this.notify(sessionId, entry);
+    }
+
+    private add(sessionId: string, entry: DialogEntry): void {
+        if (!this.entries.has(sessionId)) {
+            this.entries.set(sessionId, []);
+        }
+        const entries = this.entries.get(sessionId)!;
+        entries.push(entry);
+        if (entries.length > this.maxEntries) {
+            entries.splice(0, entries.length - this.maxEntries);
+        }
+    }
+
+    private notify(sessionId: string, entry: DialogEntry): void {
+        for (const listener of this.listeners) {
+            try {
+                listener(sessionId, { ...entry });
+            } catch (err) {
+                console.error('[DialogService] Dialog listener failed:', err);
+            }
+        }
+    }
+}
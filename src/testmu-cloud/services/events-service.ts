@@ -1,22 +1,133 @@
-
+import fs from 'fs';
+import path from 'path';
 import { SessionEvent } from '../types.js';
+import { detectFramework } from '../utils/framework-detect.js';
+import { buildReplayHtml, ReplayHtmlOptions } from '../utils/replay-html.js';
+
+/** Page-side function the recorder calls with batches of serialized events */
+const RECORDER_BINDING = '__testmuRecordEvents';
+
+/** Flush interval for buffered events in the page (ms) */
+const FLUSH_INTERVAL_MS = 500;
+
+/** Events buffered in the page while no client is connected before the buffer is reset with a full snapshot */
+const MAX_BUFFERED_EVENTS = 5000;
+
+export interface EventsServiceOptions {
+    /**
+     * Persist recordings under `<dir>/<sessionId>/events.jsonl` instead of memory,
+     * so recordings made by one process can be read by another (e.g. the CLI).
+     */
+    dir?: string;
+}
+
+/** Sanitize ID to prevent path traversal — allow only alphanumeric, hyphens, underscores, dots */
+function sanitizeId(id: string): string {
+    return id.replace(/[^a-zA-Z0-9_.-]/g, '_');
+}
+
+/** Events of a session on their way to its events file */
+interface PendingWrites {
+    /** Waiting for the next append */
+    queued: SessionEvent[];
+    /** The append in progress: the text written and the events it holds */
+    writing: { chunk: string, events: SessionEvent[] } | null;
+    /** clearEvents() ran during the append, so the file is removed again once it lands */
+    cleared: boolean;
+    /** Settles once everything queued so far is written */
+    done: Promise<void>;
+}
+
+let recorderSource: string | null = null;
 
 /**
- * EventsService - Session Recording (RRWeb-style)
- * 
- * Provides session event recording for playback and debugging.
- * 
- * Note: Full RRWeb recording requires browser-side injection of the rrweb library.
- * This service provides the API structure and storage, but actual event capture
- * would need to be implemented via browser extension or CDP injection.
+ * Load the rrweb record UMD bundle. The package only exports its CJS entry,
+ * so the browser bundle is located next to it on disk.
+ */
+function loadRecorderSource(): string {
+    if (!recorderSource) {
+        const entry = require.resolve('@rrweb/record');
+        const umdPath = path.join(path.dirname(entry), '..', 'umd', 'record.min.js');
+        recorderSource = fs.readFileSync(umdPath, 'utf-8');
+    }
+    return recorderSource;
+}
+
+/**
+ * Build the script injected into every document. It starts rrweb once per
+ * document (top frame only — rrweb records same-origin iframes itself) and
+ * buffers events until the binding exposed by the connected client drains them.
+ *
+ * The binding is looked up on every flush: between CLI commands no client is
+ * connected, events stay buffered in the page and are delivered on reconnect.
+ */
+function buildRecorderScript(): string {
+    return `(function () {
+    if (window.top !== window || window.__testmuRecorder) return;
+    var rrweb = {};
+    (function (define, module, exports) {
+        ${loadRecorderSource()}
+    }).call(rrweb, undefined, undefined, undefined);
+    var record = rrweb.rrwebRecord && rrweb.rrwebRecord.record;
+    if (typeof record !== 'function') return;
+
+    var buffer = [];
+    var sending = null;
+    function flush() {
+        if (sending) return sending;
+        var send = window['${RECORDER_BINDING}'];
+        if (typeof send !== 'function' || buffer.length === 0) return Promise.resolve();
+        var batch = buffer;
+        buffer = [];
+        sending = Promise.resolve()
+            .then(function () { return send(JSON.stringify(batch)); })
+            .catch(function () { buffer = batch.concat(buffer); })
+            .then(function () { sending = null; });
+        return sending;
+    }
+
+    window.__testmuRecorder = { flush: flush };
+    record({
+        emit: function (event) {
+            buffer.push(event);
+            if (buffer.length > ${MAX_BUFFERED_EVENTS}) {
+                // Nobody is draining — drop the backlog and restart from a full snapshot
+                buffer = [];
+                record.takeFullSnapshot(true);
+            }
+        },
+    });
+    setInterval(flush, ${FLUSH_INTERVAL_MS});
+    window.addEventListener('pagehide', function () { flush(); });
+})();`;
+}
+
+/**
+ * EventsService - Session Recording (rrweb)
+ *
+ * Injects the rrweb recorder into every page of a session and streams the
+ * recorded events back through an exposed binding. Recordings are kept in
+ * memory, or on disk when a `dir` is configured. Disk writes are appended
+ * asynchronously, batching whatever arrives while one is in progress.
  */
 export class EventsService {
     private sessionEvents: Map<string, SessionEvent[]> = new Map();
+    private recordedPages = new WeakSet<object>();
+    private recordedContexts = new WeakSet<object>();
+    private pendingWrites = new Map<string, PendingWrites>();
+    private dir: string | null;
+
+    constructor(options: EventsServiceOptions = {}) {
+        this.dir = options.dir || null;
+    }
 
     /**
      * Get all recorded events for a session
      */
     getEvents(sessionId: string): SessionEvent[] {
+        if (this.dir) {
+            return this.readEventsFile(sessionId);
+        }
         return this.sessionEvents.get(sessionId) || [];
     }
 
@@ -24,16 +135,28 @@ export class EventsService {
      * Add an event to a session's recording
      */
     addEvent(sessionId: string, event: SessionEvent): void {
-        if (!this.sessionEvents.has(sessionId)) {
-            this.sessionEvents.set(sessionId, []);
-        }
-        this.sessionEvents.get(sessionId)!.push(event);
+        this.addEvents(sessionId, [event]);
     }
 
     /**
      * Add multiple events to a session's recording
      */
     addEvents(sessionId: string, events: SessionEvent[]): void {
+        if (this.dir) {
+            if (events.length === 0) return;
+            let pending = this.pendingWrites.get(sessionId);
+            if (!pending) {
+                pending = { queued: [], writing: null, cleared: false, done: Promise.resolve() };
+                this.pendingWrites.set(sessionId, pending);
+            }
+            pending.queued.push(...events);
+            // The first events since the last append started schedule the next one
+            if (pending.queued.length === events.length) {
+                const current = pending;
+                pending.done = pending.done.then(() => this.writeQueued(sessionId, current));
+            }
+            return;
+        }
         if (!this.sessionEvents.has(sessionId)) {
             this.sessionEvents.set(sessionId, []);
         }
@@ -45,21 +168,33 @@ export class EventsService {
      */
     clearEvents(sessionId: string): void {
         this.sessionEvents.delete(sessionId);
+        const pending = this.pendingWrites.get(sessionId);
+        if (pending) {
+            pending.queued = [];
+            if (pending.writing) {
+                pending.cleared = true;
+                pending.writing = null;
+            }
+        }
+        if (this.dir) {
+            fs.rmSync(this.eventsFile(sessionId), { force: true });
+        }
     }
 
     /**
      * Get event count for a session
      */
     getEventCount(sessionId: string): number {
-        return this.sessionEvents.get(sessionId)?.length || 0;
+        return this.getEvents(sessionId).length;
     }
 
     /**
-     * Start recording for a session
-     * Note: This is a placeholder - actual recording requires rrweb injection
+     * Start recording for a session.
+     * Adds a meta event marking the recording start; page events arrive once
+     * the recorder is injected via recordBrowser()/recordContext()/recordPage().
      */
     startRecording(sessionId: string): void {
-        if (!this.sessionEvents.has(sessionId)) {
+        if (!this.dir && !this.sessionEvents.has(sessionId)) {
             this.sessionEvents.set(sessionId, []);
         }
 
@@ -79,7 +214,9 @@ export class EventsService {
     }
 
     /**
-     * Stop recording for a session
+     * Stop recording for a session. In memory the events are dropped; on disk
+     * the recording is kept for replays after the session is gone, until
+     * clearEvents() deletes it.
      */
     stopRecording(sessionId: string): SessionEvent[] {
         const events = this.getEvents(sessionId);
@@ -88,6 +225,86 @@ export class EventsService {
         return events;
     }
 
+    /**
+     * Inject the recorder into every current and future page of a Puppeteer browser.
+     */
+    async recordBrowser(browser: any, sessionId: string): Promise<void> {
+        const onTargetCreated = async (target: any) => {
+            if (target.type() !== 'page') return;
+            try {
+                const page = await target.page();
+                if (page) await this.recordPage(page, sessionId);
+            } catch (err) {
+                console.error(`[EventsService] Failed to record new page for session ${sessionId}:`, err);
+            }
+        };
+        browser.on('targetcreated', onTargetCreated);
+        browser.once('disconnected', () => browser.off('targetcreated', onTargetCreated));
+
+        for (const page of await browser.pages()) {
+            await this.recordPage(page, sessionId);
+        }
+    }
+
+    /**
+     * Inject the recorder into every current and future page of a Playwright context.
+     * The binding and init script are registered once on the context, so new pages
+     * and popups are covered automatically.
+     */
+    async recordContext(context: any, sessionId: string): Promise<void> {
+        if (this.recordedContexts.has(context)) return;
+        this.recordedContexts.add(context);
+        try {
+            await context.exposeBinding(RECORDER_BINDING, (_source: unknown, payload: string) => {
+                this.receiveBatch(sessionId, payload);
+            });
+            await context.addInitScript({ content: buildRecorderScript() });
+        } catch (err) {
+            console.error(`[EventsService] Failed to install recorder for session ${sessionId}:`, err);
+            return;
+        }
+        for (const page of context.pages()) {
+            this.recordedPages.add(page);
+            await this.injectIntoCurrentDocument(page, sessionId);
+        }
+    }
+
+    /**
+     * Inject the recorder into a single page (current document and future navigations).
+     * Playwright pages are recorded through their context.
+     */
+    async recordPage(page: any, sessionId: string): Promise<void> {
+        if (detectFramework(page) === 'playwright') {
+            await this.recordContext(page.context(), sessionId);
+            return;
+        }
+        if (this.recordedPages.has(page)) return;
+        this.recordedPages.add(page);
+        try {
+            await page.exposeFunction(RECORDER_BINDING, (payload: string) => {
+                this.receiveBatch(sessionId, payload);
+            });
+            await page.evaluateOnNewDocument(buildRecorderScript());
+        } catch (err) {
+            console.error(`[EventsService] Failed to install recorder for session ${sessionId}:`, err);
+            return;
+        }
+        await this.injectIntoCurrentDocument(page, sessionId);
+    }
+
+    /**
+     * Deliver events still buffered in the page and wait until they are written
+     * to disk. Call before disconnecting so the recording is complete up to this point.
+     */
+    async flushRecording(page: any): Promise<void> {
+        try {
+            await page.evaluate('window.__testmuRecorder ? window.__testmuRecorder.flush() : undefined');
+        } catch {
+            // Page closed or navigating — remaining events are delivered on the next flush
+        }
+        await Promise.all(Array.from(this.pendingWrites.values(), pending => pending.done));
+    }
+
     /**
      * Export events in RRWeb-compatible format
      */
@@ -96,16 +313,96 @@ export class EventsService {
         return JSON.stringify(events, null, 2);
     }
 
+    /**
+     * Export the recording as a self-contained HTML page with an embedded rrweb
+     * player and timeline. The file works offline and can be attached to bug reports.
+     */
+    exportReplay(sessionId: string, options: ReplayHtmlOptions = {}): string {
+        return buildReplayHtml(sessionId, this.getEvents(sessionId), options);
+    }
+
     /**
      * Import events from RRWeb format
      */
     importEvents(sessionId: string, eventsJson: string): void {
+        let events: SessionEvent[];
         try {
-            const events = JSON.parse(eventsJson) as SessionEvent[];
-            this.sessionEvents.set(sessionId, events);
+            events = JSON.parse(eventsJson) as SessionEvent[];
         } catch (error) {
             console.error('Error importing events:', error);
             throw new Error(`Invalid events JSON format: ${error instanceof Error ? error.message : String(error)}`);
         }
+        this.clearEvents(sessionId);
+        this.addEvents(sessionId, events);
+    }
+
+    // =================== Private ===================
+
+    private async injectIntoCurrentDocument(page: any, sessionId: string): Promise<void> {
+        try {
+            await page.evaluate(buildRecorderScript());
+        } catch (err) {
+            // about:blank or a navigation in flight — the init script covers the next document
+            console.error(`[EventsService] Recorder not injected into current document of session ${sessionId}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+
+    private receiveBatch(sessionId: string, payload: string): void {
+        try {
+            const events = JSON.parse(payload) as SessionEvent[];
+            if (Array.isArray(events)) this.addEvents(sessionId, events);
+        } catch (err) {
+            console.error(`[EventsService] Dropped malformed event batch for session ${sessionId}:`, err);
+        }
+    }
+
+    /** Append the queued events of a session in one write */
+    private async writeQueued(sessionId: string, pending: PendingWrites): Promise<void> {
+        const events = pending.queued;
+        pending.queued = [];
+        if (events.length === 0) return;
+        const chunk = events.map(e => JSON.stringify(e)).join('\n') + '\n';
+        pending.writing = { chunk, events };
+        const file = this.eventsFile(sessionId);
+        try {
+            await fs.promises.mkdir(path.dirname(file), { recursive: true });
+            await fs.promises.appendFile(file, chunk, { mode: 0o600 });
+            if (pending.cleared) await fs.promises.rm(file, { force: true });
+        } catch (err) {
+            console.error(`[EventsService] Failed to write ${events.length} events for session ${sessionId}:`, err);
+        } finally {
+            pending.writing = null;
+            pending.cleared = false;
+            if (pending.queued.length === 0 && this.pendingWrites.get(sessionId) === pending) {
+                this.pendingWrites.delete(sessionId);
+            }
+        }
+    }
+
+    private eventsFile(sessionId: string): string {
+        return path.join(this.dir!, sanitizeId(sessionId), 'events.jsonl');
+    }
+
+    /** Events in the file, followed by those this instance has not written yet */
+    private readEventsFile(sessionId: string): SessionEvent[] {
+        let content = '';
+        try {
+            content = fs.readFileSync(this.eventsFile(sessionId), 'utf-8');
+        } catch {
+            // Nothing written yet
+        }
+        const events: SessionEvent[] = [];
+        for (const line of content.split('\n')) {
+            if (!line) continue;
+            try {
+                events.push(JSON.parse(line));
+            } catch {
+                // Partially written last line from a concurrent writer — skip it
+            }
+        }
+        const pending = this.pendingWrites.get(sessionId);
+        if (pending?.writing && !content.includes(pending.writing.chunk)) events.push(...pending.writing.events);
+        if (pending) events.push(...pending.queued);
+        return events;
     }
 }
@@ -1,4 +1,13 @@
 
+/** Called with each failed ping; see HeartbeatService.onFailure() */
+export type HeartbeatFailureListener = (
+    sessionId: string,
+    failures: number,
+    maxFailures: number,
+    stopped: boolean,
+    error: unknown,
+) => void | Promise<void>;
+
 /**
  * HeartbeatService — keeps cloud browser sessions alive by sending periodic
  * lightweight pings. Prevents LambdaTest idle-timeout termination while the
@@ -10,9 +19,19 @@
 export class HeartbeatService {
     private timers = new Map<string, ReturnType<typeof setInterval>>();
     private failureCounts = new Map<string, number>();
+    private failureListeners: HeartbeatFailureListener[] = [];
 
     /** Max consecutive ping failures before stopping the heartbeat. */
-    private static readonly MAX_FAILURES = 3;
+    static readonly MAX_FAILURES = 3;
+
+    /**
+     * Register a callback invoked on every failed ping. `stopped` is true when the
+     * failure hit MAX_FAILURES and the heartbeat gave up on the session. Errors
+     * thrown or rejected by the callback are logged and otherwise ignored.
+     */
+    onFailure(listener: HeartbeatFailureListener): void {
+        this.failureListeners.push(listener);
+    }
 
     /**
      * Start sending heartbeats for a session.
@@ -34,16 +53,27 @@ export class HeartbeatService {
                 await pingFn();
                 // Reset failure count on success
                 this.failureCounts.set(sessionId, 0);
-            } catch {
+            } catch (err) {
                 const failures = (this.failureCounts.get(sessionId) || 0) + 1;
                 this.failureCounts.set(sessionId, failures);
 
-                if (failures >= HeartbeatService.MAX_FAILURES) {
+                const stopped = failures >= HeartbeatService.MAX_FAILURES;
+                if (stopped) {
                     console.error(`Heartbeat: ${failures} consecutive failures for session ${sessionId}, stopping`);
                     this.stop(sessionId);
                 } else {
                     console.error(`Heartbeat: ping failed for session ${sessionId} (${failures}/${HeartbeatService.MAX_FAILURES}), will retry`);
                 }
+
+                for (const listener of this.failureListeners) {
+                    const logListenerError = (listenerErr: unknown) =>
+                        console.error(`Heartbeat: failure listener threw for session ${sessionId}:`, listenerErr);
+                    try {
+                        Promise.resolve(listener(sessionId, failures, HeartbeatService.MAX_FAILURES, stopped, err)).catch(logListenerError);
+                    } catch (listenerErr) {
+                        logListenerError(listenerErr);
+                    }
+                }
             }
         }, intervalMs);
 
@@ -1,4 +1,23 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
 import { detectFramework } from '../utils/framework-detect';
+import { RouteMatcher, describeUrlPattern, matchesRoute, matchesUrl } from '../utils/route-match';
+import {
+    Har,
+    HarEntry,
+    createHar,
+    findHarEntry,
+    findHarHeader,
+    harContentBody,
+    harTimingsFromCdp,
+    harTimingsFromPlaywright,
+    harTotalTime,
+    toHarContent,
+    toHarHeaders,
+    toHarHttpVersion,
+    toHarQueryString,
+} from '../utils/har';
 
 export interface NetworkRequest {
     url: string;
@@ -8,70 +27,379 @@ export interface NetworkRequest {
     timestamp: number;
 }
 
+export type WebSocketLogType = 'connecting' | 'open' | 'sent' | 'received' | 'error' | 'close';
+
+/** One WebSocket or EventSource (SSE) event seen on the page's network */
+export interface WebSocketLogEntry {
+    transport: 'websocket' | 'eventsource';
+    type: WebSocketLogType;
+    /** Unique per connection, shared by all its entries (the CDP request ID on Chromium) */
+    connectionId: string;
+    url: string;
+    timestamp: number;
+    /** Frame or message payload; base64 when `binary` */
+    data?: string;
+    binary?: boolean;
+    /** Payload size before truncation (characters for text, bytes for binary) */
+    size?: number;
+    truncated?: boolean;
+    /** SSE event name ("message" unless the server sent `event:`) */
+    event?: string;
+    lastEventId?: string;
+    /** Negotiated WebSocket subprotocol */
+    protocol?: string;
+    /** WebSocket close code and reason */
+    code?: number;
+    reason?: string;
+}
+
+export interface WebSocketLogFilter {
+    /** Connection URL: substring, glob or RegExp (see route matching) */
+    url?: string | RegExp;
+    transport?: WebSocketLogEntry['transport'];
+    type?: WebSocketLogType | WebSocketLogType[];
+    connectionId?: string;
+    /** Only entries whose payload contains this text */
+    contains?: string;
+    /** Only entries at or after this timestamp (ms since epoch) */
+    since?: number;
+}
+
+export interface NetworkServiceOptions {
+    /**
+     * Persist WebSocket/SSE logs under `<dir>/<sessionId>/websocket.jsonl` instead of
+     * memory, so traffic captured by one process can be read by another (e.g. the CLI).
+     */
+    dir?: string;
+    /** Frame payloads longer than this are truncated (default: 65536) */
+    maxSocketPayloadBytes?: number;
+}
+
+/** WebSocket frame opcodes that carry a payload (continuation frames arrive reassembled) */
+const WEBSOCKET_TEXT_OPCODE = 1;
+const WEBSOCKET_BINARY_OPCODE = 2;
+
+/** Sanitize ID to prevent path traversal — allow only alphanumeric, hyphens, underscores, dots */
+function sanitizeId(id: string): string {
+    return id.replace(/[^a-zA-Z0-9_.-]/g, '_');
+}
+
+/** Payload fields of a socket entry: text as is, binary as base64, both cut to `max` characters or bytes */
+function socketPayload(payload: string | Buffer, max: number): Partial<WebSocketLogEntry> {
+    const truncated = payload.length > max;
+    if (typeof payload === 'string') {
+        return { data: truncated ? payload.slice(0, max) : payload, binary: false, size: payload.length, truncated };
+    }
+    return { data: (truncated ? payload.subarray(0, max) : payload).toString('base64'), binary: true, size: payload.length, truncated };
+}
+
+export interface RouteSpec extends RouteMatcher {
+    /** Higher priority routes are tried first; among equal priorities the most recently added wins (default: 0) */
+    priority?: number;
+}
+
+/** The intercepted request as seen by route handlers */
+export interface RouteRequest {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    postData?: string;
+    resourceType: string;
+}
+
+export interface RequestOverrides {
+    /** Headers to set; null removes the header */
+    headers?: Record<string, string | null>;
+    postData?: string;
+    method?: string;
+    /** Send the request to a different URL (not visible to the page) */
+    url?: string;
+}
+
+export interface ResponseOverrides {
+    status?: number;
+    /** Headers to set; null removes the header */
+    headers?: Record<string, string | null>;
+    /** Replacement body, or a transform of the original body */
+    body?: string | ((body: string) => string);
+}
+
+export type RouteAbortCode =
+    | 'failed' | 'aborted' | 'timedout' | 'accessdenied' | 'connectionclosed' | 'connectionreset'
+    | 'connectionrefused' | 'connectionaborted' | 'connectionfailed' | 'namenotresolved'
+    | 'internetdisconnected' | 'addressunreachable' | 'blockedbyclient' | 'blockedbyresponse';
+
+export type RouteAction =
+    | { action: 'fulfill', status?: number, headers?: Record<string, string>, contentType?: string, body?: string }
+    | { action: 'abort', errorCode?: RouteAbortCode }
+    | ({ action: 'continue' } & RequestOverrides)
+    | { action: 'modify', request?: RequestOverrides, response?: ResponseOverrides };
+
+/**
+ * What to do with a matched request: a fixed action, or a function deciding per request.
+ * A function returning nothing passes the request on to the next matching route.
+ */
+export type RouteHandler = RouteAction | ((request: RouteRequest) => RouteAction | void | Promise<RouteAction | void>);
+
+export interface RouteInfo {
+    id: string;
+    kind: 'route' | 'mock' | 'block';
+    url: string;
+    method?: string | string[];
+    resourceType?: string | string[];
+    priority: number;
+    action: RouteAction['action'] | 'handler';
+}
+
+interface ActiveRoute {
+    id: string;
+    kind: RouteInfo['kind'];
+    spec: RouteSpec;
+    handler: RouteHandler;
+    /** Registration order — later routes win ties */
+    order: number;
+}
+
+/** CDP Fetch.failRequest reasons for route abort codes */
+const CDP_ERROR_REASONS: Record<RouteAbortCode, string> = {
+    failed: 'Failed',
+    aborted: 'Aborted',
+    timedout: 'TimedOut',
+    accessdenied: 'AccessDenied',
+    connectionclosed: 'ConnectionClosed',
+    connectionreset: 'ConnectionReset',
+    connectionrefused: 'ConnectionRefused',
+    connectionaborted: 'ConnectionAborted',
+    connectionfailed: 'ConnectionFailed',
+    namenotresolved: 'NameNotResolved',
+    internetdisconnected: 'InternetDisconnected',
+    addressunreachable: 'AddressUnreachable',
+    blockedbyclient: 'BlockedByClient',
+    blockedbyresponse: 'BlockedByResponse',
+};
+
+/**
+ * Errors from a request whose page, connection or interception is already gone:
+ * nothing is left paused, so there is nothing to release.
+ */
+function isGoneError(err: unknown): boolean {
+    const message = err instanceof Error ? err.message : String(err);
+    return /Target closed|Session closed|has been closed|Connection closed|Invalid InterceptionId/i.test(message);
+}
+
+function toRouteSpec(spec: RouteSpec | string | RegExp): RouteSpec {
+    return typeof spec === 'string' || spec instanceof RegExp ? { url: spec } : spec;
+}
+
+/** Apply header overrides (null removes) to a header map, case-insensitively. */
+function applyHeaderOverrides(headers: Record<string, string>, overrides?: Record<string, string | null>): Record<string, string> {
+    if (!overrides) return headers;
+    const result: Record<string, string> = {};
+    const overridden = new Set(Object.keys(overrides).map(k => k.toLowerCase()));
+    for (const [name, value] of Object.entries(headers)) {
+        if (!overridden.has(name.toLowerCase())) result[name] = value;
+    }
+    for (const [name, value] of Object.entries(overrides)) {
+        if (value !== null) result[name] = value;
+    }
+    return result;
+}
+
+function toCdpHeaders(headers: Record<string, string>): { name: string, value: string }[] {
+    return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function fromCdpHeaders(headers: { name: string, value: string }[] | undefined): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const { name, value } of headers || []) {
+        result[name] = result[name] !== undefined ? `${result[name]}\n${value}` : value;
+    }
+    return result;
+}
+
+export interface HarCaptureOptions {
+    /** Embed response bodies in the HAR (default) or omit them */
+    content?: 'embed' | 'omit';
+}
+
+export interface HarReplayOptions {
+    /** Requests missing from the HAR: fail them (default) or let them hit the network */
+    notFound?: 'abort' | 'fallback';
+}
+
+export type NetworkConditionsPreset = 'slow-3g' | 'fast-3g' | 'offline' | 'no-throttling';
+
+export interface NetworkConditions {
+    /** Download throughput in kilobits per second (omit for unlimited) */
+    downloadKbps?: number;
+    /** Upload throughput in kilobits per second (omit for unlimited) */
+    uploadKbps?: number;
+    /** Added round-trip latency in milliseconds */
+    latencyMs?: number;
+    offline?: boolean;
+}
+
+/** Presets match Chrome DevTools' network throttling profiles */
+export const NETWORK_CONDITION_PRESETS: Record<NetworkConditionsPreset, NetworkConditions> = {
+    'slow-3g': { downloadKbps: 400, uploadKbps: 400, latencyMs: 2000, offline: false },
+    'fast-3g': { downloadKbps: 1440, uploadKbps: 675, latencyMs: 562.5, offline: false },
+    'offline': { offline: true },
+    'no-throttling': { offline: false },
+};
+
+/**
+ * Resolve a preset name or custom conditions, validating the values.
+ */
+export function resolveNetworkConditions(conditions: NetworkConditionsPreset | NetworkConditions): NetworkConditions {
+    if (typeof conditions === 'string') {
+        const preset = NETWORK_CONDITION_PRESETS[conditions];
+        if (!preset) {
+            throw new Error(`Unknown network preset "${conditions}". Available: ${Object.keys(NETWORK_CONDITION_PRESETS).join(', ')}`);
+        }
+        return { ...preset };
+    }
+    for (const key of ['downloadKbps', 'uploadKbps', 'latencyMs'] as const) {
+        const value = conditions[key];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+            throw new Error(`Invalid ${key}: ${value}. Must be a non-negative number.`);
+        }
+    }
+    return {
+        ...(conditions.downloadKbps !== undefined ? { downloadKbps: conditions.downloadKbps } : {}),
+        ...(conditions.uploadKbps !== undefined ? { uploadKbps: conditions.uploadKbps } : {}),
+        ...(conditions.latencyMs !== undefined ? { latencyMs: conditions.latencyMs } : {}),
+        offline: conditions.offline === true,
+    };
+}
+
+/** True when the conditions don't throttle anything (e.g. the 'no-throttling' preset). */
+export function isUnthrottled(conditions: NetworkConditions): boolean {
+    return !conditions.offline && conditions.downloadKbps === undefined
+        && conditions.uploadKbps === undefined && !conditions.latencyMs;
+}
+
+interface HarCapture {
+    entries: HarEntry[];
+    /** Entries still waiting for their response body */
+    pending: Set<Promise<void>>;
+    detach: () => Promise<void>;
+}
+
+/** Socket entries of a session on their way to its websocket.jsonl */
+interface PendingSocketWrites {
+    /** Waiting for the next append */
+    queued: WebSocketLogEntry[];
+    /** The append in progress: the text written and the entries it holds */
+    writing: { chunk: string, entries: WebSocketLogEntry[] } | null;
+    /** clearWebSocketLogs() ran during the append, so the file is removed again once it lands */
+    cleared: boolean;
+    /** Settles once everything queued so far is written */
+    done: Promise<void>;
+}
+
+/** Hop-by-hop and encoding headers that don't apply to a replayed, already-decoded body */
+const REPLAY_SKIPPED_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'connection', 'keep-alive']);
+
 export class NetworkService {
     private requestLogs = new Map<string, NetworkRequest[]>();
-    private activeRoutes = new Map<string, Set<string>>();
-    private mockResponses = new Map<string, Map<string, { status?: number, body?: string, contentType?: string }>>();
-    private interceptedPages = new WeakSet<object>();
-    private cdpSessions = new Map<string, any[]>();
+    private socketLogs = new Map<string, WebSocketLogEntry[]>();
+    /** Pages capturing WebSocket/SSE traffic, with how to remove their Playwright listener */
+    private socketCaptures = new WeakMap<object, () => void>();
+    private pendingSocketWrites = new Map<string, PendingSocketWrites>();
+    private dir: string | null;
+    private maxSocketPayloadBytes: number;
+    private activeRoutes = new Map<string, Map<string, ActiveRoute>>();
+    private routeOrder = 0;
+    /** Pages with the route dispatcher installed: the session it serves and how to remove it */
+    private routedPages = new WeakMap<object, { sessionId: string, uninstall: () => Promise<void> }>();
+    private cdpSessions = new Map<string, Set<any>>();
+    /** CDP clients wired into each page, released by detachPage() */
+    private pageClients = new WeakMap<object, { sessionId: string, client: any }[]>();
+    private harCaptures = new Map<string, HarCapture>();
+    private harReplays = new WeakMap<object, () => Promise<void>>();
+    private networkConditions = new Map<string, NetworkConditions>();
+    /** Emulation is scoped to the CDP session that set it, so one client is kept per page */
+    private conditionClients = new WeakMap<object, any>();
+
+    constructor(options: NetworkServiceOptions = {}) {
+        this.dir = options.dir || null;
+        this.maxSocketPayloadBytes = options.maxSocketPayloadBytes ?? 65536;
+    }
 
     /**
-     * Block requests matching a URL pattern
+     * Block requests matching a URL pattern. Returns the route ID.
+     * `pattern` follows the route matching rules (see route()), e.g. `**.ads.com/**`.
      */
-    async block(page: any, sessionId: string, pattern: string): Promise<void> {
-        const framework = detectFramework(page);
-        if (framework === 'playwright') {
-            await page.route(pattern, (route: any) => route.abort());
-        } else {
-            const client = await page.createCDPSession();
-            if (!this.cdpSessions.has(sessionId)) {
-                this.cdpSessions.set(sessionId, []);
-            }
-            this.cdpSessions.get(sessionId)!.push(client);
-            const patterns = this.getActiveRoutes(sessionId);
-            patterns.add(pattern);
-            // Note: Network.setBlockedURLs is deprecated in newer Chrome versions,
-            // but kept for backwards compatibility with older Puppeteer/Chrome combos.
-            // The Playwright path uses page.route() which is the modern equivalent.
-            await client.send('Network.setBlockedURLs', { urls: Array.from(patterns) });
+    async block(page: any, sessionId: string, pattern: string, options: { id?: string } = {}): Promise<string> {
+        return this.addRoute(page, sessionId, { url: pattern }, { action: 'abort', errorCode: 'blockedbyclient' }, 'block', options.id);
+    }
+
+    /**
+     * Mock matching requests with a custom response. Returns the route ID.
+     * `spec` follows the route matching rules (see route()).
+     */
+    async mock(
+        page: any,
+        sessionId: string,
+        spec: RouteSpec | string | RegExp,
+        response: { status?: number, body?: string, contentType?: string },
+        options: { id?: string } = {},
+    ): Promise<string> {
+        return this.addRoute(page, sessionId, toRouteSpec(spec), {
+            action: 'fulfill',
+            status: response.status || 200,
+            contentType: response.contentType || 'application/json',
+            body: response.body || '',
+        }, 'mock', options.id);
+    }
+
+    /**
+     * Intercept requests matching a route spec and fulfill, abort, continue with
+     * modified request fields, or modify the response.
+     *
+     * Matching is identical on Puppeteer and Playwright: a RegExp is tested against
+     * the full URL, a string with `*`/`{` is a glob (`*` excludes "/", `**` does not),
+     * any other string matches URLs containing it. `method` and `resourceType` narrow
+     * the match. Routes are tried by descending priority, newest first on ties.
+     *
+     * Returns the route ID for unroute().
+     */
+    async route(page: any, sessionId: string, spec: RouteSpec | string | RegExp, handler: RouteHandler, options: { id?: string } = {}): Promise<string> {
+        return this.addRoute(page, sessionId, toRouteSpec(spec), handler, 'route', options.id);
+    }
+
+    /**
+     * Remove routes by ID, or every route whose URL pattern equals the given string.
+     * Removing the last route also removes the page's interception.
+     * Returns the number of routes removed.
+     */
+    async unroute(page: any, sessionId: string, idOrPattern: string): Promise<number> {
+        const routes = this.getActiveRoutes(sessionId);
+        const removed = Array.from(routes.values()).filter(r =>
+            r.id === idOrPattern || describeUrlPattern(r.spec.url) === idOrPattern,
+        );
+        for (const route of removed) {
+            routes.delete(route.id);
         }
-        this.getActiveRoutes(sessionId).add(`block:${pattern}`);
+        if (routes.size === 0) {
+            await this.uninstallDispatcher(page);
+        }
+        return removed.length;
     }
 
     /**
-     * Mock a URL with a custom response
+     * Active routes for a session, in the order they are tried.
      */
-    async mock(page: any, sessionId: string, url: string, response: { status?: number, body?: string, contentType?: string }): Promise<void> {
-        const framework = detectFramework(page);
-        if (framework === 'playwright') {
-            await page.route(url, (route: any) => route.fulfill({
-                status: response.status || 200,
-                contentType: response.contentType || 'application/json',
-                body: response.body || '',
-            }));
-        } else {
-            // Maintain a URL-to-response map and a single interception handler
-            if (!this.interceptedPages.has(page)) {
-                await page.setRequestInterception(true);
-                page.on('request', (req: any) => {
-                    const sessionMocks = this.getMockResponses(sessionId);
-                    const matchedUrl = Array.from(sessionMocks.keys()).find(u => req.url().includes(u));
-                    if (matchedUrl) {
-                        const r = sessionMocks.get(matchedUrl)!;
-                        req.respond({
-                            status: r.status || 200,
-                            contentType: r.contentType || 'application/json',
-                            body: r.body || '',
-                        });
-                    } else {
-                        req.continue();
-                    }
-                });
-                this.interceptedPages.add(page);
-            }
-            this.getMockResponses(sessionId).set(url, response);
-        }
-        this.getActiveRoutes(sessionId).add(`mock:${url}`);
+    listRoutes(sessionId: string): RouteInfo[] {
+        return this.sortedRoutes(sessionId).map(r => ({
+            id: r.id,
+            kind: r.kind,
+            url: describeUrlPattern(r.spec.url),
+            ...(r.spec.method !== undefined ? { method: r.spec.method } : {}),
+            ...(r.spec.resourceType !== undefined ? { resourceType: r.spec.resourceType } : {}),
+            priority: r.spec.priority ?? 0,
+            action: typeof r.handler === 'function' ? 'handler' : r.handler.action,
+        }));
     }
 
     /**
@@ -130,35 +458,833 @@ export class NetworkService {
         this.requestLogs.delete(sessionId);
     }
 
+    /**
+     * Capture WebSocket frames (sent and received, text and binary) and EventSource
+     * messages of a page, including open/close/error, until detachPage(). Read the
+     * traffic with getWebSocketLogs().
+     *
+     * Traffic is read from the browser's network events (CDP on Chromium,
+     * `page.on('websocket')` on Playwright), so the page's own `WebSocket` and
+     * `EventSource` are left alone. Only traffic while the capture runs is seen.
+     */
+    async captureWebSockets(page: any, sessionId: string): Promise<void> {
+        if (this.socketCaptures.has(page)) return;
+        this.socketCaptures.set(page, () => {});
+        try {
+            if (detectFramework(page) === 'playwright') {
+                this.socketCaptures.set(page, this.capturePlaywrightWebSockets(page, sessionId));
+                let client: any;
+                try {
+                    client = await page.context().newCDPSession(page);
+                } catch {
+                    // Firefox and WebKit have no CDP, so no SSE events
+                    return;
+                }
+                await this.captureCdpSockets(client, page, sessionId, false);
+            } else {
+                await this.captureCdpSockets(await page.createCDPSession(), page, sessionId, true);
+            }
+        } catch (err) {
+            this.socketCaptures.get(page)?.();
+            this.socketCaptures.delete(page);
+            throw err;
+        }
+    }
+
+    /**
+     * Get captured WebSocket and SSE traffic for a session, oldest first, optionally filtered.
+     */
+    getWebSocketLogs(sessionId: string, filter: WebSocketLogFilter = {}): WebSocketLogEntry[] {
+        const logs = this.dir ? this.readSocketLogFile(sessionId) : (this.socketLogs.get(sessionId) || []);
+        const types = filter.type === undefined ? null : (Array.isArray(filter.type) ? filter.type : [filter.type]);
+        return logs.filter(entry => {
+            if (filter.url !== undefined && !matchesUrl(filter.url, entry.url)) return false;
+            if (filter.transport && entry.transport !== filter.transport) return false;
+            if (types && !types.includes(entry.type)) return false;
+            if (filter.connectionId && entry.connectionId !== filter.connectionId) return false;
+            if (filter.contains !== undefined && (entry.binary || !entry.data?.includes(filter.contains))) return false;
+            if (filter.since !== undefined && entry.timestamp < filter.since) return false;
+            return true;
+        });
+    }
+
+    /**
+     * Clear captured WebSocket and SSE traffic for a session
+     */
+    clearWebSocketLogs(sessionId: string): void {
+        this.socketLogs.delete(sessionId);
+        const pending = this.pendingSocketWrites.get(sessionId);
+        if (pending) {
+            pending.queued = [];
+            if (pending.writing) {
+                pending.cleared = true;
+                pending.writing = null;
+            }
+        }
+        if (this.dir) {
+            fs.removeSync(this.socketLogFile(sessionId));
+        }
+    }
+
+    /**
+     * Wait until captured WebSocket and SSE traffic queued so far is written to disk.
+     * detachPage() calls this, so traffic is saved before the connection closes.
+     */
+    async flushWebSocketLogs(): Promise<void> {
+        await Promise.all(Array.from(this.pendingSocketWrites.values(), pending => pending.done));
+    }
+
+    /**
+     * Emulate network conditions (throughput, latency, offline) for a page.
+     * Accepts a preset ('slow-3g', 'fast-3g', 'offline', 'no-throttling') or custom values.
+     * Both frameworks use CDP `Network.emulateNetworkConditions` (Chromium only).
+     */
+    async emulateConditions(page: any, sessionId: string, conditions: NetworkConditionsPreset | NetworkConditions): Promise<NetworkConditions> {
+        const resolved = resolveNetworkConditions(conditions);
+        let client = this.conditionClients.get(page);
+        if (!client) {
+            if (detectFramework(page) === 'playwright') {
+                try {
+                    client = await page.context().newCDPSession(page);
+                } catch (err) {
+                    throw new Error(`Network emulation requires a Chromium browser: ${err instanceof Error ? err.message : String(err)}`);
+                }
+            } else {
+                client = await page.createCDPSession();
+            }
+            this.trackClient(sessionId, client, page);
+            this.conditionClients.set(page, client);
+            await client.send('Network.enable');
+        }
+
+        const toBytesPerSecond = (kbps?: number) => kbps === undefined ? -1 : kbps * 1000 / 8;
+        await client.send('Network.emulateNetworkConditions', {
+            offline: resolved.offline === true,
+            latency: resolved.latencyMs ?? 0,
+            downloadThroughput: toBytesPerSecond(resolved.downloadKbps),
+            uploadThroughput: toBytesPerSecond(resolved.uploadKbps),
+        });
+
+        if (isUnthrottled(resolved)) {
+            this.networkConditions.delete(sessionId);
+        } else {
+            this.networkConditions.set(sessionId, resolved);
+        }
+        return resolved;
+    }
+
+    /** Conditions currently emulated for a session, or undefined when unthrottled. */
+    getConditions(sessionId: string): NetworkConditions | undefined {
+        return this.networkConditions.get(sessionId);
+    }
+
+    /**
+     * Start recording a HAR 1.2 log for a page: headers, timings and (by default) response bodies.
+     * Puppeteer uses the CDP Network domain; Playwright uses request/response events.
+     */
+    async startHar(page: any, sessionId: string, options: HarCaptureOptions = {}): Promise<void> {
+        if (this.harCaptures.has(sessionId)) {
+            throw new Error(`HAR recording already running for session ${sessionId}. Stop it first.`);
+        }
+        const capture: HarCapture = { entries: [], pending: new Set(), detach: async () => {} };
+        const embed = options.content !== 'omit';
+        this.harCaptures.set(sessionId, capture);
+        try {
+            if (detectFramework(page) === 'playwright') {
+                this.startPlaywrightHar(page, capture, embed);
+            } else {
+                await this.startCdpHar(page, sessionId, capture, embed);
+            }
+        } catch (err) {
+            this.harCaptures.delete(sessionId);
+            throw err;
+        }
+    }
+
+    /**
+     * Stop HAR recording and return the log. Waits for in-flight response bodies.
+     * Writes the HAR to `outputPath` when given.
+     */
+    async stopHar(sessionId: string, outputPath?: string): Promise<Har> {
+        const capture = this.harCaptures.get(sessionId);
+        if (!capture) {
+            throw new Error(`No HAR recording running for session ${sessionId}. Start one with startHar().`);
+        }
+        this.harCaptures.delete(sessionId);
+        await Promise.all(Array.from(capture.pending));
+        await capture.detach();
+        const har = createHar(capture.entries);
+        if (outputPath) {
+            await fs.writeJson(outputPath, har, { spaces: 2 });
+        }
+        return har;
+    }
+
+    /** Whether a HAR recording is running for the session. */
+    isRecordingHar(sessionId: string): boolean {
+        return this.harCaptures.has(sessionId);
+    }
+
+    /**
+     * Serve responses for a page from a recorded HAR file. Requests are matched by
+     * method and URL (and POST body when several entries match). Unmatched requests
+     * are aborted, or sent to the network with `notFound: 'fallback'`.
+     */
+    async replayFromHar(page: any, harPath: string, options: HarReplayOptions = {}): Promise<void> {
+        const notFound = options.notFound || 'abort';
+        if (!await fs.pathExists(harPath)) {
+            throw new Error(`HAR file not found: ${harPath}`);
+        }
+        await this.stopHarReplay(page);
+
+        if (detectFramework(page) === 'playwright') {
+            await page.routeFromHAR(harPath, { notFound });
+            this.harReplays.set(page, async () => {
+                await page.unroute('**/*');
+                // unroute('**/*') also drops the route dispatcher — put it back
+                const routed = this.routedPages.get(page);
+                if (routed) {
+                    this.routedPages.delete(page);
+                    await this.installDispatcher(page, routed.sessionId);
+                }
+            });
+            return;
+        }
+
+        const har = await fs.readJson(harPath) as Har;
+        if (!har?.log?.entries) {
+            throw new Error(`Invalid HAR file: ${harPath} (missing log.entries)`);
+        }
+        const entries = har.log.entries;
+        const client = await page.createCDPSession();
+        client.on('Fetch.requestPaused', async (event: any) => {
+            const { requestId, request } = event;
+            const entry = findHarEntry(entries, request.method, request.url, request.postData);
+            try {
+                if (entry) {
+                    const headers = entry.response.headers.filter(h => !REPLAY_SKIPPED_HEADERS.has(h.name.toLowerCase()));
+                    await client.send('Fetch.fulfillRequest', {
+                        requestId,
+                        responseCode: entry.response.status,
+                        ...(entry.response.statusText ? { responsePhrase: entry.response.statusText } : {}),
+                        responseHeaders: headers,
+                        body: harContentBody(entry.response.content).toString('base64'),
+                    });
+                } else if (notFound === 'fallback') {
+                    await client.send('Fetch.continueRequest', { requestId });
+                } else {
+                    await client.send('Fetch.failRequest', { requestId, errorReason: 'Failed' });
+                }
+            } catch {
+                // Page navigated away or closed while the request was paused
+            }
+        });
+        await client.send('Fetch.enable', { patterns: [{ urlPattern: '*', requestStage: 'Request' }] });
+        this.harReplays.set(page, async () => {
+            try { await client.detach(); } catch { /* already detached */ }
+        });
+    }
+
+    /** Stop serving responses from a HAR file for a page. */
+    async stopHarReplay(page: any): Promise<void> {
+        const stop = this.harReplays.get(page);
+        if (stop) {
+            this.harReplays.delete(page);
+            await stop();
+        }
+    }
+
     /**
      * Clear all cached data for a session (logs, routes, mocks) to prevent memory leaks.
      * Call this when a session is released.
      */
     clearSession(sessionId: string): void {
         this.requestLogs.delete(sessionId);
+        this.socketLogs.delete(sessionId);
         this.activeRoutes.delete(sessionId);
-        this.mockResponses.delete(sessionId);
+        this.networkConditions.delete(sessionId);
+        const capture = this.harCaptures.get(sessionId);
+        if (capture) {
+            this.harCaptures.delete(sessionId);
+            capture.detach().catch(() => { /* already detached */ });
+        }
         // Detach any CDP sessions created for this session
         const clients = this.cdpSessions.get(sessionId);
         if (clients) {
             for (const client of clients) {
-                try { client.detach(); } catch { /* already detached */ }
+                Promise.resolve().then(() => client.detach()).catch(() => { /* already detached */ });
             }
             this.cdpSessions.delete(sessionId);
         }
     }
 
-    private getActiveRoutes(sessionId: string): Set<string> {
-        if (!this.activeRoutes.has(sessionId)) {
-            this.activeRoutes.set(sessionId, new Set());
+    /**
+     * Release what this service wired into a page (route interception, network
+     * emulation, HAR replay, WebSocket capture) before its connection
+     * closes. Processes that connect once per command, like the MCP server, call
+     * this so CDP clients don't pile up. Stop a HAR recording with stopHar() first.
+     */
+    async detachPage(page: any): Promise<void> {
+        await this.uninstallDispatcher(page);
+        await this.stopHarReplay(page);
+        for (const { sessionId, client } of this.pageClients.get(page) || []) {
+            this.untrackClient(sessionId, client);
+            try { await client.detach(); } catch { /* already detached */ }
         }
-        return this.activeRoutes.get(sessionId)!;
+        this.pageClients.delete(page);
+        this.conditionClients.delete(page);
+        this.socketCaptures.get(page)?.();
+        this.socketCaptures.delete(page);
+        await this.flushWebSocketLogs();
     }
 
-    private getMockResponses(sessionId: string): Map<string, { status?: number, body?: string, contentType?: string }> {
-        if (!this.mockResponses.has(sessionId)) {
-            this.mockResponses.set(sessionId, new Map());
+    /** Keep a CDP client for clearSession() and, when it belongs to `page`, for detachPage() */
+    private trackClient(sessionId: string, client: any, page?: object): void {
+        if (!this.cdpSessions.has(sessionId)) {
+            this.cdpSessions.set(sessionId, new Set());
+        }
+        this.cdpSessions.get(sessionId)!.add(client);
+        if (page) {
+            this.pageClients.set(page, [...(this.pageClients.get(page) || []), { sessionId, client }]);
+        }
+    }
+
+    private untrackClient(sessionId: string, client: any): void {
+        this.cdpSessions.get(sessionId)?.delete(client);
+    }
+
+    private async startCdpHar(page: any, sessionId: string, capture: HarCapture, embed: boolean): Promise<void> {
+        const client = await page.createCDPSession();
+        this.trackClient(sessionId, client);
+
+        // requestId -> request state until loadingFinished/loadingFailed
+        const inFlight = new Map<string, { request: any, wallTime: number, type?: string, response?: any }>();
+
+        const toEntry = (state: { request: any, wallTime: number, type?: string, response?: any }, finishedTimestamp?: number, body: { body: string, base64Encoded: boolean } | null = null): HarEntry => {
+            const { request, response } = state;
+            const timings = harTimingsFromCdp(response?.timing, finishedTimestamp);
+            const responseHeaders = toHarHeaders(response?.headers);
+            const postData = request.postData ?? request.postDataEntries?.map((e: any) => e.bytes ? Buffer.from(e.bytes, 'base64').toString() : '').join('');
+            const requestHeaders = toHarHeaders(request.headers);
+            return {
+                startedDateTime: new Date(state.wallTime * 1000).toISOString(),
+                time: harTotalTime(timings),
+                request: {
+                    method: request.method,
+                    url: request.url,
+                    httpVersion: toHarHttpVersion(response?.protocol),
+                    cookies: [],
+                    headers: requestHeaders,
+                    queryString: toHarQueryString(request.url),
+                    ...(postData !== undefined ? { postData: { mimeType: findHarHeader(requestHeaders, 'content-type') || '', text: postData } } : {}),
+                    headersSize: -1,
+                    bodySize: postData !== undefined ? Buffer.byteLength(postData) : 0,
+                },
+                response: {
+                    status: response?.status ?? 0,
+                    statusText: response?.statusText ?? '',
+                    httpVersion: toHarHttpVersion(response?.protocol),
+                    cookies: [],
+                    headers: responseHeaders,
+                    content: toHarContent(body ? body.body : null, response?.mimeType || '', body?.base64Encoded),
+                    redirectURL: findHarHeader(responseHeaders, 'location') || '',
+                    headersSize: -1,
+                    bodySize: -1,
+                },
+                cache: {},
+                timings,
+                ...(response?.remoteIPAddress ? { serverIPAddress: response.remoteIPAddress } : {}),
+                ...(state.type ? { _resourceType: state.type.toLowerCase() } : {}),
+            };
+        };
+
+        client.on('Network.requestWillBeSent', (event: any) => {
+            const previous = inFlight.get(event.requestId);
+            if (previous && event.redirectResponse) {
+                // Redirects reuse the requestId — close the previous hop with its redirect response
+                previous.response = event.redirectResponse;
+                capture.entries.push(toEntry(previous, event.timestamp));
+            }
+            inFlight.set(event.requestId, { request: event.request, wallTime: event.wallTime, type: event.type });
+        });
+        client.on('Network.responseReceived', (event: any) => {
+            const state = inFlight.get(event.requestId);
+            if (state) state.response = event.response;
+        });
+        client.on('Network.loadingFinished', (event: any) => {
+            const state = inFlight.get(event.requestId);
+            if (!state) return;
+            inFlight.delete(event.requestId);
+            const pending: Promise<void> = (embed
+                ? client.send('Network.getResponseBody', { requestId: event.requestId }).catch(() => null)
+                : Promise.resolve(null)
+            ).then((body: { body: string, base64Encoded: boolean } | null) => {
+                capture.entries.push(toEntry(state, event.timestamp, body));
+            }).finally(() => capture.pending.delete(pending));
+            capture.pending.add(pending);
+        });
+        client.on('Network.loadingFailed', (event: any) => {
+            const state = inFlight.get(event.requestId);
+            if (!state) return;
+            inFlight.delete(event.requestId);
+            capture.entries.push({ ...toEntry(state, event.timestamp), _failureText: event.errorText });
+        });
+
+        await client.send('Network.enable');
+        capture.detach = async () => {
+            this.untrackClient(sessionId, client);
+            try { await client.detach(); } catch { /* already detached */ }
+        };
+    }
+
+    private startPlaywrightHar(page: any, capture: HarCapture, embed: boolean): void {
+        const toEntry = async (request: any, failureText?: string): Promise<HarEntry> => {
+            const response = failureText ? null : await request.response();
+            const timing = request.timing();
+            const timings = harTimingsFromPlaywright(timing);
+            const requestHeaders: { name: string, value: string }[] = await request.headersArray();
+            const responseHeaders: { name: string, value: string }[] = response ? await response.headersArray() : [];
+            const mimeType = findHarHeader(responseHeaders, 'content-type') || '';
+            let body: Buffer | null = null;
+            if (response && embed) {
+                // Redirect responses have no body
+                body = await response.body().catch(() => null);
+            }
+            const serverAddr = response ? await response.serverAddr().catch(() => null) : null;
+            const postData: string | null = request.postData();
+            return {
+                startedDateTime: new Date(timing.startTime).toISOString(),
+                time: harTotalTime(timings),
+                request: {
+                    method: request.method(),
+                    url: request.url(),
+                    httpVersion: 'HTTP/1.1',
+                    cookies: [],
+                    headers: requestHeaders,
+                    queryString: toHarQueryString(request.url()),
+                    ...(postData !== null ? { postData: { mimeType: findHarHeader(requestHeaders, 'content-type') || '', text: postData } } : {}),
+                    headersSize: -1,
+                    bodySize: postData !== null ? Buffer.byteLength(postData) : 0,
+                },
+                response: {
+                    status: response ? response.status() : 0,
+                    statusText: response ? response.statusText() : '',
+                    httpVersion: 'HTTP/1.1',
+                    cookies: [],
+                    headers: responseHeaders,
+                    content: toHarContent(body, mimeType),
+                    redirectURL: findHarHeader(responseHeaders, 'location') || '',
+                    headersSize: -1,
+                    bodySize: -1,
+                },
+                cache: {},
+                timings,
+                ...(serverAddr?.ipAddress ? { serverIPAddress: serverAddr.ipAddress } : {}),
+                _resourceType: request.resourceType(),
+                ...(failureText ? { _failureText: failureText } : {}),
+            };
+        };
+
+        const track = (request: any, failureText?: string) => {
+            const pending: Promise<void> = toEntry(request, failureText)
+                .then(entry => { capture.entries.push(entry); })
+                .catch(err => console.error('NetworkService: Failed to record HAR entry:', err))
+                .finally(() => capture.pending.delete(pending));
+            capture.pending.add(pending);
+        };
+        const onFinished = (request: any) => track(request);
+        const onFailed = (request: any) => track(request, request.failure()?.errorText || 'failed');
+        page.on('requestfinished', onFinished);
+        page.on('requestfailed', onFailed);
+        capture.detach = async () => {
+            page.off('requestfinished', onFinished);
+            page.off('requestfailed', onFailed);
+        };
+    }
+
+    private async addRoute(page: any, sessionId: string, spec: RouteSpec, handler: RouteHandler, kind: ActiveRoute['kind'], id?: string): Promise<string> {
+        const routeId = id || this.newRouteId();
+        this.getActiveRoutes(sessionId).set(routeId, { id: routeId, kind, spec, handler, order: ++this.routeOrder });
+        await this.installDispatcher(page, sessionId);
+        return routeId;
+    }
+
+    private newRouteId(): string {
+        return `route_${crypto.randomUUID().slice(0, 8)}`;
+    }
+
+    /** The session's routes, highest precedence first */
+    private sortedRoutes(sessionId: string): ActiveRoute[] {
+        return Array.from(this.getActiveRoutes(sessionId).values())
+            .sort((a, b) => (b.spec.priority ?? 0) - (a.spec.priority ?? 0) || b.order - a.order);
+    }
+
+    /**
+     * Pick the action for a request: the first matching route whose handler returns an action.
+     */
+    private async resolveAction(sessionId: string, request: RouteRequest): Promise<RouteAction | undefined> {
+        for (const route of this.sortedRoutes(sessionId)) {
+            if (!matchesRoute(route.spec, request)) continue;
+            if (typeof route.handler !== 'function') return route.handler;
+            try {
+                const action = await route.handler(request);
+                if (action) return action;
+            } catch (err) {
+                console.error(`NetworkService: route ${route.id} handler threw, passing request on:`, err);
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * One interception handler per page dispatches to the session's routes, so
+     * adding or removing routes never re-registers browser-level interception.
+     */
+    private async installDispatcher(page: any, sessionId: string): Promise<void> {
+        if (this.routedPages.get(page)?.sessionId === sessionId) return;
+        await this.uninstallDispatcher(page);
+        if (detectFramework(page) === 'playwright') {
+            const handler = (route: any, request: any) => this.dispatchPlaywright(sessionId, route, request)
+                .catch(err => this.releasePlaywrightRoute(route, err));
+            this.routedPages.set(page, {
+                sessionId,
+                uninstall: () => page.unroute('**/*', handler).catch(() => { /* page already closed */ }),
+            });
+            await page.route('**/*', handler);
+            return;
+        }
+
+        const client = await page.createCDPSession();
+        this.trackClient(sessionId, client);
+        this.routedPages.set(page, {
+            sessionId,
+            uninstall: async () => {
+                this.untrackClient(sessionId, client);
+                try {
+                    await client.send('Fetch.disable');
+                    await client.detach();
+                } catch {
+                    // Page already closed
+                }
+            },
+        });
+        // requestId -> response overrides waiting for the response stage
+        const responseOverrides = new Map<string, ResponseOverrides>();
+        client.on('Fetch.requestPaused', (event: any) => {
+            this.dispatchCdp(sessionId, client, event, responseOverrides)
+                .catch(err => this.releaseCdpRequest(client, event.requestId, err));
+        });
+        await client.send('Fetch.enable', { patterns: [{ urlPattern: '*', requestStage: 'Request' }] });
+    }
+
+    /** Remove the page's route dispatcher so its requests are no longer paused */
+    private async uninstallDispatcher(page: any): Promise<void> {
+        const routed = this.routedPages.get(page);
+        if (!routed) return;
+        this.routedPages.delete(page);
+        await routed.uninstall();
+    }
+
+    /**
+     * A route could not be applied to a paused request (e.g. a body transform
+     * threw, or the response had no body to read). Send the request on untouched,
+     * or fail it if even that is rejected, so the page never waits forever.
+     */
+    private async releaseCdpRequest(client: any, requestId: string, err: unknown): Promise<void> {
+        if (isGoneError(err)) return;
+        console.error(`NetworkService: could not apply route to request ${requestId}, continuing it unmodified:`, err);
+        try {
+            await client.send('Fetch.continueRequest', { requestId });
+        } catch (continueErr) {
+            if (isGoneError(continueErr)) return;
+            await client.send('Fetch.failRequest', { requestId, errorReason: 'Failed' }).catch(() => {});
         }
-        return this.mockResponses.get(sessionId)!;
+    }
+
+    /** Playwright counterpart of releaseCdpRequest() */
+    private async releasePlaywrightRoute(route: any, err: unknown): Promise<void> {
+        if (isGoneError(err)) return;
+        console.error(`NetworkService: could not apply route to ${route.request().url()}, continuing it unmodified:`, err);
+        try {
+            await route.continue();
+        } catch (continueErr) {
+            if (isGoneError(continueErr)) return;
+            await route.abort().catch(() => {});
+        }
+    }
+
+    private async dispatchCdp(sessionId: string, client: any, event: any, responseOverrides: Map<string, ResponseOverrides>): Promise<void> {
+        const { requestId } = event;
+
+        // Response stage — only reached for requests continued with interceptResponse
+        if (event.responseStatusCode !== undefined || event.responseErrorReason) {
+            const overrides = responseOverrides.get(requestId);
+            responseOverrides.delete(requestId);
+            if (!overrides || event.responseErrorReason) {
+                await client.send('Fetch.continueRequest', { requestId });
+                return;
+            }
+            let body: Buffer | string | undefined = typeof overrides.body === 'string' ? overrides.body : undefined;
+            if (body === undefined) {
+                const original = await client.send('Fetch.getResponseBody', { requestId });
+                const buffer = Buffer.from(original.body, original.base64Encoded ? 'base64' : 'utf-8');
+                body = typeof overrides.body === 'function' ? overrides.body(buffer.toString('utf-8')) : buffer;
+            }
+            const headers = applyHeaderOverrides(fromCdpHeaders(event.responseHeaders), overrides.headers);
+            await client.send('Fetch.fulfillRequest', {
+                requestId,
+                responseCode: overrides.status ?? event.responseStatusCode,
+                responseHeaders: toCdpHeaders(headers).filter(h => !REPLAY_SKIPPED_HEADERS.has(h.name.toLowerCase())),
+                body: Buffer.from(body).toString('base64'),
+            });
+            return;
+        }
+
+        const request: RouteRequest = {
+            url: event.request.url,
+            method: event.request.method,
+            headers: event.request.headers || {},
+            ...(event.request.postData !== undefined ? { postData: event.request.postData } : {}),
+            resourceType: String(event.resourceType || 'other').toLowerCase(),
+        };
+        const action = await this.resolveAction(sessionId, request);
+
+        const continueWith = (overrides: RequestOverrides | undefined, interceptResponse: boolean) => client.send('Fetch.continueRequest', {
+            requestId,
+            ...(overrides?.url ? { url: overrides.url } : {}),
+            ...(overrides?.method ? { method: overrides.method } : {}),
+            ...(overrides?.postData !== undefined ? { postData: Buffer.from(overrides.postData).toString('base64') } : {}),
+            ...(overrides?.headers ? { headers: toCdpHeaders(applyHeaderOverrides(request.headers, overrides.headers)) } : {}),
+            ...(interceptResponse ? { interceptResponse: true } : {}),
+        });
+
+        if (!action) {
+            await client.send('Fetch.continueRequest', { requestId });
+        } else if (action.action === 'fulfill') {
+            const headers = { ...(action.headers || {}) };
+            if (action.contentType) headers['Content-Type'] = action.contentType;
+            await client.send('Fetch.fulfillRequest', {
+                requestId,
+                responseCode: action.status || 200,
+                responseHeaders: toCdpHeaders(headers),
+                body: Buffer.from(action.body || '').toString('base64'),
+            });
+        } else if (action.action === 'abort') {
+            await client.send('Fetch.failRequest', { requestId, errorReason: CDP_ERROR_REASONS[action.errorCode || 'failed'] || 'Failed' });
+        } else if (action.action === 'continue') {
+            await continueWith(action, false);
+        } else {
+            if (action.response) responseOverrides.set(requestId, action.response);
+            await continueWith(action.request, !!action.response);
+        }
+    }
+
+    private async dispatchPlaywright(sessionId: string, route: any, pwRequest: any): Promise<void> {
+        const postData = pwRequest.postData();
+        const request: RouteRequest = {
+            url: pwRequest.url(),
+            method: pwRequest.method(),
+            headers: pwRequest.headers(),
+            ...(postData !== null ? { postData } : {}),
+            resourceType: pwRequest.resourceType(),
+        };
+        const action = await this.resolveAction(sessionId, request);
+        const overridesFor = (overrides?: RequestOverrides) => ({
+            ...(overrides?.url ? { url: overrides.url } : {}),
+            ...(overrides?.method ? { method: overrides.method } : {}),
+            ...(overrides?.postData !== undefined ? { postData: overrides.postData } : {}),
+            ...(overrides?.headers ? { headers: applyHeaderOverrides(request.headers, overrides.headers) } : {}),
+        });
+
+        if (!action) {
+            // Let earlier page.route handlers (HAR replay) see the request
+            await route.fallback();
+        } else if (action.action === 'fulfill') {
+            await route.fulfill({
+                status: action.status || 200,
+                headers: action.headers,
+                contentType: action.contentType,
+                body: action.body || '',
+            });
+        } else if (action.action === 'abort') {
+            await route.abort(action.errorCode || 'failed');
+        } else if (action.action === 'continue') {
+            await route.fallback(overridesFor(action));
+        } else if (!action.response) {
+            await route.fallback(overridesFor(action.request));
+        } else {
+            const response = await route.fetch(overridesFor(action.request));
+            const overrides = action.response;
+            let body: string | Buffer | undefined = typeof overrides.body === 'string' ? overrides.body : undefined;
+            if (body === undefined) {
+                const original: Buffer = await response.body();
+                body = typeof overrides.body === 'function' ? overrides.body(original.toString('utf-8')) : original;
+            }
+            await route.fulfill({
+                response,
+                status: overrides.status ?? response.status(),
+                headers: applyHeaderOverrides(response.headers(), overrides.headers),
+                body,
+            });
+        }
+    }
+
+    /**
+     * WebSocket (when `websockets`) and EventSource traffic from CDP network events.
+     * Frames of connections opened before Network.enable are skipped: their URL is unknown.
+     */
+    private async captureCdpSockets(client: any, page: any, sessionId: string, websockets: boolean): Promise<void> {
+        this.trackClient(sessionId, client, page);
+        const connections = new Map<string, { transport: WebSocketLogEntry['transport'], url: string }>();
+        const add = (requestId: string, type: WebSocketLogType, extra: Partial<WebSocketLogEntry> = {}) => {
+            const connection = connections.get(requestId);
+            if (!connection) return;
+            this.addSocketEntry(sessionId, { ...connection, type, connectionId: requestId, timestamp: Date.now(), ...extra });
+        };
+
+        if (websockets) {
+            client.on('Network.webSocketCreated', (event: any) => {
+                connections.set(event.requestId, { transport: 'websocket', url: event.url });
+                add(event.requestId, 'connecting');
+            });
+            client.on('Network.webSocketHandshakeResponseReceived', (event: any) => {
+                const protocol = findHarHeader(toHarHeaders(event.response?.headers), 'sec-websocket-protocol');
+                add(event.requestId, 'open', protocol ? { protocol } : {});
+            });
+            const onFrame = (type: WebSocketLogType) => (event: any) => {
+                const { opcode, payloadData } = event.response || {};
+                if (opcode === WEBSOCKET_TEXT_OPCODE) {
+                    add(event.requestId, type, socketPayload(payloadData, this.maxSocketPayloadBytes));
+                } else if (opcode === WEBSOCKET_BINARY_OPCODE) {
+                    add(event.requestId, type, socketPayload(Buffer.from(payloadData, 'base64'), this.maxSocketPayloadBytes));
+                }
+            };
+            client.on('Network.webSocketFrameSent', onFrame('sent'));
+            client.on('Network.webSocketFrameReceived', onFrame('received'));
+            client.on('Network.webSocketFrameError', (event: any) => add(event.requestId, 'error'));
+            client.on('Network.webSocketClosed', (event: any) => {
+                add(event.requestId, 'close');
+                connections.delete(event.requestId);
+            });
+        }
+
+        client.on('Network.requestWillBeSent', (event: any) => {
+            if (event.type !== 'EventSource') return;
+            connections.set(event.requestId, { transport: 'eventsource', url: event.request.url });
+            add(event.requestId, 'connecting');
+        });
+        client.on('Network.responseReceived', (event: any) => add(event.requestId, 'open'));
+        client.on('Network.eventSourceMessageReceived', (event: any) => {
+            add(event.requestId, 'received', {
+                ...socketPayload(event.data, this.maxSocketPayloadBytes),
+                event: event.eventName || 'message',
+                ...(event.eventId ? { lastEventId: event.eventId } : {}),
+            });
+        });
+        // EventSource reconnects with a new request, so each request is its own connection
+        const onFinished = (type: WebSocketLogType) => (event: any) => {
+            add(event.requestId, type);
+            connections.delete(event.requestId);
+        };
+        client.on('Network.loadingFinished', onFinished('close'));
+        client.on('Network.loadingFailed', (event: any) => onFinished(event.canceled ? 'close' : 'error')(event));
+
+        await client.send('Network.enable');
+    }
+
+    /** WebSocket traffic of a Playwright page; returns a function that stops listening */
+    private capturePlaywrightWebSockets(page: any, sessionId: string): () => void {
+        const onWebSocket = (ws: any) => {
+            const connectionId = `ws_${crypto.randomUUID().slice(0, 8)}`;
+            const add = (type: WebSocketLogType, extra: Partial<WebSocketLogEntry> = {}) => this.addSocketEntry(sessionId, {
+                transport: 'websocket', type, connectionId, url: ws.url(), timestamp: Date.now(), ...extra,
+            });
+            // Playwright reports the socket when it is created; there is no separate open event
+            add('connecting');
+            ws.on('framesent', (frame: { payload: string | Buffer }) => add('sent', socketPayload(frame.payload, this.maxSocketPayloadBytes)));
+            ws.on('framereceived', (frame: { payload: string | Buffer }) => add('received', socketPayload(frame.payload, this.maxSocketPayloadBytes)));
+            ws.on('socketerror', () => add('error'));
+            ws.on('close', () => add('close'));
+        };
+        page.on('websocket', onWebSocket);
+        return () => page.off('websocket', onWebSocket);
+    }
+
+    private addSocketEntry(sessionId: string, entry: WebSocketLogEntry): void {
+        if (this.dir) {
+            let pending = this.pendingSocketWrites.get(sessionId);
+            if (!pending) {
+                pending = { queued: [], writing: null, cleared: false, done: Promise.resolve() };
+                this.pendingSocketWrites.set(sessionId, pending);
+            }
+            pending.queued.push(entry);
+            // The first entry since the last append started schedules the next one
+            if (pending.queued.length === 1) {
+                const current = pending;
+                pending.done = pending.done.then(() => this.writeQueuedSockets(sessionId, current));
+            }
+            return;
+        }
+        if (!this.socketLogs.has(sessionId)) {
+            this.socketLogs.set(sessionId, []);
+        }
+        this.socketLogs.get(sessionId)!.push(entry);
+    }
+
+    /** Append the queued socket entries of a session in one write */
+    private async writeQueuedSockets(sessionId: string, pending: PendingSocketWrites): Promise<void> {
+        const entries = pending.queued;
+        pending.queued = [];
+        if (entries.length === 0) return;
+        const chunk = entries.map(e => JSON.stringify(e)).join('\n') + '\n';
+        pending.writing = { chunk, entries };
+        const file = this.socketLogFile(sessionId);
+        try {
+            await fs.promises.mkdir(path.dirname(file), { recursive: true });
+            await fs.promises.appendFile(file, chunk, { mode: 0o600 });
+            if (pending.cleared) await fs.promises.rm(file, { force: true });
+        } catch (err) {
+            console.error(`NetworkService: failed to write ${entries.length} socket entries for session ${sessionId}:`, err);
+        } finally {
+            pending.writing = null;
+            pending.cleared = false;
+            if (pending.queued.length === 0 && this.pendingSocketWrites.get(sessionId) === pending) {
+                this.pendingSocketWrites.delete(sessionId);
+            }
+        }
+    }
+
+    private socketLogFile(sessionId: string): string {
+        return path.join(this.dir!, sanitizeId(sessionId), 'websocket.jsonl');
+    }
+
+    /** Entries in the file, followed by those this instance has not written yet */
+    private readSocketLogFile(sessionId: string): WebSocketLogEntry[] {
+        let content = '';
+        try {
+            content = fs.readFileSync(this.socketLogFile(sessionId), 'utf-8');
+        } catch {
+            // Nothing written yet
+        }
+        const entries: WebSocketLogEntry[] = [];
+        for (const line of content.split('\n')) {
+            if (!line) continue;
+            try {
+                entries.push(JSON.parse(line));
+            } catch {
+                // Partially written last line from a concurrent writer — skip it
+            }
+        }
+        const pending = this.pendingSocketWrites.get(sessionId);
+        if (pending?.writing && !content.includes(pending.writing.chunk)) entries.push(...pending.writing.entries);
+        if (pending) entries.push(...pending.queued);
+        return entries;
+    }
+
+    private getActiveRoutes(sessionId: string): Map<string, ActiveRoute> {
+        if (!this.activeRoutes.has(sessionId)) {
+            this.activeRoutes.set(sessionId, new Map());
+        }
+        return this.activeRoutes.get(sessionId)!;
     }
 }
@@ -0,0 +1,257 @@
+import { matchesUrl } from '../utils/route-match';
+import { pollUntil, WaitTimeoutError } from '../utils/wait';
+
+const DEFAULT_ASSERT_TIMEOUT = 5000;
+const DEFAULT_ASSERT_INTERVAL = 100;
+
+export interface AssertionOptions {
+    /** How long to retry before failing, in ms (default: 5000) */
+    timeout?: number;
+    /** Retry interval in ms (default: 100) */
+    interval?: number;
+}
+
+export interface TextAssertionOptions extends AssertionOptions {
+    /** Pass when the text contains `expected` instead of equalling it */
+    contains?: boolean;
+}
+
+export type AssertionValue = string | number | boolean | null;
+
+export interface AssertionResult {
+    pass: boolean;
+    /** What was asserted, e.g. `"@e3" to have text "Saved"` */
+    assertion: string;
+    expected: AssertionValue;
+    /** Last value read; null when the element wasn't found */
+    actual: AssertionValue;
+    /** ms until the assertion passed, or until it gave up */
+    elapsed: number;
+    message: string;
+    /** Failures only: expected vs actual, `-` lines expected and `+` lines received */
+    diff?: string;
+}
+
+/**
+ * How assertions read the page. `read` returns null when the element is missing.
+ */
+export interface AssertionTarget {
+    selector?: string;
+    /** Throws for a selector that can never match, such as an unknown @ref */
+    validate(): Promise<void>;
+    url(): Promise<string>;
+    count(): Promise<number>;
+    read(what: 'text' | 'value' | 'visible' | 'checked'): Promise<string | boolean | null>;
+}
+
+/**
+ * Retrying assertions on a page or element, created by `PageService.expect()`.
+ * Each one re-reads the page until it passes or `timeout` runs out, and
+ * resolves to a pass/fail result rather than throwing.
+ */
+export class PageAssertions {
+    constructor(private target: AssertionTarget, private negated = false) {}
+
+    /** The same assertions, passing when they don't hold */
+    get not(): PageAssertions {
+        return new PageAssertions(this.target, !this.negated);
+    }
+
+    /**
+     * Text content, whitespace-collapsed, equals (or with `contains`, includes) `expected`,
+     * or matches it when it is a RegExp.
+     */
+    async toHaveText(expected: string | RegExp, options: TextAssertionOptions = {}): Promise<AssertionResult> {
+        const verb = expected instanceof RegExp ? 'to match text' : options.contains ? 'to contain text' : 'to have text';
+        return this.check(`${verb} ${describe(expected)}`, describeExpected(expected), async () => {
+            const text = await this.target.read('text');
+            return typeof text === 'string' ? normalizeWhitespace(text) : null;
+        }, actual => typeof actual === 'string' && matchesText(actual, expected, options.contains), options);
+    }
+
+    /** Form field value equals `expected`, or matches it when it is a RegExp */
+    async toHaveValue(expected: string | RegExp, options: AssertionOptions = {}): Promise<AssertionResult> {
+        return this.check(`to have value ${describe(expected)}`, describeExpected(expected),
+            async () => await this.target.read('value') as string | null,
+            actual => typeof actual === 'string' && matchesValue(actual, expected), options);
+    }
+
+    async toBeVisible(options: AssertionOptions = {}): Promise<AssertionResult> {
+        return this.check('to be visible', true, () => this.target.read('visible') as Promise<boolean | null>,
+            actual => actual === true, options);
+    }
+
+    async toBeChecked(options: AssertionOptions = {}): Promise<AssertionResult> {
+        return this.check('to be checked', true, () => this.target.read('checked') as Promise<boolean | null>,
+            actual => actual === true, options);
+    }
+
+    /** Number of elements matching the selector */
+    async toHaveCount(expected: number, options: AssertionOptions = {}): Promise<AssertionResult> {
+        return this.check(`to have count ${expected}`, expected, () => this.target.count(),
+            actual => actual === expected, options);
+    }
+
+    /** Page URL matches a RegExp, a glob such as `https://shop.example.com/**`, or contains a substring */
+    async toHaveURL(expected: string | RegExp, options: AssertionOptions = {}): Promise<AssertionResult> {
+        return this.check(`to have URL ${describe(expected)}`, describeExpected(expected), () => this.target.url(),
+            actual => typeof actual === 'string' && matchesUrl(expected, actual), options, true);
+    }
+
+    private async check<T extends AssertionValue>(
+        what: string,
+        expected: AssertionValue,
+        read: () => Promise<T>,
+        matches: (actual: T) => boolean,
+        options: AssertionOptions,
+        onPage = false,
+    ): Promise<AssertionResult> {
+        if (!onPage && !this.target.selector) {
+            throw new Error(`Asserting ${what} needs an element: expect(page, selector)`);
+        }
+        if (!onPage) await this.target.validate();
+        const subject = onPage ? 'page' : `"${this.target.selector}"`;
+        const assertion = `${subject} ${this.negated ? 'not ' : ''}${what}`;
+        let actual: AssertionValue = null;
+        try {
+            const elapsed = await pollUntil(async () => {
+                actual = await read();
+                return { done: matches(actual as T) !== this.negated, state: actual };
+            }, {
+                condition: assertion,
+                timeout: options.timeout ?? DEFAULT_ASSERT_TIMEOUT,
+                interval: options.interval ?? DEFAULT_ASSERT_INTERVAL,
+            });
+            return { pass: true, assertion, expected, actual, elapsed, message: `Passed: ${assertion}` };
+        } catch (err) {
+            if (!(err instanceof WaitTimeoutError)) throw err;
+            const received = actual === null ? 'element not found' : JSON.stringify(actual);
+            return {
+                pass: false,
+                assertion,
+                expected,
+                actual,
+                elapsed: err.elapsed,
+                message: `Expected ${assertion}, received ${received} after ${err.timeout}ms`,
+                diff: formatDiff(expected, actual, this.negated),
+            };
+        }
+    }
+}
+
+function normalizeWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function matchesText(actual: string, expected: string | RegExp, contains?: boolean): boolean {
+    if (expected instanceof RegExp) {
+        expected.lastIndex = 0;
+        return expected.test(actual);
+    }
+    const wanted = normalizeWhitespace(expected);
+    return contains ? actual.includes(wanted) : actual === wanted;
+}
+
+/** Field values are compared as typed, so line breaks and spacing in a textarea count */
+function matchesValue(actual: string, expected: string | RegExp): boolean {
+    if (expected instanceof RegExp) {
+        expected.lastIndex = 0;
+        return expected.test(actual);
+    }
+    return actual === expected;
+}
+
+function describe(expected: string | RegExp): string {
+    return expected instanceof RegExp ? expected.toString() : JSON.stringify(expected);
+}
+
+function describeExpected(expected: string | RegExp): string {
+    return expected instanceof RegExp ? expected.toString() : expected;
+}
+
+/**
+ * `-` expected / `+` received lines. Multi-line text is diffed line by line so
+ * only the lines that differ are marked.
+ */
+function formatDiff(expected: AssertionValue, actual: AssertionValue, negated: boolean): string {
+    const shown = (value: AssertionValue) => value === null ? '<element not found>' : JSON.stringify(value);
+    if (negated) {
+        return `- Expected: not ${shown(expected)}\n+ Received: ${shown(actual)}`;
+    }
+    if (typeof expected === 'string' && typeof actual === 'string' && (expected.includes('\n') || actual.includes('\n'))) {
+        return diffLines(expected.split('\n'), actual.split('\n')).join('\n');
+    }
+    return `- Expected: ${shown(expected)}\n+ Received: ${shown(actual)}`;
+}
+
+/** Line diff over the longest common subsequence */
+function diffLines(expected: string[], actual: string[]): string[] {
+    const lcs: number[][] = Array.from({ length: expected.length + 1 }, () => new Array(actual.length + 1).fill(0));
+    for (let i = expected.length - 1; i >= 0; i--) {
+        for (let j = actual.length - 1; j >= 0; j--) {
+            lcs[i][j] = expected[i] === actual[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+    const lines: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < expected.length || j < actual.length) {
+        if (i < expected.length && j < actual.length && expected[i] === actual[j]) {
+            lines.push(`  ${expected[i++]}`);
+            j++;
+        } else if (i < expected.length && (j === actual.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            lines.push(`- ${expected[i++]}`);
+        } else {
+            lines.push(`+ ${actual[j++]}`);
+        }
+    }
+    return lines;
+}
+
+export type AssertionKind = 'text' | 'value' | 'visible' | 'checked' | 'count' | 'url';
+
+export const ASSERTION_KINDS: AssertionKind[] = ['text', 'value', 'visible', 'checked', 'count', 'url'];
+
+/**
+ * An assertion described as data, for the CLI and MCP tools.
+ */
+export interface AssertionSpec extends TextAssertionOptions {
+    assertion: AssertionKind;
+    /** Expected text, value, URL or count; a RegExp source when `regex` is set */
+    expected?: string | number;
+    regex?: boolean;
+    not?: boolean;
+}
+
+/**
+ * Run the assertion `spec` describes, e.g. `{ assertion: 'text', expected: 'Saved' }`.
+ */
+export async function runAssertion(assertions: PageAssertions, spec: AssertionSpec): Promise<AssertionResult> {
+    const target = spec.not ? assertions.not : assertions;
+    const options: TextAssertionOptions = { timeout: spec.timeout, interval: spec.interval, contains: spec.contains };
+    const expected = () => {
+        if (spec.expected === undefined) throw new Error(`The ${spec.assertion} assertion needs an expected value`);
+        return spec.regex ? new RegExp(String(spec.expected)) : String(spec.expected);
+    };
+    switch (spec.assertion) {
+        case 'text':
+            return target.toHaveText(expected(), options);
+        case 'value':
+            return target.toHaveValue(expected(), options);
+        case 'url':
+            return target.toHaveURL(expected(), options);
+        case 'visible':
+            return target.toBeVisible(options);
+        case 'checked':
+            return target.toBeChecked(options);
+        case 'count': {
+            const count = Number(spec.expected);
+            if (spec.expected === undefined || !Number.isInteger(count) || count < 0) {
+                throw new Error(`The count assertion needs a whole number, got "${spec.expected}"`);
+            }
+            return target.toHaveCount(count, options);
+        }
+        default:
+            throw new Error(`Unknown assertion "${spec.assertion}". Use ${ASSERTION_KINDS.join(', ')}.`);
+    }
+}
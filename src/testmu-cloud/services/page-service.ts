@@ -1,6 +1,91 @@
 import { SnapshotService, SnapshotOptions, SnapshotResult, SnapshotDiff } from './snapshot-service';
 import { RefStore, RefMapping } from '../stores/ref-store';
 import { detectFramework } from '../utils/framework-detect';
+import { createCdpSession } from '../utils/cdp-session';
+import { ElementPath, SHADOW_ROOT_COMBINATOR, describeElementPath } from '../utils/dom-path';
+import { MARKS_OVERLAY_ID, MARK_COLORS, Mark, drawMarks, removeMarks } from '../utils/set-of-marks';
+import { TabInfo, getTabId, listPages, describeTabs, findPageByTabId } from '../utils/tabs';
+import { dragAndDrop, pressKeyChord } from '../utils/input';
+import { matchesUrl } from '../utils/route-match';
+import { PollResult, pollUntil, waitForNetworkIdle } from '../utils/wait';
+import { PageAssertions } from './page-assertions';
+
+export interface AnnotatedScreenshotOptions {
+    /** Capture the whole page instead of the viewport (default: false) */
+    fullPage?: boolean;
+    /** Only mark buttons, links, form fields and other interactive elements */
+    interactiveOnly?: boolean;
+    /** Max refs to mark (default: 500) */
+    maxElements?: number;
+}
+
+export interface AnnotatedRef {
+    ref: string;
+    role: string;
+    name: string;
+    /** Box in screenshot coordinates, CSS pixels */
+    box: { x: number, y: number, width: number, height: number };
+}
+
+export interface AnnotatedScreenshot {
+    /** PNG with a numbered box over each ref, base64-encoded */
+    base64Image: string;
+    url: string;
+    title: string;
+    /** Marked refs in ref order */
+    legend: AnnotatedRef[];
+    /** One line per marked ref: `@e3 button "Submit" [x, y, width, height]` */
+    legendText: string;
+}
+
+/** Element states `waitFor` can wait for; `attached` only needs the element in the DOM */
+export type ElementWaitState = 'attached' | 'visible' | 'hidden' | 'detached' | 'enabled';
+
+/**
+ * One condition for `waitFor`, plus how long to wait for it.
+ */
+export interface WaitForOptions {
+    /** @ref or CSS selector, waited for in `state` */
+    selector?: string;
+    /** State of `selector` to wait for (default: 'visible'); `hidden` is also met by a missing element */
+    state?: ElementWaitState;
+    /** Text to appear anywhere in the page */
+    text?: string;
+    /** Text to disappear from the page */
+    textGone?: string;
+    /** URL to wait for: a RegExp, a glob such as `https://shop.example.com/**`, or a substring */
+    url?: string | RegExp;
+    /** Wait until no requests have been in flight for `idleTime` */
+    networkIdle?: boolean;
+    /** Quiet period for `networkIdle` in ms (default: 500) */
+    idleTime?: number;
+    /** JS expression polled until it returns a truthy value. Needs `allowUnsafe`, like evaluate() */
+    fn?: string;
+    allowUnsafe?: boolean;
+    /** Wait until the accessibility snapshot stops changing */
+    stable?: boolean;
+    /** Consecutive unchanged snapshots that count as stable (default: 3) */
+    stablePolls?: number;
+    /** Max wait in ms (default: 30000) */
+    timeout?: number;
+    /** Poll interval in ms (default: 100, or 500 for `stable`) */
+    interval?: number;
+}
+
+export interface WaitForResult {
+    /** What was waited for, e.g. `text "Saved" to appear` */
+    condition: string;
+    /** ms until the condition was met */
+    elapsed: number;
+}
+
+const DEFAULT_WAIT_TIMEOUT = 30000;
+const DEFAULT_POLL_INTERVAL = 100;
+const DEFAULT_STABLE_INTERVAL = 500;
+const DEFAULT_STABLE_POLLS = 3;
+const DEFAULT_NETWORK_IDLE_TIME = 500;
+/** Refs measured at once for annotated screenshots */
+const REF_BOX_CHUNK_SIZE = 50;
 
 export class PageService {
     private pageSessionMap = new WeakMap<object, string>();
@@ -60,6 +145,56 @@ export class PageService {
         };
     }
 
+    // =================== Screenshots ===================
+
+    /**
+     * Screenshot with a labelled box over each ref'd element ("set of marks").
+     * Takes a fresh snapshot first, so the labels are the refs that `click('@e12')`
+     * and the other actions resolve from now on.
+     */
+    async screenshotAnnotated(page: any, options: AnnotatedScreenshotOptions = {}): Promise<AnnotatedScreenshot> {
+        const sessionId = this.getSessionId(page);
+        const fullPage = options.fullPage || false;
+        const snapshot = await this.snapshot(page, {
+            scope: fullPage ? 'full' : 'viewport',
+            interactiveOnly: options.interactiveOnly,
+            maxElements: options.maxElements,
+        });
+        const stored = await this.refStore.load(sessionId, this.clientId);
+        const boxes = await this.getRefBoxes(page, stored?.refs || new Map());
+
+        const viewport = fullPage ? null : await page.evaluate(() => ({ width: window.innerWidth, height: window.innerHeight }));
+        const scroll = fullPage ? await page.evaluate(() => ({ x: window.scrollX, y: window.scrollY })) : { x: 0, y: 0 };
+        const legend: AnnotatedRef[] = [];
+        const marks: Mark[] = [];
+        for (const [ref, mapping] of stored?.refs || []) {
+            const box = boxes.get(ref);
+            if (!box || box.width <= 0 || box.height <= 0) continue;
+            if (viewport && (box.x + box.width <= 0 || box.y + box.height <= 0 || box.x >= viewport.width || box.y >= viewport.height)) continue;
+            marks.push({ label: ref, ...box });
+            legend.push({ ref, role: mapping.role, name: mapping.name, box: this.roundBox({ ...box, x: box.x + scroll.x, y: box.y + scroll.y }) });
+        }
+
+        await page.evaluate(drawMarks, { id: MARKS_OVERLAY_ID, marks, colors: MARK_COLORS });
+        let base64Image: string;
+        try {
+            base64Image = detectFramework(page) === 'playwright'
+                ? (await page.screenshot({ fullPage })).toString('base64')
+                : await page.screenshot({ encoding: 'base64', fullPage });
+        } finally {
+            await page.evaluate(removeMarks, MARKS_OVERLAY_ID).catch(() => {});
+        }
+
+        return {
+            base64Image,
+            url: snapshot.url,
+            title: snapshot.title,
+            legend,
+            legendText: legend.map(({ ref, role, name, box }) =>
+                `${ref} ${role}${name ? ` "${name}"` : ''} [${box.x}, ${box.y}, ${box.width}, ${box.height}]`).join('\n'),
+        };
+    }
+
     // =================== Navigation ===================
 
     async navigate(page: any, url: string, options?: { waitUntil?: string; timeout?: number }): Promise<{ url: string, title: string }> {
@@ -94,6 +229,209 @@ export class PageService {
         }
     }
 
+    /**
+     * Wait for one condition: an element state, text appearing or disappearing, a URL,
+     * network idle, a JS predicate or a stable snapshot. Throws a WaitTimeoutError
+     * naming the condition and the last state seen when `timeout` runs out.
+     */
+    async waitFor(page: any, options: WaitForOptions): Promise<WaitForResult> {
+        const timeout = options.timeout ?? DEFAULT_WAIT_TIMEOUT;
+        const interval = options.interval ?? DEFAULT_POLL_INTERVAL;
+        const given = (['selector', 'text', 'textGone', 'url', 'networkIdle', 'fn', 'stable'] as const)
+            .filter(key => options[key] !== undefined && options[key] !== false);
+        if (given.length !== 1) {
+            throw new Error(`waitFor() needs exactly one condition: selector, text, textGone, url, networkIdle, fn or stable${given.length ? ` (got ${given.join(', ')})` : ''}`);
+        }
+
+        if (options.networkIdle) {
+            const idleTime = options.idleTime ?? DEFAULT_NETWORK_IDLE_TIME;
+            const elapsed = await waitForNetworkIdle(page, { idleTime, timeout });
+            return { condition: `network to be idle for ${idleTime}ms`, elapsed };
+        }
+
+        if (options.stable) {
+            return this.waitForStableSnapshot(page, options.stablePolls ?? DEFAULT_STABLE_POLLS, timeout, options.interval ?? DEFAULT_STABLE_INTERVAL);
+        }
+
+        let condition: string;
+        let check: () => Promise<PollResult>;
+        if (options.selector !== undefined) {
+            const selector = options.selector;
+            const state = options.state ?? 'visible';
+            if (!['attached', 'visible', 'hidden', 'detached', 'enabled'].includes(state)) {
+                throw new Error(`Invalid element state "${state}". Use attached, visible, hidden, detached or enabled.`);
+            }
+            await this.assertKnownRef(page, selector);
+            // A look-alike found by role and name would keep a removed ref "attached"
+            const fuzzy = state !== 'hidden' && state !== 'detached';
+            condition = `"${selector}" to be ${state}`;
+            check = async () => {
+                const current = await this.getElementState(page, selector, fuzzy);
+                switch (state) {
+                    case 'attached':
+                        return { done: current !== 'detached', state: current };
+                    case 'hidden':
+                        return { done: current !== 'visible', state: current };
+                    case 'enabled': {
+                        if (current === 'detached') return { done: false, state: current };
+                        const enabled = await this.isEnabled(page, selector);
+                        return { done: enabled, state: enabled ? 'enabled' : 'disabled' };
+                    }
+                    default:
+                        return { done: current === state, state: current };
+                }
+            };
+        } else if (options.text !== undefined || options.textGone !== undefined) {
+            const appear = options.text !== undefined;
+            const text = (appear ? options.text : options.textGone) as string;
+            condition = `text "${text}" to ${appear ? 'appear' : 'disappear'}`;
+            check = async () => {
+                const found = await page.evaluate((t: string) => (document.body?.innerText ?? '').includes(t), text);
+                return { done: found === appear, state: found ? 'present' : 'absent' };
+            };
+        } else if (options.url !== undefined) {
+            const pattern = options.url;
+            condition = `URL to match ${pattern instanceof RegExp ? pattern.toString() : `"${pattern}"`}`;
+            check = async () => {
+                const url = await this.getUrl(page);
+                return { done: matchesUrl(pattern, url), state: url };
+            };
+        } else {
+            const script = options.fn as string;
+            if (!options.allowUnsafe) {
+                throw new Error(
+                    'waitFor() with a JS predicate is restricted by default, like evaluate(). ' +
+                    'Pass { allowUnsafe: true } to explicitly opt in to arbitrary JS execution.'
+                );
+            }
+            condition = `${JSON.stringify(script)} to be truthy`;
+            check = async () => {
+                const value = await page.evaluate(script);
+                return { done: !!value, state: value ?? null };
+            };
+        }
+
+        const elapsed = await pollUntil(check, { condition, timeout, interval });
+        return { condition, elapsed };
+    }
+
+    /**
+     * Take snapshots until `polls` in a row show no change from the one before.
+     */
+    private async waitForStableSnapshot(page: any, polls: number, timeout: number, interval: number): Promise<WaitForResult> {
+        const sessionId = this.getSessionId(page);
+        const condition = `the snapshot to be unchanged for ${polls} polls`;
+        let previous = await this.snapshotService.capture(page, sessionId);
+        let unchanged = 0;
+        const elapsed = await pollUntil(async () => {
+            const current = await this.snapshotService.capture(page, sessionId);
+            const diff = this.snapshotService.diff(previous, current);
+            previous = current;
+            const changes = diff.added.length + diff.removed.length + diff.changed.length + (diff.urlChanged ? 1 : 0);
+            unchanged = changes === 0 ? unchanged + 1 : 0;
+            return { done: unchanged >= polls, state: changes === 0 ? `unchanged for ${unchanged} polls` : `${changes} changes` };
+        }, { condition, timeout, interval });
+        return { condition, elapsed };
+    }
+
+    // =================== Tabs ===================
+
+    /** Tabs of the page's browser (Puppeteer) or browser context (Playwright); `page`'s tab is active */
+    async listTabs(page: any): Promise<TabInfo[]> {
+        this.getSessionId(page);
+        return describeTabs(await listPages(page), page);
+    }
+
+    /**
+     * Open a tab next to `page`, optionally navigating it to `url`. The new page is
+     * bound to the same session; use it for subsequent calls.
+     */
+    async newTab(page: any, url?: string, options?: { waitUntil?: string; timeout?: number }): Promise<{ page: any, tab: TabInfo }> {
+        const sessionId = this.getSessionId(page);
+        const context = detectFramework(page) === 'playwright' ? page.context() : page.browserContext();
+        const newPage = await context.newPage();
+        if (url) await this.navigate(newPage, url, options);
+        return this.activate(newPage, sessionId);
+    }
+
+    /** Bring the tab with id `tabId` to the front and bind it to `page`'s session */
+    async switchTab(page: any, tabId: string): Promise<{ page: any, tab: TabInfo }> {
+        const sessionId = this.getSessionId(page);
+        const target = await findPageByTabId(await listPages(page), tabId);
+        if (!target) throw new Error(`Tab "${tabId}" not found. Run 'page tab list' to see open tabs.`);
+        await target.bringToFront();
+        return this.activate(target, sessionId);
+    }
+
+    /**
+     * Close the tab with id `tabId` (default: `page`'s own). Returns the tab to
+     * continue in — `page`, or the last remaining tab when `page` was closed —
+     * or null when no tab is left.
+     */
+    async closeTab(page: any, tabId?: string): Promise<{ closed: string, page: any | null, tab: TabInfo | null }> {
+        const sessionId = this.getSessionId(page);
+        const pages = await listPages(page);
+        const target = tabId ? await findPageByTabId(pages, tabId) : page;
+        if (!target) throw new Error(`Tab "${tabId}" not found. Run 'page tab list' to see open tabs.`);
+        const closed = await getTabId(target, pages);
+        await target.close();
+        if (target !== page) return { closed, ...await this.activate(page, sessionId) };
+
+        const remaining = pages.filter(p => p !== target);
+        if (remaining.length === 0) return { closed, page: null, tab: null };
+        const next = remaining[remaining.length - 1];
+        await next.bringToFront();
+        return { closed, ...await this.activate(next, sessionId) };
+    }
+
+    /**
+     * Wait for a popup (window.open, target=_blank link) opened by `page`, clicking
+     * `options.click` first if given. The popup is bound to the same session.
+     */
+    async waitForPopup(page: any, options: { click?: string, timeout?: number } = {}): Promise<{ page: any, tab: TabInfo }> {
+        const sessionId = this.getSessionId(page);
+        const timeout = options.timeout ?? 30000;
+        let stopWaiting = () => {};
+        const popup = new Promise<any>((resolve, reject) => {
+            const onPopup = (opened: any) => {
+                // Puppeteer reports null for popups it can't attach to
+                if (!opened) return;
+                stopWaiting();
+                resolve(opened);
+            };
+            const timer = setTimeout(() => {
+                stopWaiting();
+                reject(new Error(`No popup opened within ${timeout}ms`));
+            }, timeout);
+            stopWaiting = () => {
+                clearTimeout(timer);
+                page.off('popup', onPopup);
+            };
+            page.on('popup', onPopup);
+        });
+        if (options.click) {
+            try {
+                await this.click(page, options.click);
+            } catch (err) {
+                stopWaiting();
+                throw err;
+            }
+        }
+        const popupPage = await popup;
+        if (detectFramework(popupPage) === 'playwright') {
+            await popupPage.waitForLoadState('domcontentloaded', { timeout }).catch(() => {});
+        } else {
+            await popupPage.waitForFunction(() => document.readyState !== 'loading', { timeout }).catch(() => {});
+        }
+        return this.activate(popupPage, sessionId);
+    }
+
+    private async activate(page: any, sessionId: string): Promise<{ page: any, tab: TabInfo }> {
+        this.bind(page, sessionId);
+        const tab = (await describeTabs(await listPages(page), page)).find(t => t.active)!;
+        return { page, tab };
+    }
+
     // =================== Interaction ===================
 
     async click(page: any, selector: string, options?: { button?: string }): Promise<void> {
@@ -180,18 +518,32 @@ export class PageService {
         const framework = detectFramework(page);
         const srcEl = await this.resolveSelector(page, source);
         const tgtEl = await this.resolveSelector(page, target);
-        if (framework === 'playwright') {
-            await srcEl.dragTo(tgtEl);
-        } else {
-            const srcBox = await srcEl.boundingBox();
-            const tgtBox = await tgtEl.boundingBox();
-            if (!srcBox) throw new Error(`Source element "${source}" has no bounding box (may be hidden or zero-size)`);
-            if (!tgtBox) throw new Error(`Target element "${target}" has no bounding box (may be hidden or zero-size)`);
-            await page.mouse.move(srcBox.x + srcBox.width / 2, srcBox.y + srcBox.height / 2);
-            await page.mouse.down();
-            await page.mouse.move(tgtBox.x + tgtBox.width / 2, tgtBox.y + tgtBox.height / 2);
-            await page.mouse.up();
+        // Both ends must be on screen at once — bring the target in, then the source
+        for (const element of [tgtEl, srcEl]) {
+            if (framework === 'playwright') {
+                await element.scrollIntoViewIfNeeded();
+            } else {
+                await element.evaluate((el: Element) => el.scrollIntoView({ block: 'nearest', inline: 'nearest' }));
+            }
         }
+        const srcBox = await srcEl.boundingBox();
+        const tgtBox = await tgtEl.boundingBox();
+        if (!srcBox) throw new Error(`Source element "${source}" has no bounding box (may be hidden or zero-size)`);
+        if (!tgtBox) throw new Error(`Target element "${target}" has no bounding box (may be hidden or zero-size)`);
+        const viewport = await page.evaluate(() => ({ width: window.innerWidth, height: window.innerHeight }));
+        const onScreen = (box: { x: number, y: number, width: number, height: number }) => {
+            const cx = box.x + box.width / 2;
+            const cy = box.y + box.height / 2;
+            return cx >= 0 && cy >= 0 && cx <= viewport.width && cy <= viewport.height;
+        };
+        if (!onScreen(srcBox) || !onScreen(tgtBox)) {
+            throw new Error(`Cannot drag "${source}" to "${target}": they don't fit on screen together. Scroll or resize the viewport so both are visible.`);
+        }
+        await dragAndDrop(
+            page,
+            { x: srcBox.x + srcBox.width / 2, y: srcBox.y + srcBox.height / 2 },
+            { x: tgtBox.x + tgtBox.width / 2, y: tgtBox.y + tgtBox.height / 2 },
+        );
     }
 
     async upload(page: any, selector: string, files: string[]): Promise<void> {
@@ -204,8 +556,9 @@ export class PageService {
         }
     }
 
+    /** Press a key or chord: "Enter", "Control+A", "ctrl+shift+t" */
     async press(page: any, key: string): Promise<void> {
-        await page.keyboard.press(key);
+        await pressKeyChord(page, key);
     }
 
     async scroll(page: any, options?: { selector?: string, direction?: string, amount?: number }): Promise<void> {
@@ -281,7 +634,9 @@ export class PageService {
     }
 
     async getCount(page: any, selector: string): Promise<number> {
-        // Resolve @ref selectors to their CSS selector before counting
+        const framework = detectFramework(page);
+        // Resolve @ref selectors to their CSS selector (and frame) before counting
+        let scope = page;
         let resolvedSelector = selector;
         if (selector.startsWith('@e')) {
             const sessionId = this.getSessionId(page);
@@ -292,14 +647,14 @@ export class PageService {
             if (!mapping.css) {
                 throw new Error(`Ref "${selector}" has no CSS selector. Cannot count elements.`);
             }
+            scope = await this.resolveFrameScope(page, mapping, selector, framework);
             resolvedSelector = mapping.css;
         }
 
-        const framework = detectFramework(page);
         if (framework === 'playwright') {
-            return await page.locator(resolvedSelector).count();
+            return await scope.locator(this.toPlaywrightCss(resolvedSelector)).count();
         } else {
-            const elements = await page.$$(resolvedSelector);
+            const elements = await scope.$$(resolvedSelector);
             return elements.length;
         }
     }
@@ -313,17 +668,8 @@ export class PageService {
 
     async isVisible(page: any, selector: string): Promise<boolean> {
         try {
-            const framework = detectFramework(page);
             const element = await this.resolveSelector(page, selector);
-            if (framework === 'playwright') {
-                return await element.isVisible();
-            } else {
-                // Puppeteer ElementHandle does not have .isVisible()
-                return await element.evaluate((el: any) => {
-                    const s = window.getComputedStyle(el);
-                    return s.display !== 'none' && s.visibility !== 'hidden' && parseFloat(s.opacity) !== 0;
-                });
-            }
+            return await this.isElementVisible(element, detectFramework(page));
         } catch {
             return false;
         }
@@ -372,6 +718,24 @@ export class PageService {
         }
     }
 
+    // =================== Assertions ===================
+
+    /**
+     * Retrying assertions on the element `selector` matches, or on the page itself:
+     * `await pageService.expect(page, '@e3').toHaveText('Saved')` resolves to a pass/fail result.
+     */
+    expect(page: any, selector?: string): PageAssertions {
+        this.getSessionId(page);
+        // PageAssertions only reads elements when it was given a selector
+        return new PageAssertions({
+            selector,
+            validate: () => selector ? this.assertKnownRef(page, selector) : Promise.resolve(),
+            url: () => this.getUrl(page),
+            count: () => this.getCount(page, selector!),
+            read: what => this.readElement(page, selector!, what),
+        });
+    }
+
     // =================== Find ===================
 
     async findByRole(page: any, role: string, options?: { name?: string }): Promise<{ ref: string, name: string }[]> {
@@ -418,6 +782,88 @@ export class PageService {
         return await page.evaluate(script);
     }
 
+    // =================== Private: Element State ===================
+
+    private async isElementVisible(element: any, framework: string): Promise<boolean> {
+        if (framework === 'playwright') {
+            return await element.isVisible();
+        }
+        // Puppeteer ElementHandle does not have .isVisible()
+        return await element.evaluate((el: any) => {
+            const s = window.getComputedStyle(el);
+            // No client rects: display:none on the element or an ancestor
+            return el.getClientRects().length > 0 && s.visibility !== 'hidden' && parseFloat(s.opacity) !== 0;
+        });
+    }
+
+    /**
+     * An unknown ref is a mistake to report at once, not a state to wait out.
+     */
+    private async assertKnownRef(page: any, selector: string): Promise<void> {
+        if (selector.startsWith('@e') && !await this.refStore.get(this.getSessionId(page), selector, this.clientId)) {
+            throw new Error(`Unknown ref "${selector}". Run 'page snapshot' first to capture element refs.`);
+        }
+    }
+
+    /**
+     * Read one property of an element without waiting for it; null when nothing matches.
+     */
+    private async readElement(page: any, selector: string, what: 'text' | 'value' | 'visible' | 'checked'): Promise<string | boolean | null> {
+        const framework = detectFramework(page);
+        const element = await this.queryElement(page, selector);
+        if (!element) return null;
+        switch (what) {
+            case 'visible':
+                return await this.isElementVisible(element, framework);
+            case 'text':
+                return framework === 'playwright'
+                    ? await element.textContent() || ''
+                    : await element.evaluate((el: any) => el.textContent || '');
+            case 'value':
+                return framework === 'playwright'
+                    ? await element.inputValue()
+                    : await element.evaluate((el: any) => el.value || '');
+            case 'checked':
+                return framework === 'playwright'
+                    ? await element.isChecked()
+                    : await element.evaluate((el: any) => el.checked || false);
+        }
+    }
+
+    /**
+     * Whether an element is in the DOM and visible right now, without waiting for it.
+     */
+    private async getElementState(page: any, selector: string, fuzzy = true): Promise<'detached' | 'hidden' | 'visible'> {
+        const element = await this.queryElement(page, selector, fuzzy);
+        if (!element) return 'detached';
+        return await this.isElementVisible(element, detectFramework(page)) ? 'visible' : 'hidden';
+    }
+
+    /**
+     * Like resolveSelector, but returns null at once when nothing matches.
+     * Without `fuzzy`, a ref is only found at its own node or path.
+     */
+    private async queryElement(page: any, selector: string, fuzzy = true): Promise<any | null> {
+        const framework = detectFramework(page);
+        if (selector.startsWith('@e')) {
+            const mapping = await this.refStore.get(this.getSessionId(page), selector, this.clientId);
+            if (!mapping) return null;
+            try {
+                return await this.resolveRefToElement(page, mapping, selector, framework, { wait: false, fuzzy });
+            } catch {
+                return null;
+            }
+        }
+        if (framework === 'playwright') {
+            const locator = page.locator(selector).first();
+            return await locator.count() > 0 ? locator : null;
+        }
+        if (selector.startsWith('//') || selector.startsWith('xpath/')) {
+            return await page.$(`::-p-xpath(${selector.replace(/^xpath\//, '')})`);
+        }
+        return await page.$(selector);
+    }
+
     // =================== Private: Selector Resolution ===================
 
     private async resolveSelector(page: any, selector: string): Promise<any> {
@@ -443,38 +889,96 @@ export class PageService {
         }
     }
 
-    private async resolveRefToElement(page: any, mapping: RefMapping, ref: string, framework: string): Promise<any> {
-        // Step 1: Try CSS (faster than xpath)
+    /**
+     * Frame a ref lives in: the page itself, a Puppeteer Frame, or a chain of
+     * Playwright FrameLocators. Walks the ref's iframe CSS path from the top.
+     */
+    private async resolveFrameScope(page: any, mapping: RefMapping, ref: string, framework: string): Promise<any> {
+        if (!mapping.framePath?.length) return page;
+
+        if (framework === 'playwright') {
+            let scope = page;
+            for (const selector of mapping.framePath) {
+                scope = scope.frameLocator(this.toPlaywrightCss(selector));
+            }
+            return scope;
+        }
+
+        let frame = page.mainFrame();
+        for (const selector of mapping.framePath) {
+            const owner = await frame.waitForSelector(selector, { timeout: 5000 }).catch(() => null);
+            frame = owner ? await owner.contentFrame() : null;
+            if (!frame) {
+                throw new Error(
+                    `Frame of ${ref} (${mapping.role} "${mapping.name}") is no longer on the page. ` +
+                    `Run 'page snapshot' to refresh refs.`
+                );
+            }
+        }
+        return frame;
+    }
+
+    private async resolveRefToElement(
+        page: any, mapping: RefMapping, ref: string, framework: string,
+        { wait = true, fuzzy = true }: { wait?: boolean, fuzzy?: boolean } = {},
+    ): Promise<any> {
+        const scope = await this.resolveFrameScope(page, mapping, ref, framework);
+
+        // Step 1: Re-locate the snapshot's DOM node, which outlives changes that shift its CSS path
+        if (mapping.backendNodeId) {
+            const path = await this.describeBackendNode(page, mapping);
+            if (path?.css) {
+                try {
+                    if (framework === 'playwright') {
+                        const locator = scope.locator(this.toPlaywrightCss(path.css));
+                        if (await locator.count() === 1) return locator;
+                    } else {
+                        const el = await scope.$(path.css);
+                        if (el) return el;
+                    }
+                } catch { /* fall through */ }
+            }
+        }
+
+        // Step 2: Try CSS (faster than xpath)
         if (mapping.css) {
             try {
                 if (framework === 'playwright') {
-                    const locator = page.locator(mapping.css);
-                    if (await locator.count() > 0) return locator.first();
+                    const locator = scope.locator(this.toPlaywrightCss(mapping.css));
+                    if (await locator.count() === 1) return locator;
                 } else {
-                    const el = await page.waitForSelector(mapping.css, { timeout: 5000 });
+                    const el = wait ? await scope.waitForSelector(mapping.css, { timeout: 5000 }) : await scope.$(mapping.css);
                     if (el) return el;
                 }
             } catch { /* fall through */ }
         }
 
-        // Step 2: Try XPath
+        // Step 3: Try XPath
         if (mapping.xpath) {
             try {
                 if (framework === 'playwright') {
-                    const locator = page.locator(`xpath=${mapping.xpath}`);
+                    const locator = scope.locator(`xpath=${mapping.xpath}`);
                     if (await locator.count() > 0) return locator.first();
                 } else {
-                    const el = await page.waitForSelector(`::-p-xpath(${mapping.xpath})`, { timeout: 5000 });
+                    const el = wait
+                        ? await scope.waitForSelector(`::-p-xpath(${mapping.xpath})`, { timeout: 5000 })
+                        : await scope.$(`::-p-xpath(${mapping.xpath})`);
                     if (el) return el;
                 }
             } catch { /* fall through */ }
         }
 
-        // Step 3: Fuzzy match by role + name (Playwright only)
-        if (framework === 'playwright' && mapping.role && mapping.name) {
+        // Step 4: Fuzzy match by role + name
+        if (fuzzy && mapping.role && mapping.name) {
             try {
-                const locator = page.getByRole(mapping.role, { name: mapping.name });
-                if (await locator.count() > 0) return locator.first();
+                if (framework === 'playwright') {
+                    const locator = scope.getByRole(mapping.role, { name: mapping.name });
+                    if (await locator.count() > 0) return locator.first();
+                } else {
+                    const name = mapping.name.trim().replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+                    const el = await scope.$(`::-p-aria([name="${name}"][role="${mapping.role}"])`);
+                    if (el) return el;
+                }
             } catch { /* fall through */ }
         }
 
@@ -483,4 +987,97 @@ export class PageService {
             `Page may have changed. Run 'page snapshot' to refresh refs.`
         );
     }
+
+    /**
+     * Current path of a ref's DOM node, looked up by its backend node id. The
+     * node's role and name must still match the ref: backend ids restart in a
+     * new renderer process, so a stale id can point at an unrelated node.
+     * Returns null without CDP access or for nodes in out-of-process iframes.
+     */
+    private async describeBackendNode(page: any, mapping: RefMapping): Promise<ElementPath | null> {
+        let session: any;
+        try {
+            session = await createCdpSession(page);
+        } catch {
+            return null;
+        }
+        try {
+            const { nodes } = await session.send('Accessibility.getPartialAXTree', {
+                backendNodeId: mapping.backendNodeId,
+                fetchRelatives: false,
+            });
+            const node = nodes?.[0];
+            if (!node || node.role?.value !== mapping.role || (node.name?.value ?? '') !== mapping.name) return null;
+            return await describeElementPath(session, mapping.backendNodeId!);
+        } catch {
+            return null;
+        } finally {
+            try { await session.detach(); } catch { /* already detached */ }
+        }
+    }
+
+    /**
+     * Viewport boxes of refs, measured a chunk of refs at a time. Top-frame refs
+     * are measured in one CDP session by backend node id; the rest (and
+     * everything without CDP) through their element, looked up at its own node
+     * or path without waiting. Refs without a box are left out, rather than
+     * boxing a look-alike element.
+     */
+    private async getRefBoxes(page: any, refs: Map<string, RefMapping>): Promise<Map<string, { x: number, y: number, width: number, height: number }>> {
+        const boxes = new Map<string, { x: number, y: number, width: number, height: number }>();
+        let session: any;
+        try {
+            session = await createCdpSession(page);
+        } catch {
+            session = null;
+        }
+        const measure = async (ref: string, mapping: RefMapping) => {
+            // Backend ids of out-of-process iframes overlap the top frame's, so only top-frame ids are looked up here
+            if (session && mapping.backendNodeId !== undefined && !mapping.frameId) {
+                try {
+                    const { model } = await session.send('DOM.getBoxModel', { backendNodeId: mapping.backendNodeId });
+                    const xs = [0, 2, 4, 6].map(i => model.border[i]);
+                    const ys = [1, 3, 5, 7].map(i => model.border[i]);
+                    const x = Math.min(...xs);
+                    const y = Math.min(...ys);
+                    boxes.set(ref, { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y });
+                    return;
+                } catch {
+                    // Not rendered, or the node is gone — fall through to the element lookup
+                }
+            }
+            try {
+                // No waiting: a ref that isn't on the page now won't turn up while the overlay is drawn
+                const element = await this.queryElement(page, ref, false);
+                const box = element ? await element.boundingBox() : null;
+                if (box) boxes.set(ref, box);
+            } catch {
+                // Not rendered
+            }
+        };
+        try {
+            const entries = [...refs];
+            for (let i = 0; i < entries.length; i += REF_BOX_CHUNK_SIZE) {
+                await Promise.all(entries.slice(i, i + REF_BOX_CHUNK_SIZE).map(([ref, mapping]) => measure(ref, mapping)));
+            }
+        } finally {
+            if (session) {
+                try { await session.detach(); } catch { /* already detached */ }
+            }
+        }
+        return boxes;
+    }
+
+    private roundBox(box: { x: number, y: number, width: number, height: number }): { x: number, y: number, width: number, height: number } {
+        return { x: Math.round(box.x), y: Math.round(box.y), width: Math.round(box.width), height: Math.round(box.height) };
+    }
+
+    /**
+     * Playwright spelling of a shadow-root path: `>>` scopes the next selector to
+     * the host, piercing its shadow root. The scoped part can also match the
+     * host's light-DOM descendants, so callers only accept a single match.
+     */
+    private toPlaywrightCss(css: string): string {
+        return css.split(SHADOW_ROOT_COMBINATOR).join(' >> ');
+    }
 }
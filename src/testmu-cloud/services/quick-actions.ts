@@ -1,14 +1,39 @@
 import puppeteer, { Page, Browser } from 'puppeteer-core';
 import puppeteerExtra from '../utils/puppeteer-extra.js';
+import { serializeDom } from '../utils/dom-tree.js';
+import { domToMarkdown } from '../utils/html-to-markdown.js';
+import { extractArticle } from '../utils/readability.js';
+import { CRAWLER_USER_AGENT, fetchRobotsRules, normalizeCrawlUrl, RobotsRules } from '../utils/crawl.js';
+import { matchesUrl } from '../utils/route-match.js';
+import { compileExtractSchema, extractFromPage } from '../utils/extract.js';
+import { loadUrlList } from '../utils/batch.js';
 import {
+    BatchItemResult,
+    BatchParams,
+    BatchResponse,
+    CrawlParams,
+    CrawlResponse,
+    ExtractParams,
+    ExtractResponse,
+    ScrapeArticle,
+    ScrapeManyParams,
     ScrapeParams,
     ScrapeResponse,
+    ScreenshotManyParams,
     ScreenshotParams,
     ScreenshotResponse,
+    PdfManyParams,
     PdfParams,
     PdfResponse
 } from '../types.js';
 
+const DEFAULT_CRAWL_MAX_PAGES = 50;
+const DEFAULT_CRAWL_MAX_DEPTH = 2;
+const DEFAULT_CRAWL_CONCURRENCY = 2;
+const DEFAULT_BATCH_CONCURRENCY = 4;
+const DEFAULT_BATCH_RETRIES = 2;
+const DEFAULT_BATCH_RETRY_DELAY = 1000;
+
 /**
  * QuickActionsService - TestMu AI Browser Cloud-compatible Quick Actions
  * 
@@ -33,16 +58,18 @@ export class QuickActionsService {
     }
 
     /**
-     * Get a page - either from existing session or create transient browser
+     * Get a page - either from existing session or create transient browser.
+     * `shared` is set for a session's page, which the user may be working in.
      */
-    private async getPage(sessionId?: string): Promise<{ page: Page; cleanup: () => Promise<void> }> {
+    private async getPage(sessionId?: string): Promise<{ page: Page; cleanup: () => Promise<void>; shared: boolean }> {
         if (sessionId && this.sessionPages.has(sessionId)) {
             // Use existing session page
             const page = this.sessionPages.get(sessionId);
             if (!page) throw new Error(`No page found for session "${sessionId}". Session may have been released.`);
             return {
                 page,
-                cleanup: async () => { } // No cleanup needed for existing session
+                cleanup: async () => { }, // No cleanup needed for existing session
+                shared: true
             };
         }
 
@@ -74,7 +101,8 @@ export class QuickActionsService {
             page,
             cleanup: async () => {
                 await browser.close();
-            }
+            },
+            shared: false
         };
     }
 
@@ -102,55 +130,204 @@ export class QuickActionsService {
         const { page, cleanup } = await this.getPage(opts.sessionId);
 
         try {
-            await page.goto(opts.url, { waitUntil: 'networkidle2' });
-            await this.waitForPage(page, opts.delay, opts.waitFor);
-
-            const title = await page.title();
-            const html = await page.content();
-
-            let content = html;
-            let markdown: string | undefined;
-
-            // Format conversion
-            if (opts.format === 'text') {
-                content = await page.evaluate(() => document.body.innerText);
-            } else if (opts.format === 'markdown') {
-                // Basic HTML to markdown conversion
-                content = await page.evaluate(() => document.body.innerText);
-                markdown = content; // Placeholder - use turndown for proper conversion
-            } else if (opts.format === 'readability') {
-                // Readability extraction
-                content = await page.evaluate(() => {
-                    // Simple extraction of main content
-                    const article = document.querySelector('article') ||
-                        document.querySelector('main') ||
-                        document.querySelector('.content') ||
-                        document.body;
-                    return article?.innerText || '';
-                });
-            }
+            return await this.scrapePage(page, opts);
+        } finally {
+            await cleanup();
+        }
+    }
+
+    /**
+     * Crawl a site from `startUrl`, following links breadth-first, and yield
+     * each page as it is scraped. URLs are deduped after normalization (no
+     * fragment, sorted query, no trailing slash). A page that fails to load, or
+     * redirects somewhere the crawl may not go, is yielded with `error` set.
+     * Breaking out of the loop stops the crawl.
+     *
+     * robots.txt is fetched with the user agent the pages load with. In a
+     * session, the crawl runs in tabs of its own and leaves the session's page
+     * where it is.
+     */
+    async *crawl(params: CrawlParams): AsyncGenerator<CrawlResponse> {
+        const maxPages = countParam('maxPages', params.maxPages, DEFAULT_CRAWL_MAX_PAGES, 1);
+        const maxDepth = countParam('maxDepth', params.maxDepth, DEFAULT_CRAWL_MAX_DEPTH, 0);
+        const concurrency = countParam('concurrency', params.concurrency, DEFAULT_CRAWL_CONCURRENCY, 1);
+        const start = normalizeCrawlUrl(params.startUrl);
+        if (!start) throw new Error(`Invalid start URL "${params.startUrl}": only http(s) URLs can be crawled`);
+        let origin = new URL(start).origin;
+
+        const { page, cleanup, shared } = await this.getPage(params.sessionId);
+        const tabs: Page[] = [];
+        const openTab = async () => {
+            const tab = await page.browser().newPage();
+            tabs.push(tab);
+            return tab;
+        };
+
+        let userAgent: string | undefined;
+        const robots = new Map<string, Promise<RobotsRules>>();
+        const isAllowed = async (url: string) => {
+            if (params.respectRobotsTxt === false) return true;
+            const { origin: urlOrigin } = new URL(url);
+            if (!robots.has(urlOrigin)) robots.set(urlOrigin, fetchRobotsRules(urlOrigin, userAgent, CRAWLER_USER_AGENT));
+            return (await robots.get(urlOrigin)!).isAllowed(url);
+        };
+        const shouldFollow = (url: string) => {
+            if (params.sameOrigin !== false && new URL(url).origin !== origin) return false;
+            if (params.includePatterns?.length && !params.includePatterns.some(pattern => matchesUrl(pattern, url))) return false;
+            return !params.excludePatterns?.some(pattern => matchesUrl(pattern, url));
+        };
 
-            // Extract metadata
-            const metadata = await page.evaluate(() => {
-                const metas: Record<string, string> = {};
-                document.querySelectorAll('meta').forEach(meta => {
-                    const name = meta.getAttribute('name') || meta.getAttribute('property');
-                    const content = meta.getAttribute('content');
-                    if (name && content) {
-                        metas[name] = content;
+        const idle: Page[] = [];
+        const queue: { url: string, depth: number }[] = [{ url: start, depth: 0 }];
+        const seen = new Set([start]);
+        const running = new Map<number, Promise<{ id: number, tab: Page, item: { url: string, depth: number }, result: CrawlResponse, links: string[] }>>();
+        let started = 0;
+        let nextId = 0;
+
+        try {
+            idle.push(shared ? await openTab() : page);
+            userAgent = await idle[0].evaluate(() => navigator.userAgent);
+            while (running.size > 0 || (queue.length > 0 && started < maxPages)) {
+                while (running.size < concurrency && queue.length > 0 && started < maxPages) {
+                    const item = queue.shift()!;
+                    if (!await isAllowed(item.url)) continue;
+                    if (idle.length === 0) idle.push(await openTab());
+                    const tab = idle.pop()!;
+                    const id = nextId++;
+                    started++;
+                    running.set(id, this.crawlPage(tab, item, params).then(outcome => ({ id, tab, item, ...outcome })));
+                }
+                if (running.size === 0) break;
+
+                const { id, tab, item, result, links } = await Promise.race(running.values());
+                running.delete(id);
+                idle.push(tab);
+                const landed = normalizeCrawlUrl(result.url);
+                if (landed && landed !== item.url) {
+                    seen.add(landed);
+                    // The start page may redirect to another origin (http to https, a www host), which the crawl then keeps to
+                    if (item.depth === 0) origin = new URL(landed).origin;
+                    const refused = item.depth > 0 && !shouldFollow(landed) ? 'outside the crawl'
+                        : !await isAllowed(landed) ? 'disallowed by robots.txt' : undefined;
+                    if (refused) {
+                        yield { title: '', content: '', url: item.url, depth: item.depth, error: `Redirected to ${result.url}, which is ${refused}` };
+                        continue;
                     }
-                });
-                return metas;
+                }
+                if (result.depth < maxDepth) {
+                    for (const link of links) {
+                        const url = normalizeCrawlUrl(link);
+                        if (!url || seen.has(url) || !shouldFollow(url)) continue;
+                        seen.add(url);
+                        queue.push({ url, depth: result.depth + 1 });
+                    }
+                }
+                yield result;
+            }
+        } finally {
+            for (const tab of tabs) await tab.close().catch(() => {});
+            await cleanup();
+        }
+    }
+
+    /**
+     * Scrape one crawled page and collect its links. Redirect targets are
+     * reported under the URL they ended on.
+     */
+    private async crawlPage(
+        page: Page,
+        item: { url: string, depth: number },
+        params: CrawlParams,
+    ): Promise<{ result: CrawlResponse, links: string[] }> {
+        try {
+            const scraped = await this.scrapePage(page, {
+                url: item.url,
+                format: params.format ?? 'markdown',
+                delay: params.delay,
+                waitFor: params.waitFor,
+            });
+            const links = await page.evaluate(() => Array.from(document.querySelectorAll('a[href]'), a => (a as HTMLAnchorElement).href));
+            return { result: { ...scraped, url: page.url() || item.url, depth: item.depth }, links };
+        } catch (err) {
+            const error = err instanceof Error ? err.message : String(err);
+            return { result: { title: '', content: '', url: item.url, depth: item.depth, error }, links: [] };
+        }
+    }
+
+    /**
+     * Load `opts.url` in `page` and extract its content in the requested format
+     */
+    private async scrapePage(page: Page, opts: ScrapeParams): Promise<ScrapeResponse> {
+        await page.goto(opts.url, { waitUntil: 'networkidle2' });
+        await this.waitForPage(page, opts.delay, opts.waitFor);
+
+        const title = await page.title();
+        const html = await page.content();
+
+        // Extract metadata
+        const metadata = await page.evaluate(() => {
+            const metas: Record<string, string> = {};
+            document.querySelectorAll('meta').forEach(meta => {
+                const name = meta.getAttribute('name') || meta.getAttribute('property');
+                const content = meta.getAttribute('content');
+                if (name && content) {
+                    metas[name] = content;
+                }
             });
+            return metas;
+        });
 
-            return {
-                title,
-                content,
-                url: opts.url,
-                html: opts.format !== 'html' ? undefined : html,
-                markdown,
-                metadata
-            };
+        let content = html;
+        let markdown: string | undefined;
+        let article: ScrapeArticle | undefined;
+
+        // Format conversion
+        if (opts.format === 'text') {
+            content = await page.evaluate(() => document.body.innerText);
+        } else if (opts.format === 'markdown') {
+            markdown = domToMarkdown(await page.evaluate(serializeDom));
+            content = markdown;
+        } else if (opts.format === 'readability') {
+            article = extractArticle(await page.evaluate(serializeDom), { title, url: page.url(), metadata });
+            content = article.textContent;
+            markdown = article.markdown;
+        }
+
+        return {
+            title,
+            content,
+            url: opts.url,
+            html: opts.format !== 'html' ? undefined : html,
+            markdown,
+            metadata,
+            article
+        };
+    }
+
+    /**
+     * Extract a typed record from a page. `schema` is a JSON Schema (properties
+     * located with `x-selector`, or found in the page's structured data) or a
+     * map of field names to selector rules. Fields that can't be read or don't
+     * match the schema are null, with an entry in `errors`.
+     */
+    async extract(params: ExtractParams): Promise<ExtractResponse> {
+        const specs = compileExtractSchema(params.schema);
+
+        if (params.page) {
+            if (params.url) await params.page.goto(params.url);
+            await this.waitForPage(params.page, params.delay, params.waitFor);
+            const { data, errors } = await extractFromPage(params.page, specs);
+            return { url: params.page.url(), data, errors, valid: errors.length === 0 };
+        }
+
+        if (!params.url) throw new Error('extract needs a url or a page');
+        const { page, cleanup } = await this.getPage(params.sessionId);
+
+        try {
+            await page.goto(params.url, { waitUntil: 'networkidle2' });
+            await this.waitForPage(page, params.delay, params.waitFor);
+            const { data, errors } = await extractFromPage(page, specs);
+            return { url: page.url(), data, errors, valid: errors.length === 0 };
         } finally {
             await cleanup();
         }
@@ -168,36 +345,45 @@ export class QuickActionsService {
         const { page, cleanup } = await this.getPage(opts.sessionId);
 
         try {
-            await page.goto(opts.url, { waitUntil: 'networkidle2' });
-
-            if (opts.delay && opts.delay > 0) {
-                await new Promise(resolve => setTimeout(resolve, opts.delay));
-            }
-
-            const viewport = page.viewport();
-            const data = await page.screenshot({
-                fullPage: opts.fullPage ?? true,
-                encoding: 'binary',
-                type: opts.format || 'png',
-                quality: opts.format === 'jpeg' ? opts.quality : undefined
-            }) as Buffer;
+            const result = await this.screenshotPage(page, opts);
 
             // Return old format for backwards compatibility if called with string
             if (typeof params === 'string') {
-                return data;
+                return result.data;
             }
 
-            return {
-                data,
-                format: opts.format || 'png',
-                width: viewport?.width || 1920,
-                height: viewport?.height || 1080
-            };
+            return result;
         } finally {
             await cleanup();
         }
     }
 
+    /**
+     * Load `opts.url` in `page` and capture it
+     */
+    private async screenshotPage(page: Page, opts: ScreenshotParams): Promise<ScreenshotResponse> {
+        await page.goto(opts.url, { waitUntil: 'networkidle2' });
+
+        if (opts.delay && opts.delay > 0) {
+            await new Promise(resolve => setTimeout(resolve, opts.delay));
+        }
+
+        const viewport = page.viewport();
+        const data = await page.screenshot({
+            fullPage: opts.fullPage ?? true,
+            encoding: 'binary',
+            type: opts.format || 'png',
+            quality: opts.format === 'jpeg' ? opts.quality : undefined
+        }) as Buffer;
+
+        return {
+            data,
+            format: opts.format || 'png',
+            width: viewport?.width || 1920,
+            height: viewport?.height || 1080
+        };
+    }
+
     /**
      * Generate PDF
      */
@@ -210,28 +396,143 @@ export class QuickActionsService {
         const { page, cleanup } = await this.getPage(opts.sessionId);
 
         try {
-            await page.goto(opts.url, { waitUntil: 'networkidle2' });
-
-            const pdfBuffer = await page.pdf({
-                format: opts.format || 'A4',
-                landscape: opts.landscape,
-                printBackground: opts.printBackground ?? true,
-                margin: opts.margin
-            });
-
-            const data = Buffer.from(pdfBuffer);
+            const result = await this.pdfPage(page, opts);
 
             // Return old format for backwards compatibility if called with string
             if (typeof params === 'string') {
-                return data;
+                return result.data;
             }
 
-            return {
-                data,
-                pageCount: 1 // PDF page count would require parsing the PDF
-            };
+            return result;
         } finally {
             await cleanup();
         }
     }
+
+    /**
+     * Load `opts.url` in `page` and print it
+     */
+    private async pdfPage(page: Page, opts: PdfParams): Promise<PdfResponse> {
+        await page.goto(opts.url, { waitUntil: 'networkidle2' });
+
+        const pdfBuffer = await page.pdf({
+            format: opts.format || 'A4',
+            landscape: opts.landscape,
+            printBackground: opts.printBackground ?? true,
+            margin: opts.margin
+        });
+
+        return {
+            data: Buffer.from(pdfBuffer),
+            pageCount: 1 // PDF page count would require parsing the PDF
+        };
+    }
+
+    /**
+     * Scrape every URL in `params.urls`, reusing a few tabs of one browser
+     */
+    async scrapeMany(params: ScrapeManyParams): Promise<BatchResponse<ScrapeResponse>> {
+        return this.runBatch(params, (page, url) => this.scrapePage(page, { ...params, url }));
+    }
+
+    /**
+     * Screenshot every URL in `params.urls`, reusing a few tabs of one browser
+     */
+    async screenshotMany(params: ScreenshotManyParams): Promise<BatchResponse<ScreenshotResponse>> {
+        return this.runBatch(params, (page, url) => this.screenshotPage(page, { ...params, url }));
+    }
+
+    /**
+     * Print every URL in `params.urls` to PDF, reusing a few tabs of one browser
+     */
+    async pdfMany(params: PdfManyParams): Promise<BatchResponse<PdfResponse>> {
+        return this.runBatch(params, (page, url) => this.pdfPage(page, { ...params, url }));
+    }
+
+    /**
+     * Run `task` for each URL with `concurrency` tabs of one browser, each
+     * tab taking the next URL as it frees up. A failing URL is retried with
+     * exponential backoff and, once out of attempts, reported with `error`;
+     * it never stops the batch. A tab that closes is replaced.
+     */
+    private async runBatch<T>(params: BatchParams, task: (page: Page, url: string) => Promise<T>): Promise<BatchResponse<T>> {
+        let concurrency = countParam('concurrency', params.concurrency, DEFAULT_BATCH_CONCURRENCY, 1);
+        const retries = countParam('retries', params.retries, DEFAULT_BATCH_RETRIES, 0);
+        const retryDelay = countParam('retryDelay', params.retryDelay, DEFAULT_BATCH_RETRY_DELAY, 0);
+        const urls = await loadUrlList(params.urls);
+        concurrency = Math.min(concurrency, urls.length);
+        const started = Date.now();
+        const results: BatchItemResult<T>[] = [];
+        let completed = 0;
+        let failed = 0;
+        if (urls.length === 0) return { results, succeeded: 0, failed: 0, duration: 0 };
+
+        const { page, cleanup, shared } = await this.getPage(params.sessionId);
+        // A session's page stays where the user left it; the batch runs in tabs of its own
+        const tabs: Page[] = shared ? [] : [page];
+        let next = 0;
+        let progressError: unknown;
+
+        const runItem = async (tab: Page, index: number): Promise<{ tab: Page, item: BatchItemResult<T> }> => {
+            const url = urls[index];
+            const itemStarted = Date.now();
+            let attempts = 0;
+            for (;;) {
+                attempts++;
+                try {
+                    if (tab.isClosed()) {
+                        tab = await page.browser().newPage();
+                        tabs.push(tab);
+                    }
+                    const result = await task(tab, url);
+                    return { tab, item: { url, index, result, attempts, duration: Date.now() - itemStarted } };
+                } catch (err) {
+                    if (attempts > retries) {
+                        const error = err instanceof Error ? err.message : String(err);
+                        return { tab, item: { url, index, error, attempts, duration: Date.now() - itemStarted } };
+                    }
+                    await new Promise(resolve => setTimeout(resolve, retryDelay * 2 ** (attempts - 1)));
+                }
+            }
+        };
+        const worker = async (first: Page) => {
+            let tab = first;
+            while (next < urls.length) {
+                const outcome = await runItem(tab, next++);
+                tab = outcome.tab;
+                results[outcome.item.index] = outcome.item;
+                completed++;
+                if (outcome.item.error !== undefined) failed++;
+                try {
+                    params.onProgress?.({ completed, failed, total: urls.length, item: outcome.item });
+                } catch (err) {
+                    // Stop handing out URLs and let the other tabs finish theirs
+                    progressError ??= err;
+                    next = urls.length;
+                }
+            }
+        };
+
+        try {
+            // Open every tab before starting, so a failure here leaves no worker running
+            while (tabs.length < concurrency) tabs.push(await page.browser().newPage());
+            await Promise.all(tabs.slice(0, concurrency).map(worker));
+            if (progressError !== undefined) throw progressError;
+            return { results, succeeded: completed - failed, failed, duration: Date.now() - started };
+        } finally {
+            for (const tab of tabs) {
+                if (tab !== page) await tab.close().catch(() => {});
+            }
+            await cleanup();
+        }
+    }
+}
+
+/** `value`, or `fallback` when unset; anything but a whole number of at least `min` is an error */
+function countParam(name: string, value: number | undefined, fallback: number, min: number): number {
+    if (value === undefined) return fallback;
+    if (!Number.isInteger(value) || value < min) {
+        throw new Error(`Invalid ${name} ${value}: expected a whole number of at least ${min}`);
+    }
+    return value;
 }
@@ -1,12 +1,30 @@
 import { RefStore, RefMapping } from '../stores/ref-store';
 import { detectFramework } from '../utils/framework-detect';
+import { createCdpSession } from '../utils/cdp-session';
+import { ElementPath, describeElementPath } from '../utils/dom-path';
+
+export type SnapshotScope = 'viewport' | 'full';
 
 export interface SnapshotOptions {
     maxDepth?: number;
     maxElements?: number;
     compact?: boolean;
+    /** 'viewport' keeps only elements intersecting the visible viewport (default: 'full') */
+    scope?: SnapshotScope;
+    /** Only assign refs to interactive elements (buttons, links, form fields, ...) and keep only their branches */
+    interactiveOnly?: boolean;
+    /** CSS selector of a top-frame element to snapshot instead of the whole page, e.g. a dialog */
+    rootSelector?: string;
+    /**
+     * Approximate size budget for the compact text, in tokens (~4 characters each).
+     * When refs don't all fit, visible and interactive elements are kept first.
+     */
+    maxTokens?: number;
 }
 
+/** Why elements were left out of a snapshot */
+export type SnapshotOmissionReason = 'above-viewport' | 'below-viewport' | 'outside-viewport' | 'limit';
+
 export interface SnapshotNode {
     ref?: string;
     role: string;
@@ -22,6 +40,8 @@ export interface SnapshotNode {
         required?: boolean;
         focused?: boolean;
     };
+    /** Set on placeholder nodes (role "omitted") standing in for elements left out of the snapshot */
+    omitted?: { count: number, reason: SnapshotOmissionReason };
     children?: SnapshotNode[];
 }
 
@@ -59,10 +79,153 @@ const REF_ELIGIBLE_ROLES = new Set([
     'complementary', 'form', 'search', 'dialog', 'alertdialog', 'alert',
 ]);
 
+/** Ref-eligible roles an agent can act on; kept first under a budget and by `interactiveOnly` */
+const INTERACTIVE_ROLES = new Set([
+    'button', 'link', 'textbox', 'checkbox', 'radio', 'combobox', 'listbox',
+    'menuitem', 'menuitemcheckbox', 'menuitemradio', 'option', 'searchbox',
+    'slider', 'spinbutton', 'switch', 'tab', 'treeitem',
+]);
+
+/** Boolean AX properties copied onto raw nodes, as in Puppeteer's serialized snapshot */
+const AX_STATE_PROPERTIES = new Set(['disabled', 'expanded', 'selected', 'required', 'focused']);
+
+/** Layout-only roles left out of snapshots */
+const SKIPPED_ROLES = new Set(['InlineTextBox']);
+
+/** Refs whose DOM paths are looked up at once; each lookup is two CDP round trips */
+const LOCATE_CHUNK_SIZE = 50;
+
 function shouldAssignRef(role: string): boolean {
     return REF_ELIGIBLE_ROLES.has(role.toLowerCase());
 }
 
+function isInteractive(role: string): boolean {
+    return INTERACTIVE_ROLES.has(role.toLowerCase());
+}
+
+/** Rough token count of snapshot text */
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/** Line for a ref'd element in compact text */
+function formatRefLine(node: SnapshotNode): string {
+    let line = `${node.ref} ${node.role} "${node.name}"`;
+    if (node.value !== undefined) line += ` value="${node.value}"`;
+    if (node.state?.disabled) line += ' [disabled]';
+    if (node.state?.checked) line += ' [checked]';
+    return line;
+}
+
+function formatOmission({ count, reason }: { count: number, reason: SnapshotOmissionReason }): string {
+    const elements = count === 1 ? '1 element' : `${count} elements`;
+    switch (reason) {
+        case 'above-viewport': return `(… ${elements} above the viewport — scroll up to see them)`;
+        case 'below-viewport': return `(… ${elements} below the viewport — scroll down to see them)`;
+        case 'outside-viewport': return `(… ${elements} hidden or outside the viewport)`;
+        default: return `(… ${elements} omitted — snapshot limit reached)`;
+    }
+}
+
+/** Page-absolute layout box: [x, y, width, height] in CSS pixels */
+type LayoutRect = number[];
+
+interface PageLayout {
+    viewport: { x: number, y: number, width: number, height: number };
+    /** Layout boxes of top-frame DOM nodes by backend node id */
+    rects: Map<number, LayoutRect>;
+}
+
+type Placement = 'visible' | Exclude<SnapshotOmissionReason, 'limit'>;
+
+function placementOf(rect: LayoutRect | undefined, viewport: PageLayout['viewport'] | undefined): Placement {
+    if (!rect || !viewport) return 'visible';
+    const [x, y, width, height] = rect;
+    if (width > 0 && height > 0 &&
+        x < viewport.x + viewport.width && x + width > viewport.x &&
+        y < viewport.y + viewport.height && y + height > viewport.y) {
+        return 'visible';
+    }
+    if (y + height <= viewport.y) return 'above-viewport';
+    if (y >= viewport.y + viewport.height) return 'below-viewport';
+    return 'outside-viewport';
+}
+
+/** Snapshot fields of a raw node, without ref and children */
+function describeNode(node: any): SnapshotNode {
+    const result: SnapshotNode = {
+        role: node.role || 'generic',
+        name: node.name || '',
+    };
+
+    if (node.value !== undefined && node.value !== '') result.value = String(node.value);
+    if (node.description) result.description = node.description;
+    if (node.frameId) result.frameId = node.frameId;
+
+    // Build state object
+    const state: any = {};
+    if (node.disabled) state.disabled = true;
+    if (node.checked !== undefined) state.checked = node.checked;
+    if (node.expanded !== undefined) state.expanded = node.expanded;
+    if (node.selected !== undefined) state.selected = node.selected;
+    if (node.required) state.required = true;
+    if (node.focused) state.focused = true;
+    if (Object.keys(state).length > 0) result.state = state;
+
+    return result;
+}
+
+/** Ref-eligible element considered for a ref */
+interface RefCandidate {
+    node: RawAXNode;
+    order: number;
+    interactive: boolean;
+    placement: Placement;
+    tokens: number;
+}
+
+/**
+ * A11y node in the shape of Puppeteer's serialized snapshot, tagged with the
+ * frame it belongs to when it comes from an iframe.
+ */
+interface RawAXNode {
+    role: string;
+    name?: string;
+    value?: string | number;
+    description?: string;
+    disabled?: boolean;
+    checked?: boolean | 'mixed';
+    expanded?: boolean;
+    selected?: boolean;
+    required?: boolean;
+    focused?: boolean;
+    /** CDP frame id of the iframe document the node belongs to */
+    frameId?: string;
+    /** CSS selectors of the iframe elements leading to that document, outermost first */
+    framePath?: string[];
+    /** CDP backend id of the DOM node behind the a11y node */
+    backendNodeId?: number;
+    /** Resolve the DOM node's CSS path and XPath (only while the capture's CDP sessions are open) */
+    locate?: () => Promise<ElementPath | null>;
+    children?: RawAXNode[];
+}
+
+/** Convert a CDP Accessibility.AXNode to the serialized snapshot shape (without children) */
+function toRawNode(ax: any): RawAXNode {
+    const node: RawAXNode = { role: ax.role?.value || 'generic', name: ax.name?.value ?? '' };
+    if (ax.value?.value !== undefined) node.value = ax.value.value;
+    if (ax.description?.value) node.description = ax.description.value;
+    for (const prop of ax.properties || []) {
+        const value = prop.value?.value;
+        if (prop.name === 'checked') {
+            node.checked = value === 'mixed' ? 'mixed' : value === true || value === 'true';
+        } else if (AX_STATE_PROPERTIES.has(prop.name)) {
+            (node as any)[prop.name] = value === true || value === 'true';
+        }
+    }
+    return node;
+}
+
 export class SnapshotService {
     private previousSnapshots = new Map<string, SnapshotResult>();
     private clientId?: string;
@@ -76,125 +239,197 @@ export class SnapshotService {
 
     async capture(page: any, sessionId: string, options: SnapshotOptions = {}): Promise<SnapshotResult> {
         const maxElements = options.maxElements || 500;
+        const scope = options.scope || 'full';
         const url = typeof page.url === 'function' ? page.url() : '';
         const title = await page.title();
         const timestamp = Date.now();
 
-        // Phase A: Get accessibility tree from browser engine
+        // Phase A: Get accessibility tree from browser engine, including iframes.
+        // CDP sessions opened here stay open until DOM paths are resolved in Phase D.
+        const sessions: any[] = [];
+        let client: any = null;
         let rawTree: any;
         try {
-            const framework = detectFramework(page);
-            if (framework === 'playwright') {
-                // Try passing interestingOnly for consistency with Puppeteer path;
-                // some Playwright versions may not support the option, so fall back.
-                try {
-                    rawTree = await page.accessibility.snapshot({ interestingOnly: false } as any);
-                } catch {
-                    rawTree = await page.accessibility.snapshot();
-                }
-            } else {
-                // Puppeteer supports interestingOnly option
-                rawTree = await page.accessibility.snapshot({ interestingOnly: false });
+            try {
+                rawTree = await this.captureAXTree(page, sessions);
+                client = sessions[0];
+            } catch {
+                // No CDP access (non-Chromium browser): top frame only
+                rawTree = await this.captureFallbackTree(page, title, options.rootSelector);
             }
-        } catch {
-            rawTree = { role: 'WebArea', name: title, children: [] };
-        }
-
-        if (!rawTree) {
-            rawTree = { role: 'WebArea', name: title, children: [] };
-        }
-
-        // Phase B: Assign refs and build snapshot tree
-        let refCounter = 0;
-        let totalElements = 0;
-        let truncated = false;
-        const refMap = new Map<string, RefMapping>();
 
-        const processNode = (node: any, depth: number): SnapshotNode | null => {
-            if (!node) return null;
-            totalElements++;
+            if (!rawTree) {
+                rawTree = { role: 'WebArea', name: title, children: [] };
+            }
+            if (client && options.rootSelector) {
+                rawTree = await this.scopeToRoot(client, rawTree, options.rootSelector);
+            }
 
-            const result: SnapshotNode = {
-                role: node.role || 'generic',
-                name: node.name || '',
+            // Phase B: Pick the elements that get refs
+            const isCandidateRole = (role: string) => shouldAssignRef(role) && (!options.interactiveOnly || isInteractive(role));
+            const needsLayout = scope === 'viewport' || options.maxTokens !== undefined ||
+                this.countNodes(rawTree, node => isCandidateRole(node.role || 'generic')) > maxElements;
+            const layout = client && needsLayout ? await this.readLayout(client).catch(() => null) : null;
+
+            const placements = new Map<RawAXNode, Placement>();
+            const candidates: RefCandidate[] = [];
+            const survey = (node: RawAXNode, depth: number, inheritedRect: LayoutRect | undefined) => {
+                const rect = (!node.frameId && node.backendNodeId !== undefined && layout?.rects.get(node.backendNodeId)) || inheritedRect;
+                const placement = placementOf(rect, layout?.viewport);
+                placements.set(node, placement);
+                const role = node.role || 'generic';
+                if (isCandidateRole(role)) {
+                    const line = formatRefLine({ ...describeNode(node), ref: `@e${candidates.length + 1}` });
+                    candidates.push({ node, order: candidates.length, interactive: isInteractive(role), placement, tokens: estimateTokens(line) + 1 });
+                }
+                if (options.maxDepth !== undefined && depth >= options.maxDepth) return;
+                for (const child of node.children || []) survey(child, depth + 1, rect);
             };
-
-            if (node.value !== undefined && node.value !== '') result.value = String(node.value);
-            if (node.description) result.description = node.description;
-
-            // Build state object
-            const state: any = {};
-            if (node.disabled) state.disabled = true;
-            if (node.checked !== undefined) state.checked = node.checked;
-            if (node.expanded !== undefined) state.expanded = node.expanded;
-            if (node.selected !== undefined) state.selected = node.selected;
-            if (node.required) state.required = true;
-            if (node.focused) state.focused = true;
-            if (Object.keys(state).length > 0) result.state = state;
-
-            // Assign ref if eligible and under limit
-            if (shouldAssignRef(result.role) && refCounter < maxElements) {
-                refCounter++;
-                const ref = `@e${refCounter}`;
-                result.ref = ref;
-
-                // Generate best CSS selector from available a11y info
-                const role = result.role;
-                const name = result.name;
-                const css = name
-                    ? `[role="${role}"][aria-label="${name.replace(/"/g, '\\"')}"]`
-                    : `[role="${role}"]`;
-
-                refMap.set(ref, {
-                    xpath: '',
-                    css,
-                    role,
-                    name,
-                });
+            survey(rawTree, 0, undefined);
+
+            const omissions = new Map<RawAXNode, SnapshotOmissionReason>();
+            const inScope = candidates.filter(candidate => {
+                if (scope !== 'viewport' || candidate.placement === 'visible') return true;
+                omissions.set(candidate.node, candidate.placement);
+                return false;
+            });
+            let budget = options.maxTokens === undefined ? Infinity : options.maxTokens - estimateTokens(`[${title}] ${url}`);
+            const fitsAll = inScope.length <= maxElements && inScope.reduce((sum, c) => sum + c.tokens, 0) <= budget;
+            // Over a limit: visible before off-screen, interactive before landmarks and headings, then document order
+            const rank = (c: RefCandidate) => (c.placement === 'visible' ? 0 : 2) + (c.interactive ? 0 : 1);
+            const ranked = fitsAll ? inScope : [...inScope].sort((a, b) => rank(a) - rank(b) || a.order - b.order);
+            const selected = new Set<RawAXNode>();
+            for (const candidate of ranked) {
+                if (selected.size < maxElements && candidate.tokens <= budget) {
+                    selected.add(candidate.node);
+                    budget -= candidate.tokens;
+                } else {
+                    // Off-screen elements are reported by position, so the agent knows where to scroll
+                    omissions.set(candidate.node, candidate.placement === 'visible' ? 'limit' : candidate.placement);
+                }
             }
+            const truncated = selected.size < inScope.length;
+
+            // Phase C: Build the snapshot tree, numbering refs in document order
+            let refCounter = 0;
+            let totalElements = 0;
+            const refMap = new Map<string, RefMapping>();
+            const located: [RefMapping, RawAXNode][] = [];
+            // Built nodes that have a ref or a descendant with one
+            const leadsToRef = new WeakSet<SnapshotNode>();
+
+            // Elements left out of a dropped subtree, by reason
+            const countOmitted = (node: RawAXNode, depth: number, counts = new Map<SnapshotOmissionReason, number>()) => {
+                const reason = omissions.get(node);
+                if (reason) counts.set(reason, (counts.get(reason) || 0) + 1);
+                if (options.maxDepth === undefined || depth < options.maxDepth) {
+                    for (const child of node.children || []) countOmitted(child, depth + 1, counts);
+                }
+                return counts;
+            };
 
-            if (refCounter >= maxElements && !truncated) {
-                truncated = true;
-            }
+            const processNode = (node: RawAXNode, depth: number): SnapshotNode | null => {
+                totalElements++;
+                const result = describeNode(node);
+
+                if (selected.has(node)) {
+                    refCounter++;
+                    const ref = `@e${refCounter}`;
+                    result.ref = ref;
+
+                    // Synthetic CSS from a11y info; replaced by the DOM node's path in Phase D
+                    const role = result.role;
+                    const name = result.name;
+                    const css = name
+                        ? `[role="${role}"][aria-label="${name.replace(/"/g, '\\"')}"]`
+                        : `[role="${role}"]`;
+
+                    const mapping: RefMapping = {
+                        xpath: '',
+                        css,
+                        role,
+                        name,
+                        ...(node.backendNodeId ? { backendNodeId: node.backendNodeId } : {}),
+                        ...(node.frameId ? { frameId: node.frameId, framePath: node.framePath } : {}),
+                    };
+                    refMap.set(ref, mapping);
+                    if (node.locate) located.push([mapping, node]);
+                }
 
-            // Process children
-            if (node.children && node.children.length > 0) {
+                // Process children; dropped subtrees leave a marker saying what was left out
                 const children: SnapshotNode[] = [];
-                for (const child of node.children) {
-                    if (options.maxDepth !== undefined && depth >= options.maxDepth) break;
-                    const processed = processNode(child, depth + 1);
-                    if (processed) children.push(processed);
+                if (options.maxDepth === undefined || depth < options.maxDepth) {
+                    for (const child of node.children || []) {
+                        const processed = processNode(child, depth + 1);
+                        if (processed) {
+                            children.push(processed);
+                            continue;
+                        }
+                        for (const [reason, count] of countOmitted(child, depth + 1)) {
+                            const last = children[children.length - 1];
+                            if (last?.omitted?.reason === reason) {
+                                last.omitted.count += count;
+                            } else {
+                                children.push({ role: 'omitted', name: '', omitted: { count, reason } });
+                            }
+                        }
+                    }
                 }
                 if (children.length > 0) result.children = children;
-            }
 
-            return result;
-        };
-
-        const tree = processNode(rawTree, 0) || { role: 'WebArea', name: title };
+                // Keep elements with a ref, branches leading to one, and context the options don't exclude
+                if (result.ref || children.some(child => leadsToRef.has(child))) {
+                    leadsToRef.add(result);
+                    return result;
+                }
+                if (depth === 0) return result;
+                if (omissions.has(node) || options.interactiveOnly) return null;
+                if (scope === 'viewport' && placements.get(node) !== 'visible') return null;
+                return result;
+            };
 
-        // Store refs (with clientId for parallel isolation)
-        await this.refStore.save(sessionId, refMap, url, this.clientId);
+            const tree = processNode(rawTree, 0) || { role: 'WebArea', name: title };
+
+            // Phase D: Point each ref at its backing DOM node's CSS path and XPath, a chunk of refs at a time
+            for (let i = 0; i < located.length; i += LOCATE_CHUNK_SIZE) {
+                await Promise.all(located.slice(i, i + LOCATE_CHUNK_SIZE).map(async ([mapping, node]) => {
+                    try {
+                        const path = await node.locate!();
+                        if (path?.css) {
+                            mapping.css = path.css;
+                            mapping.xpath = path.xpath;
+                        }
+                    } catch { /* node gone or not an element: keep the synthetic selector */ }
+                }));
+            }
 
-        const snapshotResult: SnapshotResult = {
-            url,
-            title,
-            tree,
-            refCount: refCounter,
-            totalElements,
-            truncated,
-            timestamp,
-        };
+            // Store refs (with clientId for parallel isolation)
+            await this.refStore.save(sessionId, refMap, url, this.clientId);
+
+            const snapshotResult: SnapshotResult = {
+                url,
+                title,
+                tree,
+                refCount: refCounter,
+                totalElements,
+                truncated,
+                timestamp,
+            };
 
-        // Generate compact text if requested
-        if (options.compact) {
-            snapshotResult.compactText = this.toCompactText(snapshotResult);
-        }
+            // Generate compact text if requested
+            if (options.compact) {
+                snapshotResult.compactText = this.toCompactText(snapshotResult);
+            }
 
-        // Store for diffing
-        this.previousSnapshots.set(sessionId, snapshotResult);
+            // Store for diffing
+            this.previousSnapshots.set(sessionId, snapshotResult);
 
-        return snapshotResult;
+            return snapshotResult;
+        } finally {
+            for (const session of sessions) {
+                try { await session.detach(); } catch { /* already detached */ }
+            }
+        }
     }
 
     /** Clear cached snapshot data for a session to prevent memory leaks */
@@ -215,13 +450,8 @@ export class SnapshotService {
         lines.push(`[${result.title}] ${result.url}`);
 
         function walk(node: SnapshotNode) {
-            if (node.ref) {
-                let line = `${node.ref} ${node.role} "${node.name}"`;
-                if (node.value !== undefined) line += ` value="${node.value}"`;
-                if (node.state?.disabled) line += ' [disabled]';
-                if (node.state?.checked) line += ' [checked]';
-                lines.push(line);
-            }
+            if (node.ref) lines.push(formatRefLine(node));
+            if (node.omitted) lines.push(formatOmission(node.omitted));
             if (node.children) {
                 for (const child of node.children) walk(child);
             }
@@ -299,6 +529,179 @@ export class SnapshotService {
         return lines.join('\n');
     }
 
+    // =================== Private: Capture ===================
+
+    /** Accessibility tree without CDP, through the framework's snapshot API */
+    private async captureFallbackTree(page: any, title: string, rootSelector?: string): Promise<any> {
+        let root: any;
+        if (rootSelector) {
+            root = await page.$(rootSelector);
+            if (!root) throw new Error(`Snapshot root "${rootSelector}" not found on page`);
+        }
+        try {
+            return await page.accessibility.snapshot({ interestingOnly: false, ...(root ? { root } : {}) });
+        } catch {
+            return { role: 'WebArea', name: title, children: [] };
+        }
+    }
+
+    /** Keep only the parts of the tree inside the top-frame element matching `rootSelector` */
+    private async scopeToRoot(client: any, tree: RawAXNode, rootSelector: string): Promise<RawAXNode> {
+        const { result } = await client.send('Runtime.evaluate', {
+            expression: `document.querySelector(${JSON.stringify(rootSelector)})`,
+        });
+        if (!result?.objectId) throw new Error(`Snapshot root "${rootSelector}" not found on page`);
+        let root: any;
+        try {
+            ({ node: root } = await client.send('DOM.describeNode', { objectId: result.objectId, depth: -1, pierce: true }));
+        } finally {
+            client.send('Runtime.releaseObject', { objectId: result.objectId }).catch(() => {});
+        }
+
+        const inside = new Set<number>();
+        const collect = (node: any) => {
+            inside.add(node.backendNodeId);
+            for (const child of [...(node.children || []), ...(node.shadowRoots || [])]) collect(child);
+        };
+        collect(root);
+
+        // Outermost a11y nodes whose DOM node is inside the root become the tree's top level
+        const pick = (node: RawAXNode): RawAXNode[] =>
+            node.backendNodeId !== undefined && inside.has(node.backendNodeId)
+                ? [node]
+                : (node.children || []).flatMap(pick);
+        return { ...tree, children: pick(tree) };
+    }
+
+    /** Viewport and top-frame layout boxes, read in one DOM snapshot */
+    private async readLayout(client: any): Promise<PageLayout> {
+        const [{ cssVisualViewport: viewport }, { documents }] = await Promise.all([
+            client.send('Page.getLayoutMetrics'),
+            client.send('DOMSnapshot.captureSnapshot', { computedStyles: [] }),
+        ]);
+        const rects = new Map<number, LayoutRect>();
+        const [top] = documents;
+        top.layout.nodeIndex.forEach((nodeIndex: number, i: number) => {
+            const backendNodeId = top.nodes.backendNodeId[nodeIndex];
+            if (!rects.has(backendNodeId)) rects.set(backendNodeId, top.layout.bounds[i]);
+        });
+        return {
+            viewport: { x: viewport.pageX, y: viewport.pageY, width: viewport.clientWidth, height: viewport.clientHeight },
+            rects,
+        };
+    }
+
+    private countNodes(node: RawAXNode, predicate: (node: RawAXNode) => boolean): number {
+        return (predicate(node) ? 1 : 0) +
+            (node.children || []).reduce((sum, child) => sum + this.countNodes(child, predicate), 0);
+    }
+
+    /**
+     * Read the full accessibility tree over CDP, descending into iframes.
+     * Same-process frames are read through the page's session; cross-origin
+     * (out-of-process) frames through a session attached to their own target.
+     * Shadow DOM content is part of the a11y tree already.
+     * Opened sessions are added to `sessions`; the caller detaches them.
+     */
+    private async captureAXTree(page: any, sessions: any[]): Promise<RawAXNode | null> {
+        const client = await createCdpSession(page);
+        sessions.push(client);
+        let frameSessions: Map<string, any> | null = null;
+
+        const readFrame = async (session: any, frameId: string | undefined, framePath: string[]): Promise<RawAXNode | null> => {
+            const { nodes } = await session.send('Accessibility.getFullAXTree', frameId ? { frameId } : {});
+            if (!nodes?.length) return null;
+            const byId = new Map<string, any>(nodes.map((n: any) => [n.nodeId, n]));
+
+            const readChildFrame = async (backendNodeId: number): Promise<RawAXNode | null> => {
+                const owner = await this.describeFrameOwner(session, backendNodeId);
+                if (!owner) return null;
+                const path = [...framePath, owner.selector];
+                try {
+                    return await readFrame(session, owner.frameId, path);
+                } catch {
+                    // Out-of-process iframe: not reachable through the parent's session
+                    if (!frameSessions) frameSessions = await this.openFrameSessions(page, sessions);
+                    const frameSession = frameSessions.get(owner.frameId);
+                    return frameSession ? readFrame(frameSession, owner.frameId, path).catch(() => null) : null;
+                }
+            };
+
+            // Ignored nodes are dropped and their children hoisted to the parent
+            const convert = async (ax: any): Promise<RawAXNode[]> => {
+                const role = ax.role?.value;
+                if (SKIPPED_ROLES.has(role)) return [];
+                const children: RawAXNode[] = [];
+                for (const id of ax.childIds || []) {
+                    const child = byId.get(id);
+                    if (child) children.push(...await convert(child));
+                }
+                if (ax.ignored) return children;
+
+                const node = toRawNode(ax);
+                if (ax.backendDOMNodeId) {
+                    node.backendNodeId = ax.backendDOMNodeId;
+                    node.locate = () => describeElementPath(session, ax.backendDOMNodeId);
+                }
+                if (frameId) {
+                    node.frameId = frameId;
+                    node.framePath = framePath;
+                }
+                if (role === 'Iframe' && ax.backendDOMNodeId) {
+                    const frameTree = await readChildFrame(ax.backendDOMNodeId).catch(() => null);
+                    if (frameTree) children.push(frameTree);
+                }
+                if (children.length > 0) node.children = children;
+                return [node];
+            };
+
+            const root = nodes.find((n: any) => !n.parentId) || nodes[0];
+            const [tree] = await convert(root);
+            return tree || null;
+        };
+
+        return readFrame(client, undefined, []);
+    }
+
+    /** Content frame id of an iframe element and its CSS path in the parent document */
+    private async describeFrameOwner(session: any, backendNodeId: number): Promise<{ frameId: string, selector: string } | null> {
+        const { node } = await session.send('DOM.describeNode', { backendNodeId });
+        if (!node?.frameId) return null;
+        const path = await describeElementPath(session, backendNodeId);
+        return path?.css ? { frameId: node.frameId, selector: path.css } : null;
+    }
+
+    /**
+     * CDP sessions of the page's out-of-process frames, keyed by frame id.
+     * Opened sessions are added to `sessions` so the caller can detach them.
+     */
+    private async openFrameSessions(page: any, sessions: any[]): Promise<Map<string, any>> {
+        const candidates: (() => Promise<any>)[] = detectFramework(page) === 'playwright'
+            ? page.frames()
+                .filter((frame: any) => frame !== page.mainFrame())
+                .map((frame: any) => () => page.context().newCDPSession(frame))
+            : page.browserContext().targets()
+                .filter((target: any) => target.type() !== 'page')
+                .map((target: any) => () => target.createCDPSession());
+
+        const byFrameId = new Map<string, any>();
+        for (const open of candidates) {
+            let session: any;
+            try {
+                // Playwright only hands out sessions for frames with their own target
+                session = await open();
+            } catch {
+                continue;
+            }
+            sessions.push(session);
+            try {
+                const { frameTree } = await session.send('Page.getFrameTree');
+                byFrameId.set(frameTree.frame.id, session);
+            } catch { /* worker or detached target */ }
+        }
+        return byFrameId;
+    }
+
     private collectRefs(node: SnapshotNode, map = new Map<string, SnapshotNode>(), counters = new Map<string, number>()): Map<string, SnapshotNode> {
         // Key by role+name+occurrence index to handle duplicate names (e.g. multiple "Submit" buttons)
         const baseKey = `${node.role}:${node.name}`;
@@ -0,0 +1,98 @@
+import { EventEmitter } from 'events';
+import { Session } from './types.js';
+
+export interface SessionLifecyclePayload {
+    session: Session;
+    /** Why the event fired, e.g. 'local', 'puppeteer', 'client-release', 'disconnected' */
+    reason: string;
+    timestamp: number;
+}
+
+export interface SessionHeartbeatFailedPayload extends SessionLifecyclePayload {
+    /** Consecutive failed pings so far */
+    failures: number;
+    /** Failures after which the heartbeat gives up and the session is reported crashed */
+    maxFailures: number;
+    error?: string;
+}
+
+export interface SessionLifecycleEvents {
+    'session.created': SessionLifecyclePayload;
+    'session.connected': SessionLifecyclePayload;
+    'session.heartbeatFailed': SessionHeartbeatFailedPayload;
+    'session.idleTimeout': SessionLifecyclePayload;
+    'session.released': SessionLifecyclePayload;
+    'session.crashed': SessionLifecyclePayload;
+}
+
+export type SessionLifecycleEventName = keyof SessionLifecycleEvents;
+
+export type SessionLifecycleListener<E extends SessionLifecycleEventName> = (payload: SessionLifecycleEvents[E]) => void;
+
+/**
+ * SessionLifecycleEmitter — typed events for session state changes, so
+ * orchestration code can react to dead sessions without polling.
+ *
+ * Listener errors are caught and logged; a failing listener never breaks
+ * session creation or release.
+ */
+export class SessionLifecycleEmitter {
+    private emitter = new EventEmitter();
+
+    on<E extends SessionLifecycleEventName>(event: E, listener: SessionLifecycleListener<E>): this {
+        this.emitter.on(event, listener);
+        return this;
+    }
+
+    once<E extends SessionLifecycleEventName>(event: E, listener: SessionLifecycleListener<E>): this {
+        this.emitter.once(event, listener);
+        return this;
+    }
+
+    off<E extends SessionLifecycleEventName>(event: E, listener: SessionLifecycleListener<E>): this {
+        this.emitter.off(event, listener);
+        return this;
+    }
+
+    removeAllListeners(event?: SessionLifecycleEventName): this {
+        this.emitter.removeAllListeners(event);
+        return this;
+    }
+
+    listenerCount(event: SessionLifecycleEventName): number {
+        return this.emitter.listenerCount(event);
+    }
+
+    /**
+     * Emit an event. `timestamp` is filled in when omitted.
+     */
+    emit<E extends SessionLifecycleEventName>(
+        event: E,
+        payload: Omit<SessionLifecycleEvents[E], 'timestamp'> & { timestamp?: number },
+    ): void {
+        const full = { ...payload, timestamp: payload.timestamp ?? Date.now() } as SessionLifecycleEvents[E];
+        for (const listener of this.emitter.rawListeners(event)) {
+            try {
+                (listener as SessionLifecycleListener<E>)(full);
+            } catch (err) {
+                console.error(`SessionLifecycle: listener for ${event} threw:`, err);
+            }
+        }
+    }
+}
+
+/**
+ * Decide how to report a browser connection that dropped while the session was still live.
+ *
+ * A cloud session with no heartbeat that stayed connected for at least its idle
+ * timeout was most likely reaped by the grid; anything else is a crash.
+ */
+export function classifyDisconnect(session: Session, connectedAt: number, now = Date.now()): 'session.idleTimeout' | 'session.crashed' {
+    const isCloud = !session.config.local && !session.config.customWebSocketUrl;
+    const heartbeatDisabled = session.config.heartbeatInterval === 0;
+    const idleTimeoutMs = (session.config.idleTimeout ?? 900) * 1000;
+    if (isCloud && heartbeatDisabled && now - connectedAt >= idleTimeoutMs) {
+        return 'session.idleTimeout';
+    }
+    return 'session.crashed';
+}
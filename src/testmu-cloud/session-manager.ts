@@ -1,9 +1,10 @@
 
 import crypto from 'crypto';
-import { Browser } from 'puppeteer-core';
+import puppeteer, { Browser } from 'puppeteer-core';
 import {
     SessionConfig,
     Session,
+    AttachOptions,
     ReleaseResponse,
     LiveDetailsResponse,
     PageInfo
@@ -13,16 +14,35 @@ import { LocalBrowserService } from './services/local-browser-service.js';
 import { EventsService } from './services/events-service.js';
 import { ExtensionService } from './services/extension-service.js';
 import { getRandomUserAgent } from './stealth-utils.js';
+import { SessionStore } from './stores/session-store.js';
+import { InMemorySessionStore } from './stores/memory-session-store.js';
+import { SessionLifecycleEmitter } from './session-lifecycle.js';
+import { TabInfo, listPages, describeTabs } from './utils/tabs.js';
 
 export class SessionManager {
     private tunnelService: TunnelService | null = null;
     private extensionService: ExtensionService | null = null;
+    private lifecycle: SessionLifecycleEmitter | null = null;
     private eventsService: EventsService;
     private managedTunnelName: string | null = null;
     private onReleaseHooks: Array<(sessionId: string) => void> = [];
+    private handles = new SessionHandles();
+    // Browsers (Puppeteer) or contexts (Playwright) adapters connected, for live tab details
+    private connections = new Map<string, any>();
+    private store: SessionStore;
 
-    constructor() {
+    /**
+     * @param store Persistent session registry. Defaults to an in-memory store;
+     *              pass a DiskSessionStore to share sessions across processes.
+     */
+    constructor(store?: SessionStore) {
         this.eventsService = new EventsService();
+        this.store = store || new InMemorySessionStore();
+    }
+
+    /** The session store every create/release is written through. */
+    getStore(): SessionStore {
+        return this.store;
     }
 
     /**
@@ -33,6 +53,11 @@ export class SessionManager {
         this.onReleaseHooks.push(hook);
     }
 
+    /** Called by the adapters with each session's connected browser (Puppeteer) or context (Playwright) */
+    trackConnection(sessionId: string, browserOrContext: any): void {
+        this.connections.set(sessionId, browserOrContext);
+    }
+
     setTunnelService(service: TunnelService) {
         this.tunnelService = service;
     }
@@ -41,6 +66,15 @@ export class SessionManager {
         this.extensionService = service;
     }
 
+    setLifecycleEmitter(emitter: SessionLifecycleEmitter) {
+        this.lifecycle = emitter;
+    }
+
+    /** Share the EventsService the adapters stream recordings into. */
+    setEventsService(service: EventsService) {
+        this.eventsService = service;
+    }
+
     async createSession(config: SessionConfig): Promise<Session> {
         // Generate unique session ID with timestamp + random suffix
         const sessionId = config.sessionId || `session_${crypto.randomUUID()}`;
@@ -70,8 +104,7 @@ export class SessionManager {
                 timeout: config.timeout || 300000,
                 dimensions: config.dimensions || { width: 1920, height: 1080 }
             };
-            SessionStore.start(session, null);
-            this.eventsService.startRecording(sessionId);
+            await this.register(session, null, undefined, 'byob');
             return session;
         }
 
@@ -101,8 +134,7 @@ export class SessionManager {
                 userAgent: resolvedUserAgent
             };
 
-            SessionStore.start(session, null, kill);
-            this.eventsService.startRecording(sessionId);
+            await this.register(session, null, kill, 'local');
             return session;
 
         } else {
@@ -243,22 +275,89 @@ export class SessionManager {
                 userAgent: resolvedUserAgent
             };
 
-            SessionStore.start(session, null);
-            this.eventsService.startRecording(sessionId);
+            await this.register(session, null, undefined, 'cloud');
             return session;
         }
     }
 
+    /**
+     * Track a newly created session in-process and persist it to the store.
+     */
+    private async register(session: Session, browser: Browser | null, cleanup: (() => Promise<void>) | undefined, reason: string): Promise<void> {
+        this.handles.start(session, browser, cleanup);
+        await this.store.save(session);
+        if (session.config.recordEvents) this.eventsService.startRecording(session.id);
+        this.lifecycle?.emit('session.created', { session, reason });
+    }
+
+    /**
+     * Sessions this process created or attached to, without reading the store.
+     * Use listSessionsAsync() to include sessions of other processes.
+     */
     listSessions(): Session[] {
-        return SessionStore.list();
+        return this.handles.list();
     }
 
+    /**
+     * A session this process created or attached to, without reading the store.
+     * Use getSessionAsync() to look it up in the store as well.
+     */
     getSession(id: string): Session | undefined {
-        return SessionStore.get(id)?.session;
+        return this.handles.get(id)?.session;
+    }
+
+    /**
+     * List live sessions from the store, including sessions created by other processes.
+     */
+    async listSessionsAsync(): Promise<Session[]> {
+        return this.store.list();
+    }
+
+    /**
+     * Get a session by ID — in-process first, then the store.
+     */
+    async getSessionAsync(id: string): Promise<Session | undefined> {
+        const entry = this.handles.get(id);
+        if (entry) return entry.session;
+        return (await this.store.get(id)) || undefined;
+    }
+
+    /**
+     * Re-attach to a session created by another process.
+     *
+     * Loads the session from the store and registers it in-process with a cleanup
+     * handle, so releaseSession() can kill it. Local sessions are killed via the
+     * Chrome PID file. The store strips credentials from cloud WebSocket URLs;
+     * they are restored from `options`, else from LT_USERNAME/LT_ACCESS_KEY.
+     */
+    async attachSession(id: string, options: AttachOptions = {}): Promise<Session | undefined> {
+        const existing = this.handles.get(id);
+        if (existing) return existing.session;
+
+        const session = await this.store.get(id);
+        if (!session || session.status !== 'live') return undefined;
+
+        session.websocketUrl = restoreCredentials(
+            session.websocketUrl,
+            options.username || process.env.LT_USERNAME,
+            options.accessKey || process.env.LT_ACCESS_KEY,
+        );
+        const cleanup = session.config?.local
+            ? () => LocalBrowserService.killFromPidFile(id)
+            : undefined;
+        this.handles.start(session, null, cleanup);
+        console.error(`SessionManager: Attached to session ${id}`);
+        return session;
     }
 
-    async releaseSession(id: string): Promise<ReleaseResponse> {
-        const entry = SessionStore.get(id);
+    /**
+     * Release a session and emit `session.released` with the given reason.
+     */
+    async releaseSession(id: string, reason = 'client-release'): Promise<ReleaseResponse> {
+        let entry = this.handles.get(id);
+        if (!entry && await this.attachSession(id)) {
+            entry = this.handles.get(id);
+        }
         if (entry) {
             console.error(`Closing session ${id}`);
 
@@ -278,10 +377,15 @@ export class SessionManager {
             } else if (entry.browser) {
                 await entry.browser.close();
             }
-            SessionStore.delete(id);
+            this.handles.delete(id);
+            this.connections.delete(id);
 
-            // Kill local Chrome process if this was a local session (cross-process cleanup)
+            // Kill local Chrome process if this was a local session (cross-process cleanup).
+            // Must run before the store delete — DiskSessionStore removes the PID file with the session dir.
             await LocalBrowserService.killFromPidFile(id);
+            await this.store.delete(id);
+
+            this.lifecycle?.emit('session.released', { session: entry.session, reason });
 
             return { success: true, message: `Session ${id} released` };
         }
@@ -292,12 +396,12 @@ export class SessionManager {
      * Release all active sessions
      */
     async releaseAll(): Promise<ReleaseResponse> {
-        const sessions = SessionStore.list();
+        const sessions = await this.listSessionsAsync();
         let releasedCount = 0;
 
         for (const session of sessions) {
             try {
-                await this.releaseSession(session.id);
+                await this.releaseSession(session.id, 'release-all');
                 releasedCount++;
             } catch (e) {
                 console.error(`Error releasing session ${session.id}:`, e);
@@ -328,23 +432,20 @@ export class SessionManager {
      * Get live details for a session (pages, tabs, state)
      */
     async getLiveDetails(id: string): Promise<LiveDetailsResponse | null> {
-        const entry = SessionStore.get(id);
-        if (!entry || !entry.session) {
+        const session = await this.getSessionAsync(id);
+        if (!session) {
             return null;
         }
 
-        const session = entry.session;
-
-        // For now, return basic info
-        // Full implementation would track open pages via CDP
-        const pages: PageInfo[] = [{
-            id: 'page_0',
-            url: 'about:blank',
-            title: 'Browser Tab',
+        const tabs = await this.readTabs(session);
+        const pages: PageInfo[] = tabs.map(tab => ({
+            id: tab.id,
+            url: tab.url,
+            title: tab.title,
             favicon: null,
             sessionViewerUrl: session.sessionViewerUrl || session.debugUrl,
             sessionViewerFullscreenUrl: session.sessionViewerUrl || session.debugUrl
-        }];
+        }));
 
         // Strip credentials from WebSocket URL before exposing
         let safeWsUrl = session.websocketUrl;
@@ -364,10 +465,61 @@ export class SessionManager {
             sessionViewerFullscreenUrl: session.sessionViewerUrl || session.debugUrl
         };
     }
+
+    /**
+     * Open tabs of a session: from the connection an adapter made in this process,
+     * else from a local or BYOB browser's CDP targets. Connecting to a cloud session's
+     * endpoint would provision another browser, so without a connection its tabs
+     * are unknown (empty list).
+     */
+    private async readTabs(session: Session): Promise<TabInfo[]> {
+        const connection = this.connections.get(session.id);
+        if (connection) {
+            try {
+                return await describeTabs(await listPages(connection));
+            } catch {
+                // Disconnected since — fall back to CDP
+                this.connections.delete(session.id);
+            }
+        }
+        if (!session.config?.local && !session.config?.customWebSocketUrl) return [];
+
+        let browser: Browser | undefined;
+        try {
+            browser = await puppeteer.connect({ browserWSEndpoint: session.websocketUrl });
+            const cdp = await browser.target().createCDPSession();
+            const { targetInfos } = await cdp.send('Target.getTargets');
+            return targetInfos
+                .filter(target => target.type === 'page')
+                .map(target => ({ id: target.targetId, url: target.url, title: target.title, active: false }));
+        } catch {
+            return [];
+        } finally {
+            await browser?.disconnect();
+        }
+    }
 }
 
-// Enhanced Session Store to support list/retrieve parity
-class SessionRepository {
+/**
+ * Restore LambdaTest credentials into a cloud WebSocket URL that was stripped
+ * by the store on save. Local and BYOB URLs are returned unchanged.
+ */
+function restoreCredentials(websocketUrl: string, username?: string, accessKey?: string): string {
+    if (!username || !accessKey || !websocketUrl.startsWith('wss://')) return websocketUrl;
+    try {
+        const parsed = new URL(websocketUrl);
+        if (parsed.username) return websocketUrl;
+        parsed.username = username;
+        parsed.password = accessKey;
+        return parsed.toString();
+    } catch {
+        return websocketUrl;
+    }
+}
+
+// In-process handles (browser / cleanup) for sessions this process owns or has attached to.
+// Session metadata itself lives in the SessionStore.
+class SessionHandles {
     private sessions = new Map<string, { session: Session, browser: Browser | null, cleanup?: () => Promise<void> }>();
 
     start(session: Session, browser: Browser | null, cleanup?: () => Promise<void>) {
@@ -378,21 +530,11 @@ class SessionRepository {
         return this.sessions.get(id);
     }
 
-    delete(id: string) {
-        this.sessions.delete(id);
-    }
-
     list(): Session[] {
-        return Array.from(this.sessions.values()).map(data => data.session);
-    }
-
-    getAll() {
-        return Array.from(this.sessions.values());
+        return Array.from(this.sessions.values(), entry => entry.session);
     }
 
-    count(): number {
-        return this.sessions.size;
+    delete(id: string) {
+        this.sessions.delete(id);
     }
 }
-
-const SessionStore = new SessionRepository();
@@ -0,0 +1,343 @@
+import crypto from 'crypto';
+import { SessionManager } from './session-manager.js';
+import { ContextService } from './services/context-service.js';
+import { Session, SessionConfig } from './types.js';
+
+export interface SessionPoolOptions {
+    /** Warm sessions kept per config key, even when idle (default: 0) */
+    minSize?: number;
+    /** Max sessions per config key, idle + in use (default: 5) */
+    maxSize?: number;
+    /** Idle sessions above minSize are released after this many ms (default: 300000 = 5 min) */
+    idleTimeoutMs?: number;
+    /** Release a session after it has been handed out this many times (default: 50, 0 = unlimited) */
+    maxReuse?: number;
+    /** How long acquire() waits for a free slot when the pool is at maxSize (default: 30000) */
+    acquireTimeoutMs?: number;
+    /** Interval between idle eviction sweeps (default: 30000) */
+    evictionIntervalMs?: number;
+}
+
+export interface SessionPoolStats {
+    key: string;
+    idle: number;
+    inUse: number;
+    pending: number;
+}
+
+interface PooledSession {
+    session: Session;
+    key: string;
+    uses: number;
+    idleSince: number;
+}
+
+interface Waiter {
+    resolve: (session: Session) => void;
+    reject: (err: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Pool key: sessions are only interchangeable when they were created from the
+ * same config — every option but `sessionId`, which the pool assigns. The key
+ * is a hash, so proxy and grid credentials don't show up in stats().
+ */
+export function poolKey(config: SessionConfig): string {
+    const normalized: SessionConfig = { ...config, adapter: config.adapter || 'puppeteer' };
+    delete normalized.sessionId;
+    return crypto.createHash('sha256').update(JSON.stringify(sortKeys(normalized, true))).digest('hex').slice(0, 16);
+}
+
+/** `value` with object keys sorted and unset options dropped (top-level `false` counts as unset) */
+function sortKeys(value: any, topLevel = false): any {
+    if (Array.isArray(value)) return value.map(item => sortKeys(item));
+    if (!value || typeof value !== 'object') return value;
+    const sorted: Record<string, any> = {};
+    for (const key of Object.keys(value).sort()) {
+        const item = value[key];
+        if (item === undefined || item === null || (topLevel && item === false)) continue;
+        sorted[key] = sortKeys(item);
+    }
+    return sorted;
+}
+
+/**
+ * SessionPool — keeps warm, pre-launched sessions per config key so agents
+ * running many short tasks don't pay the full launch cost on every create().
+ *
+ * Sessions are handed out with acquire() and returned with release(). On
+ * release the browser state is reset via ContextService.clearContext() when
+ * a page is passed, and the session is retired once it hits maxReuse. Retired
+ * and evicted sessions are replaced in the background to keep minSize warm.
+ */
+export class SessionPool {
+    private idle = new Map<string, PooledSession[]>();
+    private inUse = new Map<string, PooledSession>();
+    private pending = new Map<string, number>();
+    private waiters = new Map<string, Waiter[]>();
+    /** Config last used per key — replacement sessions for waiters are created from it */
+    private configs = new Map<string, SessionConfig>();
+    private evictionTimer: ReturnType<typeof setInterval> | null = null;
+    private options: Required<SessionPoolOptions>;
+    private closed = false;
+
+    constructor(
+        private sessionManager: SessionManager,
+        private contextService: ContextService,
+        options: SessionPoolOptions = {},
+    ) {
+        this.options = {
+            minSize: options.minSize ?? 0,
+            maxSize: options.maxSize ?? 5,
+            idleTimeoutMs: options.idleTimeoutMs ?? 300_000,
+            maxReuse: options.maxReuse ?? 50,
+            acquireTimeoutMs: options.acquireTimeoutMs ?? 30_000,
+            evictionIntervalMs: options.evictionIntervalMs ?? 30_000,
+        };
+        if (this.options.minSize > this.options.maxSize) {
+            throw new Error(`SessionPool: minSize (${this.options.minSize}) cannot exceed maxSize (${this.options.maxSize})`);
+        }
+
+        // Sessions released outside the pool (e.g. browser.sessions.release) must not be handed out again
+        this.sessionManager.onRelease((sessionId: string) => this.forget(sessionId));
+    }
+
+    /**
+     * Pre-launch sessions for a config so the next acquire() is instant.
+     * Creates up to `count` (default: minSize) idle sessions, bounded by maxSize.
+     */
+    async warm(config: SessionConfig = {}, count = this.options.minSize): Promise<void> {
+        this.assertOpen();
+        const key = poolKey(config);
+        this.configs.set(key, config);
+        const creations: Promise<void>[] = [];
+        for (let i = this.idleList(key).length; i < count && this.total(key) < this.options.maxSize; i++) {
+            creations.push(this.create(config, key).then(pooled => this.returnToIdle(pooled)));
+        }
+        await Promise.all(creations);
+        this.ensureEvictionTimer();
+    }
+
+    /**
+     * Get a session for the config — an idle warm one if available, otherwise a
+     * newly created one. Waits for a release when the key is at maxSize.
+     */
+    async acquire(config: SessionConfig = {}): Promise<Session> {
+        this.assertOpen();
+        const key = poolKey(config);
+        this.configs.set(key, config);
+        this.ensureEvictionTimer();
+
+        const pooled = this.idleList(key).pop();
+        if (pooled) return this.checkout(pooled);
+
+        if (this.total(key) < this.options.maxSize) {
+            const created = await this.create(config, key);
+            return this.checkout(created);
+        }
+
+        return new Promise<Session>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                const queue = this.waiters.get(key) || [];
+                const idx = queue.findIndex(w => w.timer === timer);
+                if (idx >= 0) queue.splice(idx, 1);
+                reject(new Error(`SessionPool: timed out after ${this.options.acquireTimeoutMs}ms waiting for a free session (maxSize ${this.options.maxSize})`));
+            }, this.options.acquireTimeoutMs);
+            if (!this.waiters.has(key)) this.waiters.set(key, []);
+            this.waiters.get(key)!.push({ resolve, reject, timer });
+        });
+    }
+
+    /**
+     * Return a session to the pool. Pass the page used during the task to reset
+     * cookies and storage before the session is handed out again; a session
+     * whose state can't be cleared is released instead.
+     */
+    async release(sessionId: string, page?: any): Promise<void> {
+        const pooled = this.inUse.get(sessionId);
+        if (!pooled) throw new Error(`SessionPool: session ${sessionId} is not checked out from this pool`);
+        this.inUse.delete(sessionId);
+
+        if (this.closed) {
+            await this.destroy(pooled, 'pool-drained');
+            return;
+        }
+        if (this.options.maxReuse > 0 && pooled.uses >= this.options.maxReuse) {
+            await this.destroy(pooled, 'pool-max-reuse');
+            return;
+        }
+
+        if (page) {
+            try {
+                await this.contextService.clearContext(page);
+            } catch (err) {
+                console.error(`SessionPool: failed to clear session ${sessionId}, releasing it:`, err);
+                await this.destroy(pooled, 'pool-clear-failed');
+                return;
+            }
+        }
+        this.returnToIdle(pooled);
+    }
+
+    /**
+     * Release idle sessions above minSize that have been idle longer than idleTimeoutMs,
+     * and top keys that fell below minSize back up. Runs automatically every evictionIntervalMs.
+     */
+    async evictIdle(): Promise<number> {
+        const now = Date.now();
+        const expired: PooledSession[] = [];
+        for (const [, list] of this.idle) {
+            // Oldest first — newest sessions sit at the end and are reused first
+            while (list.length > this.options.minSize && now - list[0].idleSince >= this.options.idleTimeoutMs) {
+                expired.push(list.shift()!);
+            }
+        }
+        for (const pooled of expired) {
+            await this.destroy(pooled, 'pool-idle-eviction');
+        }
+        for (const key of this.configs.keys()) this.replenish(key);
+        return expired.length;
+    }
+
+    /** Per-key pool occupancy. */
+    stats(): SessionPoolStats[] {
+        const keys = new Set<string>([...this.idle.keys(), ...this.pending.keys()]);
+        for (const pooled of this.inUse.values()) keys.add(pooled.key);
+        return Array.from(keys).map(key => ({
+            key,
+            idle: this.idleList(key).length,
+            inUse: this.inUseCount(key),
+            pending: this.pending.get(key) || 0,
+        }));
+    }
+
+    /**
+     * Release every idle session and stop the eviction timer. Sessions still
+     * checked out are released when they are returned.
+     */
+    async drain(): Promise<void> {
+        this.closed = true;
+        if (this.evictionTimer) {
+            clearInterval(this.evictionTimer);
+            this.evictionTimer = null;
+        }
+        for (const [, queue] of this.waiters) {
+            for (const waiter of queue) {
+                clearTimeout(waiter.timer);
+                waiter.reject(new Error('SessionPool: pool drained'));
+            }
+        }
+        this.waiters.clear();
+
+        const all = Array.from(this.idle.values()).flat();
+        this.idle.clear();
+        for (const pooled of all) {
+            await this.destroy(pooled, 'pool-drained');
+        }
+    }
+
+    // =================== Private ===================
+
+    private async create(config: SessionConfig, key: string): Promise<PooledSession> {
+        this.pending.set(key, (this.pending.get(key) || 0) + 1);
+        try {
+            // Pool owns the session ID — a caller-supplied ID can't be shared across pooled sessions
+            const poolConfig: SessionConfig = { ...config };
+            delete poolConfig.sessionId;
+            const session = await this.sessionManager.createSession(poolConfig);
+            return { session, key, uses: 0, idleSince: Date.now() };
+        } finally {
+            this.pending.set(key, (this.pending.get(key) || 1) - 1);
+        }
+    }
+
+    private checkout(pooled: PooledSession): Session {
+        pooled.uses++;
+        this.inUse.set(pooled.session.id, pooled);
+        return pooled.session;
+    }
+
+    private returnToIdle(pooled: PooledSession): void {
+        // Hand straight to a waiting acquire() before parking it
+        const waiter = this.waiters.get(pooled.key)?.shift();
+        if (waiter) {
+            clearTimeout(waiter.timer);
+            waiter.resolve(this.checkout(pooled));
+            return;
+        }
+        pooled.idleSince = Date.now();
+        this.idleList(pooled.key).push(pooled);
+    }
+
+    private async destroy(pooled: PooledSession, reason: string): Promise<void> {
+        try {
+            await this.sessionManager.releaseSession(pooled.session.id, reason);
+        } catch (err) {
+            console.error(`SessionPool: failed to release session ${pooled.session.id}:`, err);
+        }
+        this.wakeWaiter(pooled.key);
+        this.replenish(pooled.key);
+    }
+
+    /** Create idle sessions in the background until the key is back at minSize. */
+    private replenish(key: string): void {
+        const config = this.configs.get(key);
+        if (this.closed || !config) return;
+        const missing = this.options.minSize - this.idleList(key).length - (this.pending.get(key) || 0);
+        for (let i = 0; i < missing && this.total(key) < this.options.maxSize; i++) {
+            this.create(config, key)
+                .then(pooled => this.closed ? this.destroy(pooled, 'pool-drained') : this.returnToIdle(pooled))
+                .catch(err => console.error('SessionPool: failed to replenish idle sessions:', err));
+        }
+    }
+
+    /** A slot opened up under maxSize — create a fresh session for the next waiter. */
+    private wakeWaiter(key: string): void {
+        const queue = this.waiters.get(key);
+        if (!queue || queue.length === 0 || this.total(key) >= this.options.maxSize) return;
+        const waiter = queue.shift()!;
+        clearTimeout(waiter.timer);
+        this.create(this.configs.get(key) || {}, key)
+            .then(pooled => waiter.resolve(this.checkout(pooled)))
+            .catch(err => waiter.reject(err));
+    }
+
+    private forget(sessionId: string): void {
+        this.inUse.delete(sessionId);
+        for (const [, list] of this.idle) {
+            const idx = list.findIndex(p => p.session.id === sessionId);
+            if (idx >= 0) list.splice(idx, 1);
+        }
+    }
+
+    private idleList(key: string): PooledSession[] {
+        if (!this.idle.has(key)) this.idle.set(key, []);
+        return this.idle.get(key)!;
+    }
+
+    private inUseCount(key: string): number {
+        let count = 0;
+        for (const pooled of this.inUse.values()) {
+            if (pooled.key === key) count++;
+        }
+        return count;
+    }
+
+    private total(key: string): number {
+        return this.idleList(key).length + this.inUseCount(key) + (this.pending.get(key) || 0);
+    }
+
+    private ensureEvictionTimer(): void {
+        if (this.evictionTimer || this.options.evictionIntervalMs <= 0) return;
+        this.evictionTimer = setInterval(() => {
+            this.evictIdle().catch(err => console.error('SessionPool: idle eviction failed:', err));
+        }, this.options.evictionIntervalMs);
+        // Allow the Node process to exit even if the timer is still running
+        if (this.evictionTimer.unref) this.evictionTimer.unref();
+    }
+
+    private assertOpen(): void {
+        if (this.closed) throw new Error('SessionPool: pool has been drained');
+    }
+}
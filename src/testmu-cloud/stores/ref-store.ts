@@ -3,7 +3,12 @@ export interface RefMapping {
     css: string;
     role: string;
     name: string;
+    /** CDP backend id of the element's DOM node; valid until its document is replaced */
+    backendNodeId?: number;
+    /** CDP frame id of the iframe the element lives in (unset for the top frame) */
     frameId?: string;
+    /** CSS selectors of the iframe elements leading to the element's frame, outermost first */
+    framePath?: string[];
 }
 
 export interface RefStore {
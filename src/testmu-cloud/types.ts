@@ -109,6 +109,22 @@ export interface CredentialsConfig {
 }
 
 // -------------------- Session Configuration (Full TestMu AI Parity) --------------------
+/**
+ * What to do with alert/confirm/prompt/beforeunload dialogs:
+ * - accept: click OK (prompts get `promptText`, or their default value)
+ * - dismiss: click Cancel
+ * - queue: leave the dialog open until it is answered, or dismiss it after `timeout`
+ */
+export type DialogAction = 'accept' | 'dismiss' | 'queue';
+
+export interface DialogPolicy {
+    action: DialogAction;
+    /** Text entered into prompt() dialogs when they are accepted by the policy */
+    promptText?: string;
+    /** Queue only: ms a dialog waits for a response before it is dismissed (default: 30000) */
+    timeout?: number;
+}
+
 export type BrowserAdapter = 'puppeteer' | 'playwright' | 'selenium';
 
 export interface SessionConfig {
@@ -143,6 +159,18 @@ export interface SessionConfig {
     userAgent?: string;
     deviceConfig?: DeviceConfig;
     debugConfig?: DebugConfig;
+    /**
+     * Record pages with rrweb so `sessions.events()` returns a replayable recording (default: false).
+     * The recorder is injected into every page and streams each DOM change back, which costs page CPU and bandwidth.
+     */
+    recordEvents?: boolean;
+    /** Capture console messages, page errors and failed requests into `browser.console` (default: true). */
+    captureConsole?: boolean;
+    /**
+     * How `browser.dialogs` answers alert/confirm/prompt dialogs of every page (default: dismiss,
+     * as the CLI does), so a dialog never leaves the page blocked.
+     */
+    dialogPolicy?: DialogPolicy;
     isSelenium?: boolean;
     persistProfile?: boolean;
     credentials?: CredentialsConfig;
@@ -193,15 +221,32 @@ export type ComputerActionType =
     | 'scroll'
     | 'type'
     | 'key'
-    | 'screenshot';
+    | 'screenshot'
+    | 'drag'
+    | 'mouse_down'
+    | 'mouse_up'
+    | 'triple_click'
+    | 'hold_key';
 
 export interface ComputerActionParams {
     action: ComputerActionType;
+    /** Target point; for drag, where the drag ends */
     coordinate?: [number, number];
+    /** drag: where the drag starts */
+    startCoordinate?: [number, number];
+    /** drag: @ref or CSS selector to drag from (instead of startCoordinate) */
+    source?: string;
+    /** drag: @ref or CSS selector to drop on (instead of coordinate) */
+    target?: string;
+    /** type: text to type; key/hold_key: a key or chord such as "Enter" or "ctrl+shift+t" */
     text?: string;
     deltaX?: number;
     deltaY?: number;
+    /** hold_key: how long the keys stay down in ms (default: 1000) */
+    duration?: number;
     screenshot?: boolean;
+    /** Display size coordinates are given in and screenshots are resized to, overriding `ComputerService.setDisplaySize()` */
+    displaySize?: Dimensions;
 }
 
 export interface ComputerActionResponse {
@@ -235,6 +280,13 @@ export interface LiveDetailsResponse {
     sessionViewerFullscreenUrl: string;
 }
 
+/** Options for re-attaching to a session created by another process */
+export interface AttachOptions {
+    /** LambdaTest credentials for a cloud session's WebSocket URL (default: LT_USERNAME / LT_ACCESS_KEY) */
+    username?: string;
+    accessKey?: string;
+}
+
 // -------------------- Release Response --------------------
 export interface ReleaseResponse {
     success: boolean;
@@ -332,6 +384,134 @@ export interface ScrapeResponse {
     markdown?: string;
     html?: string;
     metadata?: Record<string, string>;
+    /** The `readability` format only: the page's main article */
+    article?: ScrapeArticle;
+}
+
+export interface ScrapeArticle {
+    /** Article title, without a trailing " | Site Name" */
+    title: string;
+    byline?: string;
+    /** Publication date as the page gives it, usually ISO 8601 */
+    publishedTime?: string;
+    /** Absolute URL of the lead image */
+    leadImage?: string;
+    excerpt?: string;
+    siteName?: string;
+    /** Main content as cleaned HTML: no site chrome, and no classes or ids besides code languages */
+    html: string;
+    markdown: string;
+    textContent: string;
+    wordCount: number;
+}
+
+export interface CrawlParams {
+    startUrl: string;
+    /** Stop after this many pages (default: 50) */
+    maxPages?: number;
+    /** Link hops from the start URL to follow; 0 crawls only the start page (default: 2) */
+    maxDepth?: number;
+    /**
+     * Only follow links matching one of these: a RegExp, a glob such as
+     * `https://docs.example.com/guide/**`, or a substring
+     */
+    includePatterns?: (string | RegExp)[];
+    /** Never follow links matching one of these */
+    excludePatterns?: (string | RegExp)[];
+    /** Only follow links on the start URL's origin (default: true) */
+    sameOrigin?: boolean;
+    /** Pages loaded at once, each in its own tab (default: 2) */
+    concurrency?: number;
+    /** Skip URLs the site's robots.txt disallows (default: true) */
+    respectRobotsTxt?: boolean;
+    /** Format of each page's content (default: 'markdown') */
+    format?: ScrapeParams['format'];
+    delay?: number;
+    waitFor?: string;
+    /** Crawl in tabs of this session's browser instead of launching Chrome */
+    sessionId?: string;
+}
+
+export interface CrawlResponse extends ScrapeResponse {
+    /** Link hops from the start URL */
+    depth: number;
+    /** Set when the page failed to load; the crawl carries on */
+    error?: string;
+}
+
+export type ExtractTransform = 'trim' | 'number' | 'integer' | 'date' | 'boolean' | 'lowercase' | 'uppercase';
+
+/**
+ * How to read one field. A bare string is shorthand for `{ selector }`.
+ */
+export interface ExtractFieldRule {
+    /** CSS selector, or XPath when it starts with `/`, `(` or `xpath=`. Omit inside `fields` to read the parent match */
+    selector?: string;
+    /** What to read: 'text' (default), 'html', 'value', or an attribute such as 'href' (URLs come back absolute) */
+    attribute?: string;
+    /** Read every match into an array instead of the first one */
+    list?: boolean;
+    /** Applied in order (default: 'trim') */
+    transform?: ExtractTransform | ExtractTransform[];
+    /** Report an error when nothing matches or the value is empty */
+    required?: boolean;
+    /** Read an object from each match, with selectors relative to it */
+    fields?: ExtractFieldMap;
+}
+
+export type ExtractFieldMap = Record<string, string | ExtractFieldRule>;
+
+/**
+ * The subset of JSON Schema extract understands, plus `x-selector`, `x-attribute`
+ * and `x-transform` to say where a property comes from. Properties without
+ * `x-selector` are looked up in the page's structured data (JSON-LD, microdata,
+ * meta tags) by name.
+ */
+export interface ExtractJsonSchema {
+    type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null' | string[];
+    properties?: Record<string, ExtractJsonSchema>;
+    items?: ExtractJsonSchema;
+    required?: string[];
+    enum?: unknown[];
+    format?: string;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    minItems?: number;
+    maxItems?: number;
+    'x-selector'?: string;
+    'x-attribute'?: string;
+    'x-transform'?: ExtractTransform | ExtractTransform[];
+    [keyword: string]: unknown;
+}
+
+export interface ExtractParams {
+    /** Page to load; optional with `page`, which is then navigated to it first */
+    url?: string;
+    /** An open Puppeteer or Playwright page to read instead of loading `url` in a new browser */
+    page?: any;
+    /** A JSON Schema, or a map of field names to selector rules */
+    schema: ExtractJsonSchema | ExtractFieldMap;
+    delay?: number;
+    waitFor?: string;
+    sessionId?: string;
+}
+
+export interface ExtractFieldError {
+    /** Path of the field, e.g. `price` or `reviews[2].rating` */
+    field: string;
+    message: string;
+}
+
+export interface ExtractResponse {
+    url: string;
+    /** Extracted record; fields that failed are null */
+    data: Record<string, unknown>;
+    errors: ExtractFieldError[];
+    /** True when there are no errors */
+    valid: boolean;
 }
 
 export interface ScreenshotParams {
@@ -368,3 +548,61 @@ export interface PdfResponse {
     data: Buffer;
     pageCount: number;
 }
+
+/**
+ * Options shared by the batch quick actions (`screenshotMany`, `pdfMany`,
+ * `scrapeMany`), which run many URLs through a few tabs of one browser.
+ */
+export interface BatchParams {
+    /** URLs to load, or the path of a file with one URL per line (`#` starts a comment) */
+    urls: string[] | string;
+    /** Pages loaded at once, one tab each (default 4) */
+    concurrency?: number;
+    /** Extra attempts for a URL that fails (default 2) */
+    retries?: number;
+    /** Wait in ms before the first retry, doubled for each one after (default 1000) */
+    retryDelay?: number;
+    /** Use tabs of this session's browser instead of launching Chrome */
+    sessionId?: string;
+    /**
+     * Called each time a URL finishes, whether it succeeded or not. If it
+     * throws, no more URLs start and the batch rejects with that error once
+     * the ones in flight finish.
+     */
+    onProgress?: (progress: BatchProgress) => void;
+}
+
+export interface BatchItemResult<T> {
+    url: string;
+    /** Position of the URL in the input list */
+    index: number;
+    /** Set when the last attempt succeeded */
+    result?: T;
+    /** Set when every attempt failed: the last attempt's error */
+    error?: string;
+    attempts: number;
+    /** Time in ms across all attempts */
+    duration: number;
+}
+
+export interface BatchProgress {
+    completed: number;
+    failed: number;
+    total: number;
+    /** The URL that just finished */
+    item: BatchItemResult<unknown>;
+}
+
+export interface BatchResponse<T> {
+    /** One entry per input URL, in input order */
+    results: BatchItemResult<T>[];
+    succeeded: number;
+    failed: number;
+    duration: number;
+}
+
+export type ScreenshotManyParams = BatchParams & Omit<ScreenshotParams, 'url' | 'sessionId'>;
+
+export type PdfManyParams = BatchParams & Omit<PdfParams, 'url' | 'sessionId'>;
+
+export type ScrapeManyParams = BatchParams & Omit<ScrapeParams, 'url' | 'sessionId'>;
@@ -0,0 +1,13 @@
+import { loadUrlList, parseUrlList } from '../batch';
+
+describe('batch URL lists', () => {
+    it('reads one URL per line, skipping blank lines and comments', () => {
+        const text = '# Product pages\r\nhttps://shop.test/a\n\n  https://shop.test/b   # sale\nhttps://shop.test/c#reviews\n';
+        expect(parseUrlList(text)).toEqual(['https://shop.test/a', 'https://shop.test/b', 'https://shop.test/c#reviews']);
+    });
+
+    it('passes arrays through and names the file it cannot read', async () => {
+        await expect(loadUrlList(['https://shop.test/a'])).resolves.toEqual(['https://shop.test/a']);
+        await expect(loadUrlList('/nonexistent/urls.txt')).rejects.toThrow('Cannot read URL list "/nonexistent/urls.txt"');
+    });
+});
@@ -0,0 +1,49 @@
+import { normalizeCrawlUrl, RobotsRules } from '../crawl';
+
+describe('crawl', () => {
+    describe('normalizeCrawlUrl', () => {
+        it('drops fragments, tracking parameters and trailing slashes, and sorts the query', () => {
+            expect(normalizeCrawlUrl('https://Docs.Example.com/guide/?b=2&utm_source=x&a=1#intro'))
+                .toBe('https://docs.example.com/guide?a=1&b=2');
+            expect(normalizeCrawlUrl('https://example.com/#top')).toBe('https://example.com/');
+            expect(normalizeCrawlUrl('../api', 'https://example.com/guide/start')).toBe('https://example.com/api');
+        });
+
+        it('rejects non-http URLs', () => {
+            expect(normalizeCrawlUrl('mailto:team@example.com')).toBeNull();
+            expect(normalizeCrawlUrl('javascript:void(0)')).toBeNull();
+            expect(normalizeCrawlUrl('not a url')).toBeNull();
+        });
+    });
+
+    describe('RobotsRules', () => {
+        const robots = [
+            'User-agent: *',
+            'Disallow: /private/',
+            'Allow: /private/docs/',
+            'Disallow: /*.pdf$',
+            '',
+            'User-agent: badbot',
+            'Disallow: /',
+        ].join('\n');
+
+        it('applies the longest matching rule of the * group', () => {
+            const rules = RobotsRules.parse(robots);
+            expect(rules.isAllowed('https://example.com/guide')).toBe(true);
+            expect(rules.isAllowed('https://example.com/private/keys')).toBe(false);
+            expect(rules.isAllowed('https://example.com/private/docs/intro')).toBe(true);
+            expect(rules.isAllowed('https://example.com/files/report.pdf')).toBe(false);
+            expect(rules.isAllowed('https://example.com/files/report.pdf?download=1')).toBe(true);
+        });
+
+        it('uses the group naming the user agent instead of *', () => {
+            const rules = RobotsRules.parse(robots, 'BadBot/2.0');
+            expect(rules.isAllowed('https://example.com/guide')).toBe(false);
+            expect(rules.isAllowed('https://example.com/robots.txt')).toBe(true);
+        });
+
+        it('allows everything for an empty Disallow', () => {
+            expect(RobotsRules.parse('User-agent: *\nDisallow:').isAllowed('/anything')).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,50 @@
+/**
+ * @jest-environment jsdom
+ */
+import { DomNode, serializeDom } from '../dom-tree';
+
+function tags(node: DomNode): string[] {
+    return [node.tag, ...(node.children || []).flatMap(tags)];
+}
+
+describe('serializeDom', () => {
+    it('leaves out what is not rendered and resolves URLs', () => {
+        document.body.innerHTML = '<p>Hi <a href="/docs">docs</a></p><div style="display: none">gone</div><script>x()</script><img data-src="/lazy.png">';
+        const body = serializeDom();
+        expect(tags(body)).toEqual(['body', 'p', '#text', 'a', '#text', 'img']);
+        expect(body.children![0].children![1].attrs!.href).toBe(new URL('/docs', document.baseURI).href);
+        expect(body.children![1].attrs!.src).toBe(new URL('/lazy.png', document.baseURI).href);
+    });
+
+    it('only looks up the style of elements without a box', () => {
+        const had = 'checkVisibility' in Element.prototype;
+        const original = Element.prototype.checkVisibility;
+        // jsdom has no layout: an inline display stands in for the element's box
+        Element.prototype.checkVisibility = function (this: HTMLElement) {
+            return !['none', 'contents'].includes(this.style.display);
+        };
+        const styleSpy = jest.spyOn(window, 'getComputedStyle');
+        try {
+            document.body.innerHTML = '<p>one</p><p style="display: none">two</p><div style="display: contents"><p>three</p></div><p>four</p>';
+            expect(tags(serializeDom())).toEqual(['body', 'p', '#text', 'div', 'p', '#text', 'p', '#text']);
+            expect(styleSpy).toHaveBeenCalledTimes(2);
+        } finally {
+            styleSpy.mockRestore();
+            if (had) Element.prototype.checkVisibility = original;
+            else delete (Element.prototype as Partial<Element>).checkVisibility;
+        }
+    });
+
+    it('keeps elements past maxDepth as text and stops at maxNodes', () => {
+        document.body.innerHTML = '<div><div><div><b>deep</b> text</div></div></div>';
+        expect(serializeDom({ maxDepth: 2 })).toEqual({
+            tag: 'body', attrs: {}, children: [{
+                tag: 'div', attrs: {}, children: [{ tag: 'div', attrs: {}, children: [{ tag: '#text', text: 'deep text' }] }],
+            }],
+        });
+
+        document.body.innerHTML = '<ul>' + '<li>item</li>'.repeat(100) + '</ul>';
+        const list = serializeDom({ maxNodes: 10 });
+        expect(tags(list)).toHaveLength(10);
+    });
+});
@@ -0,0 +1,205 @@
+/**
+ * @jest-environment jsdom
+ */
+import { applyTransforms, buildRecord, compileExtractSchema, extractFromPage, readFields, readStructuredData, StructuredData } from '../extract';
+
+/** Page whose `evaluate` runs the page-side function against jsdom's document */
+function createDomPage(html: string) {
+    document.body.innerHTML = html;
+    return { evaluate: jest.fn(async (fn: (arg?: any) => any, arg?: any) => fn(arg)) };
+}
+
+beforeAll(() => {
+    // jsdom has no layout, so no innerText; textContent stands in for it
+    if (!('innerText' in HTMLElement.prototype)) {
+        Object.defineProperty(HTMLElement.prototype, 'innerText', { get() { return this.textContent; }, configurable: true });
+    }
+});
+
+describe('extract', () => {
+    describe('field maps', () => {
+        const specs = compileExtractSchema({
+            name: 'h1',
+            price: { selector: '.price', transform: ['trim', 'number'], required: true },
+            tags: { selector: '.tag', list: true, transform: ['trim', 'lowercase'] },
+            reviews: { selector: '.review', list: true, fields: { author: '.by', stars: { selector: '.stars', transform: 'integer' } } },
+            sku: { selector: '#sku', required: true },
+        });
+
+        it('transforms the raw values into a record', () => {
+            const { data, errors } = buildRecord(specs, {
+                name: '  Trail   Shoe\n',
+                price: '$1,299.99',
+                tags: ['Running ', 'OUTDOOR'],
+                reviews: [{ author: 'Ann', stars: '5' }, { author: 'Bo', stars: '4.5' }],
+                sku: 'TS-1',
+            });
+            expect(data).toEqual({
+                name: 'Trail Shoe',
+                price: 1299.99,
+                tags: ['running', 'outdoor'],
+                reviews: [{ author: 'Ann', stars: 5 }, { author: 'Bo', stars: null }],
+                sku: 'TS-1',
+            });
+            expect(errors).toEqual([{ field: 'reviews[1].stars', message: 'Expected a whole number, got "4.5"' }]);
+        });
+
+        it('reports missing required fields and unreadable values per field', () => {
+            const { data, errors } = buildRecord(specs, { name: null, price: 'Call us', tags: [], reviews: [], sku: null });
+            expect(data).toEqual({ name: null, price: null, tags: [], reviews: [], sku: null });
+            expect(errors).toEqual([
+                { field: 'price', message: 'Cannot read "Call us" as a number' },
+                { field: 'sku', message: 'No element matches "#sku"' },
+            ]);
+        });
+
+        it('rejects rules that can never work', () => {
+            expect(() => compileExtractSchema({ price: { list: true } })).toThrow('Field "price" needs a selector');
+            expect(() => compileExtractSchema({ price: { selector: '.p', transform: 'money' as any } })).toThrow('unknown transform "money"');
+            expect(() => compileExtractSchema({})).toThrow('Extract schema has no fields');
+            expect(() => compileExtractSchema({ properties: { sku: { type: 'string', 'x-selector': '#sku', pattern: '[A-Z' } } }))
+                .toThrow('Field "sku" has an invalid pattern /[A-Z/');
+            expect(() => compileExtractSchema({ properties: { sizes: { type: 'array', 'x-selector': '.size', items: { type: 'string', pattern: '(' } } } }))
+                .toThrow('Field "sizes" has an invalid pattern /(/');
+        });
+    });
+
+    describe('JSON Schema', () => {
+        it('converts to the property types and validates the record', () => {
+            const specs = compileExtractSchema({
+                type: 'object',
+                required: ['title', 'rating'],
+                properties: {
+                    title: { type: 'string', 'x-selector': 'h1', minLength: 3 },
+                    rating: { type: 'number', 'x-selector': '.rating', maximum: 5 },
+                    stock: { type: 'string', 'x-selector': '.stock', enum: ['in', 'out'] },
+                    released: { type: 'string', format: 'date', 'x-selector': 'time', 'x-attribute': 'datetime' },
+                    sizes: { type: 'array', 'x-selector': '.size', items: { type: 'integer' }, minItems: 1 },
+                },
+            });
+            const { data, errors } = buildRecord(specs, {
+                title: 'Go',
+                rating: '4.7 out of 5',
+                stock: 'sold out',
+                released: '2026-02-01',
+                sizes: ['42', '43'],
+            });
+            expect(data).toEqual({ title: null, rating: 4.7, stock: null, released: '2026-02-01T00:00:00.000Z', sizes: [42, 43] });
+            expect(errors).toEqual([
+                { field: 'title', message: 'Expected at least 3 characters, got "Go"' },
+                { field: 'stock', message: 'Expected one of "in", "out", got "sold out"' },
+            ]);
+        });
+
+        it('finds properties without a selector in JSON-LD, microdata and meta tags', () => {
+            const structured: StructuredData = {
+                jsonLd: [{
+                    '@context': 'https://schema.org',
+                    '@type': 'Product',
+                    name: 'Trail Shoe',
+                    brand: { '@type': 'Brand', name: 'Acme' },
+                    offers: { '@type': 'Offer', price: '89.50', priceCurrency: 'USD' },
+                    review: [
+                        { author: { name: 'Ann' }, reviewRating: { ratingValue: 5 } },
+                        { author: { name: 'Bo' }, reviewRating: { ratingValue: '4' } },
+                    ],
+                }],
+                microdata: { sku: 'TS-1' },
+                meta: { 'og:image': 'https://shop.com/shoe.jpg' },
+            };
+            const specs = compileExtractSchema({
+                properties: {
+                    name: { type: 'string' },
+                    brand: { type: 'string' },
+                    price: { type: 'number' },
+                    sku: { type: 'string' },
+                    image: { type: 'string' },
+                    review: { type: 'array', items: { type: 'object', properties: { author: { type: 'string' }, ratingValue: { type: 'integer' } } } },
+                    color: { type: 'string' },
+                },
+                required: ['color'],
+            });
+            const { data, errors } = buildRecord(specs, {}, structured);
+            expect(data).toEqual({
+                name: 'Trail Shoe',
+                brand: 'Acme',
+                price: 89.5,
+                sku: 'TS-1',
+                image: 'https://shop.com/shoe.jpg',
+                review: [{ author: 'Ann', ratingValue: 5 }, { author: 'Bo', ratingValue: 4 }],
+                color: null,
+            });
+            expect(errors).toEqual([{ field: 'color', message: 'Not found in the page\'s structured data' }]);
+        });
+    });
+
+    it('parses numbers, dates and booleans from page text', () => {
+        expect(applyTransforms('€ 2,450', ['number'])).toBe(2450);
+        expect(applyTransforms(' In stock ', ['trim', 'boolean'])).toBe(true);
+        expect(applyTransforms('March 3, 2026 UTC', ['date'])).toBe('2026-03-03T00:00:00.000Z');
+        expect(() => applyTransforms('soon', ['date'])).toThrow('Cannot read "soon" as a date');
+    });
+
+    it('reads structured data from the page only when a field needs it', async () => {
+        const page = createDomPage('<h1>Shoe</h1>');
+        document.head.innerHTML = '<meta name="description" content="Light">';
+        await expect(extractFromPage(page, compileExtractSchema({ title: 'h1' }))).resolves.toEqual({ data: { title: 'Shoe' }, errors: [] });
+        expect(page.evaluate).toHaveBeenCalledTimes(1);
+        expect(page.evaluate.mock.calls[0][0]).toBe(readFields);
+
+        const specs = compileExtractSchema({ properties: { title: { type: 'string', 'x-selector': 'h1' }, description: { type: 'string' } } });
+        await expect(extractFromPage(page, specs)).resolves.toEqual({ data: { title: 'Shoe', description: 'Light' }, errors: [] });
+        expect(page.evaluate).toHaveBeenCalledTimes(3);
+        expect(page.evaluate.mock.calls[2][0]).toBe(readStructuredData);
+    });
+
+    describe('in the page', () => {
+        it('reads text, attributes, lists and nested fields by CSS and XPath', () => {
+            createDomPage(`
+                <h1>Trail Shoe</h1>
+                <a class="brand" href="/brands/acme">Acme</a>
+                <input id="qty" value="2">
+                <ul><li class="tag">Running</li><li class="tag">Outdoor</li></ul>
+                <div class="review"><span class="by">Ann</span><span class="stars">5</span></div>
+                <div class="review"><span class="by">Bo</span></div>
+                <p id="note"><b>Ships</b> today</p>
+            `);
+            const specs = compileExtractSchema({
+                name: 'h1',
+                brand: { selector: 'a.brand', attribute: 'href' },
+                qty: { selector: '#qty', attribute: 'value' },
+                tags: { selector: '//li[@class="tag"]', list: true },
+                reviews: { selector: '.review', list: true, fields: { author: '.by', stars: '.stars' } },
+                note: { selector: '#note', attribute: 'html' },
+                missing: '.nothing',
+            });
+
+            expect(readFields({ fields: specs })).toEqual({
+                name: 'Trail Shoe',
+                brand: new URL('/brands/acme', document.baseURI).href,
+                qty: '2',
+                tags: ['Running', 'Outdoor'],
+                reviews: [{ author: 'Ann', stars: '5' }, { author: 'Bo', stars: null }],
+                note: '<b>Ships</b> today',
+                missing: null,
+            });
+        });
+
+        it('leaves out fields found in structured data and collects JSON-LD, microdata and meta tags', () => {
+            createDomPage(`
+                <script type="application/ld+json">{"@type": "Product", "name": "Trail Shoe"}</script>
+                <script type="application/ld+json">{ not json</script>
+                <div itemscope><span itemprop="sku">TS-1</span><meta itemprop="sku" content="ignored"><time itemprop="released" datetime="2026-02-01">Feb 1</time></div>
+            `);
+            document.head.innerHTML = '<meta property="og:image" content="https://shop.com/shoe.jpg"><meta name="empty">';
+            const specs = compileExtractSchema({ properties: { name: { type: 'string' }, sku: { type: 'string', 'x-selector': '[itemprop=sku]' } } });
+
+            expect(readFields({ fields: specs })).toEqual({ sku: 'TS-1' });
+            expect(readStructuredData()).toEqual({
+                jsonLd: [{ '@type': 'Product', name: 'Trail Shoe' }],
+                microdata: { sku: 'TS-1', released: '2026-02-01' },
+                meta: { 'og:image': 'https://shop.com/shoe.jpg' },
+            });
+        });
+    });
+});
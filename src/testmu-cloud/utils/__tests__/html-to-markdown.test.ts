@@ -0,0 +1,90 @@
+import { DomNode } from '../dom-tree';
+import { domToMarkdown } from '../html-to-markdown';
+
+/** Element node; strings become text nodes */
+function h(tag: string, attrs: Record<string, string> = {}, ...children: (DomNode | string)[]): DomNode {
+    return { tag, attrs, children: children.map(child => typeof child === 'string' ? { tag: '#text', text: child } : child) };
+}
+
+describe('domToMarkdown', () => {
+    it('converts headings, paragraphs and inline formatting', () => {
+        const body = h('body', {},
+            h('h1', {}, 'Release ', h('em', {}, 'notes')),
+            '\n  ',
+            h('div', {},
+                'Plain text with ',
+                h('strong', {}, ' bold '),
+                'and ',
+                h('code', {}, 'npm i'),
+                h('br'),
+                'second line',
+            ),
+        );
+        expect(domToMarkdown(body)).toBe('# Release *notes*\n\nPlain text with **bold** and `npm i`  \nsecond line');
+    });
+
+    it('keeps links and images, dropping data: images and javascript: links', () => {
+        const body = h('body', {},
+            h('p', {},
+                h('a', { href: 'https://a.com/docs/getting started' }, 'Docs'),
+                ' ',
+                h('a', { href: 'javascript:void(0)' }, 'menu'),
+                ' ',
+                h('img', { src: 'https://a.com/logo.png', alt: 'Logo' }),
+                h('img', { src: 'data:image/png;base64,AAAA', alt: 'pixel' }),
+            ),
+        );
+        expect(domToMarkdown(body)).toBe('[Docs](https://a.com/docs/getting%20started) menu ![Logo](https://a.com/logo.png)');
+    });
+
+    it('nests lists and numbers from the start attribute', () => {
+        const body = h('body', {},
+            h('ol', { start: '3' },
+                h('li', {}, 'Install'),
+                h('li', {}, 'Configure', h('ul', {}, h('li', {}, 'username'), h('li', {}, 'access key'))),
+            ),
+        );
+        expect(domToMarkdown(body)).toBe('3. Install\n4. Configure\n   - username\n   - access key');
+    });
+
+    it('converts tables to GFM with escaped pipes and padded rows', () => {
+        const body = h('body', {},
+            h('table', {},
+                h('thead', {}, h('tr', {}, h('th', {}, 'Plan'), h('th', {}, 'Price'))),
+                h('tbody', {},
+                    h('tr', {}, h('td', {}, 'Pro | Team'), h('td', {}, '$15')),
+                    h('tr', {}, h('td', {}, 'Free')),
+                ),
+            ),
+        );
+        expect(domToMarkdown(body)).toBe('| Plan | Price |\n| --- | --- |\n| Pro \\| Team | $15 |\n| Free |  |');
+    });
+
+    it('fences code blocks with their language', () => {
+        const body = h('body', {},
+            h('pre', {}, h('code', { class: 'hljs language-ts' }, 'const a = 1;\n', h('span', {}, 'a *= 2;'), '\n')),
+        );
+        expect(domToMarkdown(body)).toBe('```ts\nconst a = 1;\na *= 2;\n```');
+    });
+
+    it('drops navigation, site header, footer and controls but keeps article headers', () => {
+        const body = h('body', {},
+            h('header', {}, h('a', { href: 'https://a.com/' }, 'Home')),
+            h('div', { role: 'navigation' }, 'Menu'),
+            h('main', {},
+                h('article', {},
+                    h('header', {}, h('h2', {}, 'Title')),
+                    h('p', {}, 'Body ', h('button', {}, 'Share')),
+                ),
+                h('aside', {}, 'Related'),
+            ),
+            h('footer', {}, 'Copyright'),
+        );
+        expect(domToMarkdown(body)).toBe('## Title\n\nBody');
+    });
+
+    it('escapes text that would read as Markdown', () => {
+        const body = h('body', {}, h('p', {}, '# not a heading, 2 * 3, [x], snake_case and _under_'), h('p', {}, '1. not a list'));
+        expect(domToMarkdown(body)).toBe('\\# not a heading, 2 \\* 3, \\[x\\], snake_case and \\_under\\_\n\n1\\. not a list');
+    });
+});
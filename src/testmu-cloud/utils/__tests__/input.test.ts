@@ -0,0 +1,166 @@
+import { parseKeyChord, pressKeyChord, dragAndDrop } from '../input';
+
+function createKeyboardPage() {
+    const events: string[] = [];
+    return {
+        keyboard: {
+            down: jest.fn(async (key: string) => { events.push(`down:${key}`); }),
+            up: jest.fn(async (key: string) => { events.push(`up:${key}`); }),
+        },
+        _events: events,
+    };
+}
+
+/** Puppeteer page whose CDP session reports an HTML5 drag when `intercepts` is set */
+function createCdpPage(intercepts: boolean) {
+    const handlers: Record<string, (event: any) => void> = {};
+    const sent: [string, any][] = [];
+    const client = {
+        on: (event: string, handler: (event: any) => void) => { handlers[event] = handler; },
+        send: jest.fn(async (method: string, params: any) => {
+            sent.push([method, params]);
+            if (intercepts && method === 'Input.dispatchMouseEvent' && params.type === 'mouseMoved' && params.buttons === 1) {
+                handlers['Input.dragIntercepted']?.({ data: { items: [], dragOperationsMask: 1 } });
+            }
+        }),
+        detach: jest.fn(async () => {}),
+    };
+    const page = { createCDPSession: async () => client, mouse: { move: jest.fn(async () => {}) } };
+    return { page, client, sent };
+}
+
+/** Page without CDP that drives `page.mouse` */
+function createMousePage() {
+    const events: string[] = [];
+    const mouse = {
+        move: jest.fn(async (x: number, y: number) => { events.push(`move:${x},${y}`); }),
+        down: jest.fn(async () => { events.push('down'); }),
+        up: jest.fn(async () => { events.push('up'); }),
+    };
+    return { page: { mouse, createCDPSession: async () => { throw new Error('CDP not supported'); } }, mouse, events };
+}
+
+describe('input', () => {
+    describe('parseKeyChord', () => {
+        it('maps aliases to key names, case-insensitively', () => {
+            expect(parseKeyChord('ctrl+shift+t')).toEqual(['Control', 'Shift', 't']);
+            expect(parseKeyChord('CMD+Enter')).toEqual(['Meta', 'Enter']);
+            expect(parseKeyChord('Return')).toEqual(['Enter']);
+            expect(parseKeyChord('Page_Down')).toEqual(['PageDown']);
+            expect(parseKeyChord('alt+f4')).toEqual(['Alt', 'F4']);
+        });
+
+        it('keeps key names it does not know', () => {
+            expect(parseKeyChord('Control+ArrowDown')).toEqual(['Control', 'ArrowDown']);
+            expect(parseKeyChord('KeyA')).toEqual(['KeyA']);
+        });
+
+        it('reads a trailing or lone "+" as the plus key', () => {
+            expect(parseKeyChord('+')).toEqual(['+']);
+            expect(parseKeyChord('ctrl++')).toEqual(['Control', '+']);
+        });
+
+        it('rejects empty chords and parts', () => {
+            expect(() => parseKeyChord('  ')).toThrow('Empty key chord');
+            expect(() => parseKeyChord('ctrl++a')).toThrow('Invalid key chord "ctrl++a"');
+        });
+    });
+
+    describe('pressKeyChord', () => {
+        it('presses keys in order and releases them in reverse', async () => {
+            const page = createKeyboardPage();
+            await pressKeyChord(page, 'ctrl+shift+t');
+            expect(page._events).toEqual(['down:Control', 'down:Shift', 'down:T', 'up:T', 'up:Shift', 'up:Control']);
+        });
+
+        it('holds the keys for holdMs', async () => {
+            jest.useFakeTimers();
+            try {
+                const page = createKeyboardPage();
+                const done = pressKeyChord(page, 'shift', 500);
+                await jest.advanceTimersByTimeAsync(499);
+                expect(page._events).toEqual(['down:Shift']);
+                await jest.advanceTimersByTimeAsync(1);
+                await done;
+                expect(page._events).toEqual(['down:Shift', 'up:Shift']);
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it('releases pressed keys when a later key fails', async () => {
+            const page = createKeyboardPage();
+            page.keyboard.down.mockImplementation(async (key: string) => {
+                if (key === 'Bogus') throw new Error('Unknown key: "Bogus"');
+                page._events.push(`down:${key}`);
+            });
+            await expect(pressKeyChord(page, 'ctrl+Bogus')).rejects.toThrow('Unknown key');
+            expect(page._events).toEqual(['down:Control', 'up:Control']);
+        });
+    });
+
+    describe('dragAndDrop (Puppeteer)', () => {
+        it('drops an intercepted HTML5 drag with drag events', async () => {
+            const { page, client, sent } = createCdpPage(true);
+            await dragAndDrop(page, { x: 10, y: 10 }, { x: 110, y: 60 }, { steps: 2 });
+
+            expect(sent.map(([method, params]) => params.type ? `${method}:${params.type}` : `${method}:${params.enabled}`)).toEqual([
+                'Input.setInterceptDrags:true',
+                'Input.dispatchMouseEvent:mouseMoved',
+                'Input.dispatchMouseEvent:mousePressed',
+                'Input.dispatchMouseEvent:mouseMoved',
+                'Input.dispatchMouseEvent:mouseMoved',
+                'Input.dispatchDragEvent:dragEnter',
+                'Input.dispatchDragEvent:dragOver',
+                'Input.dispatchDragEvent:drop',
+                'Input.setInterceptDrags:false',
+                'Input.dispatchMouseEvent:mouseReleased',
+            ]);
+            const moves = sent.filter(([, params]) => params.type === 'mouseMoved').map(([, params]) => [params.x, params.y]);
+            expect(moves).toEqual([[10, 10], [60, 35], [110, 60]]);
+            expect(sent.find(([, params]) => params.type === 'drop')![1]).toEqual(expect.objectContaining({ x: 110, y: 60 }));
+            expect(client.detach).toHaveBeenCalled();
+            // page.mouse picks up where the drag left the pointer
+            expect(page.mouse.move).toHaveBeenCalledWith(110, 60);
+        });
+
+        it('sends plain mouse events when nothing is draggable', async () => {
+            const { page, sent } = createCdpPage(false);
+            await dragAndDrop(page, { x: 0, y: 0 }, { x: 50, y: 0 });
+            expect(sent.some(([method]) => method === 'Input.dispatchDragEvent')).toBe(false);
+            expect(sent.filter(([, params]) => params.type === 'mouseMoved')).toHaveLength(11);
+            expect(sent[sent.length - 1][1]).toEqual(expect.objectContaining({ type: 'mouseReleased', x: 50, y: 0 }));
+        });
+
+        it('releases the button and stops intercepting when a step fails', async () => {
+            const { page, client, sent } = createCdpPage(true);
+            const send = client.send.getMockImplementation()!;
+            client.send.mockImplementation(async (method: string, params: any) => {
+                if (method === 'Input.dispatchDragEvent') throw new Error('Target closed');
+                return send(method, params);
+            });
+
+            await expect(dragAndDrop(page, { x: 10, y: 10 }, { x: 110, y: 60 }, { steps: 2 })).rejects.toThrow('Target closed');
+            expect(sent.slice(-2).map(([method, params]) => params.type ? `${method}:${params.type}` : `${method}:${params.enabled}`)).toEqual([
+                'Input.setInterceptDrags:false',
+                'Input.dispatchMouseEvent:mouseReleased',
+            ]);
+            expect(sent[sent.length - 1][1]).toEqual(expect.objectContaining({ x: 110, y: 60 }));
+            expect(client.detach).toHaveBeenCalled();
+            expect(page.mouse.move).toHaveBeenCalledWith(110, 60);
+        });
+    });
+
+    describe('dragAndDrop (page.mouse)', () => {
+        it('releases the button when the move fails', async () => {
+            const { page, mouse, events } = createMousePage();
+            mouse.move.mockImplementation(async (x: number, y: number) => {
+                if (x === 50) throw new Error('Target closed');
+                events.push(`move:${x},${y}`);
+            });
+
+            await expect(dragAndDrop(page, { x: 0, y: 0 }, { x: 50, y: 0 })).rejects.toThrow('Target closed');
+            expect(events).toEqual(['move:0,0', 'down', 'up']);
+        });
+    });
+});
@@ -0,0 +1,57 @@
+import zlib from 'zlib';
+import { decodePng, encodePng, resizeRgba } from '../png';
+
+/** PNG with the given IHDR fields and already filtered scanlines */
+function rawPng(width: number, height: number, colorType: number, scanlines: number[][]): Buffer {
+    const png = encodePng({ width, height, data: new Uint8Array(width * height * 4) });
+    const ihdr = Buffer.from(png.subarray(16, 29));
+    ihdr[9] = colorType;
+    const chunk = (type: string, body: Buffer) => {
+        const out = Buffer.alloc(12 + body.length);
+        out.writeUInt32BE(body.length, 0);
+        out.write(type, 4, 'ascii');
+        body.copy(out, 8);
+        // The decoder doesn't check CRCs
+        return out;
+    };
+    return Buffer.concat([
+        png.subarray(0, 8),
+        chunk('IHDR', ihdr),
+        chunk('IDAT', zlib.deflateSync(Buffer.from(scanlines.flat()))),
+        chunk('IEND', Buffer.alloc(0)),
+    ]);
+}
+
+describe('png', () => {
+    it('round-trips RGBA pixels', () => {
+        const data = Uint8Array.from({ length: 3 * 2 * 4 }, (_, i) => (i * 37) & 0xff);
+        const decoded = decodePng(encodePng({ width: 3, height: 2, data }));
+        expect([decoded.width, decoded.height]).toEqual([3, 2]);
+        expect(Array.from(decoded.data)).toEqual(Array.from(data));
+    });
+
+    it('decodes RGB rows with the Sub, Average and Paeth filters', () => {
+        // Two pixels per row: (10,20,30) then (15,25,35)
+        const png = rawPng(2, 3, 2, [
+            [1, 10, 20, 30, 5, 5, 5],
+            [3, 5, 10, 15, 3, 3, 3],
+            [4, 0, 0, 0, 0, 0, 0],
+        ]);
+        const { data } = decodePng(png);
+        const row = [10, 20, 30, 255, 15, 25, 35, 255];
+        expect(Array.from(data)).toEqual([...row, ...row, ...row]);
+    });
+
+    it('rejects what it cannot decode', () => {
+        expect(() => decodePng(Buffer.from('GIF89a'))).toThrow('Not a PNG image');
+        expect(() => decodePng(rawPng(1, 1, 3, [[0, 0]]))).toThrow('Unsupported PNG');
+    });
+
+    it('averages the pixels each target pixel covers', () => {
+        const data = new Uint8Array([0, 0, 0, 255, 255, 255, 255, 255, 0, 0, 0, 255, 255, 255, 255, 255]);
+        const half = resizeRgba({ width: 4, height: 1, data }, 2, 1);
+        expect(Array.from(half.data)).toEqual([128, 128, 128, 255, 128, 128, 128, 255]);
+        const double = resizeRgba({ width: 1, height: 1, data: new Uint8Array([9, 8, 7, 255]) }, 2, 2);
+        expect(Array.from(double.data)).toEqual([9, 8, 7, 255, 9, 8, 7, 255, 9, 8, 7, 255, 9, 8, 7, 255]);
+    });
+});
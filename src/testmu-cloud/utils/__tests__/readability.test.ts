@@ -0,0 +1,102 @@
+import { DomNode } from '../dom-tree';
+import { extractArticle } from '../readability';
+
+/** Element node; strings become text nodes */
+function h(tag: string, attrs: Record<string, string> = {}, ...children: (DomNode | string)[]): DomNode {
+    return { tag, attrs, children: children.map(child => typeof child === 'string' ? { tag: '#text', text: child } : child) };
+}
+
+const paragraphs = [
+    'Headless browsers render pages the same way desktop browsers do, including scripts, styles and fonts.',
+    'That makes them the right tool for scraping sites built with client-side frameworks, which send little HTML.',
+    'They are slower than plain HTTP clients, so it pays to block images, fonts and trackers when only text is needed.',
+];
+
+/** A blog page built from divs only: no article or main element */
+function divSoupPage(): DomNode {
+    return h('body', {},
+        h('div', { class: 'site-header' }, h('a', { href: 'https://blog.com/' }, 'Blog'), h('a', { href: 'https://blog.com/about' }, 'About')),
+        h('div', { id: 'wrapper' },
+            h('div', { class: 'left-sidebar' },
+                h('ul', {}, ...['Scraping', 'Testing', 'Proxies', 'Captchas'].map(topic => h('li', {}, h('a', { href: `https://blog.com/t/${topic}` }, topic)))),
+            ),
+            h('div', { class: 'post' },
+                h('h1', {}, 'Scraping with headless browsers'),
+                h('div', { class: 'byline' }, 'By ', h('a', { href: 'https://blog.com/u/ada', rel: 'author' }, 'Ada Lovelace')),
+                h('time', { datetime: '2026-03-14T09:00:00Z' }, 'March 14'),
+                h('div', { class: 'post-text' },
+                    ...paragraphs.map(text => h('p', {}, text)),
+                    h('p', {}, h('img', { src: 'https://blog.com/img/chart.png', alt: 'Chart' })),
+                    h('div', { class: 'share-tools' }, h('a', { href: 'https://x.com/share' }, 'Share on X'), ' ', h('a', { href: 'https://fb.com/share' }, 'Share on Facebook')),
+                ),
+            ),
+            h('div', { class: 'comments' }, h('p', {}, 'Great post, thanks for writing it up, it helped a lot with my project!')),
+        ),
+        h('div', { class: 'footer' }, 'Copyright 2026 Blog Inc. All rights reserved worldwide.'),
+    );
+}
+
+describe('extractArticle', () => {
+    it('finds the main content of a page without <article> and drops the clutter around it', () => {
+        const article = extractArticle(divSoupPage(), { title: 'Scraping with headless browsers | Blog', url: 'https://blog.com/p/1', metadata: {} });
+
+        expect(article.title).toBe('Scraping with headless browsers');
+        expect(article.byline).toBe('By Ada Lovelace');
+        expect(article.publishedTime).toBe('2026-03-14T09:00:00Z');
+        expect(article.leadImage).toBe('https://blog.com/img/chart.png');
+        expect(article.excerpt).toBe(paragraphs[0]);
+        expect(article.markdown).toBe(`${paragraphs.join('\n\n')}\n\n![Chart](https://blog.com/img/chart.png)`);
+        expect(article.textContent).not.toMatch(/Share on|Great post|Copyright|Proxies/);
+        expect(article.wordCount).toBe(article.textContent.split(/\s+/).length);
+    });
+
+    it('returns clean HTML without classes, ids or site chrome', () => {
+        const article = extractArticle(divSoupPage(), { title: 'Blog', url: 'https://blog.com/p/1', metadata: {} });
+        expect(article.html).toContain(`<p>${paragraphs[0]}</p>`);
+        expect(article.html).toContain('<img src="https://blog.com/img/chart.png" alt="Chart">');
+        expect(article.html).not.toMatch(/class=|id=|Share on/);
+    });
+
+    it('prefers meta tags for the title, byline, date, image and excerpt', () => {
+        const article = extractArticle(divSoupPage(), {
+            title: 'Blog',
+            url: 'https://blog.com/p/1',
+            metadata: {
+                'og:title': 'Headless scraping, explained',
+                'Author': 'Ada L.',
+                'article:published_time': '2026-03-15',
+                'og:image': '/img/cover.jpg',
+                'og:description': 'Why and how to scrape with a real browser.',
+                'og:site_name': 'The Blog',
+            },
+        });
+        expect(article).toEqual(expect.objectContaining({
+            title: 'Headless scraping, explained',
+            byline: 'Ada L.',
+            publishedTime: '2026-03-15',
+            leadImage: 'https://blog.com/img/cover.jpg',
+            excerpt: 'Why and how to scrape with a real browser.',
+            siteName: 'The Blog',
+        }));
+    });
+
+    it('picks the article out of a page with a large link-heavy menu', () => {
+        const menu = h('div', { class: 'mega' }, ...Array.from({ length: 20 }, (_, i) => h('p', {}, h('a', { href: `https://a.com/${i}` }, `Category number ${i}, with a long description of what it is`))));
+        const body = h('body', {}, menu, h('div', {}, ...paragraphs.map(text => h('p', {}, text))));
+        const article = extractArticle(body, { title: 'Page', url: 'https://a.com/', metadata: {} });
+        expect(article.textContent).toBe(paragraphs.join('\n\n'));
+    });
+
+    it('keeps code blocks, short lists and data tables in the article', () => {
+        const body = h('body', {}, h('article', {},
+            ...paragraphs.map(text => h('p', {}, text)),
+            h('ul', {}, h('li', {}, 'Fast'), h('li', {}, 'Cheap')),
+            h('pre', { class: 'highlight' }, h('code', { class: 'hljs language-py' }, 'for url in urls:\n    fetch(url)')),
+            h('table', {}, h('tr', {}, h('th', {}, 'Mode'), h('th', {}, 'Speed')), h('tr', {}, h('td', {}, 'HTTP'), h('td', {}, 'fast'))),
+        ));
+        const article = extractArticle(body, { title: 'Page', url: 'https://a.com/', metadata: {} });
+        expect(article.markdown).toContain('- Fast\n- Cheap\n\n```py\nfor url in urls:\n    fetch(url)\n```\n\n| Mode | Speed |');
+        expect(article.html).toContain('<code class="language-py">');
+        expect(article.textContent).toContain('for url in urls:\n    fetch(url)\n\nMode\tSpeed\nHTTP\tfast');
+    });
+});
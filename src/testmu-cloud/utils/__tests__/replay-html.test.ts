@@ -0,0 +1,47 @@
+import { buildReplayHtml } from '../replay-html';
+import vm from 'vm';
+
+const meta = { type: 4, data: { href: 'https://example.com', width: 1280, height: 720 }, timestamp: 1000 };
+const fullSnapshot = { type: 2, data: { node: {}, initialOffset: { top: 0, left: 0 } }, timestamp: 1001 };
+const custom = { type: 5, data: { tag: 'step', payload: { name: 'login' } }, timestamp: 1500 };
+
+/** Pull the inline script that boots the player out of the page. */
+function bootScript(html: string): string {
+    const scripts = html.match(/<script>([\s\S]*?)<\/script>/g) || [];
+    return scripts[scripts.length - 1].replace(/^<script>/, '').replace(/<\/script>$/, '');
+}
+
+describe('buildReplayHtml', () => {
+    it('embeds the player, its stylesheet and the events', () => {
+        const html = buildReplayHtml('s1', [meta, fullSnapshot]);
+        expect(html).toContain('<title>Session replay s1</title>');
+        expect(html).toContain('rrwebPlayer');
+        expect(html).toContain('.rr-player');
+        expect(html).toContain('"href":"https://example.com"');
+        expect(html).toContain('var playable = true;');
+    });
+
+    it('falls back to the event timeline without a full snapshot', () => {
+        const html = buildReplayHtml('s1', [{ type: 0, data: { recordingStart: true }, timestamp: 900 }, custom]);
+        expect(html).toContain('var playable = false;');
+        expect(html).toContain('id="scrubber"');
+    });
+
+    it('keeps recorded markup from closing the script tag', () => {
+        const html = buildReplayHtml('s1', [{ type: 5, data: { tag: '</script><script>alert(1)</script>' }, timestamp: 1 }]);
+        const script = bootScript(html);
+        expect(script).toContain('\\u003c/script>');
+        expect(() => new vm.Script(script)).not.toThrow();
+    });
+
+    it('escapes the title', () => {
+        const html = buildReplayHtml('s1', [], { title: '<b>run</b>' });
+        expect(html).toContain('<title>&lt;b&gt;run&lt;/b&gt;</title>');
+    });
+
+    it('sorts events by timestamp', () => {
+        const html = buildReplayHtml('s1', [custom, meta]);
+        const script = bootScript(html);
+        expect(script.indexOf('"type":4')).toBeLessThan(script.indexOf('"type":5'));
+    });
+});
@@ -0,0 +1,44 @@
+import { globToRegExp, matchesRoute, matchesUrl, describeUrlPattern } from '../route-match';
+
+const request = (url: string, method = 'GET', resourceType = 'xhr') => ({ url, method, resourceType });
+
+describe('route-match', () => {
+    describe('matchesUrl', () => {
+        it('treats plain strings as substrings', () => {
+            expect(matchesUrl('/api/', 'https://a.com/api/users')).toBe(true);
+            expect(matchesUrl('/api/', 'https://a.com/apis')).toBe(false);
+        });
+
+        it('matches globs against the full URL', () => {
+            expect(matchesUrl('**/api/*', 'https://a.com/api/users')).toBe(true);
+            expect(matchesUrl('**/api/*', 'https://a.com/api/users/1')).toBe(false);
+            expect(matchesUrl('**/*.{png,jpg}', 'https://a.com/img/logo.jpg')).toBe(true);
+            expect(matchesUrl('https://a.com/*', 'https://a.com/x?q=a.b')).toBe(true);
+            expect(matchesUrl('*.ads.com/*', 'https://x.ads.com/banner')).toBe(false);
+        });
+
+        it('tests regexes repeatedly even with the global flag', () => {
+            const pattern = /users/g;
+            expect(matchesUrl(pattern, 'https://a.com/users')).toBe(true);
+            expect(matchesUrl(pattern, 'https://a.com/users')).toBe(true);
+        });
+    });
+
+    it('escapes regex characters in globs', () => {
+        expect(globToRegExp('https://a.com/search?q=*').test('https://a.com/search?q=x')).toBe(true);
+        expect(globToRegExp('https://a.com/a+b').test('https://a.com/aab')).toBe(false);
+    });
+
+    it('filters by method and resource type, case-insensitively', () => {
+        const matcher = { url: '/api/', method: ['post', 'PUT'], resourceType: 'XHR' };
+        expect(matchesRoute(matcher, request('https://a.com/api/x', 'POST'))).toBe(true);
+        expect(matchesRoute(matcher, request('https://a.com/api/x', 'GET'))).toBe(false);
+        expect(matchesRoute(matcher, request('https://a.com/api/x', 'PUT', 'fetch'))).toBe(false);
+        expect(matchesRoute({}, request('https://a.com/'))).toBe(true);
+    });
+
+    it('describes patterns for listings', () => {
+        expect(describeUrlPattern(/\.png$/i)).toBe('/\\.png$/i');
+        expect(describeUrlPattern(undefined)).toBe('**');
+    });
+});
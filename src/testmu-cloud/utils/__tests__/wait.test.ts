@@ -0,0 +1,80 @@
+import { EventEmitter } from 'events';
+import { pollUntil, waitForNetworkIdle, WaitTimeoutError } from '../wait';
+
+describe('wait', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    describe('pollUntil', () => {
+        it('polls until the check is done', async () => {
+            let calls = 0;
+            await pollUntil(async () => ({ done: ++calls === 3 }), { condition: 'three calls', timeout: 1000, interval: 1 });
+            expect(calls).toBe(3);
+        });
+
+        it('times out with the condition and the last state seen', async () => {
+            jest.useFakeTimers();
+            const waiting = pollUntil(async () => ({ done: false, state: 'https://a.com/cart' }), {
+                condition: 'URL to match "**/done"',
+                timeout: 1000,
+                interval: 100,
+            });
+            const caught = waiting.catch(err => err);
+            await jest.advanceTimersByTimeAsync(1000);
+            const err = await caught;
+
+            expect(err).toBeInstanceOf(WaitTimeoutError);
+            expect(err.message).toBe('Timed out after 1000ms waiting for URL to match "**/done" (last: https://a.com/cart)');
+            expect(err.toJSON()).toEqual(expect.objectContaining({
+                condition: 'URL to match "**/done"',
+                timeout: 1000,
+                lastState: 'https://a.com/cart',
+            }));
+        });
+
+        it('treats a throwing check as not done yet', async () => {
+            let calls = 0;
+            await pollUntil(async () => {
+                if (++calls === 1) throw new Error('Execution context was destroyed');
+                return { done: true };
+            }, { condition: 'anything', timeout: 1000, interval: 1 });
+            expect(calls).toBe(2);
+        });
+    });
+
+    describe('waitForNetworkIdle', () => {
+        it('resolves once requests have been quiet for idleTime', async () => {
+            jest.useFakeTimers();
+            const page = new EventEmitter();
+            const request = { url: () => 'https://a.com/api' };
+            let idle = false;
+            const waiting = waitForNetworkIdle(page, { idleTime: 500, timeout: 5000 }).then(() => { idle = true; });
+
+            await jest.advanceTimersByTimeAsync(200);
+            page.emit('request', request);
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(idle).toBe(false);
+
+            page.emit('requestfinished', request);
+            await jest.advanceTimersByTimeAsync(499);
+            expect(idle).toBe(false);
+            await jest.advanceTimersByTimeAsync(1);
+            await waiting;
+            expect(idle).toBe(true);
+            expect(page.listenerCount('request')).toBe(0);
+        });
+
+        it('reports the requests still in flight on timeout', async () => {
+            jest.useFakeTimers();
+            const page = new EventEmitter();
+            const caught = waitForNetworkIdle(page, { idleTime: 500, timeout: 2000 }).catch(err => err);
+            page.emit('request', { url: () => 'https://a.com/stream' });
+            await jest.advanceTimersByTimeAsync(2000);
+
+            const err = await caught;
+            expect(err).toBeInstanceOf(WaitTimeoutError);
+            expect(err.lastState).toEqual({ inflight: 1, requests: ['https://a.com/stream'] });
+        });
+    });
+});
@@ -0,0 +1,29 @@
+/**
+ * Input handling for the batch quick actions.
+ */
+import fs from 'fs-extra';
+
+/**
+ * The URLs of a list file: one per line, blank lines and `#` comments
+ * skipped.
+ */
+export function parseUrlList(text: string): string[] {
+    return text
+        .split(/\r?\n/)
+        .map(line => line.replace(/(^|\s)#.*$/, '').trim())
+        .filter(line => line.length > 0);
+}
+
+/**
+ * `urls` as given, or read from the file it names
+ */
+export async function loadUrlList(urls: string[] | string): Promise<string[]> {
+    if (Array.isArray(urls)) return urls;
+    let text: string;
+    try {
+        text = await fs.readFile(urls, 'utf8');
+    } catch (err) {
+        throw new Error(`Cannot read URL list "${urls}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+    return parseUrlList(text);
+}
@@ -0,0 +1,11 @@
+import { detectFramework } from './framework-detect';
+
+/**
+ * Open a CDP session attached to a Puppeteer or Playwright page.
+ * Throws on browsers without CDP access (Playwright Firefox/WebKit).
+ */
+export async function createCdpSession(page: any): Promise<any> {
+    return detectFramework(page) === 'playwright'
+        ? page.context().newCDPSession(page)
+        : page.createCDPSession();
+}
@@ -0,0 +1,133 @@
+/**
+ * URL normalization and robots.txt rules for the crawler.
+ */
+
+/** Product token matched against robots.txt `User-agent` lines */
+export const CRAWLER_USER_AGENT = 'testmu-browser-cloud';
+
+const ROBOTS_TIMEOUT = 10000;
+
+/**
+ * Canonical form of a crawlable URL, used to dedupe pages: no fragment,
+ * sorted query parameters without `utm_*` tracking, and no trailing slash
+ * except on the root. Returns null for anything but http(s).
+ */
+export function normalizeCrawlUrl(url: string, base?: string): string | null {
+    let parsed: URL;
+    try {
+        parsed = new URL(url, base);
+    } catch {
+        return null;
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    parsed.hash = '';
+    const params = [...parsed.searchParams].filter(([name]) => !name.toLowerCase().startsWith('utm_'));
+    params.sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+    parsed.search = new URLSearchParams(params).toString();
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+        parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+    }
+    return parsed.href;
+}
+
+interface RobotsRule {
+    allow: boolean;
+    pattern: RegExp;
+    /** Pattern length; the longest matching rule wins */
+    length: number;
+}
+
+/**
+ * The rules of one robots.txt that apply to a user agent (RFC 9309).
+ */
+export class RobotsRules {
+    constructor(private rules: RobotsRule[]) {}
+
+    /** Everything allowed, for sites without a robots.txt */
+    static allowAll(): RobotsRules {
+        return new RobotsRules([]);
+    }
+
+    static disallowAll(): RobotsRules {
+        return new RobotsRules([{ allow: false, pattern: /^\//, length: 1 }]);
+    }
+
+    /**
+     * Parse `text`, keeping the group for `userAgent` or, failing that, the `*`
+     * group. Groups naming the same agent are merged.
+     */
+    static parse(text: string, userAgent = CRAWLER_USER_AGENT): RobotsRules {
+        const groups: { agents: string[], rules: RobotsRule[] }[] = [];
+        let current: { agents: string[], rules: RobotsRule[] } | undefined;
+        for (const raw of text.split(/\r?\n/)) {
+            const line = raw.replace(/#.*$/, '').trim();
+            const separator = line.indexOf(':');
+            if (separator === -1) continue;
+            const field = line.slice(0, separator).trim().toLowerCase();
+            const value = line.slice(separator + 1).trim();
+            if (field === 'user-agent') {
+                // Consecutive user-agent lines share one group
+                if (!current || current.rules.length > 0) {
+                    current = { agents: [], rules: [] };
+                    groups.push(current);
+                }
+                current.agents.push(value.toLowerCase());
+            } else if ((field === 'allow' || field === 'disallow') && current) {
+                // An empty Disallow allows everything and adds no rule
+                if (value) current.rules.push({ allow: field === 'allow', pattern: robotsPattern(value), length: value.length });
+            }
+        }
+        const agent = userAgent.toLowerCase();
+        const named = groups.filter(group => group.agents.some(name => name !== '*' && agent.includes(name)));
+        const chosen = named.length > 0 ? named : groups.filter(group => group.agents.includes('*'));
+        return new RobotsRules(chosen.flatMap(group => group.rules));
+    }
+
+    /** Whether `url` (absolute, or a path with query) may be fetched */
+    isAllowed(url: string): boolean {
+        let path = url;
+        try {
+            const parsed = new URL(url, 'http://robots.invalid');
+            path = parsed.pathname + parsed.search;
+        } catch {
+            // Not a URL: match it as a path
+        }
+        let best: RobotsRule | undefined;
+        for (const rule of this.rules) {
+            if (!rule.pattern.test(path)) continue;
+            if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) best = rule;
+        }
+        return !best || best.allow || path === '/robots.txt';
+    }
+}
+
+/** `*` matches any characters and a trailing `$` anchors the end */
+function robotsPattern(path: string): RegExp {
+    const anchored = path.endsWith('$');
+    const body = (anchored ? path.slice(0, -1) : path)
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Fetch and parse the robots.txt of `origin`. The request is sent with
+ * `userAgent`, while the rules are those of the group for `token`: a browser's
+ * user agent names every engine (`Mozilla`, `Chrome`, ...) and would pick up
+ * groups meant for other crawlers. A missing file (4xx) allows everything; an
+ * unreachable one (5xx, network error) disallows everything, as RFC 9309 asks.
+ */
+export async function fetchRobotsRules(origin: string, userAgent = CRAWLER_USER_AGENT, token = CRAWLER_USER_AGENT): Promise<RobotsRules> {
+    try {
+        const response = await fetch(`${origin}/robots.txt`, {
+            headers: { 'User-Agent': userAgent },
+            signal: AbortSignal.timeout(ROBOTS_TIMEOUT),
+        });
+        if (response.status >= 400 && response.status < 500) return RobotsRules.allowAll();
+        if (!response.ok) return RobotsRules.disallowAll();
+        return RobotsRules.parse(await response.text(), token);
+    } catch {
+        return RobotsRules.disallowAll();
+    }
+}
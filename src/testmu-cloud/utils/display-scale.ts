@@ -0,0 +1,93 @@
+/**
+ * Display scaling for computer-use loops: screenshots are resized to the
+ * display size a vision model was told about, and the coordinates it answers
+ * with are mapped back to the CSS pixels mouse events take. The page keeps its
+ * aspect ratio: it is scaled to fit the display and centered, with black bars
+ * filling the rest.
+ */
+
+import { Dimensions } from '../types.js';
+import { decodePng, encodePng, resizeRgba } from './png.js';
+
+/** Where content of a given size lands on the display: its scale and top-left offset */
+export interface DisplayFit {
+    scale: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Throws unless both sides are positive whole numbers.
+ */
+export function validateDisplaySize(size: Dimensions): void {
+    if (!Number.isInteger(size.width) || !Number.isInteger(size.height) || size.width <= 0 || size.height <= 0) {
+        throw new Error(`Invalid display size ${size.width}x${size.height}: width and height must be positive integers`);
+    }
+}
+
+/**
+ * The visible viewport of a page in CSS pixels. Runs in the page.
+ */
+export function readViewportSize(): Dimensions {
+    return { width: window.innerWidth, height: window.innerHeight };
+}
+
+/**
+ * Fit `content` into `display` keeping its aspect ratio, centered.
+ */
+export function fitToDisplay(content: Dimensions, display: Dimensions): DisplayFit {
+    const scale = Math.min(display.width / content.width, display.height / content.height);
+    const width = Math.min(display.width, Math.round(content.width * scale));
+    const height = Math.min(display.height, Math.round(content.height * scale));
+    return { scale, x: Math.floor((display.width - width) / 2), y: Math.floor((display.height - height) / 2), width, height };
+}
+
+/**
+ * Map a point in display space to viewport CSS pixels. Points on the bars
+ * around the page are clamped to its edge.
+ */
+export function toViewportPoint(point: [number, number], display: Dimensions, viewport: Dimensions): [number, number] {
+    const fit = fitToDisplay(viewport, display);
+    const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+    return [
+        clamp((point[0] - fit.x) / fit.scale, viewport.width),
+        clamp((point[1] - fit.y) / fit.scale, viewport.height),
+    ];
+}
+
+/**
+ * Map a scroll distance in display pixels to viewport CSS pixels.
+ */
+export function toViewportDelta(delta: number, display: Dimensions, viewport: Dimensions): number {
+    return delta / fitToDisplay(viewport, display).scale;
+}
+
+/**
+ * Width and height of a base64 PNG, read from its IHDR chunk. Screenshots are
+ * taken in device pixels, so this is the viewport times devicePixelRatio.
+ * Returns null for anything that isn't a PNG.
+ */
+export function pngSize(base64: string): Dimensions | null {
+    const header = Buffer.from(base64.slice(0, 32), 'base64');
+    if (header.length < 24 || header.toString('ascii', 12, 16) !== 'IHDR') return null;
+    return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+}
+
+/**
+ * Resize a base64 PNG screenshot to `display`, letterboxed like the page, and
+ * return it as base64 PNG.
+ */
+export function resizePng(data: string, display: Dimensions): string {
+    const image = decodePng(Buffer.from(data, 'base64'));
+    const fit = fitToDisplay(image, display);
+    const scaled = resizeRgba(image, fit.width, fit.height);
+    const out = new Uint8Array(display.width * display.height * 4);
+    for (let i = 3; i < out.length; i += 4) out[i] = 255;
+    for (let y = 0; y < fit.height; y++) {
+        const row = scaled.data.subarray(y * fit.width * 4, (y + 1) * fit.width * 4);
+        out.set(row, ((fit.y + y) * display.width + fit.x) * 4);
+    }
+    return encodePng({ width: display.width, height: display.height, data: out }).toString('base64');
+}
@@ -0,0 +1,98 @@
+/**
+ * Page-side description of where an element lives in its document.
+ *
+ * The function is kept as a source string so it can be sent as-is to CDP
+ * `Runtime.callFunctionOn` (with the element as `this`) from any framework.
+ */
+
+/**
+ * Separates shadow host paths from the path inside their shadow root in
+ * `ElementPath.css` (Puppeteer's shadow-root child combinator).
+ */
+export const SHADOW_ROOT_COMBINATOR = ' >>>> ';
+
+export interface ElementPath {
+    /**
+     * CSS path unique within the element's frame. Elements inside shadow roots
+     * get the path of each shadow host first, joined with `SHADOW_ROOT_COMBINATOR`.
+     */
+    css: string;
+    /** Absolute XPath; empty for elements inside shadow roots, which XPath can't reach */
+    xpath: string;
+}
+
+/**
+ * Returns the `ElementPath` of `this`, or null when it isn't an element
+ * attached to a document. Paths stop early at an element with a unique id.
+ */
+export const ELEMENT_PATH_FUNCTION = `function () {
+    function cssInRoot(el) {
+        var root = el.getRootNode();
+        var parts = [];
+        while (el && el.nodeType === 1) {
+            if (el.id && root.querySelectorAll('#' + CSS.escape(el.id)).length === 1) {
+                parts.unshift('#' + CSS.escape(el.id));
+                break;
+            }
+            var tag = CSS.escape(el.localName);
+            var parent = el.parentNode;
+            if (!parent || parent.nodeType !== 1) {
+                parts.unshift(tag);
+                break;
+            }
+            var sameTag = Array.prototype.filter.call(parent.children, function (child) {
+                return child.localName === el.localName;
+            });
+            parts.unshift(sameTag.length > 1 ? tag + ':nth-of-type(' + (sameTag.indexOf(el) + 1) + ')' : tag);
+            el = parent;
+        }
+        return parts.join(' > ');
+    }
+
+    function xpathOf(el) {
+        if (el.getRootNode() !== el.ownerDocument) return '';
+        var parts = [];
+        while (el && el.nodeType === 1) {
+            if (el.id && el.id.indexOf('"') === -1 && el.ownerDocument.querySelectorAll('#' + CSS.escape(el.id)).length === 1) {
+                parts.unshift('//*[@id="' + el.id + '"]');
+                return parts.join('/');
+            }
+            var html = el.namespaceURI === 'http://www.w3.org/1999/xhtml';
+            var name = html ? el.localName : '*[local-name()="' + el.localName + '"]';
+            var sameName = el.parentNode ? Array.prototype.filter.call(el.parentNode.children, function (child) {
+                return child.localName === el.localName;
+            }) : [el];
+            parts.unshift(sameName.length > 1 ? name + '[' + (sameName.indexOf(el) + 1) + ']' : name);
+            el = el.parentNode;
+        }
+        return '/' + parts.join('/');
+    }
+
+    if (!this || this.nodeType !== 1 || !this.isConnected) return null;
+    var paths = [];
+    var el = this;
+    while (el) {
+        paths.unshift(cssInRoot(el));
+        el = el.getRootNode().host;
+    }
+    return { css: paths.join('${SHADOW_ROOT_COMBINATOR}'), xpath: xpathOf(this) };
+}`;
+
+/**
+ * Describe the element behind a CDP backend node id, through a CDP session of
+ * the process that owns its document. Returns null if the node is gone.
+ */
+export async function describeElementPath(session: any, backendNodeId: number): Promise<ElementPath | null> {
+    const { object } = await session.send('DOM.resolveNode', { backendNodeId });
+    if (!object?.objectId) return null;
+    try {
+        const { result } = await session.send('Runtime.callFunctionOn', {
+            objectId: object.objectId,
+            functionDeclaration: ELEMENT_PATH_FUNCTION,
+            returnByValue: true,
+        });
+        return result?.value || null;
+    } finally {
+        session.send('Runtime.releaseObject', { objectId: object.objectId }).catch(() => {});
+    }
+}
@@ -0,0 +1,145 @@
+/**
+ * Page-side snapshot of the rendered DOM as plain data, so content can be
+ * converted (to Markdown, article text...) in Node without an HTML parser.
+ * `serializeDom` runs in the page through `page.evaluate`.
+ */
+
+export interface DomNode {
+    /** Lowercase tag name, or `#text` for a text node */
+    tag: string;
+    /** Text nodes only */
+    text?: string;
+    /** The attributes content conversion uses; `href` and `src` are absolute */
+    attrs?: Record<string, string>;
+    children?: DomNode[];
+}
+
+/**
+ * Snapshot `document.body`. Scripts, styles, embedded media and elements that
+ * aren't rendered (`display: none`, `hidden`) are left out; links and image
+ * sources are resolved against the page URL, and lazy images report their
+ * `data-src`.
+ *
+ * Elements nested deeper than `maxDepth` are kept as their text only, and the
+ * walk stops after `maxNodes` nodes, so huge or pathological pages stay cheap.
+ */
+export function serializeDom({ maxDepth = 100, maxNodes = 50000 }: { maxDepth?: number, maxNodes?: number } = {}): DomNode {
+    const skipped = new Set(['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed', 'link', 'meta']);
+    const kept = ['id', 'class', 'role', 'aria-hidden', 'href', 'src', 'alt', 'title', 'start', 'colspan', 'datetime', 'rel', 'itemprop'];
+
+    const absolute = (value: string) => {
+        try {
+            return new URL(value, document.baseURI).href;
+        } catch {
+            return value;
+        }
+    };
+
+    // Only elements without a box (display: none or contents) need their style looked up
+    const isHidden = (el: Element) => typeof el.checkVisibility === 'function'
+        ? !el.checkVisibility() && getComputedStyle(el).display === 'none'
+        : getComputedStyle(el).display === 'none';
+
+    let count = 0;
+    const walk = (node: Node, depth: number): DomNode | null => {
+        if (count >= maxNodes) return null;
+        if (node.nodeType === Node.TEXT_NODE) {
+            count++;
+            return { tag: '#text', text: node.textContent || '' };
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) return null;
+        const el = node as Element;
+        const tag = el.localName;
+        if (skipped.has(tag) || el.hasAttribute('hidden')) return null;
+        if (isHidden(el)) return null;
+        count++;
+        if (depth > maxDepth) return { tag: '#text', text: (el as HTMLElement).innerText ?? el.textContent ?? '' };
+
+        const attrs: Record<string, string> = {};
+        for (const name of kept) {
+            const value = el.getAttribute(name);
+            if (value !== null) attrs[name] = value;
+        }
+        if (tag === 'img') {
+            const lazy = el.getAttribute('data-src') || el.getAttribute('data-lazy-src');
+            const src = (el as HTMLImageElement).currentSrc || attrs.src;
+            if (lazy && (!src || src.startsWith('data:'))) attrs.src = lazy;
+            else if (src) attrs.src = src;
+        }
+        if (attrs.href) attrs.href = absolute(attrs.href);
+        if (attrs.src) attrs.src = absolute(attrs.src);
+
+        const children: DomNode[] = [];
+        for (const child of Array.from(el.childNodes)) {
+            if (count >= maxNodes) break;
+            const result = walk(child, depth + 1);
+            if (result) children.push(result);
+        }
+        return { tag, attrs, children };
+    };
+
+    return walk(document.body, 0) || { tag: 'body', attrs: {}, children: [] };
+}
+
+const BLOCK_TAGS = new Set([
+    'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'dialog', 'div', 'dl', 'dt', 'fieldset',
+    'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup', 'hr', 'li',
+    'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tr', 'ul',
+]);
+
+const VOID_TAGS = new Set(['area', 'br', 'col', 'hr', 'img', 'input', 'source', 'wbr']);
+
+const blockCache = new WeakMap<DomNode, boolean>();
+
+/** Block tags, and inline elements that wrap blocks (e.g. a `<span>` around `<div>`s) */
+export function isBlock(node: DomNode): boolean {
+    if (node.tag === '#text') return false;
+    let block = blockCache.get(node);
+    if (block === undefined) {
+        block = BLOCK_TAGS.has(node.tag) || (node.children || []).some(isBlock);
+        blockCache.set(node, block);
+    }
+    return block;
+}
+
+/** All text under `node`, with `<br>` as a newline */
+export function textOf(node: DomNode): string {
+    if (node.tag === '#text') return node.text || '';
+    if (node.tag === 'br') return '\n';
+    return (node.children || []).map(textOf).join('');
+}
+
+/**
+ * Readable plain text: whitespace collapsed outside `<pre>`, blocks separated by
+ * blank lines, and table rows on their own lines with tab-separated cells
+ */
+export function domToText(node: DomNode): string {
+    // Preformatted text is kept aside so line trimming leaves its indentation alone
+    const preformatted: string[] = [];
+    const render = (current: DomNode): string => {
+        if (current.tag === '#text') return (current.text || '').replace(/\s+/g, ' ');
+        if (current.tag === 'br') return '\n';
+        if (current.tag === 'pre') return `\n\n\uE000${preformatted.push(textOf(current).replace(/^\n/, '').trimEnd()) - 1}\uE000\n\n`;
+        const inner = (current.children || []).map(render).join('');
+        if (current.tag === 'tr') return `${inner}\n`;
+        if (current.tag === 'td' || current.tag === 'th') return `${inner.trim()}\t`;
+        return isBlock(current) ? `\n\n${inner}\n\n` : inner;
+    };
+    return render(node)
+        .split('\n')
+        .map(line => line.trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+        .replace(/\uE000(\d+)\uE000/g, (_, i: string) => preformatted[Number(i)]);
+}
+
+const escapeHtml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Serialize `node` back to HTML */
+export function domToHtml(node: DomNode): string {
+    if (node.tag === '#text') return escapeHtml(node.text || '');
+    const attrs = Object.entries(node.attrs || {}).map(([name, value]) => ` ${name}="${escapeHtml(value)}"`).join('');
+    if (VOID_TAGS.has(node.tag)) return `<${node.tag}${attrs}>`;
+    return `<${node.tag}${attrs}>${(node.children || []).map(domToHtml).join('')}</${node.tag}>`;
+}
@@ -0,0 +1,434 @@
+/**
+ * Structured data extraction: a JSON Schema or a field→selector map is
+ * compiled to field specs, the page reads the raw values (`readFields` runs
+ * through `page.evaluate`), and transforms and validation run in Node so every
+ * failing field gets its own error.
+ */
+
+import {
+    ExtractFieldError,
+    ExtractFieldMap,
+    ExtractFieldRule,
+    ExtractJsonSchema,
+    ExtractTransform,
+} from '../types.js';
+
+const TRANSFORMS: ExtractTransform[] = ['trim', 'number', 'integer', 'date', 'boolean', 'lowercase', 'uppercase'];
+
+export interface FieldSpec {
+    name: string;
+    selector?: string;
+    attribute: string;
+    list: boolean;
+    transforms: ExtractTransform[];
+    required: boolean;
+    /** Object fields read from each match */
+    fields?: FieldSpec[];
+    /** JSON Schema the value is validated against */
+    schema?: ExtractJsonSchema;
+}
+
+/** Values found in the page's JSON-LD, microdata and meta tags */
+export interface StructuredData {
+    jsonLd: unknown[];
+    microdata: Record<string, string>;
+    meta: Record<string, string>;
+}
+
+export function isJsonSchema(schema: ExtractJsonSchema | ExtractFieldMap): schema is ExtractJsonSchema {
+    const properties = (schema as ExtractJsonSchema).properties;
+    return typeof properties === 'object' && properties !== null && !('selector' in properties) && (schema.type === undefined || schema.type === 'object');
+}
+
+/**
+ * Compile a JSON Schema or field map to field specs. Throws on rules that can
+ * never work (no selector, unknown transform, invalid pattern) before any page
+ * is loaded.
+ */
+export function compileExtractSchema(schema: ExtractJsonSchema | ExtractFieldMap): FieldSpec[] {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+        throw new Error('Extract schema must be a JSON Schema object or a map of field names to selectors');
+    }
+    const specs = isJsonSchema(schema) ? compileProperties(schema) : compileFieldMap(schema as ExtractFieldMap, true);
+    if (specs.length === 0) throw new Error('Extract schema has no fields');
+    return specs;
+}
+
+function compileFieldMap(fields: ExtractFieldMap, topLevel: boolean): FieldSpec[] {
+    return Object.entries(fields).map(([name, value]) => {
+        const rule: ExtractFieldRule = typeof value === 'string' ? { selector: value } : value;
+        if (!rule || typeof rule !== 'object') throw new Error(`Field "${name}" must be a selector or a rule object`);
+        if (topLevel && !rule.selector) throw new Error(`Field "${name}" needs a selector`);
+        return {
+            name,
+            selector: rule.selector,
+            attribute: rule.attribute || 'text',
+            list: !!rule.list,
+            transforms: checkTransforms(name, rule.transform),
+            required: !!rule.required,
+            fields: rule.fields ? compileFieldMap(rule.fields, false) : undefined,
+        };
+    });
+}
+
+function compileProperties(schema: ExtractJsonSchema): FieldSpec[] {
+    const required = new Set(schema.required || []);
+    return Object.entries(schema.properties || {}).map(([name, property]) => {
+        const list = property.type === 'array';
+        const shape = list ? property.items || {} : property;
+        checkPattern(name, property);
+        if (list) checkPattern(name, shape);
+        const fields = shape.type === 'object' || shape.properties ? compileProperties(shape) : undefined;
+        return {
+            name,
+            selector: property['x-selector'],
+            attribute: property['x-attribute'] || shape['x-attribute'] || 'text',
+            list,
+            transforms: checkTransforms(name, property['x-transform'] ?? shape['x-transform'] ?? defaultTransforms(shape)),
+            required: required.has(name),
+            fields,
+            schema: property,
+        };
+    });
+}
+
+/** Text is trimmed, then converted to the schema type */
+function defaultTransforms(schema: ExtractJsonSchema): ExtractTransform[] {
+    switch (schema.type) {
+        case 'number':
+            return ['trim', 'number'];
+        case 'integer':
+            return ['trim', 'integer'];
+        case 'boolean':
+            return ['trim', 'boolean'];
+        default:
+            return schema.format === 'date' || schema.format === 'date-time' ? ['trim', 'date'] : ['trim'];
+    }
+}
+
+function checkPattern(name: string, schema: ExtractJsonSchema): void {
+    if (schema.pattern === undefined) return;
+    try {
+        new RegExp(schema.pattern);
+    } catch (err) {
+        throw new Error(`Field "${name}" has an invalid pattern /${schema.pattern}/: ${err instanceof Error ? err.message : String(err)}`);
+    }
+}
+
+function checkTransforms(name: string, transform?: ExtractTransform | ExtractTransform[]): ExtractTransform[] {
+    const transforms = transform === undefined ? ['trim' as const] : Array.isArray(transform) ? transform : [transform];
+    const unknown = transforms.find(t => !TRANSFORMS.includes(t));
+    if (unknown) throw new Error(`Field "${name}" has unknown transform "${unknown}". Use ${TRANSFORMS.join(', ')}.`);
+    return transforms;
+}
+
+/**
+ * Page-side: read the raw value of each field. Text comes from `innerText`,
+ * URL attributes are made absolute, and fields that are looked up in
+ * structured data (see `fromStructuredData`) are left out.
+ */
+export function readFields({ fields }: { fields: FieldSpec[] }): Record<string, unknown> {
+    const urlAttributes = ['href', 'src', 'action', 'poster', 'cite', 'data-src'];
+
+    const query = (root: Document | Element, selector: string): Node[] => {
+        const xpath = /^(\/|\(|\.\/|xpath=)/.test(selector);
+        if (!xpath) return Array.from(root.querySelectorAll(selector));
+        const result = document.evaluate(selector.replace(/^xpath=/, ''), root, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+        const nodes: Node[] = [];
+        for (let i = 0; i < result.snapshotLength; i++) nodes.push(result.snapshotItem(i)!);
+        return nodes;
+    };
+
+    const read = (node: Node, attribute: string): string | null => {
+        if (!(node instanceof Element)) return node.nodeValue ?? node.textContent;
+        if (attribute === 'text') return node instanceof HTMLElement ? node.innerText : node.textContent;
+        if (attribute === 'html') return node.innerHTML;
+        if (attribute === 'value') return 'value' in node ? String((node as HTMLInputElement).value) : node.getAttribute('value');
+        const value = node.getAttribute(attribute);
+        if (value === null || !urlAttributes.includes(attribute)) return value;
+        try {
+            return new URL(value, document.baseURI).href;
+        } catch {
+            return value;
+        }
+    };
+
+    const readAll = (root: Document | Element, specs: FieldSpec[], topLevel: boolean): Record<string, unknown> => {
+        const out: Record<string, unknown> = {};
+        for (const spec of specs) {
+            if (topLevel && !spec.selector && (!spec.fields || spec.list)) continue;
+            const matches: Node[] = spec.selector ? query(root, spec.selector) : [root];
+            const value = (node: Node) => spec.fields
+                ? readAll(node instanceof Element || node instanceof Document ? node : root, spec.fields, topLevel && !spec.selector)
+                : read(node, spec.attribute);
+            out[spec.name] = spec.list ? matches.map(value) : matches.length > 0 ? value(matches[0]) : null;
+        }
+        return out;
+    };
+
+    return readAll(document, fields, true);
+}
+
+/** Page-side: JSON-LD blocks, microdata `itemprop` values and meta tags */
+export function readStructuredData(): StructuredData {
+    const jsonLd: unknown[] = [];
+    document.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+        try {
+            jsonLd.push(JSON.parse(script.textContent || ''));
+        } catch {
+            // Ignore malformed blocks
+        }
+    });
+    const microdata: Record<string, string> = {};
+    document.querySelectorAll('[itemprop]').forEach(el => {
+        const name = el.getAttribute('itemprop')!;
+        if (name in microdata) return;
+        const value = el.getAttribute('content') ?? el.getAttribute('datetime') ?? (el instanceof HTMLElement ? el.innerText : el.textContent);
+        if (value) microdata[name] = value;
+    });
+    const meta: Record<string, string> = {};
+    document.querySelectorAll('meta').forEach(el => {
+        const name = el.getAttribute('name') || el.getAttribute('property');
+        const content = el.getAttribute('content');
+        if (name && content) meta[name] = content;
+    });
+    return { jsonLd, microdata, meta };
+}
+
+/**
+ * Top-level fields without a selector, and lists without one, come from
+ * structured data; an object without a selector groups fields of the page.
+ */
+function fromStructuredData(spec: FieldSpec): boolean {
+    return !spec.selector && (!spec.fields || spec.list);
+}
+
+/** Whether any field is looked up in structured data rather than read by selector */
+export function needsStructuredData(specs: FieldSpec[]): boolean {
+    return specs.some(spec => fromStructuredData(spec) || (!spec.selector && !!spec.fields && needsStructuredData(spec.fields)));
+}
+
+/**
+ * Turn raw page values into the record: look up selector-less fields in
+ * structured data, apply transforms, check required fields and the schema.
+ * A field that fails is null in `data` and has an entry in `errors`.
+ */
+export function buildRecord(
+    specs: FieldSpec[],
+    raw: Record<string, unknown>,
+    structured?: StructuredData,
+): { data: Record<string, unknown>, errors: ExtractFieldError[] } {
+    const errors: ExtractFieldError[] = [];
+    const data = buildObject(specs, raw, structured, '', errors);
+    return { data, errors };
+}
+
+function buildObject(
+    specs: FieldSpec[],
+    raw: Record<string, unknown>,
+    structured: StructuredData | undefined,
+    prefix: string,
+    errors: ExtractFieldError[],
+): Record<string, unknown> {
+    const data: Record<string, unknown> = {};
+    for (const spec of specs) {
+        const path = prefix ? `${prefix}.${spec.name}` : spec.name;
+        let value = raw[spec.name];
+        const found = value === undefined && structured ? lookupStructured(spec, structured) : undefined;
+        if (found !== undefined) value = found;
+        data[spec.name] = buildValue(spec, value ?? null, found !== undefined, structured, path, errors);
+    }
+    return data;
+}
+
+function buildValue(
+    spec: FieldSpec,
+    value: unknown,
+    fromJsonLd: boolean,
+    structured: StructuredData | undefined,
+    path: string,
+    errors: ExtractFieldError[],
+): unknown {
+    const missing = spec.selector ? `No element matches "${spec.selector}"` : 'Not found in the page\'s structured data';
+    if (spec.list) {
+        const items = value === null ? [] : Array.isArray(value) ? value : [value];
+        const itemSchema = spec.fields ? undefined : spec.schema?.items;
+        const built = items.map((item, i) => {
+            const itemPath = `${path}[${i}]`;
+            const builtItem = buildItem(spec, item, fromJsonLd, structured, itemPath, errors);
+            const problem = itemSchema && builtItem !== null ? checkSchema(builtItem, itemSchema) : null;
+            return problem ? fail(errors, itemPath, problem) : builtItem;
+        });
+        if (spec.required && built.length === 0) return fail(errors, path, missing);
+        return validate(spec, built, path, errors);
+    }
+    const built = buildItem(spec, value, fromJsonLd, structured, path, errors);
+    if (spec.required && (built === null || built === '')) {
+        // A transform error already explains a null
+        if (!errors.some(error => error.field === path)) errors.push({ field: path, message: missing });
+        return null;
+    }
+    return validate(spec, built, path, errors);
+}
+
+function buildItem(
+    spec: FieldSpec,
+    item: unknown,
+    fromJsonLd: boolean,
+    structured: StructuredData | undefined,
+    path: string,
+    errors: ExtractFieldError[],
+): unknown {
+    if (spec.fields) {
+        if (item === null || typeof item !== 'object') return null;
+        // Objects from JSON-LD are searched like a page of their own
+        if (fromJsonLd) return buildObject(spec.fields, {}, { jsonLd: [item], microdata: {}, meta: {} }, path, errors);
+        return buildObject(spec.fields, item as Record<string, unknown>, structured, path, errors);
+    }
+    if (item === null || item === undefined) return null;
+    try {
+        return applyTransforms(item, spec.transforms);
+    } catch (err) {
+        return fail(errors, path, err instanceof Error ? err.message : String(err));
+    }
+}
+
+function fail(errors: ExtractFieldError[], field: string, message: string): null {
+    errors.push({ field, message });
+    return null;
+}
+
+export function applyTransforms(value: unknown, transforms: ExtractTransform[]): unknown {
+    let current: unknown = value;
+    for (const transform of transforms) {
+        const text = String(current);
+        switch (transform) {
+            case 'trim':
+                current = typeof current === 'string' ? current.replace(/\s+/g, ' ').trim() : current;
+                break;
+            case 'lowercase':
+                current = text.toLowerCase();
+                break;
+            case 'uppercase':
+                current = text.toUpperCase();
+                break;
+            case 'number':
+            case 'integer': {
+                const number = typeof current === 'number' ? current : parseNumber(text);
+                if (number === null) throw new Error(`Cannot read ${JSON.stringify(text)} as a number`);
+                if (transform === 'integer' && !Number.isInteger(number)) throw new Error(`Expected a whole number, got ${JSON.stringify(text)}`);
+                current = number;
+                break;
+            }
+            case 'date': {
+                const time = Date.parse(text);
+                if (Number.isNaN(time)) throw new Error(`Cannot read ${JSON.stringify(text)} as a date`);
+                current = new Date(time).toISOString();
+                break;
+            }
+            case 'boolean': {
+                const word = text.trim().toLowerCase();
+                if (['true', 'yes', '1', 'on', 'checked', 'instock', 'in stock'].includes(word)) current = true;
+                else if (['false', 'no', '0', 'off', '', 'outofstock', 'out of stock'].includes(word)) current = false;
+                else throw new Error(`Cannot read ${JSON.stringify(text)} as a boolean`);
+                break;
+            }
+        }
+    }
+    return current;
+}
+
+/** The first number in text such as "$1,299.99" or "4.5 out of 5" */
+function parseNumber(text: string): number | null {
+    const match = /-?\d[\d,]*(?:\.\d+)?|-?\.\d+/.exec(text);
+    if (!match) return null;
+    const number = Number(match[0].replace(/,/g, ''));
+    return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * A field's value from structured data: the shallowest JSON-LD key with its
+ * name (case-insensitive), then microdata `itemprop`, then meta tags
+ * (`name`, `og:name`, `product:name`)
+ */
+function lookupStructured(spec: FieldSpec, structured: StructuredData): unknown {
+    const key = spec.name.toLowerCase();
+    let level: unknown[] = structured.jsonLd;
+    while (level.length > 0) {
+        const next: unknown[] = [];
+        for (const node of level) {
+            if (Array.isArray(node)) {
+                next.push(...node);
+                continue;
+            }
+            if (!node || typeof node !== 'object') continue;
+            for (const [name, value] of Object.entries(node)) {
+                if (name.toLowerCase() === key && !name.startsWith('@')) return fromJsonLd(value, spec);
+                if (value && typeof value === 'object') next.push(value);
+            }
+        }
+        level = next;
+    }
+    const microdata = Object.entries(structured.microdata).find(([name]) => name.toLowerCase() === key)?.[1];
+    if (microdata !== undefined) return microdata;
+    const meta = Object.entries(structured.meta).find(([name]) => [key, `og:${key}`, `product:${key}`].includes(name.toLowerCase()))?.[1];
+    return meta;
+}
+
+/** Fit a JSON-LD value to the field: a Thing's name for a plain value, one item unless it is a list */
+function fromJsonLd(value: unknown, spec: FieldSpec): unknown {
+    const items = Array.isArray(value) ? value : [value];
+    const fit = (item: unknown) => {
+        if (spec.fields || !item || typeof item !== 'object') return item;
+        const thing = item as Record<string, unknown>;
+        return thing['@value'] ?? thing.name ?? thing.value ?? thing['@id'] ?? null;
+    };
+    return spec.list ? items.map(fit) : fit(items[0]);
+}
+
+function validate(spec: FieldSpec, value: unknown, path: string, errors: ExtractFieldError[]): unknown {
+    if (!spec.schema || value === null) return value;
+    const problem = checkSchema(value, spec.schema);
+    return problem ? fail(errors, path, problem) : value;
+}
+
+/**
+ * The first way `value` breaks the schema's own keywords (type, enum, bounds,
+ * pattern); properties and items are checked as fields of their own
+ */
+function checkSchema(value: unknown, schema: ExtractJsonSchema): string | null {
+    const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+    const typeOk = types.length === 0 || types.some(type =>
+        type === actual || (type === 'integer' && Number.isInteger(value)) || (type === 'number' && actual === 'number'));
+    if (!typeOk) return `Expected ${types.join(' or ')}, got ${JSON.stringify(value)}`;
+    if (schema.enum && !schema.enum.some(option => option === value)) {
+        return `Expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}`;
+    }
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) return `Expected at least ${schema.minimum}, got ${value}`;
+        if (schema.maximum !== undefined && value > schema.maximum) return `Expected at most ${schema.maximum}, got ${value}`;
+    }
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) return `Expected at least ${schema.minLength} characters, got ${JSON.stringify(value)}`;
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) return `Expected at most ${schema.maxLength} characters, got ${JSON.stringify(value)}`;
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) return `Expected to match /${schema.pattern}/, got ${JSON.stringify(value)}`;
+    }
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) return `Expected at least ${schema.minItems} items, got ${value.length}`;
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) return `Expected at most ${schema.maxItems} items, got ${value.length}`;
+    }
+    return null;
+}
+
+/**
+ * Read `specs` from an open Puppeteer or Playwright page
+ */
+export async function extractFromPage(
+    page: any,
+    specs: FieldSpec[],
+): Promise<{ data: Record<string, unknown>, errors: ExtractFieldError[] }> {
+    const raw = await page.evaluate(readFields, { fields: specs }) as Record<string, unknown>;
+    const structured = needsStructuredData(specs) ? await page.evaluate(readStructuredData) as StructuredData : undefined;
+    return buildRecord(specs, raw, structured);
+}
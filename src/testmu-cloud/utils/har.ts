@@ -0,0 +1,213 @@
+import pkg from '../../../package.json';
+
+// -------------------- HAR 1.2 --------------------
+// http://www.softwareishard.com/blog/har-12-spec/
+
+export interface HarNameValue {
+    name: string;
+    value: string;
+}
+
+export interface HarPostData {
+    mimeType: string;
+    text: string;
+}
+
+export interface HarRequest {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: HarPostData;
+    headersSize: number;
+    bodySize: number;
+}
+
+export interface HarContent {
+    size: number;
+    mimeType: string;
+    text?: string;
+    encoding?: 'base64';
+}
+
+export interface HarResponse {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: HarContent;
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+}
+
+export interface HarTimings {
+    blocked: number;
+    dns: number;
+    connect: number;
+    send: number;
+    wait: number;
+    receive: number;
+    ssl: number;
+}
+
+export interface HarEntry {
+    startedDateTime: string;
+    time: number;
+    request: HarRequest;
+    response: HarResponse;
+    cache: Record<string, never>;
+    timings: HarTimings;
+    serverIPAddress?: string;
+    /** Resource type reported by the browser (document, script, xhr, ...) */
+    _resourceType?: string;
+    /** Network error for requests that never got a response */
+    _failureText?: string;
+}
+
+export interface Har {
+    log: {
+        version: '1.2';
+        creator: { name: string; version: string };
+        entries: HarEntry[];
+    };
+}
+
+/**
+ * Wrap entries in a HAR 1.2 document, ordered by start time.
+ */
+export function createHar(entries: HarEntry[]): Har {
+    return {
+        log: {
+            version: '1.2',
+            creator: { name: pkg.name, version: pkg.version },
+            entries: [...entries].sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime)),
+        },
+    };
+}
+
+/**
+ * Convert a header map to HAR headers. CDP joins repeated headers with "\n".
+ */
+export function toHarHeaders(headers: Record<string, string> | undefined): HarNameValue[] {
+    const result: HarNameValue[] = [];
+    for (const [name, value] of Object.entries(headers || {})) {
+        for (const part of String(value).split('\n')) {
+            result.push({ name, value: part });
+        }
+    }
+    return result;
+}
+
+export function toHarQueryString(url: string): HarNameValue[] {
+    try {
+        return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+    } catch {
+        return [];
+    }
+}
+
+export function findHarHeader(headers: HarNameValue[], name: string): string | undefined {
+    const lower = name.toLowerCase();
+    return headers.find(h => h.name.toLowerCase() === lower)?.value;
+}
+
+/** Map a CDP/ALPN protocol id (h2, http/1.1, h3) to a HAR httpVersion. */
+export function toHarHttpVersion(protocol: string | undefined): string {
+    if (!protocol) return 'HTTP/1.1';
+    const p = protocol.toLowerCase();
+    if (p === 'h2') return 'HTTP/2.0';
+    if (p === 'h3' || p.startsWith('h3-')) return 'HTTP/3';
+    return protocol.toUpperCase();
+}
+
+/**
+ * HAR timings from CDP `Response.timing` (ms offsets from `requestTime` in seconds).
+ * `finishedTimestamp` is the monotonic `loadingFinished` timestamp in seconds.
+ */
+export function harTimingsFromCdp(timing: any, finishedTimestamp?: number): HarTimings {
+    if (!timing) {
+        return { blocked: -1, dns: -1, connect: -1, send: 0, wait: 0, receive: 0, ssl: -1 };
+    }
+    const firstStart = [timing.dnsStart, timing.connectStart, timing.sendStart].find((t: number) => t >= 0) ?? 0;
+    const receiveEnd = finishedTimestamp !== undefined
+        ? (finishedTimestamp - timing.requestTime) * 1000
+        : timing.receiveHeadersEnd;
+    return {
+        blocked: firstStart,
+        dns: timing.dnsStart >= 0 ? timing.dnsEnd - timing.dnsStart : -1,
+        connect: timing.connectStart >= 0 ? timing.connectEnd - timing.connectStart : -1,
+        ssl: timing.sslStart >= 0 ? timing.sslEnd - timing.sslStart : -1,
+        send: Math.max(0, timing.sendEnd - timing.sendStart),
+        wait: Math.max(0, timing.receiveHeadersEnd - timing.sendEnd),
+        receive: Math.max(0, receiveEnd - timing.receiveHeadersEnd),
+    };
+}
+
+/**
+ * HAR timings from Playwright `request.timing()` (ms offsets from `startTime`, -1 when unavailable).
+ */
+export function harTimingsFromPlaywright(timing: any): HarTimings {
+    const requestStart = timing.requestStart >= 0 ? timing.requestStart : 0;
+    const responseStart = timing.responseStart >= 0 ? timing.responseStart : requestStart;
+    return {
+        blocked: -1,
+        dns: timing.domainLookupStart >= 0 ? timing.domainLookupEnd - timing.domainLookupStart : -1,
+        connect: timing.connectStart >= 0 ? timing.connectEnd - timing.connectStart : -1,
+        ssl: timing.secureConnectionStart >= 0 ? timing.connectEnd - timing.secureConnectionStart : -1,
+        send: 0,
+        wait: Math.max(0, responseStart - requestStart),
+        receive: timing.responseEnd >= 0 ? Math.max(0, timing.responseEnd - responseStart) : 0,
+    };
+}
+
+/** Total entry time — sum of the known phases (ssl is already part of connect). */
+export function harTotalTime(timings: HarTimings): number {
+    return [timings.blocked, timings.dns, timings.connect, timings.send, timings.wait, timings.receive]
+        .filter(t => t > 0)
+        .reduce((sum, t) => sum + t, 0);
+}
+
+/**
+ * HAR content for a response body. Binary bodies are stored base64-encoded.
+ */
+export function toHarContent(body: Buffer | string | null, mimeType: string, base64Encoded = false): HarContent {
+    if (body === null) return { size: 0, mimeType };
+    if (typeof body === 'string') {
+        if (base64Encoded) {
+            return { size: Buffer.from(body, 'base64').length, mimeType, text: body, encoding: 'base64' };
+        }
+        return { size: Buffer.byteLength(body), mimeType, text: body };
+    }
+    if (isTextMimeType(mimeType)) {
+        return { size: body.length, mimeType, text: body.toString('utf-8') };
+    }
+    return { size: body.length, mimeType, text: body.toString('base64'), encoding: 'base64' };
+}
+
+function isTextMimeType(mimeType: string): boolean {
+    return /^text\/|[+/](json|xml|javascript|ecmascript|x-www-form-urlencoded)\b|^image\/svg/.test(mimeType.toLowerCase());
+}
+
+/** Decode a HAR response body for replay. */
+export function harContentBody(content: HarContent): Buffer {
+    if (!content.text) return Buffer.alloc(0);
+    return content.encoding === 'base64' ? Buffer.from(content.text, 'base64') : Buffer.from(content.text);
+}
+
+/**
+ * Find the recorded entry for a request: same method and URL, preferring an
+ * entry with the same POST body. Entries that never got a response are skipped.
+ */
+export function findHarEntry(entries: HarEntry[], method: string, url: string, postData?: string): HarEntry | undefined {
+    const candidates = entries.filter(e =>
+        e.response.status > 0 &&
+        e.request.method.toUpperCase() === method.toUpperCase() &&
+        e.request.url === url,
+    );
+    if (candidates.length <= 1 || postData === undefined) return candidates[0];
+    return candidates.find(e => e.request.postData?.text === postData) || candidates[0];
+}
@@ -0,0 +1,227 @@
+/**
+ * Markdown from a `DomNode` snapshot: headings, lists, tables, links, images
+ * and fenced code, with navigation, footers and form controls left out.
+ */
+
+import { DomNode, isBlock, textOf } from './dom-tree';
+
+/** Site chrome and controls: never page content */
+const NOISE_TAGS = new Set(['nav', 'footer', 'aside', 'button', 'input', 'select', 'textarea', 'option', 'label', 'dialog', 'video', 'audio']);
+const NOISE_ROLES = new Set(['navigation', 'contentinfo', 'banner', 'complementary', 'search', 'menu', 'menubar', 'dialog', 'alert']);
+
+interface Context {
+    /** Inside `<article>` or `<main>`, where a `<header>` belongs to the content */
+    inContent: boolean;
+}
+
+/**
+ * Convert `root` to Markdown. Pass the page's `<body>` or, to convert only part
+ * of a page, any element under it.
+ */
+export function domToMarkdown(root: DomNode): string {
+    return renderBlocks(root, { inContent: false }).join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function isNoise(node: DomNode, ctx: Context): boolean {
+    const attrs = node.attrs || {};
+    if (NOISE_TAGS.has(node.tag)) return true;
+    if (attrs.role && NOISE_ROLES.has(attrs.role)) return true;
+    if (attrs['aria-hidden'] === 'true') return true;
+    return node.tag === 'header' && !ctx.inContent;
+}
+
+/**
+ * Markdown blocks for a block element, with runs of inline children joined
+ * into paragraphs
+ */
+function renderBlocks(node: DomNode, ctx: Context): string[] {
+    if (isNoise(node, ctx)) return [];
+    switch (node.tag) {
+        case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+            const text = renderInline(node.children || [], ctx).replace(/\s*\n\s*/g, ' ').trim();
+            return text ? [`${'#'.repeat(Number(node.tag[1]))} ${text}`] : [];
+        }
+        case 'hr':
+            return ['---'];
+        case 'pre':
+            return [renderCodeBlock(node)];
+        case 'ul':
+        case 'ol':
+            return renderList(node, ctx);
+        case 'table':
+            return renderTable(node, ctx);
+        case 'blockquote': {
+            const inner = renderChildren(node, ctx).join('\n\n');
+            return inner ? [inner.split('\n').map(line => line ? `> ${line}` : '>').join('\n')] : [];
+        }
+        case 'dt': {
+            const term = renderInline(node.children || [], ctx).trim();
+            return term ? [`**${term}**`] : [];
+        }
+        default:
+            return renderChildren(node, ctx);
+    }
+}
+
+function renderChildren(node: DomNode, ctx: Context): string[] {
+    const inner: Context = { inContent: ctx.inContent || node.tag === 'article' || node.tag === 'main' };
+    const blocks: string[] = [];
+    let run: DomNode[] = [];
+    const flush = () => {
+        const paragraph = toParagraph(renderInline(run, inner));
+        if (paragraph) blocks.push(paragraph);
+        run = [];
+    };
+    for (const child of node.children || []) {
+        if (isBlock(child)) {
+            flush();
+            blocks.push(...renderBlocks(child, inner));
+        } else {
+            run.push(child);
+        }
+    }
+    flush();
+    return blocks;
+}
+
+/** Tidy the spaces in inline Markdown and keep `<br>` breaks as hard line breaks */
+function toParagraph(inline: string): string {
+    return inline.split('\n').map(line => escapeLineStart(line.replace(/ {2,}/g, ' ').trim())).filter(Boolean).join('  \n');
+}
+
+/** Text at the start of a line that Markdown would read as a heading, quote or list item */
+function escapeLineStart(line: string): string {
+    return line.replace(/^(#{1,6}\s|>|[-+*]\s)/, '\\$1').replace(/^(\d+)([.)]\s)/, '$1\\$2');
+}
+
+function renderInline(nodes: DomNode[], ctx: Context): string {
+    return nodes.map(node => inline(node, ctx)).join('');
+}
+
+function inline(node: DomNode, ctx: Context): string {
+    if (node.tag === '#text') return escapeText((node.text || '').replace(/\s+/g, ' '));
+    if (isNoise(node, ctx)) return '';
+    const attrs = node.attrs || {};
+    const children = () => renderInline(node.children || [], ctx);
+    switch (node.tag) {
+        case 'br':
+            return '\n';
+        case 'strong':
+        case 'b':
+            return wrap(children(), '**');
+        case 'em':
+        case 'i':
+            return wrap(children(), '*');
+        case 's':
+        case 'del':
+        case 'strike':
+            return wrap(children(), '~~');
+        case 'code':
+        case 'kbd':
+        case 'samp':
+            return inlineCode(textOf(node).replace(/\s+/g, ' '));
+        case 'img': {
+            if (!attrs.src || attrs.src.startsWith('data:')) return '';
+            return `![${escapeText((attrs.alt || '').replace(/\s+/g, ' ').trim())}](${escapeUrl(attrs.src)})`;
+        }
+        case 'a': {
+            const text = children();
+            const href = attrs.href;
+            if (!href || /^javascript:/i.test(href) || !text.trim()) return text;
+            const title = attrs.title ? ` "${attrs.title.replace(/"/g, '\\"')}"` : '';
+            return wrapWith(text.replace(/\s*\n\s*/g, ' '), '[', `](${escapeUrl(href)}${title})`);
+        }
+        default:
+            return children();
+    }
+}
+
+/** `mark` around the text, outside its leading and trailing spaces */
+function wrap(text: string, mark: string): string {
+    return wrapWith(text, mark, mark);
+}
+
+function wrapWith(text: string, open: string, close: string): string {
+    const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text);
+    if (!match || !match[2]) return text;
+    return `${match[1]}${open}${match[2]}${close}${match[3]}`;
+}
+
+function escapeText(text: string): string {
+    return text
+        .replace(/[\\*`[\]]/g, '\\$&')
+        // Underscores inside words (snake_case) can't start emphasis
+        .replace(/_/g, (underscore, i: number, s: string) => /\w/.test(s[i - 1] || '') && /\w/.test(s[i + 1] || '') ? underscore : '\\_');
+}
+
+function escapeUrl(url: string): string {
+    return url.replace(/[ ()]/g, c => encodeURIComponent(c).replace('(', '%28').replace(')', '%29'));
+}
+
+function inlineCode(code: string): string {
+    if (!code.trim()) return code;
+    const longest = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longest + 1);
+    const pad = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+    return `${fence}${pad}${code}${pad}${fence}`;
+}
+
+function renderCodeBlock(pre: DomNode): string {
+    const code = textOf(pre).replace(/^\n/, '').replace(/\s+$/, '');
+    const codeChild = (pre.children || []).find(child => child.tag === 'code');
+    const classes = `${pre.attrs?.class || ''} ${codeChild?.attrs?.class || ''}`;
+    const language = /(?:^|\s)(?:language|lang)-([\w+#-]+)/.exec(classes)?.[1] || '';
+    const longest = Math.max(0, ...(code.match(/^`{3,}/gm) || []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longest + 1));
+    return `${fence}${language}\n${code}\n${fence}`;
+}
+
+function renderList(list: DomNode, ctx: Context): string[] {
+    const items = (list.children || []).filter(child => child.tag === 'li' && !isNoise(child, ctx));
+    let number = Number.parseInt(list.attrs?.start || '1', 10);
+    if (Number.isNaN(number)) number = 1;
+    const lines = items.map(item => {
+        const marker = list.tag === 'ol' ? `${number++}.` : '-';
+        const content = renderChildren(item, ctx).join('\n');
+        const indent = ' '.repeat(marker.length + 1);
+        return `${marker} ${content.split('\n').map((line, i) => i === 0 || !line ? line : indent + line).join('\n')}`;
+    });
+    return lines.length ? [lines.join('\n')] : [];
+}
+
+/** Rows of a table, looking through thead/tbody/tfoot */
+function tableRows(table: DomNode): DomNode[] {
+    return (table.children || []).flatMap(child => {
+        if (child.tag === 'tr') return [child];
+        if (child.tag === 'thead' || child.tag === 'tbody' || child.tag === 'tfoot') {
+            return (child.children || []).filter(row => row.tag === 'tr');
+        }
+        return [];
+    });
+}
+
+function renderTable(table: DomNode, ctx: Context): string[] {
+    const rows = tableRows(table);
+    const hasNestedTable = (node: DomNode): boolean => (node.children || []).some(child => child.tag === 'table' || hasNestedTable(child));
+    // Tables used for page layout are converted as ordinary blocks
+    if (table.attrs?.role === 'presentation' || hasNestedTable(table)) {
+        return rows.flatMap(row => (row.children || []).flatMap(cell => renderChildren(cell, ctx)));
+    }
+
+    const grid = rows.map(row => (row.children || [])
+        .filter(cell => cell.tag === 'td' || cell.tag === 'th')
+        .flatMap(cell => {
+            const text = renderChildren(cell, ctx).join(' ').replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|');
+            const span = Math.max(1, Number.parseInt(cell.attrs?.colspan || '1', 10) || 1);
+            return [text, ...new Array(span - 1).fill('')];
+        }))
+        .filter(cells => cells.length > 0);
+    if (grid.length === 0) return [];
+
+    const columns = Math.max(...grid.map(cells => cells.length));
+    const line = (cells: string[]) => `| ${[...cells, ...new Array(columns - cells.length).fill('')].join(' | ')} |`;
+    const caption = (table.children || []).find(child => child.tag === 'caption');
+    const captionText = caption ? renderInline(caption.children || [], ctx).trim() : '';
+    const markdown = [line(grid[0]), line(new Array(columns).fill('---')), ...grid.slice(1).map(line)].join('\n');
+    return captionText ? [captionText, markdown] : [markdown];
+}
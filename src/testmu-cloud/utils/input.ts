@@ -0,0 +1,174 @@
+import { detectFramework } from './framework-detect';
+import { createCdpSession } from './cdp-session';
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/** Intermediate mouse moves of a drag — drag libraries ignore a single jump */
+const DEFAULT_DRAG_STEPS = 10;
+
+/** Key names by lowercase alias, including xdotool names (Return, Page_Down, super) */
+const KEY_ALIASES: Record<string, string> = {
+    ctrl: 'Control',
+    control: 'Control',
+    shift: 'Shift',
+    alt: 'Alt',
+    option: 'Alt',
+    opt: 'Alt',
+    meta: 'Meta',
+    cmd: 'Meta',
+    command: 'Meta',
+    super: 'Meta',
+    win: 'Meta',
+    enter: 'Enter',
+    return: 'Enter',
+    esc: 'Escape',
+    escape: 'Escape',
+    tab: 'Tab',
+    space: 'Space',
+    backspace: 'Backspace',
+    delete: 'Delete',
+    del: 'Delete',
+    insert: 'Insert',
+    home: 'Home',
+    end: 'End',
+    pageup: 'PageUp',
+    pagedown: 'PageDown',
+    up: 'ArrowUp',
+    down: 'ArrowDown',
+    left: 'ArrowLeft',
+    right: 'ArrowRight',
+    arrowup: 'ArrowUp',
+    arrowdown: 'ArrowDown',
+    arrowleft: 'ArrowLeft',
+    arrowright: 'ArrowRight',
+};
+
+/**
+ * Keys of a chord like `ctrl+shift+t` or `Control+A`, in press order.
+ * Aliases are case-insensitive; single characters are kept as-is and `+` on its own is the plus key.
+ */
+export function parseKeyChord(chord: string): string[] {
+    const text = chord.trim();
+    if (!text) throw new Error('Empty key chord');
+    const parts = text.split('+');
+    // "ctrl++" and "+" name the plus key itself
+    if (parts.length > 1 && parts[parts.length - 1] === '' && parts[parts.length - 2] === '') {
+        parts.splice(parts.length - 2, 2, '+');
+    }
+    return parts.map(part => {
+        const key = part.trim();
+        if (!key) throw new Error(`Invalid key chord "${chord}"`);
+        if (key.length === 1) return key;
+        const alias = KEY_ALIASES[key.toLowerCase().replace(/_/g, '')];
+        if (alias) return alias;
+        if (/^f([1-9]|1[0-9]|2[0-4])$/i.test(key)) return key.toUpperCase();
+        return key;
+    });
+}
+
+/**
+ * Press a chord: keys go down in order and come back up in reverse, so
+ * modifiers wrap the last key. With `holdMs`, the keys stay down that long.
+ */
+export async function pressKeyChord(page: any, chord: string, holdMs = 0): Promise<void> {
+    const keys = parseKeyChord(chord);
+    // Shift+letter types the capital letter, as on a real keyboard
+    const last = keys[keys.length - 1];
+    if (keys.includes('Shift') && /^[a-z]$/.test(last)) keys[keys.length - 1] = last.toUpperCase();
+    const pressed: string[] = [];
+    try {
+        for (const key of keys) {
+            await page.keyboard.down(key);
+            pressed.push(key);
+        }
+        if (holdMs > 0) await new Promise(resolve => setTimeout(resolve, holdMs));
+    } finally {
+        for (const key of pressed.reverse()) {
+            await page.keyboard.up(key);
+        }
+    }
+}
+
+/**
+ * Drag with the left button from one viewport point to another, in `steps` moves.
+ *
+ * Works for mouse-event drags (sliders, sortable lists, canvas) and HTML5
+ * drag-and-drop (`draggable` elements, drop zones). Playwright runs HTML5 drags
+ * itself; on Puppeteer the drag is intercepted over CDP and dropped with
+ * `Input.dispatchDragEvent`, so it never waits on a native OS drag loop.
+ * The button is released and interception turned off even when a step fails.
+ */
+export async function dragAndDrop(page: any, from: Point, to: Point, options: { steps?: number } = {}): Promise<void> {
+    const steps = Math.max(1, options.steps ?? DEFAULT_DRAG_STEPS);
+    if (detectFramework(page) === 'playwright') {
+        await mouseDrag(page, from, to, steps);
+        return;
+    }
+
+    let client: any;
+    try {
+        client = await createCdpSession(page);
+    } catch {
+        // No CDP (Firefox) — plain mouse events
+        await mouseDrag(page, from, to, steps);
+        return;
+    }
+
+    let dragData: any = null;
+    client.on('Input.dragIntercepted', (event: any) => { dragData = event.data; });
+    // Where the pointer was last sent, and whether any event went out
+    let last = from;
+    let moved = false;
+    const mouse = async (type: string, point: Point, buttons: number) => {
+        await client.send('Input.dispatchMouseEvent', {
+            type, x: point.x, y: point.y, button: type === 'mouseMoved' && !buttons ? 'none' : 'left', buttons, clickCount: 1,
+        });
+        last = point;
+        moved = true;
+    };
+    let intercepting = false;
+    let pressed = false;
+    try {
+        await client.send('Input.setInterceptDrags', { enabled: true });
+        intercepting = true;
+        await mouse('mouseMoved', from, 0);
+        await mouse('mousePressed', from, 1);
+        pressed = true;
+        for (let i = 1; i <= steps; i++) {
+            await mouse('mouseMoved', {
+                x: from.x + (to.x - from.x) * (i / steps),
+                y: from.y + (to.y - from.y) * (i / steps),
+            }, 1);
+        }
+        // An HTML5 drag started: the browser holds it until it is dropped
+        if (dragData) {
+            for (const type of ['dragEnter', 'dragOver', 'drop']) {
+                await client.send('Input.dispatchDragEvent', { type, x: to.x, y: to.y, data: dragData });
+            }
+        }
+        await client.send('Input.setInterceptDrags', { enabled: false });
+        intercepting = false;
+        await mouse('mouseReleased', to, 0);
+        pressed = false;
+    } finally {
+        if (intercepting) await client.send('Input.setInterceptDrags', { enabled: false }).catch(() => {});
+        if (pressed) await mouse('mouseReleased', last, 0).catch(() => {});
+        try { await client.detach(); } catch { /* already detached */ }
+        // These events bypassed page.mouse, which still has the old position; move it to where the pointer is
+        if (moved) await page.mouse.move(last.x, last.y).catch(() => {});
+    }
+}
+
+/** Drag with `page.mouse`, releasing the button if a move fails */
+async function mouseDrag(page: any, from: Point, to: Point, steps: number): Promise<void> {
+    await page.mouse.move(from.x, from.y);
+    await page.mouse.down();
+    try {
+        await page.mouse.move(to.x, to.y, { steps });
+    } finally {
+        await page.mouse.up();
+    }
+}
@@ -0,0 +1,190 @@
+/**
+ * Minimal PNG codec for screenshots: 8-bit, non-interlaced grayscale, RGB and
+ * RGBA images, which is what browsers produce. Pixels are handled as RGBA.
+ */
+
+import zlib from 'zlib';
+
+export interface RgbaImage {
+    width: number;
+    height: number;
+    /** width * height * 4 bytes, row by row */
+    data: Uint8Array;
+}
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Channels per pixel of each supported color type */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+/**
+ * Decode a PNG to RGBA pixels. Throws for anything but an 8-bit,
+ * non-interlaced grayscale, RGB or RGBA PNG.
+ */
+export function decodePng(png: Buffer): RgbaImage {
+    if (png.length < 8 || !png.subarray(0, 8).equals(SIGNATURE)) throw new Error('Not a PNG image');
+    let width = 0;
+    let height = 0;
+    let channels = 0;
+    const idat: Buffer[] = [];
+    for (let offset = 8; offset + 8 <= png.length;) {
+        const length = png.readUInt32BE(offset);
+        const type = png.toString('ascii', offset + 4, offset + 8);
+        const body = png.subarray(offset + 8, offset + 8 + length);
+        if (type === 'IHDR') {
+            width = body.readUInt32BE(0);
+            height = body.readUInt32BE(4);
+            const [bitDepth, colorType, , , interlace] = body.subarray(8, 13);
+            channels = CHANNELS[colorType] ?? 0;
+            if (bitDepth !== 8 || !channels || interlace !== 0) {
+                throw new Error(`Unsupported PNG: bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace}`);
+            }
+        } else if (type === 'IDAT') {
+            idat.push(body);
+        } else if (type === 'IEND') {
+            break;
+        }
+        offset += 12 + length;
+    }
+    if (!channels) throw new Error('PNG has no IHDR chunk');
+
+    const raw = zlib.inflateSync(Buffer.concat(idat));
+    const stride = width * channels;
+    const pixels = new Uint8Array(stride * height);
+    for (let y = 0; y < height; y++) {
+        const filter = raw[y * (stride + 1)];
+        const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+        unfilterRow(filter, row, pixels, y * stride, stride, channels);
+    }
+
+    const data = new Uint8Array(width * height * 4);
+    for (let i = 0, o = 0; i < pixels.length; i += channels, o += 4) {
+        const gray = channels <= 2;
+        data[o] = pixels[i];
+        data[o + 1] = gray ? pixels[i] : pixels[i + 1];
+        data[o + 2] = gray ? pixels[i] : pixels[i + 2];
+        data[o + 3] = channels === 4 ? pixels[i + 3] : channels === 2 ? pixels[i + 1] : 255;
+    }
+    return { width, height, data };
+}
+
+/** Undo the scanline filter of `row` into `out` at `start` (the previous row sits just before it) */
+function unfilterRow(filter: number, row: Uint8Array, out: Uint8Array, start: number, stride: number, bpp: number): void {
+    for (let x = 0; x < stride; x++) {
+        const left = x >= bpp ? out[start + x - bpp] : 0;
+        const up = start > 0 ? out[start + x - stride] : 0;
+        const upLeft = start > 0 && x >= bpp ? out[start + x - stride - bpp] : 0;
+        let predictor: number;
+        switch (filter) {
+            case 0: predictor = 0; break;
+            case 1: predictor = left; break;
+            case 2: predictor = up; break;
+            case 3: predictor = (left + up) >> 1; break;
+            case 4: predictor = paeth(left, up, upLeft); break;
+            default: throw new Error(`Invalid PNG filter type ${filter}`);
+        }
+        out[start + x] = (row[x] + predictor) & 0xff;
+    }
+}
+
+function paeth(a: number, b: number, c: number): number {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) return a;
+    return pb <= pc ? b : c;
+}
+
+/**
+ * Encode RGBA pixels as a PNG. Rows use the Up filter, which suits
+ * screenshots' large flat areas.
+ */
+export function encodePng(image: RgbaImage): Buffer {
+    const stride = image.width * 4;
+    const raw = Buffer.alloc((stride + 1) * image.height);
+    for (let y = 0; y < image.height; y++) {
+        const out = y * (stride + 1);
+        raw[out] = 2;
+        for (let x = 0; x < stride; x++) {
+            const up = y > 0 ? image.data[(y - 1) * stride + x] : 0;
+            raw[out + 1 + x] = (image.data[y * stride + x] - up) & 0xff;
+        }
+    }
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(image.width, 0);
+    header.writeUInt32BE(image.height, 4);
+    header.set([8, 6, 0, 0, 0], 8);
+    return Buffer.concat([
+        SIGNATURE,
+        chunk('IHDR', header),
+        chunk('IDAT', zlib.deflateSync(raw)),
+        chunk('IEND', Buffer.alloc(0)),
+    ]);
+}
+
+function chunk(type: string, body: Buffer): Buffer {
+    const out = Buffer.alloc(12 + body.length);
+    out.writeUInt32BE(body.length, 0);
+    out.write(type, 4, 'ascii');
+    body.copy(out, 8);
+    out.writeUInt32BE(crc32(out.subarray(4, 8 + body.length)), 8 + body.length);
+    return out;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Scale an image to `width`x`height`, averaging the source pixels each target
+ * pixel covers (a box filter), one axis at a time.
+ */
+export function resizeRgba(image: RgbaImage, width: number, height: number): RgbaImage {
+    const wide = resampleAxis(image.data, image.width, image.height, width, true);
+    return { width, height, data: resampleAxis(wide, width, image.height, height, false) };
+}
+
+/** Resample rows (`horizontal`) or columns of a `srcWidth`x`srcHeight` RGBA buffer to `size` pixels */
+function resampleAxis(src: Uint8Array, srcWidth: number, srcHeight: number, size: number, horizontal: boolean): Uint8Array {
+    const srcSize = horizontal ? srcWidth : srcHeight;
+    const lines = horizontal ? srcHeight : srcWidth;
+    const outWidth = horizontal ? size : srcWidth;
+    const out = new Uint8Array(outWidth * (horizontal ? srcHeight : size) * 4);
+    if (srcSize === size) {
+        out.set(src);
+        return out;
+    }
+    const ratio = srcSize / size;
+    const sums = new Float64Array(4);
+    for (let line = 0; line < lines; line++) {
+        for (let i = 0; i < size; i++) {
+            const start = i * ratio;
+            const end = start + ratio;
+            sums.fill(0);
+            let total = 0;
+            for (let s = Math.floor(start); s < end && s < srcSize; s++) {
+                const weight = Math.min(end, s + 1) - Math.max(start, s);
+                if (weight <= 0) continue;
+                const p = (horizontal ? line * srcWidth + s : s * srcWidth + line) * 4;
+                for (let c = 0; c < 4; c++) sums[c] += src[p + c] * weight;
+                total += weight;
+            }
+            const o = (horizontal ? line * outWidth + i : i * outWidth + line) * 4;
+            for (let c = 0; c < 4; c++) out[o + c] = Math.round(sums[c] / total);
+        }
+    }
+    return out;
+}
@@ -0,0 +1,297 @@
+/**
+ * Main-article extraction from a `DomNode` snapshot, after Mozilla Readability:
+ * paragraphs score their ancestors, the best-scoring element (with related
+ * siblings) becomes the article, and link-heavy or negatively-named blocks are
+ * cleaned out of it. Title, byline, date, lead image and excerpt come from the
+ * page's meta tags first and the article markup second.
+ */
+
+import { ScrapeArticle } from '../types.js';
+import { DomNode, domToHtml, domToText, isBlock, textOf } from './dom-tree';
+import { domToMarkdown } from './html-to-markdown';
+
+export interface ArticlePage {
+    /** `document.title` */
+    title: string;
+    url: string;
+    /** Meta tags by `name` or `property` (matched case-insensitively), as collected by scrape */
+    metadata: Record<string, string>;
+}
+
+const UNLIKELY_CANDIDATES = /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+const NEGATIVE = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+const BYLINE = /byline|author|dateline|writtenby|p-author/i;
+
+const CHROME_TAGS = new Set(['nav', 'footer', 'aside', 'button', 'input', 'select', 'textarea', 'option', 'label', 'dialog', 'video', 'audio']);
+const CHROME_ROLES = new Set(['navigation', 'contentinfo', 'banner', 'complementary', 'search', 'menu', 'menubar', 'dialog', 'alert', 'alertdialog']);
+const SCORED_TAGS = new Set(['p', 'pre', 'td', 'h2', 'h3', 'h4', 'h5', 'h6']);
+/** Attributes kept in the article HTML, besides a code block's `language-*` class */
+const CONTENT_ATTRIBUTES = ['href', 'src', 'alt', 'title', 'colspan', 'start', 'datetime'];
+
+/** Number of ancestors a paragraph's score is shared with */
+const ANCESTOR_LEVELS = 5;
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/**
+ * Find the main article under `body` (from `serializeDom`). Pages without an
+ * `<article>` element work the same way: whichever element holds the most
+ * paragraph text wins.
+ */
+export function extractArticle(body: DomNode, page: ArticlePage): ScrapeArticle {
+    const extraction = new Extraction();
+    const pruned = extraction.prune(body) || { tag: 'body', attrs: {}, children: [] };
+    const content = extraction.clean({ tag: 'article', attrs: {}, children: extraction.selectContent(pruned) });
+    const metadata = new Map(Object.entries(page.metadata).map(([name, value]) => [name.toLowerCase(), value.trim()]));
+    const meta = (...names: string[]) => names.map(name => metadata.get(name)).find(Boolean);
+
+    const textContent = domToText(content);
+    const firstParagraph = findFirst(content, node => node.tag === 'p' && textLength(node) > 0);
+    const firstImage = findFirst(content, node => node.tag === 'img' && !!node.attrs?.src);
+    const leadImage = meta('og:image', 'og:image:url', 'og:image:secure_url', 'twitter:image', 'twitter:image:src') || firstImage?.attrs?.src;
+    const authorMeta = meta('author', 'dc.creator', 'parsely-author', 'article:author', 'sailthru.author');
+
+    return {
+        title: meta('og:title', 'twitter:title', 'dc.title') || cleanTitle(page.title) || textOf(findFirst(pruned, node => node.tag === 'h1') || { tag: 'h1' }).trim(),
+        byline: (authorMeta && !/^https?:\/\//.test(authorMeta) ? authorMeta : undefined) || extraction.byline,
+        publishedTime: meta('article:published_time', 'og:published_time', 'parsely-pub-date', 'dc.date', 'dc.date.issued', 'date', 'pubdate', 'publish-date', 'sailthru.date')
+            || extraction.publishedTime,
+        leadImage: leadImage ? resolveUrl(leadImage, page.url) : undefined,
+        excerpt: meta('og:description', 'description', 'twitter:description') || (firstParagraph ? normalize(textOf(firstParagraph)) : undefined),
+        siteName: meta('og:site_name', 'application-name'),
+        html: (content.children || []).map(domToHtml).join(''),
+        markdown: domToMarkdown(content),
+        textContent,
+        wordCount: (textContent.match(/\S+/g) || []).length,
+    };
+}
+
+/** Per-extraction state: element scores, and the byline and date found on the way */
+class Extraction {
+    byline?: string;
+    publishedTime?: string;
+    private scores = new Map<DomNode, number>();
+    private parents = new Map<DomNode, DomNode>();
+
+    /**
+     * Copy of the tree without site chrome or unlikely candidates (comments,
+     * sidebars, share bars...). Records the byline and first `<time>` it passes.
+     */
+    prune(node: DomNode): DomNode | null {
+        if (node.tag === '#text') return node;
+        const attrs = node.attrs || {};
+        const signature = `${attrs.class || ''} ${attrs.id || ''}`;
+        if (CHROME_TAGS.has(node.tag) || CHROME_ROLES.has(attrs.role || '') || attrs['aria-hidden'] === 'true') return null;
+        if (!this.publishedTime && (attrs.itemprop === 'datePublished' || node.tag === 'time') && attrs.datetime) {
+            this.publishedTime = attrs.datetime;
+        }
+        if (this.isByline(node, signature)) {
+            this.byline = normalize(textOf(node));
+            return null;
+        }
+        const isContainer = node.tag === 'body' || node.tag === 'article' || node.tag === 'main';
+        if (!isContainer && node.tag !== 'a' && UNLIKELY_CANDIDATES.test(signature) && !MAYBE_CANDIDATE.test(signature)) {
+            return null;
+        }
+
+        const copy: DomNode = { tag: node.tag, attrs, children: [] };
+        for (const child of node.children || []) {
+            const kept = this.prune(child);
+            if (kept) {
+                copy.children!.push(kept);
+                this.parents.set(kept, copy);
+            }
+        }
+        return copy;
+    }
+
+    private isByline(node: DomNode, signature: string): boolean {
+        if (this.byline) return false;
+        const attrs = node.attrs || {};
+        const marked = attrs.rel === 'author' || (attrs.itemprop || '').includes('author') || BYLINE.test(signature);
+        if (!marked) return false;
+        const length = normalize(textOf(node)).length;
+        return length > 0 && length < 100;
+    }
+
+    /**
+     * Score paragraphs into their ancestors and return the winner plus any
+     * siblings that look like part of the same article.
+     */
+    selectContent(root: DomNode): DomNode[] {
+        walk(root, node => {
+            const scored = SCORED_TAGS.has(node.tag) || ((node.tag === 'div' || node.tag === 'section') && !(node.children || []).some(isBlock));
+            if (!scored) return;
+            const text = normalize(textOf(node));
+            if (text.length < MIN_PARAGRAPH_LENGTH) return;
+            const score = 1 + text.split(/[,，、]/).length + Math.min(Math.floor(text.length / 100), 3);
+            let ancestor = this.parents.get(node);
+            for (let level = 0; ancestor && level < ANCESTOR_LEVELS; level++) {
+                const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+                this.scores.set(ancestor, this.initialScore(ancestor) + score / divider);
+                ancestor = this.parents.get(ancestor);
+            }
+        });
+
+        let top: DomNode | undefined;
+        let topScore = 0;
+        for (const [node, score] of this.scores) {
+            const adjusted = score * (1 - linkDensity(node));
+            this.scores.set(node, adjusted);
+            if (adjusted > topScore) {
+                top = node;
+                topScore = adjusted;
+            }
+        }
+        if (!top) return [root];
+
+        // A lone child's parent holds the same content plus whatever wraps it
+        while (top !== root) {
+            const parent = this.parents.get(top);
+            if (!parent || parent.tag === 'body' || (parent.children || []).filter(child => child.tag !== '#text' || normalize(child.text || '')).length !== 1) break;
+            top = parent;
+        }
+
+        const parent = this.parents.get(top);
+        if (!parent) return [top];
+        const threshold = Math.max(10, topScore * 0.2);
+        return (parent.children || []).filter(sibling => {
+            if (sibling === top) return true;
+            if (sibling.tag === '#text') return false;
+            const bonus = sibling.attrs?.class !== undefined && sibling.attrs.class === top!.attrs?.class ? topScore * 0.2 : 0;
+            if ((this.scores.get(sibling) || 0) + bonus >= threshold) return true;
+            if (sibling.tag !== 'p') return false;
+            const length = textLength(sibling);
+            const density = linkDensity(sibling);
+            return (length > 80 && density < 0.25) || (length > 0 && density === 0 && /\.( |$)/.test(normalize(textOf(sibling))));
+        });
+    }
+
+    private initialScore(node: DomNode): number {
+        const existing = this.scores.get(node);
+        if (existing !== undefined) return existing;
+        let score = classWeight(node);
+        if (node.tag === 'div' || node.tag === 'article') score += 5;
+        else if (['pre', 'td', 'blockquote'].includes(node.tag)) score += 3;
+        else if (['address', 'ol', 'ul', 'dl', 'dd', 'dt', 'li', 'form'].includes(node.tag)) score -= 3;
+        else if (['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'th'].includes(node.tag)) score -= 5;
+        return score;
+    }
+
+    /**
+     * Copy of the article with only content attributes, and without blocks
+     * that look like link lists, galleries or widgets rather than content
+     */
+    clean(node: DomNode): DomNode {
+        const attrs: Record<string, string> = {};
+        for (const name of CONTENT_ATTRIBUTES) {
+            const value = node.attrs?.[name];
+            if (value !== undefined) attrs[name] = value;
+        }
+        const language = /(?:^|\s)((?:language|lang)-[\w+#-]+)/.exec(node.attrs?.class || '')?.[1];
+        if (language && (node.tag === 'pre' || node.tag === 'code')) attrs.class = language;
+        const children = (node.children || [])
+            .filter(child => !this.isClutter(child))
+            .map(child => child.tag === '#text' ? child : this.clean(child));
+        return { tag: node.tag, attrs, children };
+    }
+
+    private isClutter(node: DomNode): boolean {
+        if (node.tag === '#text') return false;
+        if (node.tag === 'p') return textLength(node) === 0 && !findFirst(node, child => child.tag === 'img');
+        if (!['div', 'section', 'form', 'fieldset', 'table', 'ul', 'ol'].includes(node.tag)) return false;
+        if (node.tag === 'table' && isDataTable(node)) return false;
+
+        const weight = classWeight(node);
+        if (weight + (this.scores.get(node) || 0) < 0) return true;
+        const text = normalize(textOf(node));
+        if (text.split(',').length > 10) return false;
+
+        const count = (tag: string) => countAll(node, tag);
+        const paragraphs = count('p');
+        const images = count('img');
+        const density = linkDensity(node);
+        if (images > 1 && paragraphs / images < 0.5) return true;
+        if (weight < 25 && density > 0.2 && text.length < 500) return true;
+        if (density > 0.5) return true;
+        // Short lists are content, and short divs without blocks are paragraphs written as divs
+        const container = node.tag !== 'ul' && node.tag !== 'ol' && (node.children || []).some(isBlock);
+        return container && text.length < MIN_PARAGRAPH_LENGTH && (images === 0 || images > 2) && !findFirst(node, child => /^h[1-6]$/.test(child.tag));
+    }
+}
+
+/** +25 / -25 for class and id names that suggest content or clutter */
+function classWeight(node: DomNode): number {
+    let weight = 0;
+    for (const name of [node.attrs?.class, node.attrs?.id]) {
+        if (!name) continue;
+        if (NEGATIVE.test(name)) weight -= 25;
+        if (POSITIVE.test(name)) weight += 25;
+    }
+    return weight;
+}
+
+/** Tables with headers or captions hold data rather than layout */
+function isDataTable(table: DomNode): boolean {
+    return !!findFirst(table, node => node.tag === 'th' || node.tag === 'thead' || node.tag === 'caption');
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const textLength = (node: DomNode) => normalize(textOf(node)).length;
+
+/** Share of the text that sits in links */
+function linkDensity(node: DomNode): number {
+    const length = textLength(node);
+    if (length === 0) return 0;
+    let linked = 0;
+    walk(node, child => {
+        if (child.tag === 'a') {
+            linked += textLength(child);
+            return false;
+        }
+    });
+    return linked / length;
+}
+
+/** Visit `node` and its descendants depth-first; returning false skips a node's children */
+function walk(node: DomNode, visit: (node: DomNode) => boolean | void): void {
+    if (visit(node) === false) return;
+    for (const child of node.children || []) walk(child, visit);
+}
+
+function findFirst(node: DomNode, match: (node: DomNode) => boolean): DomNode | undefined {
+    let found: DomNode | undefined;
+    walk(node, child => {
+        if (found) return false;
+        if (child !== node && match(child)) {
+            found = child;
+            return false;
+        }
+    });
+    return found;
+}
+
+function countAll(node: DomNode, tag: string): number {
+    let count = 0;
+    walk(node, child => {
+        if (child !== node && child.tag === tag) count++;
+    });
+    return count;
+}
+
+/** Drop a trailing " | Site Name" when enough of a title is left */
+function cleanTitle(title: string): string {
+    const trimmed = normalize(title);
+    const head = trimmed.replace(/\s[|\-–—/>»:]{1,2}\s[^|–—/>»]*$/, '');
+    return head !== trimmed && head.split(' ').length >= 3 ? head : trimmed;
+}
+
+function resolveUrl(url: string, base: string): string {
+    try {
+        return new URL(url, base).href;
+    } catch {
+        return url;
+    }
+}
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+import { SessionEvent } from '../types.js';
+
+/** rrweb event types used to pick the player or the fallback timeline */
+const FULL_SNAPSHOT = 2;
+const META = 4;
+
+export interface ReplayHtmlOptions {
+    /** Page title (default: "Session replay <sessionId>") */
+    title?: string;
+}
+
+let playerAssets: { script: string, style: string } | null = null;
+
+/**
+ * Load the rrweb-player UMD bundle and stylesheet. Only the CJS/ESM entries and
+ * the stylesheet are exported, so the UMD bundle is located next to them on disk.
+ */
+function loadPlayerAssets(): { script: string, style: string } {
+    if (!playerAssets) {
+        const stylePath = require.resolve('rrweb-player/dist/style.css');
+        const scriptPath = path.join(path.dirname(stylePath), '..', 'umd', 'rrweb-player.min.js');
+        playerAssets = {
+            script: fs.readFileSync(scriptPath, 'utf-8'),
+            style: fs.readFileSync(stylePath, 'utf-8'),
+        };
+    }
+    return playerAssets;
+}
+
+/** Keep embedded text from closing its <script>/<style> element early. */
+function escapeForTag(source: string, tag: 'script' | 'style'): string {
+    return source.replace(new RegExp(`</(${tag})`, 'gi'), '<\\/$1');
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Build a single, offline HTML file that replays a session recording.
+ *
+ * The rrweb player, its stylesheet and the events are all inlined. Recordings
+ * without a full DOM snapshot (e.g. only the recording-start marker and custom
+ * events) can't be rendered by rrweb, so they get a scrubbable event timeline instead.
+ */
+export function buildReplayHtml(sessionId: string, events: SessionEvent[], options: ReplayHtmlOptions = {}): string {
+    const { script, style } = loadPlayerAssets();
+    const title = options.title || `Session replay ${sessionId}`;
+    const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+    const playable = sorted.some(e => e.type === FULL_SNAPSHOT) && sorted.some(e => e.type === META);
+    // JSON is valid JS; escaping "<" keeps "</script>" inside recorded text from ending the tag
+    const eventsJson = JSON.stringify(sorted).replace(/</g, '\\u003c');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${escapeForTag(style, 'style')}</style>
+<style>
+    body { margin: 0; padding: 24px; background: #f4f5f7; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1f2328; }
+    h1 { font-size: 18px; margin: 0 0 4px; }
+    .summary { font-size: 13px; color: #57606a; margin-bottom: 16px; }
+    #player { display: inline-block; }
+    #timeline { display: none; max-width: 960px; background: #fff; border-radius: 6px; padding: 16px; box-shadow: 0 1px 3px rgba(0,0,0,.12); }
+    #timeline input[type=range] { width: 100%; }
+    #timeline .clock { font-variant-numeric: tabular-nums; font-size: 13px; margin: 8px 0; }
+    #timeline ol { list-style: none; padding: 0; margin: 0; max-height: 420px; overflow: auto; font-size: 13px; }
+    #timeline li { padding: 6px 8px; border-bottom: 1px solid #eaeef2; cursor: pointer; }
+    #timeline li.past { color: #1f2328; }
+    #timeline li.future { color: #8c959f; }
+    #timeline li.current { background: #ddf4ff; }
+    #timeline pre { margin: 4px 0 0; white-space: pre-wrap; word-break: break-all; font-size: 12px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="summary" id="summary"></div>
+<div id="player"></div>
+<div id="timeline">
+    <input type="range" id="scrubber" min="0" value="0" step="1">
+    <div class="clock" id="clock"></div>
+    <ol id="event-list"></ol>
+</div>
+<script>${escapeForTag(script, 'script')}</script>
+<script>
+(function () {
+    var events = ${eventsJson};
+    var playable = ${playable};
+    var TYPE_NAMES = { 0: 'DomContentLoaded', 1: 'Load', 2: 'FullSnapshot', 3: 'IncrementalSnapshot', 4: 'Meta', 5: 'Custom', 6: 'Plugin' };
+    var start = events.length ? events[0].timestamp : 0;
+    var end = events.length ? events[events.length - 1].timestamp : 0;
+
+    function formatOffset(ms) {
+        var total = Math.max(0, Math.round(ms / 1000));
+        var m = Math.floor(total / 60), s = total % 60;
+        return m + ':' + (s < 10 ? '0' : '') + s;
+    }
+
+    document.getElementById('summary').textContent =
+        events.length + ' events' +
+        (events.length ? ' \\u00b7 ' + formatOffset(end - start) + ' \\u00b7 recorded ' + new Date(start).toLocaleString() : '');
+
+    if (playable) {
+        var Player = window.rrwebPlayer && (window.rrwebPlayer.default || window.rrwebPlayer);
+        new Player({
+            target: document.getElementById('player'),
+            props: {
+                events: events,
+                width: Math.min(window.innerWidth - 48, 1280),
+                height: Math.min(window.innerHeight - 200, 720),
+                autoPlay: false,
+                showController: true,
+            },
+        });
+        return;
+    }
+
+    // No full snapshot — rrweb can't render the page, show a scrubbable event timeline instead
+    var timeline = document.getElementById('timeline');
+    var scrubber = document.getElementById('scrubber');
+    var clock = document.getElementById('clock');
+    var list = document.getElementById('event-list');
+    timeline.style.display = 'block';
+    scrubber.max = String(end - start);
+
+    var items = events.map(function (event) {
+        var li = document.createElement('li');
+        var label = TYPE_NAMES[event.type] || ('Type ' + event.type);
+        if (event.type === 5 && event.data && event.data.tag) label += ': ' + event.data.tag;
+        li.textContent = '[' + formatOffset(event.timestamp - start) + '] ' + label;
+        var pre = document.createElement('pre');
+        pre.textContent = JSON.stringify(event.data);
+        li.appendChild(pre);
+        li.addEventListener('click', function () { seek(event.timestamp - start); });
+        list.appendChild(li);
+        return li;
+    });
+
+    function seek(offset) {
+        scrubber.value = String(offset);
+        clock.textContent = formatOffset(offset) + ' / ' + formatOffset(end - start);
+        var current = -1;
+        events.forEach(function (event, i) {
+            if (event.timestamp - start <= offset) current = i;
+        });
+        items.forEach(function (li, i) {
+            li.className = i === current ? 'current' : (i < current ? 'past' : 'future');
+        });
+    }
+
+    scrubber.addEventListener('input', function () { seek(Number(scrubber.value)); });
+    seek(0);
+})();
+</script>
+</body>
+</html>
+`;
+}
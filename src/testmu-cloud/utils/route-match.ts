@@ -0,0 +1,86 @@
+/**
+ * URL/method/resource-type matching shared by Puppeteer and Playwright routes,
+ * so a route behaves the same on both frameworks.
+ */
+
+export interface RouteMatcher {
+    /**
+     * URL to match. A RegExp is tested against the full URL. A string containing
+     * `*` or `{` is a glob matched against the full URL (`*` = any chars except "/",
+     * `**` = any chars, `{a,b}` = alternatives). Any other string matches URLs containing it.
+     */
+    url?: string | RegExp;
+    /** HTTP method(s), case-insensitive */
+    method?: string | string[];
+    /** Resource type(s): document, stylesheet, image, media, font, script, xhr, fetch, websocket, other, ... */
+    resourceType?: string | string[];
+}
+
+export interface MatchableRequest {
+    url: string;
+    method: string;
+    resourceType: string;
+}
+
+export function isGlob(pattern: string): boolean {
+    return /[*{]/.test(pattern);
+}
+
+/**
+ * Convert a URL glob to an anchored RegExp.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let inGroup = false;
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        if (c === '*') {
+            if (glob[i + 1] === '*') {
+                source += '.*';
+                i++;
+            } else {
+                source += '[^/]*';
+            }
+        } else if (c === '{') {
+            inGroup = true;
+            source += '(?:';
+        } else if (c === '}' && inGroup) {
+            inGroup = false;
+            source += ')';
+        } else if (c === ',' && inGroup) {
+            source += '|';
+        } else {
+            source += c.replace(/[.+?^$()|[\]\\/]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+export function matchesUrl(pattern: string | RegExp | undefined, url: string): boolean {
+    if (pattern === undefined) return true;
+    if (pattern instanceof RegExp) {
+        // Reset stateful (g/y) regexes so repeated tests don't skip matches
+        pattern.lastIndex = 0;
+        return pattern.test(url);
+    }
+    if (isGlob(pattern)) return globToRegExp(pattern).test(url);
+    return url.includes(pattern);
+}
+
+function matchesOneOf(expected: string | string[] | undefined, actual: string): boolean {
+    if (expected === undefined) return true;
+    const list = Array.isArray(expected) ? expected : [expected];
+    return list.some(e => e.toLowerCase() === actual.toLowerCase());
+}
+
+export function matchesRoute(matcher: RouteMatcher, request: MatchableRequest): boolean {
+    return matchesUrl(matcher.url, request.url)
+        && matchesOneOf(matcher.method, request.method)
+        && matchesOneOf(matcher.resourceType, request.resourceType);
+}
+
+/** Human-readable form of a URL pattern, for listings. */
+export function describeUrlPattern(pattern: string | RegExp | undefined): string {
+    if (pattern === undefined) return '**';
+    return pattern instanceof RegExp ? pattern.toString() : pattern;
+}
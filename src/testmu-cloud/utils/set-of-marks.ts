@@ -0,0 +1,51 @@
+/**
+ * Page-side "set of marks" overlay: numbered boxes drawn over elements for
+ * annotated screenshots. The functions run in the page through `page.evaluate`
+ * with a single argument, which both Puppeteer and Playwright support.
+ */
+
+export const MARKS_OVERLAY_ID = '__testmu_set_of_marks__';
+
+export interface Mark {
+    label: string;
+    /** Viewport coordinates in CSS pixels */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Distinct colors, cycled so neighbouring marks are told apart */
+export const MARK_COLORS = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#008080', '#f032e6', '#9a6324', '#800000', '#000075'];
+
+/**
+ * Draw `marks` in an overlay appended to the document element. Boxes are placed
+ * in document coordinates so they stay put in full-page captures.
+ */
+export function drawMarks({ id, marks, colors }: { id: string, marks: Mark[], colors: string[] }): void {
+    document.getElementById(id)?.remove();
+    const overlay = document.createElement('div');
+    overlay.id = id;
+    // rrweb's default block and ignore classes keep the overlay out of session recordings
+    overlay.className = 'rr-block rr-ignore';
+    overlay.setAttribute('style', 'position:absolute;left:0;top:0;width:0;height:0;overflow:visible;pointer-events:none;z-index:2147483647;');
+    marks.forEach((mark, i) => {
+        const color = colors[i % colors.length];
+        const left = mark.x + window.scrollX;
+        const top = mark.y + window.scrollY;
+        const box = document.createElement('div');
+        box.setAttribute('style', `position:absolute;box-sizing:border-box;left:${left}px;top:${top}px;width:${mark.width}px;height:${mark.height}px;border:2px solid ${color};`);
+        const label = document.createElement('div');
+        label.textContent = mark.label;
+        // Above the box when there's room, inside its top-left corner otherwise
+        const labelTop = mark.y >= 16 ? top - 16 : top;
+        label.setAttribute('style', `position:absolute;left:${left}px;top:${labelTop}px;height:16px;padding:0 3px;background:${color};color:#fff;font:bold 11px/16px monospace;white-space:nowrap;`);
+        overlay.appendChild(box);
+        overlay.appendChild(label);
+    });
+    document.documentElement.appendChild(overlay);
+}
+
+export function removeMarks(id: string): void {
+    document.getElementById(id)?.remove();
+}
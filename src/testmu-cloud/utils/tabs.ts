@@ -0,0 +1,92 @@
+import { detectFramework } from './framework-detect';
+import { createCdpSession } from './cdp-session';
+
+export interface TabInfo {
+    /** CDP target id on Chromium; the tab's position (`tab_2`) elsewhere */
+    id: string;
+    url: string;
+    title: string;
+    /** The tab the caller is working in */
+    active: boolean;
+}
+
+const targetIds = new WeakMap<object, string>();
+
+/**
+ * Stable id of a tab. On Chromium this is the page's CDP target id, so the same
+ * tab has the same id in every process connected to the browser. Without CDP
+ * (Firefox/WebKit) it is the tab's position among the open pages, which every
+ * process sees alike but which shifts when an earlier tab closes.
+ * Pass `pages` when the caller already listed them.
+ */
+export async function getTabId(page: any, pages?: any[]): Promise<string> {
+    const targetId = await getTargetId(page);
+    if (targetId) return targetId;
+    const open = pages ?? await listPages(page).catch(() => [page]);
+    return `tab_${open.indexOf(page) + 1}`;
+}
+
+async function getTargetId(page: any): Promise<string | undefined> {
+    const cached = targetIds.get(page);
+    if (cached) return cached;
+    let id: string | undefined;
+    let session: any;
+    try {
+        session = await createCdpSession(page);
+        const { targetInfo } = await session.send('Target.getTargetInfo');
+        id = targetInfo?.targetId;
+    } catch {
+        // No CDP (Firefox/WebKit, or the page is closing)
+    } finally {
+        if (session) {
+            try { await session.detach(); } catch { /* already detached */ }
+        }
+    }
+    if (id) targetIds.set(page, id);
+    return id;
+}
+
+/**
+ * Open pages of a Puppeteer Browser or BrowserContext, a Playwright Browser or
+ * BrowserContext, or of the browser (Puppeteer) / context (Playwright) a page belongs to.
+ */
+export async function listPages(source: any): Promise<any[]> {
+    if (typeof source.url === 'function') {
+        source = detectFramework(source) === 'playwright' ? source.context() : source.browser();
+    }
+    if (typeof source.contexts === 'function') {
+        return source.contexts().flatMap((context: any) => context.pages());
+    }
+    return await source.pages();
+}
+
+/** Pages with their tab id, url and title; `active` marks `activePage` */
+export async function describeTabs(pages: any[], activePage?: any): Promise<TabInfo[]> {
+    return Promise.all(pages.map(async page => ({
+        id: await getTabId(page, pages),
+        url: page.url(),
+        title: await page.title().catch(() => ''),
+        active: page === activePage,
+    })));
+}
+
+/**
+ * The open page with tab id `id`, or null. A positional id points at another
+ * tab once an earlier one closed, so given the tab's last known `url`, the page
+ * on that url wins over a positional match on a different one.
+ */
+export async function findPageByTabId(pages: any[], id: string, url?: string): Promise<any | null> {
+    let match: any = null;
+    for (const page of pages) {
+        if (await getTabId(page, pages) === id) {
+            match = page;
+            break;
+        }
+    }
+    if (!url || !isPositionalId(id) || match?.url() === url) return match;
+    return pages.find(page => page.url() === url) ?? match;
+}
+
+function isPositionalId(id: string): boolean {
+    return /^tab_\d+$/.test(id);
+}
@@ -0,0 +1,114 @@
+/**
+ * Polling and network-idle waits shared by page waits, with a timeout error
+ * that says what was awaited and what the page looked like at the end.
+ */
+
+export interface PollResult {
+    done: boolean;
+    /** What was seen on this poll, reported when the wait times out */
+    state?: unknown;
+}
+
+export interface PollOptions {
+    /** Human-readable condition, e.g. `text "Saved" to appear` */
+    condition: string;
+    timeout: number;
+    interval: number;
+}
+
+/**
+ * Thrown when a wait condition isn't met in time. `lastState` is what the last
+ * poll saw (an element state, the current URL, the requests still in flight...).
+ */
+export class WaitTimeoutError extends Error {
+    readonly condition: string;
+    readonly timeout: number;
+    readonly elapsed: number;
+    readonly lastState?: unknown;
+
+    constructor(condition: string, timeout: number, elapsed: number, lastState?: unknown) {
+        const last = lastState === undefined ? '' : ` (last: ${typeof lastState === 'string' ? lastState : JSON.stringify(lastState)})`;
+        super(`Timed out after ${timeout}ms waiting for ${condition}${last}`);
+        this.name = 'WaitTimeoutError';
+        this.condition = condition;
+        this.timeout = timeout;
+        this.elapsed = elapsed;
+        this.lastState = lastState;
+    }
+
+    toJSON(): { error: string, condition: string, timeout: number, elapsed: number, lastState?: unknown } {
+        return { error: this.message, condition: this.condition, timeout: this.timeout, elapsed: this.elapsed, lastState: this.lastState };
+    }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run `check` every `interval` ms until it reports done, and return the elapsed ms.
+ * A check that throws (e.g. while the page navigates) counts as not done. A slow
+ * check is cut off at the deadline rather than stretching the timeout.
+ */
+export async function pollUntil(check: () => Promise<PollResult>, options: PollOptions): Promise<number> {
+    const started = Date.now();
+    const deadline = started + options.timeout;
+    let lastState: unknown;
+    for (;;) {
+        let cutOff: ReturnType<typeof setTimeout> | undefined;
+        const result = await Promise.race([
+            check().catch((err: unknown): PollResult => ({ done: false, state: err instanceof Error ? err.message : String(err) })),
+            new Promise<null>(resolve => { cutOff = setTimeout(() => resolve(null), Math.max(0, deadline - Date.now())); }),
+        ]);
+        clearTimeout(cutOff);
+        if (result?.done) return Date.now() - started;
+        if (result && result.state !== undefined) lastState = result.state;
+        const left = deadline - Date.now();
+        if (left <= 0) throw new WaitTimeoutError(options.condition, options.timeout, Date.now() - started, lastState);
+        await sleep(Math.min(options.interval, left));
+    }
+}
+
+/**
+ * Wait until no requests have been in flight for `idleTime` ms. Only requests
+ * seen after the wait starts are counted, so call it right after the action
+ * that triggers them. Works with Puppeteer and Playwright pages, which emit the
+ * same request events.
+ */
+export async function waitForNetworkIdle(
+    page: any,
+    options: { idleTime: number, timeout: number },
+): Promise<number> {
+    const condition = `network to be idle for ${options.idleTime}ms`;
+    const inflight = new Set<any>();
+    const started = Date.now();
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+    let settle = () => {};
+
+    const done = new Promise<void>((resolve, reject) => {
+        settle = () => {
+            if (idleTimer) clearTimeout(idleTimer);
+            idleTimer = inflight.size === 0 ? setTimeout(resolve, options.idleTime) : undefined;
+        };
+        timeoutTimer = setTimeout(() => {
+            const pending = [...inflight].map(request => request.url()).slice(0, 5);
+            reject(new WaitTimeoutError(condition, options.timeout, Date.now() - started, { inflight: inflight.size, requests: pending }));
+        }, options.timeout);
+    });
+    const onRequest = (request: any) => { inflight.add(request); settle(); };
+    const onDone = (request: any) => { inflight.delete(request); settle(); };
+
+    page.on('request', onRequest);
+    page.on('requestfinished', onDone);
+    page.on('requestfailed', onDone);
+    settle();
+    try {
+        await done;
+        return Date.now() - started;
+    } finally {
+        if (idleTimer) clearTimeout(idleTimer);
+        if (timeoutTimer) clearTimeout(timeoutTimer);
+        page.off('request', onRequest);
+        page.off('requestfinished', onDone);
+        page.off('requestfailed', onDone);
+    }
+}